@@ -0,0 +1,48 @@
+/**
+ * CLI Agent
+ * Creates the Agent SDK instance of the commands that work without the server
+ */
+import { createAgent, getConfig } from "@deepractice-ai/agent-sdk";
+import type { Agent, AgentConfig, Config, McpServerConfig } from "@deepractice-ai/agent-sdk";
+
+/**
+ * Workspace of a command: --project, PROJECT_PATH, then the current directory
+ */
+export function resolveWorkspace(project?: string): string {
+  return project || process.env.PROJECT_PATH || process.cwd();
+}
+
+/**
+ * Create and initialize an agent on the workspace, loading its session history
+ * Session database and MCP servers come from the same config as the server's agents,
+ * so commands see and delete the sessions the server stored
+ * Logs stay off the console, stdout belongs to the command output
+ */
+export async function startAgent(
+  workspace: string,
+  config: Omit<AgentConfig, "workspace" | "logger"> = {}
+): Promise<Agent> {
+  const serverConfig = await getConfig();
+  const agent = createAgent({
+    databasePath: serverConfig.databasePath,
+    mcpServers: mcpServers(serverConfig),
+    ...config,
+    workspace,
+    logger: { level: "error", console: false },
+  });
+  await agent.initialize();
+  return agent;
+}
+
+/**
+ * MCP servers of the config, stdio servers get the environment of the process (as in the server)
+ */
+function mcpServers(config: Config): Record<string, McpServerConfig> {
+  const servers = config.mcpServers as Record<string, McpServerConfig>;
+  return Object.fromEntries(
+    Object.entries(servers).map(([name, server]) => [
+      name,
+      "command" in server ? { ...server, env: { ...process.env, ...server.env } } : server,
+    ])
+  );
+}
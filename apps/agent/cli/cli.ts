@@ -8,6 +8,14 @@ import { readFileSync } from "fs";
 import { fileURLToPath } from "url";
 import { dirname, join } from "path";
 import { httpCommand } from "./commands/http.js";
+import { runCommand } from "./commands/run.js";
+import {
+  sessionsDeleteCommand,
+  sessionsExportCommand,
+  sessionsListCommand,
+  sessionsPruneCommand,
+  sessionsShowCommand,
+} from "./commands/sessions.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -35,4 +43,67 @@ program
   .option("--anthropic-base-url <url>", "Anthropic API base URL")
   .action(httpCommand);
 
+// Headless Run Command
+program
+  .command("run")
+  .description("Send a prompt to the agent and print the answer, without the server")
+  .argument("[prompt]", "Prompt to send, read from stdin when omitted or '-'")
+  .option("--stdin", "Append stdin to the prompt argument")
+  .option("--session <id>", "Continue this session instead of starting a new one")
+  .option("--model <model>", "Model for a new session")
+  .option("--system-prompt <prompt>", "System prompt instead of the default one")
+  .option("--max-turns <n>", "Stop the run after this many model responses")
+  .option("--output <format>", "Output format: text, json or stream-json", "text")
+  .option("--project <path>", "Project directory path (default: PROJECT_PATH or current dir)")
+  .option("--anthropic-api-key <key>", "Anthropic API key")
+  .option("--anthropic-base-url <url>", "Anthropic API base URL")
+  .action(runCommand);
+
+// Sessions Commands
+const sessions = program
+  .command("sessions")
+  .description("Manage the sessions of a workspace, without the server");
+
+sessions
+  .command("list")
+  .description("List sessions, newest first")
+  .option("--limit <n>", "Number of sessions to list", "20")
+  .option("--output <format>", "Output format: table or json", "table")
+  .option("--project <path>", "Project directory path (default: PROJECT_PATH or current dir)")
+  .action(sessionsListCommand);
+
+sessions
+  .command("show")
+  .description("Show the details and messages of a session")
+  .argument("<id>", "Session ID")
+  .option("--output <format>", "Output format: table or json", "table")
+  .option("--project <path>", "Project directory path (default: PROJECT_PATH or current dir)")
+  .action(sessionsShowCommand);
+
+sessions
+  .command("export")
+  .description("Export the full transcript of a session")
+  .argument("<id>", "Session ID")
+  .option("--format <format>", "Export format: json or markdown", "json")
+  .option("--out <file>", "Write to this file instead of stdout")
+  .option("--project <path>", "Project directory path (default: PROJECT_PATH or current dir)")
+  .action(sessionsExportCommand);
+
+sessions
+  .command("delete")
+  .description("Delete a session and its transcript")
+  .argument("<id>", "Session ID")
+  .option("--output <format>", "Output format: table or json", "table")
+  .option("--project <path>", "Project directory path (default: PROJECT_PATH or current dir)")
+  .action(sessionsDeleteCommand);
+
+sessions
+  .command("prune")
+  .description("Delete sessions without activity for a while")
+  .requiredOption("--older-than <duration>", "Minimum age of the last activity, e.g. 30d, 12h, 2w")
+  .option("--dry-run", "List the sessions that would be deleted, delete nothing")
+  .option("--output <format>", "Output format: table or json", "table")
+  .option("--project <path>", "Project directory path (default: PROJECT_PATH or current dir)")
+  .action(sessionsPruneCommand);
+
 program.parse();
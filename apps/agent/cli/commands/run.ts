@@ -0,0 +1,192 @@
+/**
+ * Run Command
+ * Sends one prompt to the agent without the server and prints the answer
+ * For scripts, shell pipelines and git hooks: the exit code tells whether the run succeeded
+ */
+import { AgentError } from "@deepractice-ai/agent-sdk";
+import type { Agent, BudgetExceeded, Session, SessionEvent } from "@deepractice-ai/agent-sdk";
+import { resolveWorkspace, startAgent } from "../agent.js";
+import type { RunCommandOptions, RunOutputFormat } from "../types.js";
+
+const OUTPUT_FORMATS: RunOutputFormat[] = ["text", "json", "stream-json"];
+
+/**
+ * Prompt of the run: the argument, stdin without one (or with "-"), both with --stdin
+ * `git diff | agentx run --stdin "Review this diff"` sends both
+ * stdin is only read when asked for, an open stdin without data (CI, nohup) never ends
+ */
+async function readPrompt(prompt: string | undefined, stdin = false): Promise<string> {
+  const parts = prompt && prompt !== "-" ? [prompt] : [];
+
+  if ((parts.length === 0 || stdin) && !process.stdin.isTTY) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+      chunks.push(chunk as Buffer);
+    }
+    const input = Buffer.concat(chunks).toString("utf-8").trim();
+    if (input) {
+      parts.push(input);
+    }
+  }
+
+  return parts.join("\n\n");
+}
+
+function parseMaxTurns(value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const maxTurns = Number(value);
+  if (!Number.isInteger(maxTurns) || maxTurns <= 0) {
+    throw new Error(`--max-turns must be a positive integer, got "${value}"`);
+  }
+  return maxTurns;
+}
+
+/**
+ * Print the progress of a run as SDK messages arrive
+ * text: the answer on stdout, tool calls on stderr so pipes only get the answer
+ * stream-json: every SDK message as one JSON line
+ * json: nothing until the run is done
+ */
+function printProgress(output: RunOutputFormat, sdkMessage: any): void {
+  if (output === "stream-json") {
+    // Token deltas would flood the stream, complete messages follow them
+    if (sdkMessage.type !== "stream_event") {
+      process.stdout.write(JSON.stringify(sdkMessage) + "\n");
+    }
+    return;
+  }
+
+  // Subagent messages, their Task call is shown already
+  if (output !== "text" || sdkMessage.type !== "assistant" || sdkMessage.parent_tool_use_id) {
+    return;
+  }
+  for (const block of sdkMessage.message?.content || []) {
+    if (block.type === "text" && block.text) {
+      process.stdout.write(block.text.endsWith("\n") ? block.text : block.text + "\n");
+    } else if (block.type === "tool_use") {
+      process.stderr.write(`🔧 ${block.name} ${summarizeInput(block.input)}\n`);
+    }
+  }
+}
+
+function summarizeInput(input: Record<string, unknown> = {}): string {
+  const text = JSON.stringify(input);
+  return text.length > 120 ? `${text.substring(0, 117)}...` : text;
+}
+
+/**
+ * Last answer of the run, from its SDK result message
+ */
+function describeResult(session: Session | null, result: any) {
+  return {
+    sessionId: session?.id ?? result?.session_id ?? null,
+    result: typeof result?.result === "string" ? result.result : "",
+    numTurns: result?.num_turns ?? 0,
+    durationMs: result?.duration_ms ?? 0,
+    usage: result?.usage ?? null,
+    sessionCost: session ? session.getCost().cost : null, // The whole session, resumed ones included
+  };
+}
+
+/**
+ * Run Command Handler
+ */
+export async function runCommand(
+  prompt: string | undefined,
+  options: RunCommandOptions
+): Promise<void> {
+  let agent: Agent | null = null;
+  let session: Session | null = null;
+  let result: any = null;
+  let exceeded: BudgetExceeded | null = null;
+  const output = options.output;
+
+  try {
+    if (!OUTPUT_FORMATS.includes(output)) {
+      throw new Error(`--output must be one of ${OUTPUT_FORMATS.join(", ")}, got "${output}"`);
+    }
+    const maxTurns = parseMaxTurns(options.maxTurns);
+
+    const content = await readPrompt(prompt, options.stdin);
+    if (!content) {
+      throw new Error("No prompt: pass it as an argument or pipe it to stdin");
+    }
+
+    if (options.anthropicApiKey) {
+      process.env.ANTHROPIC_API_KEY = options.anthropicApiKey;
+    }
+    if (options.anthropicBaseUrl) {
+      process.env.ANTHROPIC_BASE_URL = options.anthropicBaseUrl;
+    }
+
+    const workspace = resolveWorkspace(options.project);
+    agent = await startAgent(workspace, {
+      ...(options.model && { model: options.model }),
+      ...(options.systemPrompt && { systemPrompt: options.systemPrompt }),
+      ...(maxTurns && { sessionBudget: { maxTurns } }),
+      // Nobody is there to answer permission requests
+      permissionMode: "bypassPermissions",
+    });
+
+    // This process runs a single session, so every event belongs to it
+    agent.sessions$().subscribe((event: SessionEvent) => {
+      if (event.type === "streaming") {
+        if (event.streamEvent.type === "result") {
+          result = event.streamEvent;
+        }
+        printProgress(output, event.streamEvent);
+      } else if (event.type === "budget_exceeded") {
+        exceeded = event.exceeded;
+      }
+    });
+
+    if (options.session) {
+      session = agent.getSession(options.session);
+      if (!session) {
+        throw new Error(`Session ${options.session} not found in ${workspace}`);
+      }
+      await session.send(content);
+    } else {
+      session = await agent.chat(content, { model: options.model });
+    }
+
+    // A run ending on its last allowed turn is fine, only one cut off for going past fails
+    if (exceeded && result?.subtype !== "success") {
+      throw new AgentError("aborted", `Stopped for going past ${maxTurns} turns (--max-turns)`);
+    }
+    if (result?.is_error) {
+      throw new AgentError("unknown", result.result || `Run failed (${result.subtype})`);
+    }
+
+    if (output === "json") {
+      process.stdout.write(
+        JSON.stringify({ ...describeResult(session, result), isError: false }) + "\n"
+      );
+    }
+    process.exitCode = 0;
+  } catch (error) {
+    const code = error instanceof AgentError ? error.code : "unknown";
+    const message = (error as Error).message;
+
+    if (output === "json") {
+      process.stdout.write(
+        JSON.stringify({
+          ...describeResult(session, result),
+          isError: true,
+          error: { code, message },
+        }) + "\n"
+      );
+    } else if (output === "stream-json") {
+      process.stdout.write(JSON.stringify({ type: "error", code, message }) + "\n");
+    }
+    console.error(`❌ ${message}`);
+    process.exitCode = 1;
+  } finally {
+    agent?.destroy();
+  }
+
+  // Claude processes and watchers of the agent would keep the process alive
+  process.exit(process.exitCode);
+}
@@ -0,0 +1,333 @@
+/**
+ * Sessions Commands
+ * List, show, export and delete the sessions of a workspace without the server
+ * Works on the same ~/.claude/projects history as the web UI
+ */
+import { writeFileSync } from "fs";
+import type { Agent, AnyMessage, Session } from "@deepractice-ai/agent-sdk";
+import { resolveWorkspace, startAgent } from "../agent.js";
+import type {
+  SessionsCommandOptions,
+  SessionsExportOptions,
+  SessionsListOptions,
+  SessionsPruneOptions,
+} from "../types.js";
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Run a command against the agent of the workspace, exit 1 if it fails
+ */
+async function withAgent(
+  options: SessionsCommandOptions,
+  command: (agent: Agent) => Promise<void> | void
+): Promise<void> {
+  let agent: Agent | null = null;
+  try {
+    if (options.output && !["table", "json"].includes(options.output)) {
+      throw new Error(`--output must be table or json, got "${options.output}"`);
+    }
+    agent = await startAgent(resolveWorkspace(options.project));
+    await command(agent);
+    process.exitCode = 0;
+  } catch (error) {
+    console.error(`❌ ${(error as Error).message}`);
+    process.exitCode = 1;
+  } finally {
+    agent?.destroy();
+  }
+
+  // Session watchers of the agent would keep the process alive
+  process.exit(process.exitCode);
+}
+
+function requireSession(agent: Agent, sessionId: string): Session {
+  const session = agent.getSession(sessionId);
+  if (!session) {
+    throw new Error(`Session ${sessionId} not found`);
+  }
+  return session;
+}
+
+/**
+ * Milliseconds of a duration like 30m, 12h, 7d or 2w
+ */
+function parseDuration(value: string): number {
+  const match = /^(\d+)([mhdw])$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid duration "${value}", use a number with m, h, d or w (e.g. 30d)`);
+  }
+  return Number(match[1]) * DURATION_UNITS[match[2]];
+}
+
+/**
+ * Time of the last message, the start time for sessions without messages
+ */
+function lastActivity(session: Session): Date {
+  const messages = session.getMessages();
+  return messages.length > 0
+    ? messages[messages.length - 1].timestamp
+    : session.getMetadata().startTime;
+}
+
+function describe(session: Session) {
+  const metadata = session.getMetadata();
+  return {
+    id: session.id,
+    summary: session.summary(),
+    model: metadata.model,
+    startTime: metadata.startTime,
+    messageCount: session.getMessageCount() ?? null, // null until a historical session is read
+    parentSessionId: metadata.parentSessionId ?? null,
+  };
+}
+
+function printJson(value: unknown): void {
+  process.stdout.write(JSON.stringify(value, null, 2) + "\n");
+}
+
+/**
+ * Columns padded to their widest cell, the last one left as it is
+ */
+function printTable(headers: string[], rows: string[][]): void {
+  const widths = headers.map((header, column) =>
+    Math.max(header.length, ...rows.map((row) => row[column].length))
+  );
+  for (const row of [headers, ...rows]) {
+    const cells = row.map((cell, column) =>
+      column === row.length - 1 ? cell : cell.padEnd(widths[column])
+    );
+    process.stdout.write(cells.join("  ") + "\n");
+  }
+}
+
+function truncate(text: string, length: number): string {
+  const line = text.replace(/\s+/g, " ").trim();
+  return line.length > length ? `${line.substring(0, length - 3)}...` : line;
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().replace("T", " ").substring(0, 16);
+}
+
+/**
+ * One line per message, for show
+ */
+function messageLine(message: AnyMessage): string {
+  switch (message.type) {
+    case "tool_use":
+      return `🔧 ${message.toolName} ${truncate(JSON.stringify(message.toolInput), 100)}`;
+    case "system":
+      return `⚙️  ${message.subtype}`;
+    default:
+      return `${message.type}: ${truncate(message.content, 100)}`;
+  }
+}
+
+/**
+ * Markdown transcript, for export --format markdown
+ */
+function toMarkdown(session: Session, messages: AnyMessage[]): string {
+  const metadata = session.getMetadata();
+  const lines = [
+    `# ${session.summary()}`,
+    "",
+    `- Session: \`${session.id}\``,
+    `- Model: ${metadata.model}`,
+    `- Started: ${metadata.startTime.toISOString()}`,
+    "",
+  ];
+
+  for (const message of messages) {
+    switch (message.type) {
+      case "user":
+        lines.push("## User", "", message.content, "");
+        break;
+      case "assistant":
+        lines.push("## Assistant", "", message.content, "");
+        break;
+      case "thinking":
+        lines.push("<details><summary>Thinking</summary>", "", message.content, "</details>", "");
+        break;
+      case "tool_use":
+        lines.push(
+          `**Tool: ${message.toolName}**`,
+          "",
+          "```json",
+          JSON.stringify(message.toolInput, null, 2),
+          "```",
+          ""
+        );
+        if (message.toolResult) {
+          lines.push("```", message.toolResult.content, "```", "");
+        }
+        break;
+      case "error":
+        lines.push(`> Error: ${message.content}`, "");
+        break;
+      case "system":
+        if (message.compaction) {
+          lines.push(`> Compacted (${message.compaction.trigger})`, "");
+        }
+        break;
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * sessions list - Newest sessions first
+ */
+export async function sessionsListCommand(options: SessionsListOptions): Promise<void> {
+  await withAgent(options, (agent) => {
+    const limit = Number(options.limit);
+    if (!Number.isInteger(limit) || limit <= 0) {
+      throw new Error(`--limit must be a positive integer, got "${options.limit}"`);
+    }
+    const sessions = agent.getSessions(limit, 0).map(describe);
+
+    if (options.output === "json") {
+      printJson({ sessions });
+      return;
+    }
+    if (sessions.length === 0) {
+      console.log("No sessions");
+      return;
+    }
+    printTable(
+      ["ID", "STARTED", "MESSAGES", "SUMMARY"],
+      sessions.map((session) => [
+        session.id,
+        formatDate(session.startTime),
+        session.messageCount === null ? "-" : String(session.messageCount),
+        truncate(session.summary, 60),
+      ])
+    );
+  });
+}
+
+/**
+ * sessions show <id> - Details, cost and the conversation of a session
+ */
+export async function sessionsShowCommand(
+  sessionId: string,
+  options: SessionsCommandOptions
+): Promise<void> {
+  await withAgent(options, (agent) => {
+    const session = requireSession(agent, sessionId);
+    const messages = session.getMessages();
+    const details = {
+      ...describe(session),
+      messageCount: messages.length,
+      lastActivity: lastActivity(session),
+      tokenUsage: session.getTokenUsage(),
+      cost: session.getCost().cost,
+    };
+
+    if (options.output === "json") {
+      printJson({ ...details, messages });
+      return;
+    }
+    printTable(
+      ["FIELD", "VALUE"],
+      [
+        ["ID", details.id],
+        ["Summary", details.summary],
+        ["Model", details.model],
+        ["Started", formatDate(details.startTime)],
+        ["Last activity", formatDate(details.lastActivity)],
+        ["Messages", String(details.messageCount)],
+        ["Context tokens", String(details.tokenUsage.used)],
+        ["Cost", `$${details.cost.total.toFixed(4)}`],
+        ...(details.parentSessionId ? [["Forked from", details.parentSessionId]] : []),
+      ]
+    );
+    console.log("");
+    messages.forEach((message) => console.log(messageLine(message)));
+  });
+}
+
+/**
+ * sessions export <id> - Full transcript as JSON or Markdown, to stdout or a file
+ */
+export async function sessionsExportCommand(
+  sessionId: string,
+  options: SessionsExportOptions
+): Promise<void> {
+  await withAgent(options, (agent) => {
+    if (!["json", "markdown"].includes(options.format)) {
+      throw new Error(`--format must be json or markdown, got "${options.format}"`);
+    }
+    const session = requireSession(agent, sessionId);
+    const messages = session.getMessages();
+
+    const content =
+      options.format === "markdown"
+        ? toMarkdown(session, messages)
+        : JSON.stringify({ ...describe(session), cost: session.getCost(), messages }, null, 2);
+
+    if (options.out) {
+      writeFileSync(options.out, content + "\n");
+      console.error(`✅ Exported ${messages.length} messages to ${options.out}`);
+    } else {
+      process.stdout.write(content + "\n");
+    }
+  });
+}
+
+/**
+ * sessions delete <id> - Delete a session and its transcript
+ */
+export async function sessionsDeleteCommand(
+  sessionId: string,
+  options: SessionsCommandOptions
+): Promise<void> {
+  await withAgent(options, async (agent) => {
+    requireSession(agent, sessionId);
+    await agent.deleteSession(sessionId);
+
+    if (options.output === "json") {
+      printJson({ deleted: [sessionId] });
+    } else {
+      console.log(`🗑️  Deleted ${sessionId}`);
+    }
+  });
+}
+
+/**
+ * sessions prune --older-than <duration> - Delete sessions without activity since then
+ */
+export async function sessionsPruneCommand(options: SessionsPruneOptions): Promise<void> {
+  await withAgent(options, async (agent) => {
+    const cutoff = Date.now() - parseDuration(options.olderThan);
+    const stale = agent
+      .getSessions(Infinity, 0)
+      .filter((session) => lastActivity(session).getTime() < cutoff);
+
+    if (!options.dryRun) {
+      for (const session of stale) {
+        await agent.deleteSession(session.id);
+      }
+    }
+
+    if (options.output === "json") {
+      printJson({
+        dryRun: !!options.dryRun,
+        [options.dryRun ? "wouldDelete" : "deleted"]: stale.map((session) => session.id),
+      });
+      return;
+    }
+    stale.forEach((session) =>
+      console.log(`${options.dryRun ? "Would delete" : "🗑️  Deleted"} ${session.id}`)
+    );
+    console.log(
+      `${stale.length} session(s) without activity in the last ${options.olderThan}` +
+        (options.dryRun ? " (dry run, nothing deleted)" : " deleted")
+    );
+  });
+}
@@ -9,3 +9,36 @@ export interface HttpCommandOptions {
   anthropicApiKey?: string;
   anthropicBaseUrl?: string;
 }
+
+export type RunOutputFormat = "text" | "json" | "stream-json";
+
+export interface RunCommandOptions {
+  session?: string;
+  model?: string;
+  systemPrompt?: string;
+  maxTurns?: string;
+  output: RunOutputFormat;
+  stdin?: boolean;
+  project?: string;
+  anthropicApiKey?: string;
+  anthropicBaseUrl?: string;
+}
+
+export interface SessionsCommandOptions {
+  project?: string;
+  output?: "table" | "json";
+}
+
+export interface SessionsListOptions extends SessionsCommandOptions {
+  limit: string;
+}
+
+export interface SessionsExportOptions extends SessionsCommandOptions {
+  format: "json" | "markdown";
+  out?: string;
+}
+
+export interface SessionsPruneOptions extends SessionsCommandOptions {
+  olderThan: string;
+  dryRun?: boolean;
+}
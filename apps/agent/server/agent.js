@@ -1,60 +1,234 @@
 /**
- * Agent SDK singleton instance
- * Manages Claude agent lifecycle and sessions
+ * Workspaces and their Agent SDK instances
+ * One agent per workspace directory, created on first use
  */
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
 import { createAgent } from "@deepractice-ai/agent-sdk";
 import { logger } from "./utils/logger.js";
 import { config } from "./index.js";
 
-let agentInstance = null;
+// projectId -> { id, name, path, fullPath, isDefault, agent: Promise<Agent> | null }
+const workspaces = new Map();
+const agentListeners = new Set();
 
 /**
- * Get or create Agent singleton
+ * Stable id of a workspace directory, the same across restarts
  */
-export async function getAgent() {
-  if (!agentInstance) {
-    const projectPath = config().projectPath;
+function projectIdOf(fullPath) {
+  const slug = path
+    .basename(fullPath)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-");
+  const hash = createHash("sha1").update(fullPath).digest("hex").substring(0, 8);
+  return `${slug || "root"}-${hash}`;
+}
+
+function toWorkspace(dirPath, isDefault) {
+  const fullPath = path.resolve(dirPath);
+  return {
+    id: projectIdOf(fullPath),
+    name: path.basename(fullPath) || fullPath,
+    path: dirPath,
+    fullPath,
+    isDefault,
+    agent: null,
+  };
+}
+
+/**
+ * Register PROJECT_PATH and WORKSPACES on first use
+ */
+function ensureWorkspaces() {
+  if (workspaces.size > 0) {
+    return;
+  }
 
-    if (!projectPath) {
-      throw new Error("PROJECT_PATH not configured");
+  const projectPath = config().projectPath;
+  if (!projectPath) {
+    throw new Error("PROJECT_PATH not configured");
+  }
+
+  const defaultWorkspace = toWorkspace(projectPath, true);
+  workspaces.set(defaultWorkspace.id, defaultWorkspace);
+
+  for (const dirPath of config().workspaces) {
+    const workspace = toWorkspace(dirPath, false);
+    if (!workspaces.has(workspace.id)) {
+      workspaces.set(workspace.id, workspace);
     }
+  }
+}
 
-    logger.info("🤖 Creating Agent instance");
-    logger.info(`   Workspace: ${projectPath}`);
-
-    agentInstance = createAgent({
-      workspace: projectPath,
-      model: "claude-sonnet-4",
-      mcpServers: {
-        promptx: {
-          command: "npx",
-          args: ["-y", "@promptx/mcp-server"],
-          env: {
-            // Inherit environment variables
-            ...process.env,
-          },
-        },
-      },
-    });
+/**
+ * Workspace info as returned by the API
+ */
+function describe(workspace) {
+  const { id, name, path: dirPath, fullPath, isDefault } = workspace;
+  return { id, name, path: dirPath, fullPath, isDefault };
+}
+
+/**
+ * All workspaces, the default (PROJECT_PATH) first
+ */
+export function listWorkspaces() {
+  ensureWorkspaces();
+  return [...workspaces.values()].map(describe);
+}
+
+/**
+ * Workspace by id, the default one when projectId is omitted
+ * @returns Workspace info, or null if the id is unknown
+ */
+export function getWorkspace(projectId) {
+  ensureWorkspaces();
+  const workspace = projectId
+    ? workspaces.get(projectId)
+    : [...workspaces.values()].find((entry) => entry.isDefault);
+  return workspace ? describe(workspace) : null;
+}
+
+/**
+ * Register a workspace directory at runtime
+ * Lasts until the server restarts, list it in WORKSPACES to keep it
+ */
+export async function addWorkspace(dirPath) {
+  ensureWorkspaces();
+  const workspace = toWorkspace(dirPath, false);
+
+  const stats = await fs.promises.stat(workspace.fullPath).catch(() => null);
+  if (!stats?.isDirectory()) {
+    throw new Error(`Not a directory: ${workspace.fullPath}`);
+  }
+
+  if (!workspaces.has(workspace.id)) {
+    workspaces.set(workspace.id, workspace);
+    logger.info(`📁 Workspace added: ${workspace.fullPath} (${workspace.id})`);
+  }
+  return describe(workspaces.get(workspace.id));
+}
+
+/**
+ * Remove a workspace and destroy its agent, the default workspace stays
+ * @returns false if the id is unknown
+ */
+export async function removeWorkspace(projectId) {
+  ensureWorkspaces();
+  const workspace = workspaces.get(projectId);
+  if (!workspace) {
+    return false;
+  }
+  if (workspace.isDefault) {
+    throw new Error("The default workspace (PROJECT_PATH) cannot be removed");
+  }
+
+  workspaces.delete(projectId);
+  if (workspace.agent) {
+    const agent = await workspace.agent.catch(() => null);
+    agent?.destroy();
+  }
+  logger.info(`🛑 Workspace removed: ${workspace.fullPath} (${projectId})`);
+  return true;
+}
+
+/**
+ * Get or create the Agent of a workspace, the default one when projectId is omitted
+ */
+export async function getAgent(projectId) {
+  ensureWorkspaces();
+  const workspace = projectId
+    ? workspaces.get(projectId)
+    : [...workspaces.values()].find((entry) => entry.isDefault);
+
+  if (!workspace) {
+    throw new Error(`Project ${projectId} not found`);
+  }
 
-    logger.info("🔥 Initializing Agent (loading historical sessions)...");
-    await agentInstance.initialize();
+  if (!workspace.agent) {
+    // Kept as a promise so concurrent requests share one instance
+    workspace.agent = createWorkspaceAgent(workspace).catch((error) => {
+      workspace.agent = null;
+      throw error;
+    });
+  }
+  return workspace.agent;
+}
 
-    const status = agentInstance.getStatus();
-    logger.info("✅ Agent initialized");
-    logger.info(`   Active sessions: ${status.activeSessions}`);
+/**
+ * Call listener with the agent of every workspace, now and when one is created
+ * @returns Stops listening
+ */
+export function watchAgents(listener) {
+  agentListeners.add(listener);
+  for (const workspace of workspaces.values()) {
+    workspace.agent?.then((agent) => listener(workspace.id, agent)).catch(() => {});
   }
+  return () => agentListeners.delete(listener);
+}
+
+async function createWorkspaceAgent(workspace) {
+  logger.info("🤖 Creating Agent instance");
+  logger.info(`   Workspace: ${workspace.fullPath} (${workspace.id})`);
+  logger.info(`   MCP servers: ${Object.keys(config().mcpServers).join(", ") || "none"}`);
+
+  const agent = createAgent({
+    workspace: workspace.path,
+    model: "claude-sonnet-4",
+    permissionMode: config().permissionMode,
+    warmupPoolSize: config().warmupPoolSize,
+    thinking: config().thinkingBudget ? { budgetTokens: config().thinkingBudget } : "off",
+    sessionBudget: {
+      ...(config().sessionBudgetUsd && { maxCostUsd: config().sessionBudgetUsd }),
+      ...(config().sessionMaxTurns && { maxTurns: config().sessionMaxTurns }),
+    },
+    budget: config().agentBudgetUsd ? { maxCostUsd: config().agentBudgetUsd } : {},
+    context: {
+      ...(config().contextWindow && { window: config().contextWindow }),
+      warningThreshold: config().contextWarningThreshold,
+      autoCompactThreshold: config().autoCompactThreshold,
+    },
+    retry: { maxRetries: config().maxRetries },
+    timeouts: { idleMs: config().idleTimeoutMs, runMs: config().runTimeoutMs },
+    databasePath: config().databasePath,
+    mcpServers: mcpServers(),
+  });
 
-  return agentInstance;
+  logger.info("🔥 Initializing Agent (loading historical sessions)...");
+  await agent.initialize();
+
+  const status = agent.getStatus();
+  logger.info(`✅ Agent initialized (${workspace.id})`);
+  logger.info(`   Active sessions: ${status.activeSessions}`);
+  logger.info(`   Warmup pool: ${status.warmupPool.ready}/${status.warmupPool.size}`);
+
+  agentListeners.forEach((listener) => listener(workspace.id, agent));
+  return agent;
 }
 
 /**
- * Destroy Agent instance (for shutdown)
+ * MCP servers from configuration (MCP_SERVERS)
+ * Stdio servers inherit the environment of the server process
  */
-export function destroyAgent() {
-  if (agentInstance) {
-    logger.info("🛑 Destroying Agent instance");
-    agentInstance.destroy();
-    agentInstance = null;
+function mcpServers() {
+  return Object.fromEntries(
+    Object.entries(config().mcpServers).map(([name, server]) => [
+      name,
+      server.command ? { ...server, env: { ...process.env, ...server.env } } : server,
+    ])
+  );
+}
+
+/**
+ * Destroy the agents of all workspaces (for shutdown)
+ */
+export async function destroyAgents() {
+  for (const workspace of workspaces.values()) {
+    if (workspace.agent) {
+      logger.info(`🛑 Destroying Agent instance (${workspace.id})`);
+      const agent = await workspace.agent.catch(() => null);
+      agent?.destroy();
+      workspace.agent = null;
+    }
   }
 }
@@ -14,6 +14,8 @@ import sessionsRoutes from "./routes/sessions.js";
 import projectRoutes from "./routes/project.js";
 import systemRoutes from "./routes/system.js";
 import mediaRoutes from "./routes/media.js";
+import projectsRoutes from "./routes/projects.js";
+import { getWorkspace } from "./agent.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -47,6 +49,20 @@ export function createApp(wss) {
   });
 
   // API Routes (must be before static files)
+  app.use("/api/projects", projectsRoutes);
+
+  // Routes of one workspace, the unscoped ones below serve the default workspace
+  app.use("/api/projects/:projectId", (req, res, next) => {
+    if (!getWorkspace(req.params.projectId)) {
+      return res.status(404).json({ error: "Project not found" });
+    }
+    next();
+  });
+  app.use("/api/projects/:projectId/mcp", mcpRoutes);
+  app.use("/api/projects/:projectId/commands", commandsRoutes);
+  app.use("/api/projects/:projectId/sessions", sessionsRoutes);
+  app.use("/api/projects/:projectId/project", projectRoutes);
+
   app.use("/api/mcp", mcpRoutes);
   app.use("/api/commands", commandsRoutes);
   app.use("/api/sessions", sessionsRoutes);
@@ -4,12 +4,13 @@ import path from "path";
 import { fileURLToPath } from "url";
 import os from "os";
 import matter from "gray-matter";
+import { getAgent } from "../agent.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 /** @type {import('express').Router} */
-const router = express.Router();
+const router = express.Router({ mergeParams: true }); // Also mounted under /api/projects/:projectId
 
 /**
  * Recursively scan directory for command files (.md)
@@ -99,7 +100,14 @@ const builtInCommands = [
   },
   {
     name: "/cost",
-    description: "Display token usage and cost information",
+    description: "Display the cost of the current session per model",
+    namespace: "builtin",
+    metadata: { type: "builtin" },
+  },
+  {
+    name: "/compact",
+    description:
+      "Summarize older turns to free context (optional: what the summary should focus on)",
     namespace: "builtin",
     metadata: { type: "builtin" },
   },
@@ -123,7 +131,7 @@ const builtInCommands = [
   },
   {
     name: "/rewind",
-    description: "Rewind the conversation to a previous state",
+    description: "Rewind the conversation by N turns (--files also restores edited files)",
     namespace: "builtin",
     metadata: { type: "builtin" },
   },
@@ -212,44 +220,98 @@ Custom commands can be created in:
   },
 
   "/cost": async (_args, context) => {
-    // Calculate token usage and cost
-    const tokenUsage = context?.tokenUsage || { used: 0, total: 200000 };
-
-    const costPerMillion = {
-      "claude-sonnet-4.5": { input: 3, output: 15 },
-      "claude-sonnet-4": { input: 3, output: 15 },
-      "claude-opus-4": { input: 15, output: 75 },
-      "gpt-5": { input: 5, output: 15 },
-    };
-
-    const model = context?.model || "claude-sonnet-4.5";
-    const rates = costPerMillion[model] || costPerMillion["claude-sonnet-4.5"];
-
-    // Estimate 70% input, 30% output
-    const estimatedInputTokens = Math.floor(tokenUsage.used * 0.7);
-    const estimatedOutputTokens = Math.floor(tokenUsage.used * 0.3);
+    if (!context?.sessionId) {
+      return {
+        type: "builtin",
+        action: "cost",
+        data: {
+          error: "No session selected",
+          message: "Open a session to see its cost",
+        },
+      };
+    }
 
-    const inputCost = (estimatedInputTokens / 1000000) * rates.input;
-    const outputCost = (estimatedOutputTokens / 1000000) * rates.output;
-    const totalCost = inputCost + outputCost;
+    const agent = await getAgent(context.projectId);
+    const session = agent.getSession(context.sessionId);
+    if (!session) {
+      return {
+        type: "builtin",
+        action: "cost",
+        data: {
+          error: "Session not found",
+          message: `No session with ID ${context.sessionId}`,
+        },
+      };
+    }
 
+    // Exact usage of every run, priced per model (subagents can use other models)
+    const cost = session.getCost();
     return {
       type: "builtin",
       action: "cost",
       data: {
-        tokenUsage: {
-          used: tokenUsage.used,
-          total: tokenUsage.total,
-          percentage: ((tokenUsage.used / tokenUsage.total) * 100).toFixed(1),
+        sessionId: context.sessionId,
+        currency: "USD",
+        total: cost.cost,
+        models: cost.models,
+        turns: cost.turns.length,
+        lastTurn: cost.turns.length > 0 ? cost.turns[cost.turns.length - 1].cost : null,
+      },
+    };
+  },
+
+  "/compact": async (args, context) => {
+    if (!context?.sessionId) {
+      return {
+        type: "builtin",
+        action: "compact",
+        data: {
+          error: "No session selected",
+          message: "Open a session to compact it",
         },
-        cost: {
-          input: inputCost.toFixed(4),
-          output: outputCost.toFixed(4),
-          total: totalCost.toFixed(4),
-          currency: "USD",
+      };
+    }
+
+    const agent = await getAgent(context.projectId);
+    const session = agent.getSession(context.sessionId);
+    if (!session) {
+      return {
+        type: "builtin",
+        action: "compact",
+        data: {
+          error: "Session not found",
+          message: `No session with ID ${context.sessionId}`,
+        },
+      };
+    }
+
+    const before = session.getTokenUsage();
+    try {
+      // The compaction boundary streams to clients like any other message
+      await session.compact(args.join(" ") || undefined);
+    } catch (error) {
+      return {
+        type: "builtin",
+        action: "compact",
+        data: {
+          error: "Compaction failed",
+          message: error.message,
         },
-        model,
-        rates,
+      };
+    }
+
+    console.log("🗜️ Session compacted:", {
+      sessionId: context.sessionId,
+      contextBefore: before.used,
+    });
+
+    return {
+      type: "builtin",
+      action: "compact",
+      data: {
+        sessionId: context.sessionId,
+        before,
+        message: `Compacted the conversation, older turns (${before.used.toLocaleString()} of ${before.total.toLocaleString()} context tokens) are summarized`,
       },
     };
   },
@@ -338,8 +400,12 @@ Custom commands can be created in:
     };
   },
 
-  "/rewind": async (args, _context) => {
-    const steps = args[0] ? parseInt(args[0]) : 1;
+  "/rewind": async (args, context) => {
+    const restoreFiles = args.includes("--files");
+    const stepsArg = args.find((arg) => arg !== "--files");
+    const steps = stepsArg ? parseInt(stepsArg) : 1;
+    const usage =
+      "Usage: /rewind [number] [--files] - Rewind conversation by N turns (default: 1), --files also restores files the agent changed";
 
     if (isNaN(steps) || steps < 1) {
       return {
@@ -347,17 +413,58 @@ Custom commands can be created in:
         action: "rewind",
         data: {
           error: "Invalid steps parameter",
-          message: "Usage: /rewind [number] - Rewind conversation by N steps (default: 1)",
+          message: usage,
         },
       };
     }
 
+    if (!context?.sessionId) {
+      return {
+        type: "builtin",
+        action: "rewind",
+        data: {
+          error: "No session selected",
+          message: "Open a session to rewind it",
+        },
+      };
+    }
+
+    const agent = await getAgent(context.projectId);
+    let result;
+    try {
+      result = await agent.rewindSession(context.sessionId, { turns: steps, restoreFiles });
+    } catch (error) {
+      return {
+        type: "builtin",
+        action: "rewind",
+        data: {
+          error: "Rewind failed",
+          message: error.message,
+        },
+      };
+    }
+
+    console.log("⏪ Session rewound:", {
+      sessionId: result.sessionId,
+      turns: result.turns,
+      removedMessages: result.removedMessageIds.length,
+      restoredFiles: result.restoredFiles.length,
+    });
+
+    const restored =
+      result.restoredFiles.length > 0
+        ? ` and restored ${result.restoredFiles.length} file${result.restoredFiles.length > 1 ? "s" : ""}`
+        : "";
+
     return {
       type: "builtin",
       action: "rewind",
       data: {
         steps,
-        message: `Rewinding conversation by ${steps} step${steps > 1 ? "s" : ""}...`,
+        sessionId: result.sessionId,
+        removedMessageIds: result.removedMessageIds,
+        restoredFiles: result.restoredFiles,
+        message: `Rewound conversation by ${steps} turn${steps > 1 ? "s" : ""}${restored}`,
       },
     };
   },
@@ -480,7 +587,7 @@ router.post("/execute", async (req, res) => {
     const handler = builtInHandlers[commandName];
     if (handler) {
       try {
-        const result = await handler(args, context);
+        const result = await handler(args, { ...context, projectId: req.params.projectId });
         return res.json({
           ...result,
           command: commandName,
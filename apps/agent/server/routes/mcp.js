@@ -4,13 +4,25 @@ import path from "path";
 import os from "os";
 import { fileURLToPath } from "url";
 import { dirname } from "path";
+import { getAgent } from "../agent.js";
 // spawn is dynamically imported where needed
 
 /** @type {import('express').Router} */
-const router = express.Router();
+const router = express.Router({ mergeParams: true }); // Also mounted under /api/projects/:projectId
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+// GET /api/mcp/servers - MCP servers every new session starts with, from MCP_SERVERS
+router.get("/servers", async (req, res) => {
+  try {
+    const agent = await getAgent(req.params.projectId);
+    res.json({ servers: agent.getMcpServers() });
+  } catch (error) {
+    console.error("Error listing agent MCP servers:", error);
+    res.status(500).json({ error: "Failed to list MCP servers", details: error.message });
+  }
+});
+
 // Agent CLI command routes
 
 // GET /api/mcp/cli/list - List MCP servers using Agent CLI
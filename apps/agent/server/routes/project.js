@@ -8,30 +8,25 @@ import path from "path";
 import fs from "fs";
 import { promises as fsPromises } from "fs";
 import mime from "mime-types";
-import { getConfig } from "@deepractice-ai/agent-sdk";
+import { getWorkspace } from "../agent.js";
 
 /** @type {import('express').Router} */
-const router = express.Router();
+const router = express.Router({ mergeParams: true }); // Also mounted under /api/projects/:projectId
 
-async function getProjectInfo() {
-  const config = await getConfig();
-  const projectPath = config.projectPath;
-  if (!projectPath) {
-    throw new Error("PROJECT_PATH not configured");
+async function getProjectInfo(req) {
+  const workspace = getWorkspace(req.params.projectId);
+  if (!workspace) {
+    throw new Error(`Project ${req.params.projectId} not found`);
   }
-  const fullPath = path.resolve(projectPath);
-  return {
-    name: path.basename(fullPath),
-    path: projectPath,
-    fullPath: fullPath,
-  };
+  return workspace;
 }
 
 // Get current project information
 router.get("/", async (req, res) => {
   try {
-    const project = await getProjectInfo();
+    const project = await getProjectInfo(req);
     res.json({
+      id: project.id,
       name: project.name,
       path: project.path,
       fullPath: project.fullPath,
@@ -53,7 +48,7 @@ router.get("/file", async (req, res) => {
       return res.status(400).json({ error: "Invalid file path" });
     }
 
-    const project = await getProjectInfo();
+    const project = await getProjectInfo(req);
     const projectRoot = project.fullPath;
 
     // Handle both absolute and relative paths
@@ -91,7 +86,7 @@ router.get("/files/content", async (req, res) => {
       return res.status(400).json({ error: "Invalid file path" });
     }
 
-    const project = await getProjectInfo();
+    const project = await getProjectInfo(req);
     const projectRoot = project.fullPath;
 
     const resolved = path.resolve(filePath);
@@ -145,7 +140,7 @@ router.put("/file", async (req, res) => {
       return res.status(400).json({ error: "Content is required" });
     }
 
-    const project = await getProjectInfo();
+    const project = await getProjectInfo(req);
     const projectRoot = project.fullPath;
 
     // Handle both absolute and relative paths
@@ -180,7 +175,7 @@ router.put("/file", async (req, res) => {
 // Get file tree for project
 router.get("/files", async (req, res) => {
   try {
-    const project = await getProjectInfo();
+    const project = await getProjectInfo(req);
     const actualPath = project.fullPath;
 
     // Check if path exists
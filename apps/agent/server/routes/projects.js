@@ -0,0 +1,50 @@
+/**
+ * Workspace API Routes
+ * Lists, registers and removes the workspace directories the server works on
+ */
+import express from "express";
+import { listWorkspaces, addWorkspace, removeWorkspace } from "../agent.js";
+
+/** @type {import('express').Router} */
+const router = express.Router();
+
+// GET /api/projects - All workspaces, the default (PROJECT_PATH) first
+router.get("/", (req, res) => {
+  try {
+    res.json({ projects: listWorkspaces() });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/projects - Register a workspace directory until the server restarts
+router.post("/", async (req, res) => {
+  const { path: dirPath } = req.body;
+
+  if (typeof dirPath !== "string" || !dirPath.trim()) {
+    return res.status(400).json({ error: "path is required" });
+  }
+
+  try {
+    const project = await addWorkspace(dirPath.trim());
+    console.log("📁 [API] Workspace registered:", project.fullPath);
+    res.status(201).json(project);
+  } catch (error) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// DELETE /api/projects/:projectId - Remove a workspace, its session files stay on disk
+router.delete("/:projectId", async (req, res) => {
+  try {
+    const removed = await removeWorkspace(req.params.projectId);
+    if (!removed) {
+      return res.status(404).json({ error: "Project not found" });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+export default router;
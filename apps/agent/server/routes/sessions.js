@@ -3,9 +3,10 @@
  */
 import express from "express";
 import { getAgent } from "../agent.js";
+import { buildMessageContent } from "../utils/messageContent.js";
 
 /** @type {import('express').Router} */
-const router = express.Router();
+const router = express.Router({ mergeParams: true }); // Also mounted under /api/projects/:projectId
 
 /**
  * Create new session with initial message (lazy session creation)
@@ -15,25 +16,37 @@ const router = express.Router();
  */
 router.post("/create", async (req, res) => {
   try {
-    const { message, tempId } = req.body;
+    const { message, tempId, permissionMode, thinking, budget, mcpServers, attachments } = req.body;
 
-    if (!message || typeof message !== "string") {
+    if (typeof message !== "string" || (!message && !attachments?.length)) {
       return res.status(400).json({ error: "message is required" });
     }
 
+    let initialMessage;
+    try {
+      initialMessage = buildMessageContent(message, attachments);
+    } catch (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
     console.log("🟢 [API] POST /sessions/create", {
       messageLength: message.length,
       messagePreview: message.substring(0, 50) + "...",
       tempId: tempId || "none",
+      attachmentCount: attachments?.length || 0,
     });
 
-    const agent = await getAgent();
+    const agent = await getAgent(req.params.projectId);
 
     // Create session with initial message - will return real SDK session_id
     // Pass tempId so streaming events can use it before real ID is available
     const session = await agent.createSession({
-      initialMessage: message,
+      initialMessage,
       tempId,
+      permissionMode,
+      thinking,
+      budget,
+      mcpServers,
     });
 
     console.log("🟢 [API] Session created with real SDK session_id:", {
@@ -60,7 +73,7 @@ router.post("/create", async (req, res) => {
 router.get("/", async (req, res) => {
   try {
     const { limit = 20, offset = 0 } = req.query;
-    const agent = await getAgent();
+    const agent = await getAgent(req.params.projectId);
 
     const sessions = agent.getSessions(parseInt(limit), parseInt(offset));
 
@@ -68,9 +81,10 @@ router.get("/", async (req, res) => {
     const formatted = sessions.map((s) => ({
       id: s.id,
       summary: s.summary(),
-      messageCount: s.getMessages().length,
+      messageCount: s.getMessageCount(),
       lastActivity: s.getMetadata().startTime,
       cwd: s.getMetadata().projectPath,
+      parentSessionId: s.getMetadata().parentSessionId,
     }));
 
     res.json({
@@ -83,6 +97,34 @@ router.get("/", async (req, res) => {
   }
 });
 
+// Search message content, tool inputs and tool outputs across sessions
+router.get("/search", async (req, res) => {
+  try {
+    const { q, limit = "50" } = req.query;
+
+    if (typeof q !== "string" || !q.trim()) {
+      return res.status(400).json({ error: "q is required" });
+    }
+    const maxMatches = Number(limit);
+    if (!Number.isInteger(maxMatches) || maxMatches <= 0) {
+      return res.status(400).json({ error: "limit must be a positive integer" });
+    }
+
+    const agent = await getAgent(req.params.projectId);
+    const results = await agent.searchSessions(q, { limit: maxMatches });
+
+    console.log("🔍 [API] Search sessions:", {
+      query: q,
+      sessionCount: results.length,
+    });
+
+    res.json({ query: q, results });
+  } catch (error) {
+    console.error("🔍 [API] Error searching sessions:", error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // Get session messages
 router.get("/:sessionId/messages", async (req, res) => {
   try {
@@ -95,7 +137,7 @@ router.get("/:sessionId/messages", async (req, res) => {
       offset,
     });
 
-    const agent = await getAgent();
+    const agent = await getAgent(req.params.projectId);
     const session = agent.getSession(sessionId);
 
     if (!session) {
@@ -119,13 +161,59 @@ router.get("/:sessionId/messages", async (req, res) => {
   }
 });
 
+// Fork session from a message
+router.post("/:sessionId/fork", async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    const { atMessageId } = req.body;
+
+    if (typeof atMessageId !== "string" || !atMessageId) {
+      return res.status(400).json({ error: "atMessageId is required" });
+    }
+
+    console.log("🟢 [API] POST /sessions/:sessionId/fork", { sessionId, atMessageId });
+
+    const agent = await getAgent(req.params.projectId);
+    const parent = agent.getSession(sessionId);
+
+    if (!parent) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+    if (!parent.getMessages().some((message) => message.id === atMessageId)) {
+      return res.status(404).json({ error: "Message not found" });
+    }
+
+    const session = await agent.forkSession(sessionId, { atMessageId });
+
+    console.log("🟢 [API] Session forked:", {
+      sessionId: session.id,
+      parentSessionId: sessionId,
+      messageCount: session.getMessages().length,
+    });
+
+    res.json({
+      sessionId: session.id,
+      id: session.id,
+      summary: session.summary(),
+      messages: session.getMessages(),
+      messageCount: session.getMessages().length,
+      lastActivity: new Date(),
+      cwd: session.getMetadata().projectPath,
+      parentSessionId: sessionId,
+    });
+  } catch (error) {
+    console.error("🟢 [API] Error forking session:", error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // Delete session
 router.delete("/:sessionId", async (req, res) => {
   try {
     const { sessionId } = req.params;
-    const agent = await getAgent();
+    const agent = await getAgent(req.params.projectId);
 
-    await agent.sessionManager.deleteSession(sessionId);
+    await agent.deleteSession(sessionId);
 
     res.json({ success: true });
   } catch (error) {
@@ -137,7 +225,7 @@ router.delete("/:sessionId", async (req, res) => {
 router.get("/:sessionId/token-usage", async (req, res) => {
   try {
     const { sessionId } = req.params;
-    const agent = await getAgent();
+    const agent = await getAgent(req.params.projectId);
     const session = agent.getSession(sessionId);
 
     if (!session) {
@@ -151,9 +239,53 @@ router.get("/:sessionId/token-usage", async (req, res) => {
       total: usage.total,
       breakdown: {
         input: usage.breakdown.input,
+        output: usage.breakdown.output,
         cacheCreation: usage.breakdown.cacheCreation,
         cacheRead: usage.breakdown.cacheRead,
       },
+      // USD per turn and model, priced with the agent pricing table
+      cost: session.getCost(),
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Get permission state (mode, pending requests, remembered rules)
+router.get("/:sessionId/permissions", async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    const agent = await getAgent(req.params.projectId);
+    const session = agent.getSession(sessionId);
+
+    if (!session) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+
+    res.json({
+      mode: session.getPermissionMode(),
+      pending: session.getPendingPermissions(),
+      rules: session.getPermissionRules(),
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Get MCP servers of the agent and which of them the session turned off
+router.get("/:sessionId/mcp-servers", async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    const agent = await getAgent(req.params.projectId);
+    const session = agent.getSession(sessionId);
+
+    if (!session) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+
+    res.json({
+      servers: agent.getMcpServers(),
+      mcpServers: session.getMcpServers(),
     });
   } catch (error) {
     res.status(500).json({ error: error.message });
@@ -0,0 +1,57 @@
+/**
+ * Build Session.send() content from a text message and client attachments
+ */
+
+const IMAGE_TYPES = ["image/jpeg", "image/png", "image/gif", "image/webp"];
+const DOCUMENT_TYPES = ["application/pdf", "text/plain"];
+
+/**
+ * Strip the data: URL prefix browsers add to FileReader results
+ * @param {string} data - Base64 string, optionally as data URL
+ * @returns {string} Raw base64 data
+ */
+function stripDataUrl(data) {
+  const match = /^data:[^;,]+;base64,(.*)$/s.exec(data);
+  return match ? match[1] : data;
+}
+
+/**
+ * Convert one client attachment into an SDK content block
+ * @param {object} attachment - { type: "image" | "document", mediaType, data, name? }
+ * @returns {object} SDK content block
+ */
+function toContentBlock(attachment) {
+  const { type, mediaType, data, name } = attachment || {};
+
+  if (typeof data !== "string" || !data) {
+    throw new Error(`Attachment ${name || type} has no data`);
+  }
+
+  if (type === "image" && IMAGE_TYPES.includes(mediaType)) {
+    return { type: "image", mediaType, data: stripDataUrl(data), ...(name && { name }) };
+  }
+
+  if (type === "document" && DOCUMENT_TYPES.includes(mediaType)) {
+    // Plain text documents are sent as-is, PDFs as base64
+    const content = mediaType === "text/plain" ? data : stripDataUrl(data);
+    return { type: "document", mediaType, data: content, ...(name && { name }) };
+  }
+
+  throw new Error(`Unsupported attachment: ${type} (${mediaType})`);
+}
+
+/**
+ * Build message content for session.send() / createSession()
+ * Returns the plain string when there is nothing attached
+ * @param {string} text - Message text
+ * @param {Array} attachments - Client attachments
+ * @returns {string|Array} MessageContent
+ */
+export function buildMessageContent(text, attachments) {
+  if (!Array.isArray(attachments) || attachments.length === 0) {
+    return text;
+  }
+
+  const blocks = attachments.map(toContentBlock);
+  return text ? [{ type: "text", text }, ...blocks] : blocks;
+}
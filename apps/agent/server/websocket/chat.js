@@ -2,6 +2,10 @@
  * Chat WebSocket Handler - Using Agent SDK
  */
 import { getAgent } from "../agent.js";
+import { buildMessageContent } from "../utils/messageContent.js";
+
+// PermissionMode values of the Agent SDK
+const PERMISSION_MODES = ["default", "acceptEdits", "plan", "bypassPermissions"];
 
 export function handleChatConnection(ws, connectedClients) {
   console.log("💬 Chat WebSocket connected");
@@ -20,12 +24,13 @@ export function handleChatConnection(ws, connectedClients) {
 
       if (data.type === "agent-command") {
         const sessionId = data.options?.sessionId;
-        const agent = await getAgent();
+        const agent = await getAgent(data.projectId);
 
         console.log("🔵 [WebSocket] Received agent-command:", {
           sessionId,
           commandPreview: data.command.substring(0, 50) + "...",
           hasSessionId: !!sessionId,
+          attachmentCount: data.options?.attachments?.length || 0,
         });
 
         try {
@@ -54,6 +59,7 @@ export function handleChatConnection(ws, connectedClients) {
                 type: "claude-error",
                 sessionId: session.id,
                 error: `Session is no longer active (state: ${session.state})`,
+                code: "unknown",
                 recoverable: false,
                 state: session.state,
               })
@@ -73,7 +79,10 @@ export function handleChatConnection(ws, connectedClients) {
           // Send message
           console.log("🔵 [WebSocket] Calling session.send()...");
           console.log("🔵 [WebSocket] Messages will be broadcast via sessions-broadcast");
-          await session.send(data.command);
+          // Queued while a run is active, "steer" sends it into the running turn instead
+          await session.send(buildMessageContent(data.command, data.options?.attachments), {
+            mode: data.options?.mode,
+          });
 
           console.log("🔵 [WebSocket] session.send() completed:", {
             sessionId: session.id,
@@ -81,22 +90,27 @@ export function handleChatConnection(ws, connectedClients) {
           });
 
           // After send completes, notify frontend
-          ws.send(
-            JSON.stringify({
-              type: "agent-complete",
-              sessionId: session.id,
-              exitCode: 0,
-            })
-          );
+          // A queued message may be running already, the last one reports completion
+          if (!session.isActive()) {
+            ws.send(
+              JSON.stringify({
+                type: "agent-complete",
+                sessionId: session.id,
+                exitCode: 0,
+              })
+            );
+          }
         } catch (error) {
           // Check session state to determine if error is recoverable
           const session = agent.getSession(sessionId);
           const sessionState = session ? session.state : "unknown";
-          const isRecoverable = sessionState === "idle"; // If still idle, error was recoverable
+          // Failed runs leave the session usable, the next queued message may be running already
+          const isRecoverable = sessionState === "idle" || sessionState === "active";
 
           console.error("❌ [WebSocket] Error sending message:", {
             sessionId,
             error: error.message,
+            code: error.code,
             state: sessionState,
             recoverable: isRecoverable,
           });
@@ -106,13 +120,15 @@ export function handleChatConnection(ws, connectedClients) {
               type: "claude-error",
               sessionId,
               error: error.message,
+              // AgentError code (rate_limited, auth_failed...) so the UI can show guidance
+              code: error.code || "unknown",
               recoverable: isRecoverable,
               state: sessionState,
             })
           );
         }
       } else if (data.type === "abort-session") {
-        const agent = await getAgent();
+        const agent = await getAgent(data.projectId);
         const session = agent.getSession(data.sessionId);
 
         if (session) {
@@ -125,8 +141,111 @@ export function handleChatConnection(ws, connectedClients) {
             })
           );
         }
+      } else if (data.type === "queue-update" || data.type === "queue-cancel") {
+        // Edit or cancel a message waiting for the session's current run
+        const agent = await getAgent(data.projectId);
+        const session = agent.getSession(data.sessionId);
+
+        if (!session) {
+          throw new Error(`Session ${data.sessionId} not found`);
+        }
+
+        const changed =
+          data.type === "queue-update"
+            ? session.updateQueued(data.messageId, data.content)
+            : session.cancelQueued(data.messageId);
+
+        console.log("📥 [WebSocket] Queue changed:", {
+          sessionId: data.sessionId,
+          messageId: data.messageId,
+          action: data.type,
+          changed,
+        });
+      } else if (data.type === "permission-response") {
+        // User answered a tool permission request (approve / deny / always allow)
+        const agent = await getAgent(data.projectId);
+        const session = agent.getSession(data.sessionId);
+
+        if (!session) {
+          throw new Error(`Session ${data.sessionId} not found`);
+        }
+
+        const resolved = session.respondToPermission(data.requestId, {
+          behavior: data.behavior === "allow" ? "allow" : "deny",
+          scope: data.scope,
+          message: data.message,
+        });
+
+        console.log("🔐 [WebSocket] Permission response:", {
+          sessionId: data.sessionId,
+          requestId: data.requestId,
+          behavior: data.behavior,
+          scope: data.scope || "once",
+          resolved,
+        });
+      } else if (data.type === "set-permission-mode") {
+        if (!PERMISSION_MODES.includes(data.mode)) {
+          throw new Error(
+            `Permission mode must be one of ${PERMISSION_MODES.join(", ")}, got "${data.mode}"`
+          );
+        }
+
+        const agent = await getAgent(data.projectId);
+        const session = agent.getSession(data.sessionId);
+
+        if (!session) {
+          throw new Error(`Session ${data.sessionId} not found`);
+        }
+
+        await session.setPermissionMode(data.mode);
+
+        ws.send(
+          JSON.stringify({
+            type: "permission-mode",
+            sessionId: data.sessionId,
+            mode: session.getPermissionMode(),
+          })
+        );
+      } else if (data.type === "set-mcp-servers") {
+        // Turn MCP servers of one session on or off, applies from its next message
+        const agent = await getAgent(data.projectId);
+        const session = agent.getSession(data.sessionId);
+
+        if (!session) {
+          throw new Error(`Session ${data.sessionId} not found`);
+        }
+
+        session.setMcpServers(data.mcpServers);
+
+        ws.send(
+          JSON.stringify({
+            type: "mcp-servers",
+            sessionId: data.sessionId,
+            mcpServers: session.getMcpServers(),
+          })
+        );
+      } else if (data.type === "set-budget") {
+        // Raise a reached budget, scope "agent" changes the budget shared by all sessions
+        const agent = await getAgent(data.projectId);
+        const session = agent.getSession(data.sessionId);
+
+        if (!session) {
+          throw new Error(`Session ${data.sessionId} not found`);
+        }
+
+        if (data.scope === "agent") {
+          agent.setBudget(data.budget);
+        } else {
+          session.setBudget(data.budget);
+        }
+
+        console.log("💰 [WebSocket] Budget updated:", {
+          sessionId: data.sessionId,
+          scope: data.scope || "session",
+          budget: data.budget,
+        });
       } else if (data.type === "check-session-status") {
-        const agent = await getAgent();
+        const agent = await getAgent(data.projectId);
         const session = agent.getSession(data.sessionId);
 
         ws.send(
@@ -137,7 +256,7 @@ export function handleChatConnection(ws, connectedClients) {
           })
         );
       } else if (data.type === "get-active-sessions") {
-        const agent = await getAgent();
+        const agent = await getAgent(data.projectId);
         const activeSessions = agent
           .getSessions(100, 0)
           .filter((s) => s.isActive())
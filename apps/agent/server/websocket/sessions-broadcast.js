@@ -3,44 +3,54 @@
  * Subscribes to session events and notifies WebSocket clients
  */
 import { WebSocket } from "ws";
-import { getAgent } from "../agent.js";
+import { getAgent, watchAgents } from "../agent.js";
 import { logger } from "../utils/logger.js";
 
-let sessionSubscription = null;
+let stopWatching = null;
+const sessionSubscriptions = new Map(); // projectId -> subscription
 
 export async function setupSessionsWatcher(connectedClients) {
-  if (sessionSubscription) {
-    sessionSubscription.unsubscribe();
-  }
+  closeSessionsWatcher();
 
-  try {
-    const agent = await getAgent();
-
-    // Subscribe to session events
-    sessionSubscription = agent.sessions$().subscribe({
-      next: (event) => {
-        logger.info(`📡 Session event: ${event.type} - ${event.sessionId}`);
-
-        // Broadcast to WebSocket clients
-        broadcastSessionEvent(connectedClients, event);
-      },
-      error: (err) => {
-        logger.error("❌ Session events error:", err);
-      },
-    });
+  // Agents of other workspaces are subscribed once something creates them
+  stopWatching = watchAgents((projectId, agent) => {
+    sessionSubscriptions.get(projectId)?.unsubscribe();
+    sessionSubscriptions.set(
+      projectId,
+      agent.sessions$().subscribe({
+        next: (event) => {
+          logger.info(`📡 Session event: ${event.type} - ${event.sessionId} (${projectId})`);
 
+          // Broadcast to WebSocket clients
+          broadcastSessionEvent(connectedClients, projectId, agent, event);
+        },
+        error: (err) => {
+          logger.error("❌ Session events error:", err);
+        },
+        complete: () => {
+          // Agent destroyed with its workspace
+          sessionSubscriptions.delete(projectId);
+        },
+      })
+    );
+  });
+
+  try {
+    // Load the default workspace right away
+    await getAgent();
     logger.info("✅ Sessions watcher ready (subscribed to SDK events)");
   } catch (error) {
     logger.error("❌ Failed to setup sessions watcher:", error);
   }
 }
 
-async function broadcastSessionEvent(connectedClients, event) {
+async function broadcastSessionEvent(connectedClients, projectId, agent, event) {
   try {
     // Handle streaming events separately for real-time updates
     if (event.type === "streaming") {
       const message = JSON.stringify({
         type: "sdk-event",
+        projectId,
         sessionId: event.sessionId,
         data: event.streamEvent, // SDK original message (type: stream_event/assistant/user/result)
         timestamp: new Date().toISOString(),
@@ -58,23 +68,154 @@ async function broadcastSessionEvent(connectedClients, event) {
       return; // Skip normal broadcasting for streaming events
     }
 
+    // Tool permission requests are pushed as-is, the session list is unchanged
+    if (event.type === "permission_request" || event.type === "permission_resolved") {
+      const message = JSON.stringify({
+        type: event.type === "permission_request" ? "permission-request" : "permission-resolved",
+        projectId,
+        sessionId: event.sessionId,
+        ...(event.type === "permission_request"
+          ? { request: event.request }
+          : { requestId: event.requestId, decision: event.decision }),
+        timestamp: new Date().toISOString(),
+      });
+
+      connectedClients.forEach((client) => {
+        if (client.readyState === WebSocket.OPEN) {
+          client.send(message);
+        }
+      });
+
+      logger.info(`   🔐 Broadcast ${event.type} for session ${event.sessionId}`);
+      return;
+    }
+
+    // A run was interrupted for its budget, clients offer to raise it
+    if (event.type === "budget_exceeded") {
+      const message = JSON.stringify({
+        type: "budget-exceeded",
+        projectId,
+        sessionId: event.sessionId,
+        exceeded: event.exceeded,
+        timestamp: new Date().toISOString(),
+      });
+
+      connectedClients.forEach((client) => {
+        if (client.readyState === WebSocket.OPEN) {
+          client.send(message);
+        }
+      });
+
+      logger.info(
+        `   💰 Broadcast ${event.exceeded.scope} budget exceeded (${event.exceeded.limit}) for session ${event.sessionId}`
+      );
+      return;
+    }
+
+    // Context is nearly full, clients suggest compacting
+    if (event.type === "context_warning") {
+      const message = JSON.stringify({
+        type: "context-warning",
+        projectId,
+        sessionId: event.sessionId,
+        warning: event.warning,
+        timestamp: new Date().toISOString(),
+      });
+
+      connectedClients.forEach((client) => {
+        if (client.readyState === WebSocket.OPEN) {
+          client.send(message);
+        }
+      });
+
+      logger.info(
+        `   📏 Broadcast context warning (${event.warning.usage.used}/${event.warning.usage.total} tokens) for session ${event.sessionId}`
+      );
+      return;
+    }
+
+    if (event.type === "retry_scheduled") {
+      const message = JSON.stringify({
+        type: "session-retry",
+        projectId,
+        sessionId: event.sessionId,
+        retry: event.retry,
+        timestamp: new Date().toISOString(),
+      });
+
+      connectedClients.forEach((client) => {
+        if (client.readyState === WebSocket.OPEN) {
+          client.send(message);
+        }
+      });
+
+      logger.info(
+        `   🔁 Broadcast retry ${event.retry.attempt}/${event.retry.maxRetries} (${event.retry.code}, in ${event.retry.delayMs}ms) for session ${event.sessionId}`
+      );
+      return;
+    }
+
+    if (event.type === "run_stalled") {
+      const message = JSON.stringify({
+        type: "session-stalled",
+        projectId,
+        sessionId: event.sessionId,
+        stall: event.stall,
+        timestamp: new Date().toISOString(),
+      });
+
+      connectedClients.forEach((client) => {
+        if (client.readyState === WebSocket.OPEN) {
+          client.send(message);
+        }
+      });
+
+      logger.info(
+        `   ⏱️ Broadcast stalled run (${event.stall.reason} timeout ${event.stall.timeoutMs}ms) for session ${event.sessionId}`
+      );
+      return;
+    }
+
+    if (event.type === "queue_updated") {
+      const message = JSON.stringify({
+        type: "session-queue",
+        projectId,
+        sessionId: event.sessionId,
+        queue: event.queue,
+        sent: event.sent,
+        timestamp: new Date().toISOString(),
+      });
+
+      connectedClients.forEach((client) => {
+        if (client.readyState === WebSocket.OPEN) {
+          client.send(message);
+        }
+      });
+
+      logger.info(
+        `   📥 Broadcast queue (${event.queue.length} waiting${event.sent ? ", sending next" : ""}) for session ${event.sessionId}`
+      );
+      return;
+    }
+
     // Fetch current sessions for non-streaming events
-    const agent = await getAgent();
     const sessions = agent.getSessions(100, 0);
 
     // Format sessions for frontend (same format as REST API)
     const formatted = sessions.map((s) => ({
       id: s.id,
       summary: s.summary(),
-      messageCount: s.getMessages().length,
+      messageCount: s.getMessageCount(),
       lastActivity: s.getMetadata().startTime,
       cwd: s.getMetadata().projectPath,
+      parentSessionId: s.getMetadata().parentSessionId,
     }));
 
     const message = JSON.stringify({
       type: "sessions_updated",
       sessions: formatted, // Include full sessions array
       event: event.type,
+      projectId,
       sessionId: event.sessionId,
       timestamp: new Date().toISOString(),
     });
@@ -94,8 +235,8 @@ async function broadcastSessionEvent(connectedClients, event) {
 }
 
 export function closeSessionsWatcher() {
-  if (sessionSubscription) {
-    sessionSubscription.unsubscribe();
-    sessionSubscription = null;
-  }
+  stopWatching?.();
+  stopWatching = null;
+  sessionSubscriptions.forEach((subscription) => subscription.unsubscribe());
+  sessionSubscriptions.clear();
 }
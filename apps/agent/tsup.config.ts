@@ -7,7 +7,10 @@ export default defineConfig({
     "server/index": "server/index.ts",
     "cli/bin": "cli/bin.ts",
     "cli/cli": "cli/cli.ts",
+    "cli/agent": "cli/agent.ts",
     "cli/commands/http": "cli/commands/http.ts",
+    "cli/commands/run": "cli/commands/run.ts",
+    "cli/commands/sessions": "cli/commands/sessions.ts",
   },
   format: ["esm"],
   dts: false, // Disable DTS generation for now (JS files need TS conversion)
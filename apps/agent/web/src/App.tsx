@@ -20,11 +20,13 @@ import ChatInterface from "~/components/ChatInterface";
 import { connectWebSocket, disconnectWebSocket } from "~/api/agent";
 import { useSessionStore } from "~/stores/sessionStore";
 import { useMessageStore } from "~/stores/messageStore";
+import { useProjectStore } from "~/stores/projectStore";
 
 // Import stores to ensure they're initialized and subscribed to EventBus
 import "~/stores/sessionStore";
 import "~/stores/messageStore";
 import "~/stores/uiStore";
+import "~/stores/projectStore";
 
 function AppContent() {
   const navigate = useNavigate();
@@ -36,6 +38,7 @@ function AppContent() {
   const selectSession = useSessionStore((state) => state.selectSession);
   const refreshSessions = useSessionStore((state) => state.refreshSessions);
   const sendMessage = useMessageStore((state) => state.sendMessage);
+  const currentProject = useProjectStore((state) => state.getCurrentProject());
   const [activeTab, setActiveTab] = useState<TabType>("chat");
   const [isMobile, setIsMobile] = useState(false);
   const [sidebarOpen, setSidebarOpen] = useState(false);
@@ -137,6 +140,9 @@ function AppContent() {
       console.error("[App] Failed to connect WebSocket:", error);
     });
 
+    // Load workspaces, falls back to the default one if the stored project is gone
+    useProjectStore.getState().load();
+
     // Use Store action to load sessions
     refreshSessions().catch((error) => {
       console.error("[App] Failed to load sessions:", error);
@@ -219,10 +225,7 @@ function AppContent() {
     }
   }, [navigationTarget, sessionId, navigate, isMobile]);
 
-  // Temporary project info (until we have proper project management)
-  const selectedProject = selectedSession
-    ? { name: "Current Project", path: ".", fullPath: "." }
-    : null;
+  const selectedProject = selectedSession ? currentProject : null;
 
   return (
     <div className="h-screen flex overflow-hidden">
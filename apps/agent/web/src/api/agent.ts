@@ -6,7 +6,21 @@
 
 import { wsClient } from "./websocket";
 import { api } from "./rest";
-import type { Session, ChatMessage } from "~/types";
+import type {
+  Session,
+  ChatMessage,
+  Attachment,
+  PermissionMode,
+  PermissionRequest,
+  PermissionScope,
+  SessionSearchResult,
+  Budget,
+  BudgetExceeded,
+  SendMode,
+  McpServerInfo,
+  McpServerSelection,
+  Project,
+} from "~/types";
 
 /**
  * Create a new session
@@ -32,6 +46,33 @@ export async function deleteSession(sessionId: string): Promise<void> {
   }
 }
 
+/**
+ * Fork a session from one of its messages
+ * Pure API call - returns the new session and its messages
+ */
+export async function forkSession(
+  sessionId: string,
+  atMessageId: string
+): Promise<{ session: Session; messages: ChatMessage[] }> {
+  const response = await api.forkSession(sessionId, atMessageId);
+  if (!response.ok) {
+    throw new Error(`Failed to fork session: ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  return {
+    session: {
+      id: data.sessionId,
+      summary: data.summary,
+      messageCount: data.messageCount,
+      lastActivity: data.lastActivity,
+      cwd: data.cwd,
+      parentSessionId: data.parentSessionId,
+    },
+    messages: data.messages || [],
+  };
+}
+
 /**
  * Load all sessions
  * Pure API call - returns sessions array
@@ -46,6 +87,20 @@ export async function loadSessions(limit: number = 100): Promise<Session[]> {
   return data.sessions || [];
 }
 
+/**
+ * Search message content, tool inputs and tool outputs across sessions
+ * Pure API call - returns matches grouped by session
+ */
+export async function searchSessions(query: string): Promise<SessionSearchResult[]> {
+  const response = await api.searchSessions(query);
+  if (!response.ok) {
+    throw new Error(`Failed to search sessions: ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  return data.results || [];
+}
+
 /**
  * Load messages for a session
  * Pure API call - returns messages array
@@ -77,6 +132,41 @@ async function fileToBase64(file: File): Promise<string> {
   });
 }
 
+/**
+ * Convert attached files into message attachments
+ * Images and PDFs are sent as base64, text files as plain text
+ */
+export async function filesToAttachments(files: File[]): Promise<Attachment[]> {
+  return Promise.all(
+    files.map(async (file) => {
+      if (file.type.startsWith("image/")) {
+        return {
+          type: "image" as const,
+          mediaType: file.type,
+          data: await fileToBase64(file),
+          name: file.name,
+        };
+      }
+
+      if (file.type === "application/pdf") {
+        return {
+          type: "document" as const,
+          mediaType: file.type,
+          data: await fileToBase64(file),
+          name: file.name,
+        };
+      }
+
+      return {
+        type: "document" as const,
+        mediaType: "text/plain",
+        data: await file.text(),
+        name: file.name,
+      };
+    })
+  );
+}
+
 /**
  * Send message via WebSocket
  * Pure WebSocket send - no Store manipulation
@@ -84,30 +174,49 @@ async function fileToBase64(file: File): Promise<string> {
 export async function sendMessageToBackend(
   sessionId: string,
   content: string,
-  images?: File[]
+  attachments?: Attachment[],
+  mode?: SendMode
 ): Promise<void> {
-  // Convert images to base64 if provided
-  let imageData: Array<{ type: string; data: string }> | undefined;
-
-  if (images && images.length > 0) {
-    imageData = await Promise.all(
-      images.map(async (file) => ({
-        type: file.type,
-        data: await fileToBase64(file),
-      }))
-    );
-  }
-
   wsClient.send({
     type: "agent-command",
     command: content,
     options: {
       sessionId,
-      ...(imageData && { images: imageData }),
+      ...(attachments?.length && { attachments }),
+      ...(mode && { mode }),
     },
   });
 }
 
+/**
+ * Edit a message waiting in a session's queue via WebSocket
+ * Pure WebSocket send - no Store manipulation
+ */
+export function updateQueuedMessageBackend(
+  sessionId: string,
+  messageId: string,
+  content: string
+): void {
+  wsClient.send({
+    type: "queue-update",
+    sessionId,
+    messageId,
+    content,
+  });
+}
+
+/**
+ * Remove a message from a session's queue via WebSocket
+ * Pure WebSocket send - no Store manipulation
+ */
+export function cancelQueuedMessageBackend(sessionId: string, messageId: string): void {
+  wsClient.send({
+    type: "queue-cancel",
+    sessionId,
+    messageId,
+  });
+}
+
 /**
  * Abort session via WebSocket
  * Pure WebSocket send - no Store manipulation
@@ -119,6 +228,150 @@ export function abortSessionBackend(sessionId: string): void {
   });
 }
 
+/**
+ * Answer a tool permission request via WebSocket
+ * Pure WebSocket send - no Store manipulation
+ */
+export function respondToPermissionBackend(
+  sessionId: string,
+  requestId: string,
+  behavior: "allow" | "deny",
+  scope: PermissionScope = "once"
+): void {
+  wsClient.send({
+    type: "permission-response",
+    sessionId,
+    requestId,
+    behavior,
+    scope,
+  });
+}
+
+/**
+ * Change session permission mode via WebSocket
+ * Pure WebSocket send - no Store manipulation
+ */
+export function setPermissionModeBackend(sessionId: string, mode: PermissionMode): void {
+  wsClient.send({
+    type: "set-permission-mode",
+    sessionId,
+    mode,
+  });
+}
+
+/**
+ * Turn MCP servers of a session on or off via WebSocket
+ * Pure WebSocket send - no Store manipulation
+ */
+export function setMcpServersBackend(sessionId: string, mcpServers: McpServerSelection): void {
+  wsClient.send({
+    type: "set-mcp-servers",
+    sessionId,
+    mcpServers,
+  });
+}
+
+/**
+ * Replace the session (or agent) budget via WebSocket
+ * Pure WebSocket send - no Store manipulation
+ */
+export function setBudgetBackend(
+  sessionId: string,
+  scope: BudgetExceeded["scope"],
+  budget: Budget
+): void {
+  wsClient.send({
+    type: "set-budget",
+    sessionId,
+    scope,
+    budget,
+  });
+}
+
+/**
+ * Load permission state for a session
+ * Pure API call - returns mode and pending requests
+ */
+export async function loadSessionPermissions(
+  sessionId: string
+): Promise<{ mode: PermissionMode; pending: PermissionRequest[] }> {
+  const response = await api.sessionPermissions(sessionId);
+  if (!response.ok) {
+    throw new Error(`Failed to load permissions: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Load the workspaces of the server
+ * Pure API call - returns projects, the default one first
+ */
+export async function loadProjects(): Promise<Project[]> {
+  const response = await api.projects();
+  if (!response.ok) {
+    throw new Error(`Failed to load projects: ${response.statusText}`);
+  }
+
+  const { projects } = await response.json();
+  return projects;
+}
+
+/**
+ * Register a workspace directory
+ * Pure API call - returns the project
+ */
+export async function addProject(path: string): Promise<Project> {
+  const response = await api.addProject(path);
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: response.statusText }));
+    throw new Error(`Failed to add project: ${error}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Remove a workspace, its sessions stay on disk
+ * Pure API call - no event emission
+ */
+export async function removeProject(id: string): Promise<void> {
+  const response = await api.removeProject(id);
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: response.statusText }));
+    throw new Error(`Failed to remove project: ${error}`);
+  }
+}
+
+/**
+ * Load the MCP servers of the agent
+ * Pure API call - returns the servers new sessions start with
+ */
+export async function loadMcpServers(): Promise<McpServerInfo[]> {
+  const response = await api.mcpServers();
+  if (!response.ok) {
+    throw new Error(`Failed to load MCP servers: ${response.statusText}`);
+  }
+
+  const { servers } = await response.json();
+  return servers;
+}
+
+/**
+ * Load the MCP servers a session turned on or off
+ * Pure API call - returns servers of the agent and the session selection
+ */
+export async function loadSessionMcpServers(
+  sessionId: string
+): Promise<{ servers: McpServerInfo[]; mcpServers: McpServerSelection }> {
+  const response = await api.sessionMcpServers(sessionId);
+  if (!response.ok) {
+    throw new Error(`Failed to load MCP servers: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
 /**
  * Connect to WebSocket
  * Note: This is called by App.tsx on mount
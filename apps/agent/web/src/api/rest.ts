@@ -24,6 +24,19 @@ export const authenticatedFetch = (url: string, options: RequestInit = {}): Prom
   });
 };
 
+// Workspace the project endpoints address, the server default until one is selected
+let projectId: string | null = null;
+
+export const setProjectId = (id: string | null): void => {
+  projectId = id;
+};
+
+export const getProjectId = (): string | null => projectId;
+
+// Endpoint of the selected workspace
+export const projectUrl = (path: string): string =>
+  projectId ? `/api/projects/${projectId}${path}` : `/api${path}`;
+
 // API endpoints
 export const api = {
   // Auth endpoints (no token required)
@@ -49,7 +62,12 @@ export const api = {
   config: (): Promise<Response> => authenticatedFetch("/api/config"),
 
   sessions: (limit: number = 5, offset: number = 0): Promise<Response> =>
-    authenticatedFetch(`/api/sessions?limit=${limit}&offset=${offset}`),
+    authenticatedFetch(projectUrl(`/sessions?limit=${limit}&offset=${offset}`)),
+
+  searchSessions: (query: string, limit: number = 50): Promise<Response> =>
+    authenticatedFetch(
+      projectUrl(`/sessions/search?q=${encodeURIComponent(query)}&limit=${limit}`)
+    ),
 
   sessionMessages: (
     sessionId: string,
@@ -62,20 +80,49 @@ export const api = {
       params.append("offset", String(offset));
     }
     const queryString = params.toString();
-    const url = `/api/sessions/${sessionId}/messages${queryString ? `?${queryString}` : ""}`;
+    const url = projectUrl(
+      `/sessions/${sessionId}/messages${queryString ? `?${queryString}` : ""}`
+    );
     return authenticatedFetch(url);
   },
 
+  sessionPermissions: (sessionId: string): Promise<Response> =>
+    authenticatedFetch(projectUrl(`/sessions/${sessionId}/permissions`)),
+
+  sessionMcpServers: (sessionId: string): Promise<Response> =>
+    authenticatedFetch(projectUrl(`/sessions/${sessionId}/mcp-servers`)),
+
+  mcpServers: (): Promise<Response> => authenticatedFetch(projectUrl("/mcp/servers")),
+
   deleteSession: (sessionId: string): Promise<Response> =>
-    authenticatedFetch(`/api/sessions/${sessionId}`, {
+    authenticatedFetch(projectUrl(`/sessions/${sessionId}`), {
       method: "DELETE",
     }),
 
+  forkSession: (sessionId: string, atMessageId: string): Promise<Response> =>
+    authenticatedFetch(projectUrl(`/sessions/${sessionId}/fork`), {
+      method: "POST",
+      body: JSON.stringify({ atMessageId }),
+    }),
+
   createSession: (): Promise<Response> =>
-    authenticatedFetch("/api/sessions/create", {
+    authenticatedFetch(projectUrl("/sessions/create"), {
       method: "POST",
     }),
 
+  projects: (): Promise<Response> => authenticatedFetch("/api/projects"),
+
+  addProject: (path: string): Promise<Response> =>
+    authenticatedFetch("/api/projects", {
+      method: "POST",
+      body: JSON.stringify({ path }),
+    }),
+
+  removeProject: (id: string): Promise<Response> =>
+    authenticatedFetch(`/api/projects/${id}`, {
+      method: "DELETE",
+    }),
+
   readFile: (filePath: string): Promise<Response> =>
     authenticatedFetch(`/api/file?filePath=${encodeURIComponent(filePath)}`),
 
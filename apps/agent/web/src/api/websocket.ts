@@ -5,6 +5,7 @@
 
 import { adaptWebSocketToEventBus } from "~/core/websocketAdapter";
 import { eventBus } from "~/core/eventBus";
+import { getProjectId } from "./rest";
 
 class WebSocketClient {
   private ws: WebSocket | null = null;
@@ -97,7 +98,8 @@ class WebSocketClient {
    */
   send(message: any): void {
     if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      this.ws.send(JSON.stringify(message));
+      // Addressed to the agent of the selected workspace
+      this.ws.send(JSON.stringify({ projectId: getProjectId() ?? undefined, ...message }));
     } else {
       console.error("[WebSocket] Not connected, cannot send message");
     }
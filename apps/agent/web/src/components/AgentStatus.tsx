@@ -1,12 +1,10 @@
 import React, { useState, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
+import type { AgentStatus as AgentStatusState } from "~/stores/uiStore";
+import { errorGuidance, errorLabel } from "~/utils/agentErrors";
 
 interface AgentStatusProps {
-  status?: {
-    text?: string;
-    tokens?: number;
-    can_interrupt?: boolean;
-  };
+  status?: AgentStatusState;
   onAbort?: () => void;
   isLoading: boolean;
   provider?: "claude" | "cursor";
@@ -53,6 +51,9 @@ function AgentStatus({
   const statusText = status?.text || actionWords[actionIndex];
   const tokens = status?.tokens; // Only show tokens if provided by backend
   const canInterrupt = status?.can_interrupt !== false;
+  const retry = status?.retry;
+  // Re-rendered every second by the elapsed time timer
+  const retryIn = retry ? Math.max(0, Math.ceil((retry.retryAt - Date.now()) / 1000)) : 0;
 
   const spinners = ["✻", "✹", "✸", "✶"];
   const currentSpinner = spinners[animationPhase];
@@ -107,6 +108,15 @@ function AgentStatus({
                     <span className="text-gray-300 text-sm hidden sm:inline">esc to interrupt</span>
                   </div>
                   <div className="text-xs text-gray-400 sm:hidden mt-1">esc to interrupt</div>
+                  {retry && (
+                    <div className="mt-1 text-xs">
+                      <span className="text-amber-400">
+                        {errorLabel(retry.code)} · attempt {retry.attempt} of {retry.maxRetries}{" "}
+                        {retryIn > 0 ? `in ${retryIn}s` : "now"}
+                      </span>
+                      <span className="text-gray-400 ml-2">{errorGuidance(retry.code)}</span>
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -0,0 +1,84 @@
+/**
+ * BudgetBanner - Shown when a budget interrupted the session's run
+ * Offers to raise the reached limit and continue where the run stopped
+ */
+
+import { useBudgetStore, raisedBudget } from "~/stores/budgetStore";
+import type { Budget, BudgetExceeded } from "~/types";
+
+interface BudgetBannerProps {
+  sessionId: string | undefined;
+}
+
+const LIMIT_LABELS: Record<keyof Budget, string> = {
+  maxCostUsd: "cost",
+  maxTokens: "tokens",
+  maxTurns: "turns",
+};
+
+function formatLimit(limit: keyof Budget, value: number): string {
+  if (limit === "maxCostUsd") {
+    return `$${value.toFixed(2)}`;
+  }
+  return value.toLocaleString();
+}
+
+function usedOf(exceeded: BudgetExceeded): number {
+  switch (exceeded.limit) {
+    case "maxCostUsd":
+      return exceeded.usage.costUsd;
+    case "maxTokens":
+      return exceeded.usage.tokens;
+    case "maxTurns":
+      return exceeded.usage.turns;
+  }
+}
+
+function BudgetBanner({ sessionId }: BudgetBannerProps) {
+  const exceeded = useBudgetStore((state) =>
+    sessionId ? state.exceeded.get(sessionId) : undefined
+  );
+  const raise = useBudgetStore((state) => state.raise);
+  const dismiss = useBudgetStore((state) => state.dismiss);
+
+  if (!sessionId || !exceeded) {
+    return null;
+  }
+
+  const { limit, scope } = exceeded;
+  const max = exceeded.budget[limit]!;
+  const raisedTo = raisedBudget(exceeded)[limit]!;
+
+  return (
+    <div className="max-w-4xl mx-auto mb-3">
+      <div className="border border-red-300 dark:border-red-700 bg-red-50 dark:bg-red-900/20 rounded-lg px-4 py-3 shadow-sm">
+        <div className="text-sm font-medium text-red-900 dark:text-red-100 mb-1">
+          {scope === "agent" ? "Agent" : "Session"} budget reached, the run was stopped
+        </div>
+        <div className="text-xs text-red-800 dark:text-red-200 mb-3">
+          Used {formatLimit(limit, usedOf(exceeded))} of {formatLimit(limit, max)} (
+          {LIMIT_LABELS[limit]}){scope === "agent" && ", shared by all sessions"}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            type="button"
+            onClick={() => raise(sessionId, exceeded)}
+            className="px-3 py-1.5 text-xs font-medium rounded-md bg-blue-600 hover:bg-blue-700 text-white transition-colors"
+          >
+            Raise to {formatLimit(limit, raisedTo)} and continue
+          </button>
+          <button
+            type="button"
+            onClick={() => dismiss(sessionId)}
+            className="px-3 py-1.5 text-xs font-medium rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors ml-auto"
+          >
+            Dismiss
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default BudgetBanner;
@@ -7,16 +7,24 @@ import { useRef, useState, useEffect, useCallback } from "react";
 import { useDropzone } from "react-dropzone";
 import MessagesArea from "~/components/MessagesArea";
 import InputArea from "~/components/InputArea";
+import PermissionRequestPanel from "~/components/PermissionRequestPanel";
+import BudgetBanner from "~/components/BudgetBanner";
+import StallBanner from "~/components/StallBanner";
 import { useSessionStore } from "~/stores/sessionStore";
 import { useMessageStore } from "~/stores/messageStore";
 import { useUIStore } from "~/stores/uiStore";
+import { usePermissionStore, PERMISSION_MODES } from "~/stores/permissionStore";
 import { useDiffCalculation } from "~/hooks/useDiffCalculation";
+import { filesToAttachments } from "~/api/agent";
 import type { ChatMessage } from "~/types";
 
 export function ChatInterface() {
   const selectedSession = useSessionStore((state) => state.selectedSession);
   const isSessionProcessing = useSessionStore((state) => state.isSessionProcessing);
   const abortSessionById = useSessionStore((state) => state.abortSessionById);
+  const forkSession = useSessionStore((state) => state.forkSession);
+  const highlightedMessageId = useSessionStore((state) => state.highlightedMessageId);
+  const clearHighlight = useSessionStore((state) => state.clearHighlight);
   const sendMessage = useMessageStore((state) => state.sendMessage);
   const pendingSessionId = useMessageStore((state) => state.pendingSessionId);
   const { autoExpandTools, showRawParameters, showThinking, agentStatus, provider } = useUIStore();
@@ -27,6 +35,16 @@ export function ChatInterface() {
   // Determine effective session ID (pending or real)
   const effectiveSessionId = pendingSessionId || selectedSession?.id;
 
+  // Permission mode of the current session (or default for the next new session)
+  const permissionMode = usePermissionStore((state) => state.getMode(effectiveSessionId));
+  const changePermissionMode = usePermissionStore((state) => state.changeMode);
+
+  const handleModeSwitch = () => {
+    const next =
+      PERMISSION_MODES[(PERMISSION_MODES.indexOf(permissionMode) + 1) % PERMISSION_MODES.length];
+    changePermissionMode(selectedSession?.id, next);
+  };
+
   // Get messages using a stable approach
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
 
@@ -76,11 +94,28 @@ export function ChatInterface() {
     if (messagesEndRef.current && chatMessages.length > 0) {
       // Small delay to ensure DOM is updated
       setTimeout(() => {
-        messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+        // A search match being opened scrolls to its message instead
+        if (!useSessionStore.getState().highlightedMessageId) {
+          messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+        }
       }, 100);
     }
   }, [chatMessages.length]);
 
+  // Jump to the opened search match once its message is rendered
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+
+    const element = scrollContainerRef.current?.querySelector(
+      `[data-message-id="${window.CSS.escape(highlightedMessageId)}"]`
+    );
+    if (!element) return;
+
+    element.scrollIntoView({ behavior: "smooth", block: "center" });
+    const timer = setTimeout(clearHighlight, 4000);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId, chatMessages, clearHighlight]);
+
   // ESC key to interrupt/abort current session
   useEffect(() => {
     const handleEscKey = (e: KeyboardEvent) => {
@@ -95,17 +130,32 @@ export function ChatInterface() {
     return () => window.removeEventListener("keydown", handleEscKey);
   }, [isLoading, selectedSession, abortSessionById]);
 
+  // Fork the current session at a message (not while the agent is still responding)
+  const handleFork = useCallback(
+    (messageId: string) => {
+      if (selectedSession) {
+        forkSession(selectedSession.id, messageId);
+      }
+    },
+    [selectedSession, forkSession]
+  );
+
   // Note: Message loading is handled by sessionStore when session.selected event is emitted
   // No need for UI component to manage loading logic
 
-  // Image upload handlers
+  // Attachment upload handlers (images, PDFs and text files)
   const onDrop = useCallback((acceptedFiles: File[]) => {
-    const imageFiles = acceptedFiles.filter((file) => file.type.startsWith("image/"));
+    const imageFiles = acceptedFiles.filter(
+      (file) =>
+        file.type.startsWith("image/") ||
+        file.type === "application/pdf" ||
+        file.type === "text/plain"
+    );
 
     if (imageFiles.length < acceptedFiles.length) {
       setImageErrors((prev) => {
         const newErrors = new Map(prev);
-        newErrors.set("general", "Only image files are supported");
+        newErrors.set("general", "Only images, PDF and text files are supported");
         return newErrors;
       });
     }
@@ -117,6 +167,8 @@ export function ChatInterface() {
     onDrop,
     accept: {
       "image/*": [".png", ".jpg", ".jpeg", ".gif", ".webp"],
+      "application/pdf": [".pdf"],
+      "text/plain": [".txt"],
     },
     noClick: true,
     noKeyboard: true,
@@ -124,7 +176,8 @@ export function ChatInterface() {
 
   const handleSubmit = async (e?: React.FormEvent) => {
     if (e) e.preventDefault();
-    if (!input.trim() || isLoading) return;
+    // While a run is active, messages to an existing session are queued
+    if (!input.trim() || (isLoading && !selectedSession)) return;
 
     const messageContent = input.trim();
     const imagesToSend = attachedImages;
@@ -133,8 +186,10 @@ export function ChatInterface() {
     setAttachedImages([]);
 
     try {
+      const attachments =
+        imagesToSend.length > 0 ? await filesToAttachments(imagesToSend) : undefined;
       // Pass undefined sessionId if no session selected (lazy creation)
-      sendMessage(selectedSession?.id, messageContent, imagesToSend);
+      sendMessage(selectedSession?.id, messageContent, attachments);
     } catch (error) {
       console.error("Failed to send message:", error);
     }
@@ -186,6 +241,7 @@ export function ChatInterface() {
           visibleMessageCount={50}
           visibleMessages={chatMessages}
           isLoading={isLoading}
+          highlightedMessageId={highlightedMessageId}
           setProvider={() => {}}
           provider={provider}
           textareaRef={textareaRef}
@@ -193,6 +249,7 @@ export function ChatInterface() {
           createDiff={createDiff}
           onFileOpen={() => {}}
           onShowSettings={() => {}}
+          onFork={selectedSession && !isLoading ? handleFork : undefined}
           autoExpandTools={autoExpandTools}
           showRawParameters={showRawParameters}
           showThinking={showThinking}
@@ -200,6 +257,13 @@ export function ChatInterface() {
         />
       )}
 
+      {/* Run stopped by a budget */}
+      <BudgetBanner sessionId={effectiveSessionId} />
+      <StallBanner sessionId={effectiveSessionId} />
+
+      {/* Tool calls waiting for approval */}
+      <PermissionRequestPanel sessionId={effectiveSessionId} />
+
       {/* Input Area - always show */}
       <InputArea
         textareaRef={textareaRef}
@@ -212,7 +276,7 @@ export function ChatInterface() {
         attachedImages={attachedImages}
         uploadingImages={uploadingImages}
         imageErrors={imageErrors}
-        permissionMode="auto"
+        permissionMode={permissionMode}
         selectedSession={
           selectedSession ||
           (effectiveSessionId
@@ -225,7 +289,7 @@ export function ChatInterface() {
               }
             : null)
         }
-        claudeStatus={agentStatus?.text || null}
+        claudeStatus={agentStatus}
         provider={provider || "claude"}
         showThinking={showThinking}
         tokenBudget={null}
@@ -243,7 +307,7 @@ export function ChatInterface() {
         frequentCommands={[]}
         sendByCtrlEnter={false}
         handleAbortSession={() => selectedSession && abortSessionById(selectedSession.id)}
-        handleModeSwitch={() => {}}
+        handleModeSwitch={handleModeSwitch}
         scrollToBottom={() => {}}
         setInput={setInput}
         setIsTextareaExpanded={() => {}}
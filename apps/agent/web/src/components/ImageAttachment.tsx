@@ -10,19 +10,32 @@ interface ImageAttachmentProps {
 export function ImageAttachment({ file, onRemove, uploadProgress, error }: ImageAttachmentProps) {
   const [preview, setPreview] = React.useState<string>("");
 
+  const isImage = file.type.startsWith("image/");
+
   React.useEffect(() => {
+    if (!isImage) return;
     const reader = new FileReader();
     reader.onloadend = () => {
       setPreview(reader.result as string);
     };
     reader.readAsDataURL(file);
-  }, [file]);
+  }, [file, isImage]);
 
   return (
     <div className="relative group">
       <div className="w-20 h-20 rounded-lg overflow-hidden border-2 border-gray-200 dark:border-gray-700 bg-gray-100 dark:bg-gray-800">
         {preview ? (
           <img src={preview} alt={file.name} className="w-full h-full object-cover" />
+        ) : !isImage ? (
+          <div
+            className="w-full h-full flex flex-col items-center justify-center p-1 text-center"
+            title={file.name}
+          >
+            <span className="text-2xl">📄</span>
+            <span className="text-[10px] text-gray-600 dark:text-gray-300 truncate w-full">
+              {file.name}
+            </span>
+          </div>
         ) : (
           <div className="w-full h-full flex items-center justify-center">
             <svg
@@ -69,7 +82,7 @@ export function ImageAttachment({ file, onRemove, uploadProgress, error }: Image
       <button
         onClick={onRemove}
         className="absolute -top-2 -right-2 w-6 h-6 bg-red-500 hover:bg-red-600 text-white rounded-full flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity shadow-lg"
-        title="Remove image"
+        title="Remove attachment"
       >
         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
           <path
@@ -29,7 +29,7 @@ function ActionButtons({
         type="button"
         onClick={onImageUpload}
         className="absolute left-2 top-1/2 transform -translate-y-1/2 p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
-        title="Attach images"
+        title="Attach images or documents"
       >
         <svg
           className="w-5 h-5 text-gray-500"
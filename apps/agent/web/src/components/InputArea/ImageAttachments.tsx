@@ -35,7 +35,7 @@ function ImageAttachments({
                 d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12"
               />
             </svg>
-            <p className="text-sm font-medium">Drop images here</p>
+            <p className="text-sm font-medium">Drop images or documents here</p>
           </div>
         </div>
       )}
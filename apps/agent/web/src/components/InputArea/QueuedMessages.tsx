@@ -0,0 +1,130 @@
+/**
+ * QueuedMessages - Messages sent while a run is active, waiting for their turn
+ * Each can be edited, cancelled or steered into the running turn
+ */
+
+import { useState } from "react";
+import { useQueueStore } from "~/stores/queueStore";
+import type { QueuedMessage } from "~/types";
+
+interface QueuedMessagesProps {
+  sessionId: string | undefined;
+}
+
+function QueuedMessages({ sessionId }: QueuedMessagesProps) {
+  const queue = useQueueStore((state) => (sessionId ? state.queues.get(sessionId) : undefined));
+
+  if (!sessionId || !queue || queue.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto mb-3 space-y-2">
+      <div className="text-xs font-medium text-gray-500 dark:text-gray-400">
+        Queued - sent when the current run completes
+      </div>
+      {queue.map((message) => (
+        <QueuedMessageItem key={message.id} sessionId={sessionId} message={message} />
+      ))}
+    </div>
+  );
+}
+
+interface QueuedMessageItemProps {
+  sessionId: string;
+  message: QueuedMessage;
+}
+
+function QueuedMessageItem({ sessionId, message }: QueuedMessageItemProps) {
+  const edit = useQueueStore((state) => state.edit);
+  const cancel = useQueueStore((state) => state.cancel);
+  const steer = useQueueStore((state) => state.steer);
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const saveDraft = () => {
+    if (draft !== null && draft.trim() && draft.trim() !== message.content) {
+      edit(sessionId, message.id, draft.trim());
+    }
+    setDraft(null);
+  };
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50 rounded-lg px-3 py-2">
+      {draft !== null ? (
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && !e.shiftKey && !e.nativeEvent.isComposing) {
+              e.preventDefault();
+              saveDraft();
+            } else if (e.key === "Escape") {
+              setDraft(null);
+            }
+          }}
+          autoFocus
+          rows={2}
+          className="w-full text-sm bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 border border-gray-300 dark:border-gray-600 rounded-md px-2 py-1 resize-none focus:outline-none focus:ring-1 focus:ring-blue-500"
+        />
+      ) : (
+        <div className="text-sm text-gray-800 dark:text-gray-200 whitespace-pre-wrap line-clamp-3">
+          {message.content}
+          {message.attachments && message.attachments.length > 0 && (
+            <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+              +{message.attachments.length} attachment
+              {message.attachments.length > 1 ? "s" : ""}
+            </span>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 mt-2">
+        {draft !== null ? (
+          <>
+            <button
+              type="button"
+              onClick={saveDraft}
+              className="px-2 py-1 text-xs font-medium rounded-md bg-blue-600 hover:bg-blue-700 text-white transition-colors"
+            >
+              Save
+            </button>
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className="px-2 py-1 text-xs font-medium rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            >
+              Discard
+            </button>
+          </>
+        ) : (
+          <>
+            <button
+              type="button"
+              onClick={() => steer(sessionId, message.id)}
+              className="px-2 py-1 text-xs font-medium rounded-md bg-blue-600 hover:bg-blue-700 text-white transition-colors"
+              title="Send into the running turn now"
+            >
+              Steer
+            </button>
+            <button
+              type="button"
+              onClick={() => setDraft(message.content)}
+              className="px-2 py-1 text-xs font-medium rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            >
+              Edit
+            </button>
+            <button
+              type="button"
+              onClick={() => cancel(sessionId, message.id)}
+              className="px-2 py-1 text-xs font-medium rounded-md text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors ml-auto"
+            >
+              Cancel
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default QueuedMessages;
@@ -0,0 +1,99 @@
+/**
+ * SessionSettings - Settings of the current (or next new) session
+ * MCP servers of the agent can be turned off here, changes apply from the next message
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { useMcpStore } from "~/stores/mcpStore";
+
+const SERVER_TYPE_LABELS: Record<string, string> = {
+  stdio: "local",
+  http: "HTTP",
+  sse: "SSE",
+  sdk: "built-in",
+};
+
+interface SessionSettingsProps {
+  sessionId: string | undefined;
+}
+
+function SessionSettings({ sessionId }: SessionSettingsProps) {
+  const servers = useMcpStore((state) => state.servers);
+  const selection = useMcpStore((state) =>
+    sessionId ? state.selections.get(sessionId) || state.defaultSelection : state.defaultSelection
+  );
+  const load = useMcpStore((state) => state.load);
+  const toggle = useMcpStore((state) => state.toggle);
+  const [open, setOpen] = useState(false);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (open) {
+      load();
+    }
+  }, [open, load]);
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+    const close = (e: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", close);
+    return () => document.removeEventListener("mousedown", close);
+  }, [open]);
+
+  const enabledCount = servers.filter((server) => selection[server.name] !== false).length;
+
+  return (
+    <div ref={panelRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="px-3 py-1 text-xs font-medium rounded-full border border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+        title="Session settings"
+      >
+        {servers.length > 0 ? `MCP ${enabledCount}/${servers.length}` : "Settings"}
+      </button>
+
+      {open && (
+        <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 w-72 z-20 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-3">
+          <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-2">
+            MCP servers - changes apply from the next message
+          </div>
+          {servers.length === 0 ? (
+            <div className="text-sm text-gray-500 dark:text-gray-400">
+              No MCP servers configured
+            </div>
+          ) : (
+            <ul className="space-y-1">
+              {servers.map((server) => (
+                <li key={server.name}>
+                  <label className="flex items-center gap-2 px-1 py-1 rounded hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={selection[server.name] !== false}
+                      onChange={(e) => toggle(sessionId, server.name, e.target.checked)}
+                      className="rounded border-gray-300 dark:border-gray-600"
+                    />
+                    <span className="flex-1 text-sm text-gray-800 dark:text-gray-200 truncate">
+                      {server.name}
+                    </span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {SERVER_TYPE_LABELS[server.type] || server.type}
+                    </span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SessionSettings;
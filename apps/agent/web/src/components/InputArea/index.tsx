@@ -1,8 +1,30 @@
 import React from "react";
 import AgentStatus from "~/components/AgentStatus";
 import ImageAttachments from "./ImageAttachments";
+import QueuedMessages from "./QueuedMessages";
+import SessionSettings from "./SessionSettings";
 import Textarea from "./Textarea";
-import type { Session, ChatMessage, ProjectInfo } from "~/types";
+import type { Session, ChatMessage, ProjectInfo, PermissionMode } from "~/types";
+import type { AgentStatus as AgentStatusState } from "~/stores/uiStore";
+
+const PERMISSION_MODE_LABELS: Record<PermissionMode, { label: string; className: string }> = {
+  default: {
+    label: "Ask before tools",
+    className: "border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300",
+  },
+  acceptEdits: {
+    label: "Accept edits",
+    className: "border-green-300 dark:border-green-700 text-green-700 dark:text-green-300",
+  },
+  plan: {
+    label: "Plan mode",
+    className: "border-blue-300 dark:border-blue-700 text-blue-700 dark:text-blue-300",
+  },
+  bypassPermissions: {
+    label: "Bypass permissions",
+    className: "border-orange-300 dark:border-orange-700 text-orange-700 dark:text-orange-300",
+  },
+};
 
 interface InputAreaProps {
   // Refs
@@ -18,9 +40,9 @@ interface InputAreaProps {
   attachedImages: File[];
   uploadingImages: Map<string, number>;
   imageErrors: Map<string, string>;
-  permissionMode: string;
+  permissionMode: PermissionMode;
   selectedSession: Session | null;
-  claudeStatus: string | null;
+  claudeStatus: AgentStatusState | null;
   provider: "claude" | "cursor";
   showThinking: boolean;
   tokenBudget: { used: number; total: number } | null;
@@ -82,8 +104,8 @@ function InputArea({
   attachedImages,
   uploadingImages,
   imageErrors,
-  permissionMode: _permissionMode,
-  selectedSession: _selectedSession,
+  permissionMode,
+  selectedSession,
   claudeStatus,
   provider,
   showThinking: _showThinking,
@@ -104,7 +126,7 @@ function InputArea({
 
   // Functions/Callbacks
   handleAbortSession,
-  handleModeSwitch: _handleModeSwitch,
+  handleModeSwitch,
   scrollToBottom,
   setInput,
   setIsTextareaExpanded,
@@ -134,7 +156,7 @@ function InputArea({
     >
       <div className="flex-1">
         <AgentStatus
-          status={claudeStatus ? { text: claudeStatus } : undefined}
+          status={claudeStatus || undefined}
           isLoading={isLoading}
           onAbort={handleAbortSession}
           provider={provider}
@@ -150,6 +172,19 @@ function InputArea({
             total={tokenBudget?.total || parseInt(import.meta.env.VITE_CONTEXT_WINDOW) || 160000}
           /> */}
 
+          {/* Permission mode - click to cycle */}
+          <button
+            type="button"
+            onClick={handleModeSwitch}
+            className={`px-3 py-1 text-xs font-medium rounded-full border bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors ${PERMISSION_MODE_LABELS[permissionMode].className}`}
+            title="Permission mode - click to switch"
+          >
+            {PERMISSION_MODE_LABELS[permissionMode].label}
+          </button>
+
+          {/* Session settings - MCP servers of this session */}
+          <SessionSettings sessionId={selectedSession?.id} />
+
           {/* Clear input button - positioned to the right of token pie, only shows when there's input */}
           {input.trim() && (
             <button
@@ -203,6 +238,9 @@ function InputArea({
         </div>
       </div>
 
+      {/* Messages waiting for the current run */}
+      <QueuedMessages sessionId={selectedSession?.id} />
+
       <form onSubmit={handleSubmit} className="relative max-w-4xl mx-auto">
         {/* Image Attachments */}
         <ImageAttachments
@@ -219,7 +257,7 @@ function InputArea({
         <Textarea
           textareaRef={textareaRef}
           value={input}
-          isLoading={isLoading}
+          isLoading={isLoading && !selectedSession}
           isExpanded={isTextareaExpanded}
           isInputFocused={isInputFocused}
           sendByCtrlEnter={sendByCtrlEnter}
@@ -1,12 +1,9 @@
 import { Markdown, formatUsageLimitText } from "./index";
-import { ThinkingSection } from "./ThinkingSection";
 import { JSONRenderer } from "./JSONRenderer";
 
 interface AssistantMessageProps {
   content: string;
-  timestamp: string;
-  reasoning?: string;
-  showThinking: boolean;
+  timestamp: Date | string;
   messageType: "assistant" | "error";
   isGrouped: boolean;
 }
@@ -14,8 +11,6 @@ interface AssistantMessageProps {
 export function AssistantMessage({
   content,
   timestamp,
-  reasoning,
-  showThinking,
   messageType,
   isGrouped,
 }: AssistantMessageProps) {
@@ -29,9 +24,6 @@ export function AssistantMessage({
 
   return (
     <div className="text-sm text-gray-700 dark:text-gray-300">
-      {/* Thinking accordion for reasoning */}
-      {showThinking && reasoning && <ThinkingSection reasoning={reasoning} />}
-
       {/* Content rendering */}
       {isJSON ? (
         <JSONRenderer content={trimmedContent} />
@@ -1,5 +1,5 @@
 interface MessageHeaderProps {
-  messageType: "assistant" | "user" | "error" | "tool";
+  messageType: "assistant" | "error" | "tool_use";
 }
 
 export function MessageHeader({ messageType }: MessageHeaderProps) {
@@ -9,7 +9,7 @@ export function MessageHeader({ messageType }: MessageHeaderProps) {
         <div className="w-8 h-8 bg-red-600 rounded-full flex items-center justify-center text-white text-sm flex-shrink-0">
           !
         </div>
-      ) : messageType === "tool" ? (
+      ) : messageType === "tool_use" ? (
         <div className="w-8 h-8 rounded-full flex items-center justify-center text-2xl flex-shrink-0">
           🔧
         </div>
@@ -19,7 +19,7 @@ export function MessageHeader({ messageType }: MessageHeaderProps) {
         </div>
       )}
       <div className="text-sm font-medium text-gray-900 dark:text-white">
-        {messageType === "error" ? "Error" : messageType === "tool" ? "Tool" : "Agent"}
+        {messageType === "error" ? "Error" : messageType === "tool_use" ? "Tool" : "Agent"}
       </div>
     </div>
   );
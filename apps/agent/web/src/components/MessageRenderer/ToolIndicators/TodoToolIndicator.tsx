@@ -1,7 +1,7 @@
 import TodoList from "~/components/TodoList";
 
 interface TodoToolIndicatorProps {
-  toolInput: string;
+  toolInput: Record<string, unknown>;
   toolName: "TodoWrite" | "TodoRead";
 }
 
@@ -26,26 +26,19 @@ export function TodoToolIndicator({ toolInput, toolName }: TodoToolIndicatorProp
     </svg>
   );
 
-  if (toolName === "TodoWrite") {
-    try {
-      const input = JSON.parse(toolInput);
-      if (input.todos && Array.isArray(input.todos)) {
-        return (
-          <div className="bg-gray-50/50 dark:bg-gray-800/30 border-l-2 border-gray-400 dark:border-gray-500 pl-3 py-2 my-2">
-            <div className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400 mb-2">
-              {icon}
-              <span className="font-medium">Update todo list</span>
-            </div>
-            <TodoList todos={input.todos} />
-          </div>
-        );
-      }
-    } catch (_e) {
-      // Parsing failed, show simple indicator
-    }
+  if (toolName === "TodoWrite" && Array.isArray(toolInput.todos)) {
+    return (
+      <div className="bg-gray-50/50 dark:bg-gray-800/30 border-l-2 border-gray-400 dark:border-gray-500 pl-3 py-2 my-2">
+        <div className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400 mb-2">
+          {icon}
+          <span className="font-medium">Update todo list</span>
+        </div>
+        <TodoList todos={toolInput.todos} />
+      </div>
+    );
   }
 
-  // TodoRead or failed parsing
+  // TodoRead or missing todos
   return (
     <div className="bg-gray-50/50 dark:bg-gray-800/30 border-l-2 border-gray-400 dark:border-gray-500 pl-3 py-2 my-2">
       <div className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
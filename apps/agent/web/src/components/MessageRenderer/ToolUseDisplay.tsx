@@ -2,6 +2,7 @@ import React from "react";
 import TodoList from "~/components/TodoList";
 import { api } from "~/utils/api";
 import DiffDisplay from "./DiffDisplay";
+import { ThinkingSection } from "./ThinkingSection";
 import { Markdown } from "./index";
 
 /**
@@ -43,7 +44,7 @@ function ToolUseDisplay({
             {message.toolInput &&
               (() => {
                 try {
-                  const input = JSON.parse(message.toolInput);
+                  const input = message.toolInput;
                   return (
                     <span className="font-mono truncate flex-1 min-w-0">
                       {input.pattern && (
@@ -82,6 +83,7 @@ function ToolUseDisplay({
   }
 
   // Full display for other tools
+  const mcpTool = parseMcpToolName(message.toolName);
   return (
     <div className="group relative bg-gradient-to-br from-blue-50/50 to-indigo-50/50 dark:from-blue-950/20 dark:to-indigo-950/20 border border-blue-100/30 dark:border-blue-800/30 rounded-lg p-3 mb-2">
       {/* Decorative gradient overlay */}
@@ -113,7 +115,12 @@ function ToolUseDisplay({
           </div>
           <div className="flex flex-col">
             <span className="font-semibold text-gray-900 dark:text-white text-sm">
-              {message.toolName}
+              {mcpTool ? mcpTool.name : message.toolName}
+              {mcpTool && (
+                <span className="ml-2 px-1.5 py-0.5 text-[10px] font-medium rounded bg-indigo-100 dark:bg-indigo-900/40 text-indigo-700 dark:text-indigo-300">
+                  {mcpTool.server}
+                </span>
+              )}
             </span>
             <span className="text-xs text-gray-500 dark:text-gray-400 font-mono">
               {message.toolId}
@@ -163,6 +170,18 @@ function ToolUseDisplay({
           createDiff
         )}
 
+      {/* Subagent run started by a Task call */}
+      {message.subagentMessages?.length > 0 && (
+        <SubagentTranscript
+          message={message}
+          autoExpandTools={autoExpandTools}
+          showRawParameters={showRawParameters}
+          onFileOpen={onFileOpen}
+          selectedProject={selectedProject}
+          createDiff={createDiff}
+        />
+      )}
+
       {/* Tool Result Section */}
       {message.toolResult &&
         renderToolResult(message, autoExpandTools, onFileOpen, selectedProject, createDiff)}
@@ -170,6 +189,85 @@ function ToolUseDisplay({
   );
 }
 
+/**
+ * SubagentTranscript - What the subagent of a Task call did, collapsed unless tools auto-expand
+ */
+function SubagentTranscript({
+  message,
+  autoExpandTools,
+  showRawParameters,
+  onFileOpen,
+  selectedProject,
+  createDiff,
+}) {
+  const messages = message.subagentMessages;
+  const toolCalls = messages.filter((child) => child.type === "tool_use").length;
+
+  return (
+    <details className="relative mt-3" open={autoExpandTools || undefined}>
+      <summary className="cursor-pointer text-sm font-medium text-indigo-700 dark:text-indigo-300 hover:text-indigo-900 dark:hover:text-indigo-100">
+        🤖 {message.toolInput?.subagent_type || "Subagent"} · {toolCalls}{" "}
+        {toolCalls === 1 ? "tool call" : "tool calls"}
+        {!message.toolResult && " · running..."}
+      </summary>
+      <div className="mt-2 pl-3 border-l-2 border-indigo-200 dark:border-indigo-800 space-y-2">
+        {messages.map((child) => {
+          switch (child.type) {
+            case "user":
+              // The prompt is already shown as the Task input
+              return child.content === message.toolInput?.prompt ? null : (
+                <div
+                  key={child.id}
+                  className="text-sm text-gray-600 dark:text-gray-400 whitespace-pre-wrap"
+                >
+                  {child.content}
+                </div>
+              );
+            case "assistant":
+              return (
+                <Markdown
+                  key={child.id}
+                  className="prose prose-sm max-w-none dark:prose-invert text-gray-800 dark:text-gray-200"
+                >
+                  {child.content}
+                </Markdown>
+              );
+            case "thinking":
+              return <ThinkingSection key={child.id} content={child.content} />;
+            case "tool_use":
+              return (
+                <ToolUseDisplay
+                  key={child.id}
+                  message={child}
+                  autoExpandTools={autoExpandTools}
+                  showRawParameters={showRawParameters}
+                  onFileOpen={onFileOpen}
+                  onShowSettings={undefined}
+                  selectedProject={selectedProject}
+                  createDiff={createDiff}
+                />
+              );
+            case "error":
+              return (
+                <div key={child.id} className="text-sm text-red-600 dark:text-red-400">
+                  {child.content}
+                </div>
+              );
+            default:
+              return null;
+          }
+        })}
+      </div>
+    </details>
+  );
+}
+
+// MCP tools (agent tools included) are named mcp__<server>__<tool>
+function parseMcpToolName(toolName: string): { server: string; name: string } | null {
+  const match = /^mcp__(.+?)__(.+)$/.exec(toolName || "");
+  return match ? { server: match[1], name: match[2] } : null;
+}
+
 // Helper function to render tool-specific input
 function renderToolInput(
   message,
@@ -182,7 +280,7 @@ function renderToolInput(
   // Edit tool - show diff
   if (message.toolName === "Edit") {
     try {
-      const input = JSON.parse(message.toolInput);
+      const input = message.toolInput;
       if (input.file_path && input.old_string && input.new_string) {
         return (
           <details className="relative mt-3 group/details" open={autoExpandTools}>
@@ -243,7 +341,7 @@ function renderToolInput(
               onFileOpen={onFileOpen}
               label="Diff"
               showRawParameters={showRawParameters}
-              rawInput={message.toolInput}
+              rawInput={JSON.stringify(message.toolInput, null, 2)}
               autoExpandTools={autoExpandTools}
             />
           </details>
@@ -257,8 +355,7 @@ function renderToolInput(
   // Write tool - show new file diff
   if (message.toolName === "Write") {
     try {
-      const input =
-        typeof message.toolInput === "string" ? JSON.parse(message.toolInput) : message.toolInput;
+      const input = message.toolInput;
 
       if (input.file_path && input.content !== undefined) {
         return (
@@ -317,7 +414,7 @@ function renderToolInput(
               onFileOpen={onFileOpen}
               label="New File"
               showRawParameters={showRawParameters}
-              rawInput={message.toolInput}
+              rawInput={JSON.stringify(message.toolInput, null, 2)}
               autoExpandTools={autoExpandTools}
             />
           </details>
@@ -331,7 +428,7 @@ function renderToolInput(
   // TodoWrite tool - show todo list
   if (message.toolName === "TodoWrite") {
     try {
-      const input = JSON.parse(message.toolInput);
+      const input = message.toolInput;
       if (input.todos && Array.isArray(input.todos)) {
         return (
           <details className="relative mt-3 group/todo" open={autoExpandTools}>
@@ -375,7 +472,7 @@ function renderToolInput(
                     View raw parameters
                   </summary>
                   <pre className="mt-2 text-xs bg-gray-50 dark:bg-gray-800/50 border border-gray-200/60 dark:border-gray-700/60 p-3 rounded-lg overflow-x-auto text-gray-700 dark:text-gray-300 font-mono">
-                    {message.toolInput}
+                    {JSON.stringify(message.toolInput, null, 2)}
                   </pre>
                 </details>
               )}
@@ -391,7 +488,7 @@ function renderToolInput(
   // Bash tool - show command
   if (message.toolName === "Bash") {
     try {
-      const input = JSON.parse(message.toolInput);
+      const input = message.toolInput;
       return (
         <div className="my-2">
           <div className="bg-gray-900 dark:bg-gray-950 rounded-md px-3 py-2 font-mono text-sm">
@@ -413,7 +510,7 @@ function renderToolInput(
   // Read tool - show filename
   if (message.toolName === "Read") {
     try {
-      const input = JSON.parse(message.toolInput);
+      const input = message.toolInput;
       if (input.file_path) {
         const filename = input.file_path.split("/").pop();
         return (
@@ -436,7 +533,7 @@ function renderToolInput(
   // exit_plan_mode tool - show plan
   if (message.toolName === "exit_plan_mode") {
     try {
-      const input = JSON.parse(message.toolInput);
+      const input = message.toolInput;
       if (input.plan) {
         const planContent = input.plan.replace(/\\n/g, "\n");
         return (
@@ -483,14 +580,7 @@ function renderToolInput(
         View input parameters
       </summary>
       <pre className="mt-3 text-xs bg-gray-50 dark:bg-gray-800/50 border border-gray-200/60 dark:border-gray-700/60 p-3 rounded-lg whitespace-pre-wrap break-words overflow-x-auto text-gray-700 dark:text-gray-300 font-mono">
-        {(() => {
-          try {
-            const parsed = JSON.parse(message.toolInput);
-            return JSON.stringify(parsed, null, 2);
-          } catch {
-            return message.toolInput;
-          }
-        })()}
+        {JSON.stringify(message.toolInput, null, 2)}
       </pre>
     </details>
   );
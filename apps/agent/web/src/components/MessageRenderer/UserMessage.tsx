@@ -1,11 +1,21 @@
+import type { Attachment } from "~/types";
+
 interface UserMessageProps {
   content: string;
-  timestamp: string;
-  images?: Array<{ data: string; name: string }>;
+  timestamp: Date | string;
+  attachments?: Attachment[];
   isGrouped: boolean;
 }
 
-export function UserMessage({ content, timestamp, images, isGrouped }: UserMessageProps) {
+export function UserMessage({ content, timestamp, attachments = [], isGrouped }: UserMessageProps) {
+  const images = attachments
+    .filter((attachment) => attachment.type === "image")
+    .map((attachment) => ({
+      data: `data:${attachment.mediaType};base64,${attachment.data}`,
+      name: attachment.name || "image",
+    }));
+  const documents = attachments.filter((attachment) => attachment.type === "document");
+
   return (
     <div className="flex flex-col items-end w-full sm:w-auto sm:max-w-[85%] md:max-w-md lg:max-w-lg xl:max-w-xl">
       <div className="flex items-end space-x-2">
@@ -13,7 +23,7 @@ export function UserMessage({ content, timestamp, images, isGrouped }: UserMessa
           <div className="text-sm whitespace-pre-wrap break-all max-w-full overflow-hidden">
             {content}
           </div>
-          {images && images.length > 0 && (
+          {images.length > 0 && (
             <div className="mt-2 grid grid-cols-2 gap-2">
               {images.map((img, idx) => (
                 <img
@@ -26,6 +36,19 @@ export function UserMessage({ content, timestamp, images, isGrouped }: UserMessa
               ))}
             </div>
           )}
+          {documents.length > 0 && (
+            <div className="mt-2 flex flex-wrap gap-2">
+              {documents.map((doc, idx) => (
+                <span
+                  key={idx}
+                  className="inline-flex items-center gap-1 px-2 py-1 rounded-md bg-orange-600/60 text-xs"
+                  title={doc.mediaType}
+                >
+                  📄 {doc.name || (doc.mediaType === "application/pdf" ? "document.pdf" : "text")}
+                </span>
+              ))}
+            </div>
+          )}
         </div>
         {!isGrouped && (
           <div className="hidden sm:flex w-8 h-8 rounded-full items-center justify-center text-2xl flex-shrink-0">
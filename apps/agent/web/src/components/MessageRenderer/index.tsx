@@ -1,13 +1,15 @@
 import React, { useState, memo } from "react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
+import { GitBranch } from "lucide-react";
 import { UserMessage } from "./UserMessage";
 import { AssistantMessage } from "./AssistantMessage";
 import { MessageHeader } from "./MessageHeader";
 import { ReadToolIndicator, TodoToolIndicator } from "./ToolIndicators";
 import ToolUseDisplay from "./ToolUseDisplay";
 import DiffDisplay from "./DiffDisplay";
-import type { ProjectInfo } from "~/types";
+import { ThinkingSection } from "./ThinkingSection";
+import type { ChatMessage, ProjectInfo } from "~/types";
 
 /**
  * Utility function to decode HTML entities
@@ -201,15 +203,16 @@ const Markdown = ({ children, className }: { children: string; className?: strin
 };
 
 interface MessageRendererProps {
-  message: any;
+  message: ChatMessage;
   index: number;
-  prevMessage: any | null;
+  prevMessage: ChatMessage | null;
   createDiff: (
     oldCode: string,
     newCode: string
   ) => Array<{ type: string; content: string; lineNum: number }>;
   onFileOpen?: (filePath: string) => void;
   onShowSettings?: () => void;
+  onFork?: (messageId: string) => void; // Start a new session from this message
   autoExpandTools: boolean;
   showRawParameters: boolean;
   showThinking: boolean;
@@ -227,6 +230,7 @@ const MessageRenderer = memo(
     createDiff,
     onFileOpen,
     onShowSettings,
+    onFork,
     autoExpandTools,
     showRawParameters,
     showThinking,
@@ -235,7 +239,7 @@ const MessageRenderer = memo(
     const isGrouped =
       prevMessage &&
       prevMessage.type === message.type &&
-      ["assistant", "user", "tool", "error"].includes(prevMessage.type);
+      ["assistant", "user", "tool_use", "error"].includes(prevMessage.type);
 
     const messageRef = React.useRef<HTMLDivElement>(null);
     const [isExpanded, setIsExpanded] = React.useState(false);
@@ -243,7 +247,7 @@ const MessageRenderer = memo(
     // Auto-expand tool use when it comes into view
     React.useEffect(() => {
       const currentElement = messageRef.current;
-      if (!autoExpandTools || !currentElement || !message.isToolUse) return;
+      if (!autoExpandTools || !currentElement || message.type !== "tool_use") return;
 
       const observer = new IntersectionObserver(
         (entries) => {
@@ -265,18 +269,45 @@ const MessageRenderer = memo(
       return () => {
         observer.unobserve(currentElement);
       };
-    }, [autoExpandTools, isExpanded, message.isToolUse]);
+    }, [autoExpandTools, isExpanded, message.type]);
+
+    if (message.type === "thinking") {
+      return showThinking ? (
+        <div className="chat-message thinking px-3 sm:px-0">
+          <ThinkingSection content={message.content} isStreaming={message.isStreaming} />
+        </div>
+      ) : null;
+    }
+
+    if (message.type === "system") {
+      return (
+        <div className="chat-message system px-3 sm:px-0 my-2 text-center text-xs text-gray-500 dark:text-gray-400">
+          {message.content || message.subtype}
+        </div>
+      );
+    }
 
     return (
       <div
         ref={messageRef}
-        className={`chat-message ${message.type} ${isGrouped ? "grouped" : ""} ${message.type === "user" ? "flex justify-end px-3 sm:px-0" : "px-3 sm:px-0"}`}
+        className={`chat-message group relative ${message.type} ${isGrouped ? "grouped" : ""} ${message.type === "user" ? "flex justify-end px-3 sm:px-0" : "px-3 sm:px-0"}`}
       >
+        {onFork && (message.type === "user" || message.type === "assistant") && (
+          <button
+            type="button"
+            onClick={() => onFork(message.id)}
+            className={`absolute top-0 ${message.type === "user" ? "left-3 sm:left-0" : "right-3 sm:right-0"} z-10 flex items-center gap-1 text-xs px-2 py-1 rounded-md opacity-0 group-hover:opacity-100 transition-opacity text-gray-500 hover:text-gray-900 hover:bg-gray-100 dark:text-gray-400 dark:hover:text-white dark:hover:bg-gray-800`}
+            title="Start a new session from this point"
+          >
+            <GitBranch className="w-3 h-3" />
+            Fork from here
+          </button>
+        )}
         {message.type === "user" ? (
           <UserMessage
             content={message.content}
             timestamp={message.timestamp}
-            images={message.images}
+            attachments={message.attachments}
             isGrouped={isGrouped}
           />
         ) : (
@@ -285,7 +316,7 @@ const MessageRenderer = memo(
 
             <div className="w-full">
               {/* Tool Use Display */}
-              {message.isToolUse &&
+              {message.type === "tool_use" &&
               !["Read", "TodoWrite", "TodoRead"].includes(message.toolName) ? (
                 <ToolUseDisplay
                   message={message}
@@ -297,17 +328,17 @@ const MessageRenderer = memo(
                   selectedProject={selectedProject}
                   createDiff={createDiff}
                 />
-              ) : message.isToolUse && message.toolName === "Read" ? (
+              ) : message.type === "tool_use" && message.toolName === "Read" ? (
                 <ReadToolIndicator toolInput={message.toolInput} onFileOpen={onFileOpen} />
-              ) : message.isToolUse &&
-                (message.toolName === "TodoWrite" || message.toolName === "TodoRead") ? (
-                <TodoToolIndicator toolInput={message.toolInput} toolName={message.toolName} />
+              ) : message.type === "tool_use" ? (
+                <TodoToolIndicator
+                  toolInput={message.toolInput}
+                  toolName={message.toolName as "TodoWrite" | "TodoRead"}
+                />
               ) : (
                 <AssistantMessage
                   content={message.content}
                   timestamp={message.timestamp}
-                  reasoning={message.reasoning}
-                  showThinking={showThinking}
                   messageType={message.type}
                   isGrouped={isGrouped}
                 />
@@ -21,6 +21,7 @@ interface MessagesAreaProps {
   visibleMessageCount: number;
   visibleMessages: ChatMessage[];
   isLoading: boolean;
+  highlightedMessageId?: string | null; // Search match to mark
 
   // Functions/Callbacks
   setProvider: (provider: string) => void;
@@ -32,6 +33,7 @@ interface MessagesAreaProps {
   ) => Array<{ type: string; content: string; lineNum: number }>;
   onFileOpen: (filePath: string) => void;
   onShowSettings: () => void;
+  onFork?: (messageId: string) => void;
   autoExpandTools: boolean;
   showRawParameters: boolean;
   showThinking: boolean;
@@ -56,6 +58,7 @@ function MessagesArea({
   visibleMessageCount,
   visibleMessages,
   isLoading,
+  highlightedMessageId,
 
   // Functions/Callbacks
   setProvider: _setProvider,
@@ -64,6 +67,7 @@ function MessagesArea({
   createDiff,
   onFileOpen,
   onShowSettings,
+  onFork,
   autoExpandTools,
   showRawParameters,
   showThinking,
@@ -139,7 +143,15 @@ function MessagesArea({
                 const prevMessage = index > 0 ? visibleMessages[index - 1] : null;
 
                 return (
-                  <div key={message.id}>
+                  <div
+                    key={message.id}
+                    data-message-id={message.id}
+                    className={
+                      message.id === highlightedMessageId
+                        ? "rounded-lg ring-2 ring-yellow-400/70 ring-offset-2 ring-offset-background transition-shadow duration-500"
+                        : undefined
+                    }
+                  >
                     <MessageComponent
                       message={message}
                       index={index}
@@ -147,6 +159,7 @@ function MessagesArea({
                       createDiff={createDiff}
                       onFileOpen={onFileOpen}
                       onShowSettings={onShowSettings}
+                      onFork={onFork}
                       autoExpandTools={autoExpandTools}
                       showRawParameters={showRawParameters}
                       showThinking={showThinking}
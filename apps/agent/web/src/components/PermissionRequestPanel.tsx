@@ -0,0 +1,102 @@
+/**
+ * PermissionRequestPanel - Tool calls waiting for user approval
+ * Shown above the input while the agent is blocked on a permission request
+ */
+
+import { usePermissionStore } from "~/stores/permissionStore";
+import type { PermissionRequest, PermissionScope } from "~/types";
+
+interface PermissionRequestPanelProps {
+  sessionId: string | undefined;
+}
+
+const EMPTY: PermissionRequest[] = [];
+
+/**
+ * Short, human readable description of what the tool is about to do
+ */
+function describeInput(request: PermissionRequest): string {
+  const input = request.input || {};
+
+  if (typeof input.command === "string") return input.command;
+  if (typeof input.file_path === "string") return input.file_path;
+  if (typeof input.url === "string") return input.url;
+  if (typeof input.pattern === "string") return input.pattern;
+
+  return JSON.stringify(input, null, 2);
+}
+
+function PermissionRequestPanel({ sessionId }: PermissionRequestPanelProps) {
+  const requests = usePermissionStore((state) =>
+    sessionId ? state.pendingRequests.get(sessionId) || EMPTY : EMPTY
+  );
+  const respond = usePermissionStore((state) => state.respond);
+
+  if (!sessionId || requests.length === 0) {
+    return null;
+  }
+
+  const answer = (
+    request: PermissionRequest,
+    behavior: "allow" | "deny",
+    scope: PermissionScope = "once"
+  ) => {
+    respond(sessionId, request.id, behavior, scope);
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto mb-3 space-y-2">
+      {requests.map((request) => (
+        <div
+          key={request.id}
+          className="border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/20 rounded-lg px-4 py-3 shadow-sm"
+        >
+          <div className="flex items-center gap-2 mb-2">
+            <span className="text-sm font-medium text-amber-900 dark:text-amber-100">
+              Allow <span className="font-mono">{request.toolName}</span>?
+            </span>
+          </div>
+
+          <pre className="text-xs font-mono text-gray-800 dark:text-gray-200 bg-white/70 dark:bg-gray-900/50 rounded px-3 py-2 mb-3 max-h-40 overflow-auto whitespace-pre-wrap break-all">
+            {describeInput(request)}
+          </pre>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              type="button"
+              onClick={() => answer(request, "allow")}
+              className="px-3 py-1.5 text-xs font-medium rounded-md bg-blue-600 hover:bg-blue-700 text-white transition-colors"
+            >
+              Allow once
+            </button>
+            <button
+              type="button"
+              onClick={() => answer(request, "allow", "session")}
+              className="px-3 py-1.5 text-xs font-medium rounded-md border border-blue-600 text-blue-700 dark:text-blue-300 hover:bg-blue-50 dark:hover:bg-blue-900/30 transition-colors"
+              title={`Don't ask again for ${request.toolName} calls like this in this session`}
+            >
+              Allow for session
+            </button>
+            <button
+              type="button"
+              onClick={() => answer(request, "allow", "always")}
+              className="px-3 py-1.5 text-xs font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+              title="Save as a rule in .claude/settings.local.json"
+            >
+              Always allow
+            </button>
+            <button
+              type="button"
+              onClick={() => answer(request, "deny")}
+              className="px-3 py-1.5 text-xs font-medium rounded-md text-red-700 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 transition-colors ml-auto"
+            >
+              Deny
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default PermissionRequestPanel;
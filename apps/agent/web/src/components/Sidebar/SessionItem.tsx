@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { Clock, Trash2 } from "lucide-react";
+import { Clock, GitBranch, Trash2 } from "lucide-react";
 import { Button } from "~/components/ui/button";
 import { Badge } from "~/components/ui/badge";
 import { cn } from "~/lib/utils";
@@ -31,6 +31,7 @@ const formatTimeAgo = (dateString: string, currentTime: Date): string => {
 
 interface SessionItemProps {
   session: Session;
+  parentSession?: Session; // Set when the session was forked from one still in the list
   isSelected: boolean;
   currentTime: Date;
   onSelect: (session: Session) => void;
@@ -40,6 +41,7 @@ interface SessionItemProps {
 
 export function SessionItem({
   session,
+  parentSession,
   isSelected,
   currentTime,
   onSelect,
@@ -83,6 +85,22 @@ export function SessionItem({
   const sessionTime = session.lastActivity;
   const messageCount = session.messageCount || 0;
 
+  // Link back to the session this one was forked from (rendered inside the item button)
+  const parentLink = parentSession && (
+    <span
+      role="link"
+      className="flex items-center gap-1 mt-0.5 text-xs text-muted-foreground hover:text-foreground hover:underline truncate"
+      onClick={(e) => {
+        e.stopPropagation();
+        onSelect(parentSession);
+      }}
+      title="Open the session this one was forked from"
+    >
+      <GitBranch className="w-2.5 h-2.5 flex-shrink-0" />
+      <span className="truncate">Forked from {parentSession.summary || "New Session"}</span>
+    </span>
+  );
+
   return (
     <div className="group relative">
       {/* Active session indicator dot */}
@@ -124,6 +142,7 @@ export function SessionItem({
                   </Badge>
                 )}
               </div>
+              {parentLink}
             </div>
             {/* Mobile delete button */}
             <button
@@ -167,6 +186,7 @@ export function SessionItem({
                     </Badge>
                   )}
                 </div>
+                {parentLink}
               </div>
             </div>
           </Button>
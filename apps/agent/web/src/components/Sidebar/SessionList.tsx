@@ -84,6 +84,7 @@ export function SessionList({
               <SessionItem
                 key={session.id}
                 session={session}
+                parentSession={sessions.find((s) => s.id === session.parentSessionId)}
                 isSelected={selectedSession?.id === session.id}
                 currentTime={currentTime}
                 onSelect={onSessionSelect}
@@ -0,0 +1,84 @@
+import { Fragment } from "react";
+import { FileText, Terminal, Wrench } from "lucide-react";
+import type { SessionSearchMatch, SessionSearchResult } from "~/types";
+
+interface SessionSearchResultsProps {
+  query: string;
+  results: SessionSearchResult[];
+  isSearching: boolean;
+  onOpenMatch: (sessionId: string, messageId: string) => void;
+}
+
+const FIELD_ICONS: Record<SessionSearchMatch["field"], typeof FileText> = {
+  content: FileText,
+  toolInput: Wrench,
+  toolOutput: Terminal,
+};
+
+const FIELD_LABELS: Record<SessionSearchMatch["field"], string> = {
+  content: "Message",
+  toolInput: "Tool input",
+  toolOutput: "Tool output",
+};
+
+// Wrap occurrences of the query in <mark>
+function highlight(snippet: string, query: string) {
+  const escaped = query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const parts = snippet.split(new RegExp(`(${escaped})`, "gi"));
+  return parts.map((part, index) =>
+    part.toLowerCase() === query.toLowerCase() ? (
+      <mark
+        key={index}
+        className="bg-yellow-200/70 dark:bg-yellow-500/30 text-foreground rounded-sm"
+      >
+        {part}
+      </mark>
+    ) : (
+      <Fragment key={index}>{part}</Fragment>
+    )
+  );
+}
+
+/**
+ * Message matches of a sidebar search, grouped by session
+ */
+export function SessionSearchResults({
+  query,
+  results,
+  isSearching,
+  onOpenMatch,
+}: SessionSearchResultsProps) {
+  if (!query) {
+    return null;
+  }
+
+  return (
+    <div className="max-h-[45%] overflow-y-auto border-b border-border px-3 md:px-4 py-2 space-y-2">
+      <div className="text-xs font-medium text-muted-foreground">
+        {isSearching ? "Searching messages..." : `In messages (${results.length} sessions)`}
+      </div>
+
+      {results.map((result) => (
+        <div key={result.sessionId} className="space-y-1">
+          <div className="text-xs font-medium truncate text-foreground">
+            {result.summary || "New Session"}
+          </div>
+          {result.matches.map((match) => {
+            const Icon = FIELD_ICONS[match.field];
+            return (
+              <button
+                key={`${match.messageId}-${match.field}`}
+                className="w-full flex items-start gap-1.5 p-1.5 rounded text-left text-xs text-muted-foreground hover:bg-accent/50 transition-colors duration-200"
+                onClick={() => onOpenMatch(result.sessionId, match.messageId)}
+                title={`${FIELD_LABELS[match.field]} - jump to message`}
+              >
+                <Icon className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                <span className="line-clamp-2 break-all">{highlight(match.snippet, query)}</span>
+              </button>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+}
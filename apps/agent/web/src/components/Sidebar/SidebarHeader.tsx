@@ -1,23 +1,142 @@
-import { MessageSquare } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { Check, ChevronDown, FolderOpen, MessageSquare, Plus, X } from "lucide-react";
+import { useProjectStore } from "~/stores/projectStore";
 
 interface SidebarHeaderProps {
   isMobile?: boolean;
   isPWA?: boolean;
 }
 
+/**
+ * ProjectSwitcher - Workspaces of the server, add a directory or remove one
+ */
+function ProjectSwitcher() {
+  const projects = useProjectStore((state) => state.projects);
+  const currentProjectId = useProjectStore((state) => state.currentProjectId);
+  const error = useProjectStore((state) => state.error);
+  const select = useProjectStore((state) => state.select);
+  const add = useProjectStore((state) => state.add);
+  const remove = useProjectStore((state) => state.remove);
+  const [open, setOpen] = useState(false);
+  const [newPath, setNewPath] = useState("");
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  const current =
+    projects.find((project) => project.id === currentProjectId) ||
+    projects.find((project) => project.isDefault);
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+    const close = (e: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", close);
+    return () => document.removeEventListener("mousedown", close);
+  }, [open]);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newPath.trim()) {
+      return;
+    }
+    add(newPath.trim());
+    setNewPath("");
+  };
+
+  return (
+    <div ref={panelRef} className="relative mt-3">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center gap-2 px-2 py-1.5 rounded-md border border-border text-sm text-foreground hover:bg-accent transition-colors"
+        title={current?.fullPath}
+      >
+        <FolderOpen className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+        <span className="flex-1 text-left truncate">{current?.name || "Loading..."}</span>
+        <ChevronDown className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+      </button>
+
+      {open && (
+        <div className="absolute top-full mt-1 left-0 right-0 z-20 bg-card border border-border rounded-md shadow-lg p-1">
+          <ul className="max-h-60 overflow-y-auto">
+            {projects.map((project) => (
+              <li key={project.id} className="group flex items-center">
+                <button
+                  type="button"
+                  onClick={() => {
+                    select(project.id);
+                    setOpen(false);
+                  }}
+                  className="flex-1 min-w-0 flex items-center gap-2 px-2 py-1.5 rounded text-sm text-left hover:bg-accent"
+                  title={project.fullPath}
+                >
+                  <Check
+                    className={`w-4 h-4 flex-shrink-0 ${
+                      project.id === current?.id ? "text-primary" : "invisible"
+                    }`}
+                  />
+                  <span className="truncate">{project.name}</span>
+                </button>
+                {!project.isDefault && (
+                  <button
+                    type="button"
+                    onClick={() => remove(project.id)}
+                    className="p-1 rounded text-muted-foreground opacity-0 group-hover:opacity-100 hover:text-destructive"
+                    title="Remove workspace (sessions stay on disk)"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <form
+            onSubmit={handleAdd}
+            className="flex items-center gap-1 border-t border-border mt-1 pt-1"
+          >
+            <input
+              type="text"
+              value={newPath}
+              onChange={(e) => setNewPath(e.target.value)}
+              placeholder="/path/to/workspace"
+              className="flex-1 min-w-0 px-2 py-1 text-sm bg-transparent text-foreground placeholder:text-muted-foreground focus:outline-none"
+            />
+            <button
+              type="submit"
+              className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-accent"
+              title="Add workspace"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          </form>
+          {error && <div className="px-2 py-1 text-xs text-destructive">{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export function SidebarHeader({ isMobile = false, isPWA = false }: SidebarHeaderProps) {
   return (
     <div className="md:p-4 md:border-b md:border-border">
       {/* Desktop Header */}
-      <div className="hidden md:flex items-center justify-between">
-        <div className="flex items-center gap-3">
-          <div className="w-8 h-8 bg-primary rounded-lg flex items-center justify-center shadow-sm">
-            <MessageSquare className="w-4 h-4 text-primary-foreground" />
-          </div>
-          <div>
-            <h1 className="text-lg font-bold text-foreground">Deepractice Agent</h1>
+      <div className="hidden md:block">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-8 h-8 bg-primary rounded-lg flex items-center justify-center shadow-sm">
+              <MessageSquare className="w-4 h-4 text-primary-foreground" />
+            </div>
+            <div>
+              <h1 className="text-lg font-bold text-foreground">Deepractice Agent</h1>
+            </div>
           </div>
         </div>
+        <ProjectSwitcher />
       </div>
 
       {/* Mobile Header */}
@@ -35,6 +154,7 @@ export function SidebarHeader({ isMobile = false, isPWA = false }: SidebarHeader
             </div>
           </div>
         </div>
+        <ProjectSwitcher />
       </div>
     </div>
   );
@@ -1,7 +1,8 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useSessionStore } from "~/stores/sessionStore";
 import { SidebarHeader } from "./SidebarHeader";
 import { SessionSearchBar } from "./SessionSearchBar";
+import { SessionSearchResults } from "./SessionSearchResults";
 import { SessionList } from "./SessionList";
 import type { Session } from "~/types";
 
@@ -17,12 +18,23 @@ export function Sidebar({ isMobile = false, isPWA = false }: SidebarProps) {
   const sessions = useSessionStore((state) => state.sessions);
   const selectedSession = useSessionStore((state) => state.selectedSession);
   const isLoading = useSessionStore((state) => state.isLoading);
+  const searchQuery = useSessionStore((state) => state.searchQuery);
+  const searchResults = useSessionStore((state) => state.searchResults);
+  const isSearching = useSessionStore((state) => state.isSearching);
 
   // Get session actions from store
   const createNewSession = useSessionStore((state) => state.createNewSession);
   const selectSession = useSessionStore((state) => state.selectSession);
   const deleteSessionById = useSessionStore((state) => state.deleteSessionById);
   const refreshSessions = useSessionStore((state) => state.refreshSessions);
+  const searchSessions = useSessionStore((state) => state.searchSessions);
+  const openSearchMatch = useSessionStore((state) => state.openSearchMatch);
+
+  // Search message content on the backend once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => searchSessions(searchFilter), 300);
+    return () => clearTimeout(timer);
+  }, [searchFilter, searchSessions]);
 
   // Session action handlers
   const handleNewSession = async () => {
@@ -72,6 +84,13 @@ export function Sidebar({ isMobile = false, isPWA = false }: SidebarProps) {
         isMobile={isMobile}
       />
 
+      <SessionSearchResults
+        query={searchQuery}
+        results={searchResults}
+        isSearching={isSearching}
+        onOpenMatch={openSearchMatch}
+      />
+
       <SessionList
         sessions={sessions}
         selectedSession={selectedSession}
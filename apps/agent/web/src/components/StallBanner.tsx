@@ -0,0 +1,57 @@
+/**
+ * StallBanner - Shown when the agent stopped a run whose stream stalled
+ * Offers to send the stalled prompt again
+ */
+
+import { useStallStore } from "~/stores/stallStore";
+import { errorGuidance } from "~/utils/agentErrors";
+
+interface StallBannerProps {
+  sessionId: string | undefined;
+}
+
+function StallBanner({ sessionId }: StallBannerProps) {
+  const stall = useStallStore((state) => (sessionId ? state.stalled.get(sessionId) : undefined));
+  const retry = useStallStore((state) => state.retry);
+  const dismiss = useStallStore((state) => state.dismiss);
+
+  if (!sessionId || !stall) {
+    return null;
+  }
+
+  const seconds = Math.round(stall.timeoutMs / 1000);
+
+  return (
+    <div className="max-w-4xl mx-auto mb-3">
+      <div className="border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/20 rounded-lg px-4 py-3 shadow-sm">
+        <div className="text-sm font-medium text-amber-900 dark:text-amber-100 mb-1">
+          {stall.reason === "idle"
+            ? `No response for ${seconds}s, the run was stopped`
+            : `The run took longer than ${seconds}s and was stopped`}
+        </div>
+        <div className="text-xs text-amber-800 dark:text-amber-200 mb-3">
+          {errorGuidance("timeout")}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            type="button"
+            onClick={() => retry(sessionId)}
+            className="px-3 py-1.5 text-xs font-medium rounded-md bg-blue-600 hover:bg-blue-700 text-white transition-colors"
+          >
+            Retry
+          </button>
+          <button
+            type="button"
+            onClick={() => dismiss(sessionId)}
+            className="px-3 py-1.5 text-xs font-medium rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors ml-auto"
+          >
+            Dismiss
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default StallBanner;
@@ -3,36 +3,82 @@
  * Unified event types for the EventBus
  */
 
-import type { Session, ChatMessage } from "~/types";
+import type {
+  Session,
+  ChatMessage,
+  Attachment,
+  PermissionMode,
+  PermissionRequest,
+  PermissionScope,
+  ToolResult,
+  Budget,
+  BudgetExceeded,
+  AgentErrorCode,
+  RetryScheduled,
+  RunStalled,
+  QueuedMessage,
+  SendMode,
+  McpServerInfo,
+  McpServerSelection,
+  Project,
+} from "~/types";
 
 // Session Events
 export type SessionEvent =
   | { type: "session.navigate.new" } // User action: navigate to new session (lazy creation)
-  | { type: "session.create"; message: string; tempId?: string } // Store action: create session with first message
+  | { type: "session.create"; message: string; attachments?: Attachment[]; tempId?: string } // Store action: create session with first message
   | { type: "session.created"; sessionId: string; messages: ChatMessage[]; oldTempId?: string } // Store update: session created
   | { type: "session.updated"; sessions: Session[] }
+  | { type: "session.fork"; sessionId: string; atMessageId: string } // User action: fork session from a message
   | { type: "session.delete"; sessionId: string } // User action: delete session
   | { type: "session.deleted"; sessionId: string } // Store update: session deleted
   | { type: "session.refresh" } // User action: refresh sessions
+  | { type: "session.search"; query: string } // User action: search messages of all sessions
+  | { type: "session.search.open"; sessionId: string; messageId: string } // User action: jump to a search match
   | { type: "session.selected"; sessionId: string }
   | { type: "session.processing"; sessionId: string; isProcessing: boolean }
   | { type: "session.abort"; sessionId: string } // User action: abort session
   | { type: "session.aborted"; sessionId: string }; // Store update: session aborted
 
+// Project Events
+export type ProjectEvent =
+  | { type: "project.load" } // Store action: fetch the workspaces of the server
+  | { type: "project.loaded"; projects: Project[] } // Store update: workspaces loaded from API
+  | { type: "project.select"; projectId: string } // User action: switch workspace
+  | { type: "project.add"; path: string } // User action: register a workspace directory
+  | { type: "project.remove"; projectId: string }; // User action: remove a workspace
+
 // Message Events
 export type MessageEvent =
-  | { type: "message.send"; sessionId: string; content: string; images?: any[] } // User action: send message
-  | { type: "message.user"; sessionId: string; content: string; images?: any[] } // Store update: user message added
+  | {
+      type: "message.send";
+      sessionId: string;
+      content: string;
+      attachments?: Attachment[];
+      mode?: SendMode; // While a run is active: queue (default) or steer into it
+    } // User action: send message
+  | { type: "message.user"; sessionId: string; content: string; attachments?: Attachment[] } // Store update: user message added
   | { type: "message.loaded"; sessionId: string; messages: ChatMessage[] } // Store update: messages loaded from API
+  | { type: "message.rewound"; sessionId: string; removedMessageIds: string[] } // Store update: messages removed by /rewind
   | { type: "message.assistant"; sessionId: string; content: string }
   | { type: "message.streaming"; sessionId: string; chunk: string }
+  | { type: "message.thinking"; sessionId: string; chunk: string } // Store update: extended thinking streamed
   | { type: "message.complete"; sessionId: string }
-  | { type: "message.tool"; sessionId: string; toolName: string; toolInput: string; toolId: string }
-  | { type: "message.toolResult"; sessionId: string; toolId: string; result: any }
+  | { type: "message.system"; sessionId: string; subtype: string; content: string } // Store update: notice like a compaction boundary
+  | {
+      type: "message.tool";
+      sessionId: string;
+      toolName: string;
+      toolInput: Record<string, unknown>;
+      toolId: string;
+    }
+  | { type: "message.toolResult"; sessionId: string; toolId: string; result: ToolResult } // Also pairs results of subagent tool calls
+  | { type: "message.subagent"; sessionId: string; parentToolId: string; message: ChatMessage } // Store update: subagent output nested under its Task call
   | {
       type: "message.error";
       sessionId: string;
       error: Error;
+      code?: AgentErrorCode;
       recoverable?: boolean;
       state?: string;
     };
@@ -42,9 +88,63 @@ export type AgentEvent =
   | { type: "agent.thinking"; sessionId: string }
   | { type: "agent.processing"; sessionId: string; status?: string; tokens?: number }
   | { type: "agent.complete"; sessionId: string }
-  | { type: "agent.error"; sessionId: string; error: Error; recoverable?: boolean; state?: string }
+  | {
+      type: "agent.error";
+      sessionId: string;
+      error: Error;
+      code?: AgentErrorCode;
+      recoverable?: boolean;
+      state?: string;
+    }
+  | { type: "agent.retrying"; sessionId: string; retry: RetryScheduled } // Store update: failed run retried after a delay
   | { type: "agent.abort"; sessionId: string; timestamp: number };
 
+// Permission Events
+export type PermissionEvent =
+  | { type: "permission.requested"; sessionId: string; request: PermissionRequest } // Agent waits for approval
+  | { type: "permission.resolved"; sessionId: string; requestId: string } // Request answered (by any client)
+  | {
+      type: "permission.respond";
+      sessionId: string;
+      requestId: string;
+      behavior: "allow" | "deny";
+      scope?: PermissionScope;
+    } // User action: answer request
+  | { type: "permission.mode.set"; sessionId: string; mode: PermissionMode } // User action: change mode
+  | { type: "permission.mode"; sessionId: string; mode: PermissionMode } // Store update: mode confirmed
+  | {
+      type: "permission.loaded";
+      sessionId: string;
+      mode: PermissionMode;
+      pending: PermissionRequest[];
+    }; // Store update: state loaded from API
+
+// MCP Events
+export type McpEvent =
+  | { type: "mcp.servers.set"; sessionId: string; mcpServers: McpServerSelection } // User action: turn servers on or off
+  | { type: "mcp.servers"; sessionId: string; mcpServers: McpServerSelection } // Store update: selection confirmed or loaded from API
+  | { type: "mcp.load" } // User action: settings opened, fetch the servers of the agent
+  | { type: "mcp.loaded"; servers: McpServerInfo[] }; // Store update: servers of the agent loaded from API
+
+// Budget Events
+export type BudgetEvent =
+  | { type: "budget.exceeded"; sessionId: string; exceeded: BudgetExceeded } // Store update: run interrupted by a budget
+  | { type: "budget.raise"; sessionId: string; scope: BudgetExceeded["scope"]; budget: Budget } // User action: raise the limit and continue
+  | { type: "budget.dismiss"; sessionId: string }; // User action: hide the banner
+
+// Queue Events
+export type QueueEvent =
+  | { type: "queue.updated"; sessionId: string; queue: QueuedMessage[]; sent?: QueuedMessage } // Store update: queue changed, sent is the message whose run starts
+  | { type: "queue.edit"; sessionId: string; messageId: string; content: string } // User action: edit a queued message
+  | { type: "queue.cancel"; sessionId: string; messageId: string } // User action: remove a queued message
+  | { type: "queue.steer"; sessionId: string; messageId: string }; // User action: send a queued message into the running turn now
+
+// Stall Events
+export type StallEvent =
+  | { type: "stall.detected"; sessionId: string; stall: RunStalled } // Store update: run stopped by the watchdog
+  | { type: "stall.retry"; sessionId: string } // User action: send the stalled prompt again
+  | { type: "stall.dismiss"; sessionId: string }; // User action: hide the banner
+
 // UI Events
 export type UIEvent =
   | { type: "ui.loading"; isLoading: boolean }
@@ -58,11 +158,29 @@ export type ErrorEvent =
   | { type: "error.unknown"; error: Error };
 
 // Union Type
-export type AppEvent = SessionEvent | MessageEvent | AgentEvent | UIEvent | ErrorEvent;
+export type AppEvent =
+  | SessionEvent
+  | ProjectEvent
+  | MessageEvent
+  | AgentEvent
+  | PermissionEvent
+  | McpEvent
+  | BudgetEvent
+  | StallEvent
+  | QueueEvent
+  | UIEvent
+  | ErrorEvent;
 
 // Type Guards
 export const isSessionEvent = (e: AppEvent): e is SessionEvent => e.type.startsWith("session.");
+export const isProjectEvent = (e: AppEvent): e is ProjectEvent => e.type.startsWith("project.");
 export const isMessageEvent = (e: AppEvent): e is MessageEvent => e.type.startsWith("message.");
 export const isAgentEvent = (e: AppEvent): e is AgentEvent => e.type.startsWith("agent.");
+export const isPermissionEvent = (e: AppEvent): e is PermissionEvent =>
+  e.type.startsWith("permission.");
+export const isMcpEvent = (e: AppEvent): e is McpEvent => e.type.startsWith("mcp.");
+export const isBudgetEvent = (e: AppEvent): e is BudgetEvent => e.type.startsWith("budget.");
+export const isStallEvent = (e: AppEvent): e is StallEvent => e.type.startsWith("stall.");
+export const isQueueEvent = (e: AppEvent): e is QueueEvent => e.type.startsWith("queue.");
 export const isUIEvent = (e: AppEvent): e is UIEvent => e.type.startsWith("ui.");
 export const isErrorEvent = (e: AppEvent): e is ErrorEvent => e.type.startsWith("error.");
@@ -4,7 +4,8 @@
  */
 
 import { eventBus } from "./eventBus";
-import type { WebSocketMessage } from "~/types";
+import { getProjectId } from "~/api/rest";
+import type { ChatMessage, WebSocketMessage } from "~/types";
 
 // Track which sessions are currently streaming
 // Format: sessionId -> timestamp when streaming completed
@@ -41,6 +42,10 @@ export function adaptWebSocketToEventBus(wsMessage: WebSocketMessage): void {
         break;
 
       case "sessions_updated":
+        // Session lists of other workspaces are not shown
+        if (wsMessage.projectId && getProjectId() && wsMessage.projectId !== getProjectId()) {
+          break;
+        }
         eventBus.emit({
           type: "session.updated",
           sessions: "sessions" in wsMessage ? wsMessage.sessions || [] : [],
@@ -83,13 +88,13 @@ export function adaptWebSocketToEventBus(wsMessage: WebSocketMessage): void {
             streamingCompletedMap.set(wsMessage.sessionId, Date.now());
           }
         }
-        // NEW: Handle tool use message (from SDK transform)
-        else if (messageData?.isToolUse && messageData.toolName) {
+        // Handle tool use message (from SDK transform)
+        else if (messageData?.type === "tool_use" && messageData.toolName) {
           eventBus.emit({
             type: "message.tool",
             sessionId: wsMessage.sessionId || "",
             toolName: messageData.toolName,
-            toolInput: messageData.toolInput || "",
+            toolInput: messageData.toolInput || {},
             toolId: messageData.toolId || "",
           });
         }
@@ -121,7 +126,7 @@ export function adaptWebSocketToEventBus(wsMessage: WebSocketMessage): void {
                 type: "message.tool",
                 sessionId: wsMessage.sessionId || "",
                 toolName: part.name,
-                toolInput: part.input ? JSON.stringify(part.input, null, 2) : "",
+                toolInput: part.input || {},
                 toolId: part.id,
               });
             } else if (part.type === "text" && part.text?.trim() && !skipTextBlocks) {
@@ -182,8 +187,8 @@ export function adaptWebSocketToEventBus(wsMessage: WebSocketMessage): void {
                 sessionId: wsMessage.sessionId || "",
                 toolId: part.tool_use_id,
                 result: {
-                  content: part.content,
-                  isError: part.is_error,
+                  content: toolResultText(part.content),
+                  isError: part.is_error || false,
                   timestamp: new Date(),
                 },
               });
@@ -208,10 +213,12 @@ export function adaptWebSocketToEventBus(wsMessage: WebSocketMessage): void {
         const errorMessage = ("error" in wsMessage && wsMessage.error) || "Unknown error";
         const recoverable = "recoverable" in wsMessage ? wsMessage.recoverable : false;
         const sessionState = "state" in wsMessage ? wsMessage.state : "unknown";
+        const code = ("code" in wsMessage && wsMessage.code) || "unknown";
 
         console.log("[WebSocketAdapter] Claude error:", {
           sessionId: wsMessage.sessionId,
           error: errorMessage,
+          code,
           recoverable,
           state: sessionState,
         });
@@ -221,6 +228,7 @@ export function adaptWebSocketToEventBus(wsMessage: WebSocketMessage): void {
           type: "agent.error",
           sessionId: wsMessage.sessionId || "",
           error: new Error(errorMessage),
+          code,
           recoverable,
           state: sessionState,
         } as any);
@@ -230,6 +238,7 @@ export function adaptWebSocketToEventBus(wsMessage: WebSocketMessage): void {
           type: "message.error",
           sessionId: wsMessage.sessionId || "",
           error: new Error(errorMessage),
+          code,
           recoverable,
           state: sessionState,
         } as any);
@@ -302,6 +311,104 @@ export function adaptWebSocketToEventBus(wsMessage: WebSocketMessage): void {
         break;
       }
 
+      case "permission-request":
+        if ("request" in wsMessage) {
+          eventBus.emit({
+            type: "permission.requested",
+            sessionId: wsMessage.sessionId,
+            request: wsMessage.request,
+          });
+          eventBus.emit({
+            type: "agent.processing",
+            sessionId: wsMessage.sessionId,
+            status: `Waiting for approval: ${wsMessage.request.toolName}`,
+          });
+        }
+        break;
+
+      case "permission-resolved":
+        if ("requestId" in wsMessage) {
+          eventBus.emit({
+            type: "permission.resolved",
+            sessionId: wsMessage.sessionId,
+            requestId: wsMessage.requestId,
+          });
+        }
+        break;
+
+      case "permission-mode":
+        if ("mode" in wsMessage) {
+          eventBus.emit({
+            type: "permission.mode",
+            sessionId: wsMessage.sessionId,
+            mode: wsMessage.mode,
+          });
+        }
+        break;
+
+      case "mcp-servers":
+        if ("mcpServers" in wsMessage) {
+          eventBus.emit({
+            type: "mcp.servers",
+            sessionId: wsMessage.sessionId,
+            mcpServers: wsMessage.mcpServers,
+          });
+        }
+        break;
+
+      case "budget-exceeded":
+        if ("exceeded" in wsMessage) {
+          eventBus.emit({
+            type: "budget.exceeded",
+            sessionId: wsMessage.sessionId,
+            exceeded: wsMessage.exceeded,
+          });
+        }
+        break;
+
+      case "context-warning":
+        if ("warning" in wsMessage) {
+          const { used, total } = wsMessage.warning.usage;
+          eventBus.emit({
+            type: "message.system",
+            sessionId: wsMessage.sessionId,
+            subtype: "context_warning",
+            content: `Context is ${Math.round((used / total) * 100)}% full (${used.toLocaleString()} of ${total.toLocaleString()} tokens), /compact summarizes older turns`,
+          });
+        }
+        break;
+
+      case "session-stalled":
+        if ("stall" in wsMessage) {
+          eventBus.emit({
+            type: "stall.detected",
+            sessionId: wsMessage.sessionId,
+            stall: wsMessage.stall,
+          });
+        }
+        break;
+
+      case "session-queue":
+        if ("queue" in wsMessage) {
+          eventBus.emit({
+            type: "queue.updated",
+            sessionId: wsMessage.sessionId,
+            queue: wsMessage.queue,
+            sent: wsMessage.sent,
+          });
+        }
+        break;
+
+      case "session-retry":
+        if ("retry" in wsMessage) {
+          eventBus.emit({
+            type: "agent.retrying",
+            sessionId: wsMessage.sessionId,
+            retry: wsMessage.retry,
+          });
+        }
+        break;
+
       default:
         console.warn("[WebSocketAdapter] Unhandled message type:", wsMessage.type);
     }
@@ -333,6 +440,12 @@ function handleSDKEvent(wsMessage: WebSocketMessage): void {
     eventType: sdkMessage.type === "stream_event" ? sdkMessage.event?.type : undefined,
   });
 
+  // Output of a subagent run, nested under the Task call that started it
+  if (sdkMessage.parent_tool_use_id) {
+    handleSubagentMessage(sessionId, sdkMessage.parent_tool_use_id, sdkMessage);
+    return;
+  }
+
   switch (sdkMessage.type) {
     case "stream_event":
       handleStreamEvent(sessionId, sdkMessage.event);
@@ -343,7 +456,10 @@ function handleSDKEvent(wsMessage: WebSocketMessage): void {
       break;
 
     case "user":
-      handleUserMessage(sessionId, sdkMessage.message);
+      // Summary of a compacted session, not something the user wrote
+      if (!sdkMessage.isSynthetic) {
+        handleUserMessage(sessionId, sdkMessage.message);
+      }
       break;
 
     case "result":
@@ -351,6 +467,18 @@ function handleSDKEvent(wsMessage: WebSocketMessage): void {
       console.log("[WebSocketAdapter] Received result message (token usage)");
       break;
 
+    case "system":
+      // Older turns were summarized, the transcript shows where
+      if (sdkMessage.subtype === "compact_boundary") {
+        eventBus.emit({
+          type: "message.system",
+          sessionId,
+          subtype: sdkMessage.subtype,
+          content: "Conversation compacted",
+        });
+      }
+      break;
+
     default:
       console.log("[WebSocketAdapter] Unhandled SDK message type:", sdkMessage.type);
   }
@@ -374,7 +502,7 @@ function handleStreamEvent(sessionId: string, event: any): void {
       break;
 
     case "content_block_start":
-      // Start of a content block (text or tool_use)
+      // Start of a content block (text, thinking or tool_use)
       if (event.content_block?.type === "text") {
         // Start streaming text
         eventBus.emit({
@@ -382,6 +510,12 @@ function handleStreamEvent(sessionId: string, event: any): void {
           sessionId,
           status: "Generating response",
         });
+      } else if (event.content_block?.type === "thinking") {
+        eventBus.emit({
+          type: "agent.processing",
+          sessionId,
+          status: "Thinking",
+        });
       } else if (event.content_block?.type === "tool_use") {
         // Tool use started - just update status, don't create message yet
         // The complete tool_use message will come in the assistant message
@@ -401,6 +535,13 @@ function handleStreamEvent(sessionId: string, event: any): void {
           sessionId,
           chunk: event.delta.text,
         });
+      } else if (event.delta?.type === "thinking_delta" && event.delta.thinking) {
+        // Extended thinking, kept apart from the answer text
+        eventBus.emit({
+          type: "message.thinking",
+          sessionId,
+          chunk: event.delta.thinking,
+        });
       } else if (event.delta?.type === "input_json_delta") {
         // Tool input is being streamed (we can ignore this or accumulate)
         console.log("[WebSocketAdapter] Tool input delta (ignored)");
@@ -456,7 +597,7 @@ function handleAssistantMessage(sessionId: string, message: any): void {
         type: "message.tool",
         sessionId,
         toolName: block.name,
-        toolInput: block.input ? JSON.stringify(block.input, null, 2) : "",
+        toolInput: block.input || {},
         toolId: block.id,
       });
     }
@@ -483,7 +624,7 @@ function handleUserMessage(sessionId: string, message: any): void {
         sessionId,
         toolId: block.tool_use_id,
         result: {
-          content: block.content,
+          content: toolResultText(block.content),
           isError: block.is_error || false,
           timestamp: new Date(),
         },
@@ -499,3 +640,86 @@ function handleUserMessage(sessionId: string, message: any): void {
     }
   }
 }
+
+/**
+ * Handle messages of a subagent run
+ * Partial messages are not streamed, complete blocks are added under the Task call
+ */
+function handleSubagentMessage(sessionId: string, parentToolId: string, sdkMessage: any): void {
+  const content = sdkMessage.message?.content;
+  const timestamp = new Date();
+  const id = sdkMessage.uuid || `subagent-${parentToolId}-${timestamp.getTime()}`;
+  const add = (message: ChatMessage) =>
+    eventBus.emit({ type: "message.subagent", sessionId, parentToolId, message });
+
+  if (sdkMessage.type === "stream_event") {
+    if (sdkMessage.event?.type === "content_block_start") {
+      const block = sdkMessage.event.content_block;
+      eventBus.emit({
+        type: "agent.processing",
+        sessionId,
+        status:
+          block?.type === "tool_use" ? `Subagent using ${block.name} tool` : "Subagent working",
+      });
+    }
+    return;
+  }
+
+  if (sdkMessage.type === "assistant" && Array.isArray(content)) {
+    content.forEach((block: any, index: number) => {
+      const blockId = `${id}:${index}`;
+      if (block.type === "text" && block.text) {
+        add({ id: blockId, type: "assistant", content: block.text, timestamp });
+      } else if (block.type === "thinking" && block.thinking) {
+        add({ id: blockId, type: "thinking", content: block.thinking, timestamp });
+      } else if (block.type === "tool_use") {
+        add({
+          id: blockId,
+          type: "tool_use",
+          toolId: block.id,
+          toolName: block.name,
+          toolInput: block.input || {},
+          toolResult: null,
+          timestamp,
+        });
+      }
+    });
+  } else if (sdkMessage.type === "user") {
+    if (typeof content === "string") {
+      add({ id, type: "user", content, timestamp });
+      return;
+    }
+    for (const block of Array.isArray(content) ? content : []) {
+      if (block.type === "tool_result") {
+        eventBus.emit({
+          type: "message.toolResult",
+          sessionId,
+          toolId: block.tool_use_id,
+          result: {
+            content: toolResultText(block.content),
+            isError: block.is_error || false,
+            timestamp,
+          },
+        });
+      } else if (block.type === "text" && block.text) {
+        add({ id, type: "user", content: block.text, timestamp });
+      }
+    }
+  }
+}
+
+/**
+ * Tool result content is a string or content blocks, the message model keeps the text
+ */
+function toolResultText(content: unknown): string {
+  if (typeof content === "string") {
+    return content;
+  }
+  if (!Array.isArray(content)) {
+    return "";
+  }
+  return content
+    .filter((block) => block?.type === "text")
+    .map((block) => block.text)
+    .join("\n");
+}
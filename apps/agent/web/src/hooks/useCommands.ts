@@ -1,7 +1,28 @@
 import { useState, useEffect, useRef, useMemo, useCallback } from "react";
 import Fuse from "fuse.js";
 import { authenticatedFetch } from "~/utils/api";
+import { projectUrl } from "~/api/rest";
 import safeLocalStorage from "~/utils/safeLocalStorage";
+import { eventBus } from "~/core/eventBus";
+
+const usd = (amount) => `$${amount.toFixed(4)}`;
+
+/**
+ * Markdown for the /cost result: session total, per model breakdown and the last turn
+ */
+function formatCost(data) {
+  const rows = data.models.map(
+    (model) =>
+      `| ${model.model}${model.priced ? "" : " (no price)"} | ${model.tokens.input.toLocaleString()} | ${model.tokens.output.toLocaleString()} | ${model.tokens.cacheRead.toLocaleString()} | ${model.tokens.cacheCreation.toLocaleString()} | ${usd(model.cost.total)} |`
+  );
+  const table =
+    rows.length > 0
+      ? `| Model | Input | Output | Cache read | Cache write | Cost |\n| --- | ---: | ---: | ---: | ---: | ---: |\n${rows.join("\n")}`
+      : "No usage recorded yet";
+  const lastTurn = data.lastTurn ? `\n\n**Last turn**: ${usd(data.lastTurn.total)}` : "";
+
+  return `**Session cost**: ${usd(data.total.total)} over ${data.turns} turn${data.turns === 1 ? "" : "s"}\n\n${table}\n\n- Input: ${usd(data.total.input)}\n- Output: ${usd(data.total.output)}\n- Cache read: ${usd(data.total.cacheRead)}\n- Cache write: ${usd(data.total.cacheCreation)}${lastTurn}`;
+}
 
 /**
  * Custom hook for managing slash commands functionality
@@ -37,7 +58,7 @@ export const useCommands = ({
       if (!selectedProject) return;
 
       try {
-        const response = await authenticatedFetch("/api/commands/list", {
+        const response = await authenticatedFetch(projectUrl("/commands/list"), {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
@@ -184,7 +205,7 @@ export const useCommands = ({
           break;
 
         case "cost": {
-          const costMessage = `**Token Usage**: ${data.tokenUsage.used.toLocaleString()} / ${data.tokenUsage.total.toLocaleString()} (${data.tokenUsage.percentage}%)\n\n**Estimated Cost**:\n- Input: $${data.cost.input}\n- Output: $${data.cost.output}\n- **Total**: $${data.cost.total}\n\n**Model**: ${data.model}`;
+          const costMessage = data.error ? `⚠️ ${data.message}` : formatCost(data);
           setChatMessages((prev) => [
             ...prev,
             { role: "assistant", content: costMessage, timestamp: Date.now() },
@@ -234,6 +255,18 @@ export const useCommands = ({
           }
           break;
 
+        case "compact":
+          // The compaction boundary itself arrives with the session stream
+          setChatMessages((prev) => [
+            ...prev,
+            {
+              role: "assistant",
+              content: data.error ? `⚠️ ${data.message}` : `🗜️ ${data.message}`,
+              timestamp: Date.now(),
+            },
+          ]);
+          break;
+
         case "rewind":
           // Rewind conversation
           if (data.error) {
@@ -246,8 +279,12 @@ export const useCommands = ({
               },
             ]);
           } else {
-            // Remove last N messages
-            setChatMessages((prev) => prev.slice(0, -data.steps * 2)); // Remove user + assistant pairs
+            // Backend already truncated the session, drop the messages it removed from the UI
+            eventBus.emit({
+              type: "message.rewound",
+              sessionId: data.sessionId,
+              removedMessageIds: data.removedMessageIds,
+            });
             setChatMessages((prev) => [
               ...prev,
               {
@@ -325,7 +362,7 @@ export const useCommands = ({
         };
 
         // Call the execute endpoint
-        const response = await authenticatedFetch("/api/commands/execute", {
+        const response = await authenticatedFetch(projectUrl("/commands/execute"), {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
@@ -0,0 +1,104 @@
+/**
+ * Budget Store - Budgets that interrupted a session's run
+ * Subscribes to EventBus for budget-related events
+ */
+
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+import { eventBus } from "~/core/eventBus";
+import { isBudgetEvent } from "~/core/events";
+import type { Budget, BudgetExceeded } from "~/types";
+
+export interface BudgetState {
+  // State
+  exceeded: Map<string, BudgetExceeded>; // sessionId -> budget that stopped the last run
+
+  // Internal state actions (used by EventBus subscribers)
+  setExceeded: (sessionId: string, exceeded: BudgetExceeded) => void;
+  clearExceeded: (sessionId: string) => void;
+
+  // Business action methods (for components to call)
+  raise: (sessionId: string, exceeded: BudgetExceeded) => void;
+  dismiss: (sessionId: string) => void;
+}
+
+/**
+ * Budget with the reached limit doubled
+ */
+export function raisedBudget(exceeded: BudgetExceeded): Budget {
+  return { ...exceeded.budget, [exceeded.limit]: exceeded.budget[exceeded.limit]! * 2 };
+}
+
+export const useBudgetStore = create<BudgetState>()(
+  devtools(
+    (set) => ({
+      // Initial state
+      exceeded: new Map(),
+
+      // Actions
+      setExceeded: (sessionId, exceeded) =>
+        set((state) => {
+          const next = new Map(state.exceeded);
+          next.set(sessionId, exceeded);
+          return { exceeded: next };
+        }),
+
+      clearExceeded: (sessionId) =>
+        set((state) => {
+          if (!state.exceeded.has(sessionId)) {
+            return state;
+          }
+          const next = new Map(state.exceeded);
+          next.delete(sessionId);
+          return { exceeded: next };
+        }),
+
+      // Business action methods (components call these)
+      raise: (sessionId, exceeded) => {
+        eventBus.emit({
+          type: "budget.raise",
+          sessionId,
+          scope: exceeded.scope,
+          budget: raisedBudget(exceeded),
+        });
+      },
+
+      dismiss: (sessionId) => {
+        eventBus.emit({ type: "budget.dismiss", sessionId });
+      },
+    }),
+    { name: "BudgetStore" }
+  )
+);
+
+// Subscribe to EventBus (auto-setup on module load)
+eventBus.on(isBudgetEvent).subscribe(async (event) => {
+  const store = useBudgetStore.getState();
+
+  switch (event.type) {
+    case "budget.exceeded":
+      console.log("[BudgetStore] Run interrupted by budget:", event.exceeded.limit);
+      store.setExceeded(event.sessionId, event.exceeded);
+      break;
+
+    case "budget.raise": {
+      store.clearExceeded(event.sessionId);
+      const { setBudgetBackend } = await import("~/api/agent");
+      setBudgetBackend(event.sessionId, event.scope, event.budget);
+      // Sent after the new budget on the same socket, so the run starts within it
+      eventBus.emit({ type: "message.send", sessionId: event.sessionId, content: "Continue" });
+      break;
+    }
+
+    case "budget.dismiss":
+      store.clearExceeded(event.sessionId);
+      break;
+  }
+});
+
+// Sending anyway retries the run, the backend reports the budget again if it is still reached
+eventBus.stream().subscribe((event) => {
+  if (event.type === "message.send") {
+    useBudgetStore.getState().clearExceeded(event.sessionId);
+  }
+});
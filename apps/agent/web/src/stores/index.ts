@@ -5,3 +5,7 @@
 export * from "./sessionStore";
 export * from "./messageStore";
 export * from "./uiStore";
+export * from "./permissionStore";
+export * from "./budgetStore";
+export * from "./mcpStore";
+export * from "./projectStore";
@@ -0,0 +1,140 @@
+/**
+ * MCP Store - MCP servers of the agent and which ones each session uses
+ * Subscribes to EventBus for MCP-related events
+ */
+
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+import { eventBus } from "~/core/eventBus";
+import { isMcpEvent } from "~/core/events";
+import type { McpServerInfo, McpServerSelection } from "~/types";
+
+export interface McpState {
+  // State
+  servers: McpServerInfo[]; // Servers of the agent, all enabled unless a session turns them off
+  selections: Map<string, McpServerSelection>; // sessionId -> servers turned on or off
+  defaultSelection: McpServerSelection; // Selection for sessions created from this client
+
+  // Internal state actions (used by EventBus subscribers)
+  setServers: (servers: McpServerInfo[]) => void;
+  setSelection: (sessionId: string, selection: McpServerSelection) => void;
+  migrateSession: (oldSessionId: string, newSessionId: string) => void;
+
+  // Queries
+  getSelection: (sessionId: string | undefined) => McpServerSelection;
+
+  // Business action methods (for components to call)
+  load: () => void;
+  toggle: (sessionId: string | undefined, name: string, enabled: boolean) => void;
+}
+
+export const useMcpStore = create<McpState>()(
+  devtools(
+    (set, get) => ({
+      // Initial state
+      servers: [],
+      selections: new Map(),
+      defaultSelection: {},
+
+      // Actions
+      setServers: (servers) => set({ servers }),
+
+      setSelection: (sessionId, selection) =>
+        set((state) => {
+          const selections = new Map(state.selections);
+          selections.set(sessionId, selection);
+          return { selections };
+        }),
+
+      migrateSession: (oldSessionId, newSessionId) =>
+        set((state) => {
+          const selection = state.selections.get(oldSessionId);
+          if (!selection) {
+            return state;
+          }
+          const selections = new Map(state.selections);
+          selections.delete(oldSessionId);
+          selections.set(newSessionId, selection);
+          return { selections };
+        }),
+
+      getSelection: (sessionId) =>
+        (sessionId && get().selections.get(sessionId)) || get().defaultSelection,
+
+      // Business action methods (components call these)
+      load: () => {
+        eventBus.emit({ type: "mcp.load" });
+      },
+
+      toggle: (sessionId, name, enabled) => {
+        const mcpServers = { ...get().getSelection(sessionId), [name]: enabled };
+        if (!sessionId) {
+          // No session yet: selection is used when the session is created
+          set({ defaultSelection: mcpServers });
+          return;
+        }
+        eventBus.emit({ type: "mcp.servers.set", sessionId, mcpServers });
+      },
+    }),
+    { name: "McpStore" }
+  )
+);
+
+// Subscribe to EventBus (auto-setup on module load)
+eventBus.on(isMcpEvent).subscribe(async (event) => {
+  const store = useMcpStore.getState();
+
+  switch (event.type) {
+    case "mcp.load":
+      try {
+        const { loadMcpServers } = await import("~/api/agent");
+        eventBus.emit({ type: "mcp.loaded", servers: await loadMcpServers() });
+      } catch (error) {
+        console.error("[McpStore] Failed to load MCP servers:", error);
+      }
+      break;
+
+    case "mcp.loaded":
+      store.setServers(event.servers);
+      break;
+
+    case "mcp.servers.set": {
+      store.setSelection(event.sessionId, event.mcpServers);
+      const { setMcpServersBackend } = await import("~/api/agent");
+      setMcpServersBackend(event.sessionId, event.mcpServers);
+      break;
+    }
+
+    case "mcp.servers":
+      store.setSelection(event.sessionId, event.mcpServers);
+      break;
+  }
+});
+
+// Keep selections in sync with session lifecycle
+eventBus.stream().subscribe(async (event) => {
+  switch (event.type) {
+    case "session.created": {
+      const store = useMcpStore.getState();
+      if (event.oldTempId) {
+        store.migrateSession(event.oldTempId, event.sessionId);
+      }
+      // New sessions are created with the client default selection
+      if (!useMcpStore.getState().selections.has(event.sessionId)) {
+        store.setSelection(event.sessionId, store.defaultSelection);
+      }
+      break;
+    }
+
+    case "session.selected":
+      try {
+        const { loadSessionMcpServers } = await import("~/api/agent");
+        const { servers, mcpServers } = await loadSessionMcpServers(event.sessionId);
+        eventBus.emit({ type: "mcp.loaded", servers });
+        eventBus.emit({ type: "mcp.servers", sessionId: event.sessionId, mcpServers });
+      } catch (error) {
+        console.error("[McpStore] Failed to load session MCP servers:", error);
+      }
+      break;
+  }
+});
@@ -7,7 +7,8 @@ import { create } from "zustand";
 import { devtools } from "zustand/middleware";
 import { eventBus } from "~/core/eventBus";
 import { isMessageEvent } from "~/core/events";
-import type { ChatMessage } from "~/types";
+import type { Attachment, ChatMessage, ToolResult } from "~/types";
+import { errorGuidance, errorLabel } from "~/utils/agentErrors";
 
 // Generate stable unique IDs for messages
 function generateMessageId(type: string): string {
@@ -19,6 +20,23 @@ function generateMessageId(type: string): string {
   return `${type}-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
 }
 
+/**
+ * Messages with a tool result paired onto its call, calls of subagent runs included
+ */
+function withToolResult(
+  messages: ChatMessage[],
+  toolId: string,
+  result: ToolResult
+): ChatMessage[] {
+  return messages.map((msg) => {
+    if (msg.type !== "tool_use") return msg;
+    if (msg.toolId === toolId) return { ...msg, toolResult: result };
+    return msg.subagentMessages
+      ? { ...msg, subagentMessages: withToolResult(msg.subagentMessages, toolId, result) }
+      : msg;
+  });
+}
+
 export interface MessageState {
   // State
   sessionMessages: Map<string, ChatMessage[]>;
@@ -26,21 +44,30 @@ export interface MessageState {
   pendingSessionId: string | null; // Temporary session ID before backend creates real one
 
   // Internal state actions (used by EventBus subscribers)
-  addUserMessage: (sessionId: string, content: string, images?: any[]) => void;
+  addUserMessage: (sessionId: string, content: string, attachments?: Attachment[]) => void;
   addAssistantMessage: (sessionId: string, content: string) => void;
   addStreamingChunk: (sessionId: string, chunk: string) => void;
+  addThinkingChunk: (sessionId: string, chunk: string) => void;
   completeStreaming: (sessionId: string) => void;
-  addToolUse: (sessionId: string, toolName: string, toolInput: string, toolId: string) => void;
-  updateToolResult: (sessionId: string, toolId: string, result: any) => void;
+  addToolUse: (
+    sessionId: string,
+    toolName: string,
+    toolInput: Record<string, unknown>,
+    toolId: string
+  ) => void;
+  updateToolResult: (sessionId: string, toolId: string, result: ToolResult) => void;
+  addSubagentMessage: (sessionId: string, parentToolId: string, message: ChatMessage) => void;
   addErrorMessage: (sessionId: string, error: string) => void;
+  addSystemMessage: (sessionId: string, subtype: string, content: string) => void;
   clearSessionMessages: (sessionId: string) => void;
   getMessages: (sessionId: string) => ChatMessage[];
   setMessages: (sessionId: string, messages: ChatMessage[]) => void;
+  removeMessages: (sessionId: string, messageIds: string[]) => boolean; // false if some were not found
   isLoadingMessages: (sessionId: string) => boolean;
   setLoadingMessages: (sessionId: string, loading: boolean) => void;
 
   // Business action methods (for components to call)
-  sendMessage: (sessionId: string | undefined, content: string, images?: any[]) => void;
+  sendMessage: (sessionId: string | undefined, content: string, attachments?: Attachment[]) => void;
 }
 
 export const useMessageStore = create<MessageState>()(
@@ -52,13 +79,13 @@ export const useMessageStore = create<MessageState>()(
       pendingSessionId: null,
 
       // Actions
-      addUserMessage: (sessionId, content, images) => {
+      addUserMessage: (sessionId, content, attachments) => {
         const messageId = generateMessageId("user");
         console.log("[MessageStore] 🟢 Adding user message:", {
           sessionId,
           messageId,
           contentPreview: content.substring(0, 50) + "...",
-          hasImages: !!images?.length,
+          attachmentCount: attachments?.length || 0,
         });
 
         set((state) => {
@@ -67,7 +94,7 @@ export const useMessageStore = create<MessageState>()(
           const newMessage: ChatMessage = {
             type: "user" as const,
             content,
-            images: images || [],
+            ...(attachments?.length && { attachments }),
             timestamp: new Date(),
             id: messageId,
           };
@@ -133,6 +160,36 @@ export const useMessageStore = create<MessageState>()(
         });
       },
 
+      addThinkingChunk: (sessionId, chunk) => {
+        set((state) => {
+          const newMap = new Map(state.sessionMessages);
+          const messages = newMap.get(sessionId) || [];
+          const lastMsg = messages[messages.length - 1];
+
+          if (lastMsg && lastMsg.type === "thinking" && lastMsg.isStreaming) {
+            // Append to the thinking block being streamed
+            const updated = [...messages];
+            updated[updated.length - 1] = {
+              ...lastMsg,
+              content: lastMsg.content + chunk,
+            };
+            newMap.set(sessionId, updated);
+          } else {
+            newMap.set(sessionId, [
+              ...messages,
+              {
+                type: "thinking",
+                content: chunk,
+                timestamp: new Date(),
+                id: generateMessageId("thinking"),
+                isStreaming: true,
+              },
+            ]);
+          }
+          return { sessionMessages: newMap };
+        });
+      },
+
       completeStreaming: (sessionId) => {
         set((state) => {
           const newMap = new Map(state.sessionMessages);
@@ -140,7 +197,11 @@ export const useMessageStore = create<MessageState>()(
           if (!messages) return {};
 
           const lastMsg = messages[messages.length - 1];
-          if (lastMsg && lastMsg.type === "assistant" && lastMsg.isStreaming) {
+          if (
+            lastMsg &&
+            (lastMsg.type === "assistant" || lastMsg.type === "thinking") &&
+            lastMsg.isStreaming
+          ) {
             const updated = [...messages];
             updated[updated.length - 1] = {
               ...lastMsg,
@@ -161,11 +222,9 @@ export const useMessageStore = create<MessageState>()(
           newMap.set(sessionId, [
             ...messages,
             {
-              type: "assistant",
-              content: "",
+              type: "tool_use",
               timestamp: new Date(),
               id: generateMessageId("tool"),
-              isToolUse: true,
               toolName,
               toolInput,
               toolId,
@@ -178,18 +237,32 @@ export const useMessageStore = create<MessageState>()(
       },
 
       updateToolResult: (sessionId, toolId, result) => {
+        set((state) => {
+          const newMap = new Map(state.sessionMessages);
+          const messages = newMap.get(sessionId);
+          if (!messages) return {};
+
+          newMap.set(sessionId, withToolResult(messages, toolId, result));
+          return { sessionMessages: newMap };
+        });
+        console.log("[MessageStore] Tool result updated:", sessionId, toolId);
+      },
+
+      addSubagentMessage: (sessionId, parentToolId, message) => {
         set((state) => {
           const newMap = new Map(state.sessionMessages);
           const messages = newMap.get(sessionId);
           if (!messages) return {};
 
           const updated = messages.map((msg) =>
-            msg.type === "assistant" && msg.toolId === toolId ? { ...msg, toolResult: result } : msg
+            msg.type === "tool_use" && msg.toolId === parentToolId
+              ? { ...msg, subagentMessages: [...(msg.subagentMessages || []), message] }
+              : msg
           );
           newMap.set(sessionId, updated);
           return { sessionMessages: newMap };
         });
-        console.log("[MessageStore] Tool result updated:", sessionId, toolId);
+        console.log("[MessageStore] Subagent message added:", sessionId, parentToolId);
       },
 
       addErrorMessage: (sessionId, error) => {
@@ -210,6 +283,25 @@ export const useMessageStore = create<MessageState>()(
         console.log("[MessageStore] Error message added:", sessionId);
       },
 
+      addSystemMessage: (sessionId, subtype, content) => {
+        set((state) => {
+          const newMap = new Map(state.sessionMessages);
+          const messages = newMap.get(sessionId) || [];
+          newMap.set(sessionId, [
+            ...messages,
+            {
+              type: "system",
+              subtype,
+              content,
+              timestamp: new Date(),
+              id: generateMessageId("system"),
+            },
+          ]);
+          return { sessionMessages: newMap };
+        });
+        console.log("[MessageStore] System message added:", sessionId, subtype);
+      },
+
       clearSessionMessages: (sessionId) => {
         set((state) => {
           const newMap = new Map(state.sessionMessages);
@@ -254,6 +346,19 @@ export const useMessageStore = create<MessageState>()(
         });
       },
 
+      removeMessages: (sessionId, messageIds) => {
+        const messages = get().sessionMessages.get(sessionId) || [];
+        const removed = new Set(messageIds);
+        const kept = messages.filter((m) => !removed.has(m.id));
+
+        set((state) => {
+          const newMap = new Map(state.sessionMessages);
+          newMap.set(sessionId, kept);
+          return { sessionMessages: newMap };
+        });
+        return messages.length - kept.length === removed.size;
+      },
+
       isLoadingMessages: (sessionId) => {
         return get().loadingSessions.has(sessionId);
       },
@@ -272,7 +377,7 @@ export const useMessageStore = create<MessageState>()(
       },
 
       // Business action methods (components call these)
-      sendMessage: (sessionId: string | undefined, content: string, images?: any[]) => {
+      sendMessage: (sessionId: string | undefined, content: string, attachments?: Attachment[]) => {
         const { pendingSessionId } = get();
 
         // Case 1: Brand new session (no sessionId, no pending)
@@ -286,7 +391,7 @@ export const useMessageStore = create<MessageState>()(
 
           // Optimistically add user message to UI
           const store = get();
-          store.addUserMessage(tempId, content, images);
+          store.addUserMessage(tempId, content, attachments);
 
           // Navigate to pending session URL immediately
           // We'll add a special navigation event for pending sessions
@@ -299,6 +404,7 @@ export const useMessageStore = create<MessageState>()(
           eventBus.emit({
             type: "session.create",
             message: content,
+            attachments,
             tempId,
           });
           return;
@@ -309,7 +415,7 @@ export const useMessageStore = create<MessageState>()(
           console.log("[MessageStore] Sending message to pending session:", pendingSessionId);
           // Just add to UI, wait for real session to be created
           const store = get();
-          store.addUserMessage(pendingSessionId, content, images);
+          store.addUserMessage(pendingSessionId, content, attachments);
           return;
         }
 
@@ -318,7 +424,7 @@ export const useMessageStore = create<MessageState>()(
           type: "message.send",
           sessionId: sessionId || pendingSessionId!,
           content,
-          images,
+          attachments,
         });
       },
     }),
@@ -366,30 +472,37 @@ eventBus.on(isMessageEvent).subscribe(async (event) => {
         console.log("[MessageStore] Received message.send event for session:", event.sessionId);
         console.log("[MessageStore] Message content:", event.content.substring(0, 100) + "...");
 
-        // 1. Add user message to UI immediately
-        console.log("[MessageStore] Adding user message to UI");
-        store.addUserMessage(event.sessionId, event.content, event.images);
-        console.log("[MessageStore] User message added to store");
+        // While a run is active the backend queues the message (unless steered),
+        // it is shown in the queue and added to the chat once its run starts (queueStore)
+        const { useSessionStore } = await import("~/stores/sessionStore");
+        const queued =
+          event.mode !== "steer" && useSessionStore.getState().isSessionProcessing(event.sessionId);
 
-        // 2. Emit message.user event for other stores (like UIStore)
-        console.log("[MessageStore] Emitting message.user event for other stores");
-        eventBus.emit({
-          type: "message.user",
-          sessionId: event.sessionId,
-          content: event.content,
-          images: event.images,
-        });
+        if (!queued) {
+          // 1. Add user message to UI immediately
+          console.log("[MessageStore] Adding user message to UI");
+          store.addUserMessage(event.sessionId, event.content, event.attachments);
+          console.log("[MessageStore] User message added to store");
 
-        // 3. Mark session as active
-        console.log("[MessageStore] Marking session as active");
-        const { useSessionStore } = await import("~/stores/sessionStore");
-        useSessionStore.getState().markSessionActive(event.sessionId);
-        console.log("[MessageStore] Session marked as active");
+          // 2. Emit message.user event for other stores (like UIStore)
+          console.log("[MessageStore] Emitting message.user event for other stores");
+          eventBus.emit({
+            type: "message.user",
+            sessionId: event.sessionId,
+            content: event.content,
+            attachments: event.attachments,
+          });
+
+          // 3. Mark session as active
+          console.log("[MessageStore] Marking session as active");
+          useSessionStore.getState().markSessionActive(event.sessionId);
+          console.log("[MessageStore] Session marked as active");
+        }
 
         // 4. Send to backend via WebSocket (using pure API)
         console.log("[MessageStore] Sending command to backend via WebSocket");
         const { sendMessageToBackend } = await import("~/api/agent");
-        await sendMessageToBackend(event.sessionId, event.content, event.images);
+        await sendMessageToBackend(event.sessionId, event.content, event.attachments, event.mode);
         console.log("[MessageStore] Command sent to backend successfully");
       } catch (error) {
         console.error("[MessageStore] Failed to send message:", error);
@@ -407,6 +520,19 @@ eventBus.on(isMessageEvent).subscribe(async (event) => {
       store.setMessages(event.sessionId, event.messages);
       break;
 
+    case "message.rewound":
+      // Messages streamed in this tab have client-side ids the backend doesn't know,
+      // reload the stored history when some removed ones were not found
+      if (!store.removeMessages(event.sessionId, event.removedMessageIds)) {
+        try {
+          const { loadSessionMessages } = await import("~/api/agent");
+          store.setMessages(event.sessionId, await loadSessionMessages(event.sessionId));
+        } catch (error) {
+          console.error("[MessageStore] Failed to reload messages after rewind:", error);
+        }
+      }
+      break;
+
     case "message.user":
       // This is now only for internal state updates (emitted by message.send handler)
       // Don't add message again, it's already added by message.send
@@ -420,10 +546,18 @@ eventBus.on(isMessageEvent).subscribe(async (event) => {
       store.addStreamingChunk(event.sessionId, event.chunk);
       break;
 
+    case "message.thinking":
+      store.addThinkingChunk(event.sessionId, event.chunk);
+      break;
+
     case "message.complete":
       store.completeStreaming(event.sessionId);
       break;
 
+    case "message.system":
+      store.addSystemMessage(event.sessionId, event.subtype, event.content);
+      break;
+
     case "message.tool":
       store.addToolUse(event.sessionId, event.toolName, event.toolInput, event.toolId);
       break;
@@ -432,15 +566,20 @@ eventBus.on(isMessageEvent).subscribe(async (event) => {
       store.updateToolResult(event.sessionId, event.toolId, event.result);
       break;
 
+    case "message.subagent":
+      store.addSubagentMessage(event.sessionId, event.parentToolId, event.message);
+      break;
+
     case "message.error": {
       // Format error message based on recoverability
       let errorMessage = event.error.message;
 
       if (event.recoverable) {
         // Recoverable error: friendly message with recovery hint
-        errorMessage = `⚠️ ${event.error.message}\n\n✅ Your session is still active. You can continue sending messages.\n\nCommon solutions:\n• If credits insufficient: Recharge and try again\n• If network issue: Check connection and retry\n• If rate limited: Wait a moment and resend`;
+        errorMessage = `⚠️ ${errorLabel(event.code)}: ${event.error.message}\n\n${errorGuidance(event.code)}\n\n✅ Your session is still active. You can continue sending messages.`;
         console.log("[MessageStore] Recoverable error:", {
           sessionId: event.sessionId,
+          code: event.code,
           error: event.error.message,
           state: event.state,
         });
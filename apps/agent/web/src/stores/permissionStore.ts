@@ -0,0 +1,206 @@
+/**
+ * Permission Store - Tool approvals and permission modes
+ * Subscribes to EventBus for permission-related events
+ */
+
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+import { eventBus } from "~/core/eventBus";
+import { isPermissionEvent } from "~/core/events";
+import type { PermissionMode, PermissionRequest, PermissionScope } from "~/types";
+
+export interface PermissionState {
+  // State
+  pendingRequests: Map<string, PermissionRequest[]>; // sessionId -> waiting tool calls
+  sessionModes: Map<string, PermissionMode>; // sessionId -> mode
+  defaultMode: PermissionMode; // Mode for sessions created from this client
+
+  // Internal state actions (used by EventBus subscribers)
+  addRequest: (sessionId: string, request: PermissionRequest) => void;
+  removeRequest: (sessionId: string, requestId: string) => void;
+  setPending: (sessionId: string, requests: PermissionRequest[]) => void;
+  setSessionMode: (sessionId: string, mode: PermissionMode) => void;
+  migrateSession: (oldSessionId: string, newSessionId: string) => void;
+
+  // Queries
+  getPending: (sessionId: string) => PermissionRequest[];
+  getMode: (sessionId: string | undefined) => PermissionMode;
+
+  // Business action methods (for components to call)
+  respond: (
+    sessionId: string,
+    requestId: string,
+    behavior: "allow" | "deny",
+    scope?: PermissionScope
+  ) => void;
+  changeMode: (sessionId: string | undefined, mode: PermissionMode) => void;
+}
+
+export const PERMISSION_MODES: PermissionMode[] = [
+  "default",
+  "acceptEdits",
+  "plan",
+  "bypassPermissions",
+];
+
+export const usePermissionStore = create<PermissionState>()(
+  devtools(
+    (set, get) => ({
+      // Initial state
+      pendingRequests: new Map(),
+      sessionModes: new Map(),
+      defaultMode: "default",
+
+      // Actions
+      addRequest: (sessionId, request) =>
+        set((state) => {
+          const current = state.pendingRequests.get(sessionId) || [];
+          if (current.some((r) => r.id === request.id)) {
+            return state;
+          }
+          const pendingRequests = new Map(state.pendingRequests);
+          pendingRequests.set(sessionId, [...current, request]);
+          return { pendingRequests };
+        }),
+
+      removeRequest: (sessionId, requestId) =>
+        set((state) => {
+          const current = state.pendingRequests.get(sessionId);
+          if (!current) {
+            return state;
+          }
+          const pendingRequests = new Map(state.pendingRequests);
+          pendingRequests.set(
+            sessionId,
+            current.filter((r) => r.id !== requestId)
+          );
+          return { pendingRequests };
+        }),
+
+      setPending: (sessionId, requests) =>
+        set((state) => {
+          const pendingRequests = new Map(state.pendingRequests);
+          pendingRequests.set(sessionId, requests);
+          return { pendingRequests };
+        }),
+
+      setSessionMode: (sessionId, mode) =>
+        set((state) => {
+          const sessionModes = new Map(state.sessionModes);
+          sessionModes.set(sessionId, mode);
+          return { sessionModes };
+        }),
+
+      migrateSession: (oldSessionId, newSessionId) =>
+        set((state) => {
+          const pendingRequests = new Map(state.pendingRequests);
+          const sessionModes = new Map(state.sessionModes);
+
+          const requests = pendingRequests.get(oldSessionId);
+          if (requests) {
+            pendingRequests.delete(oldSessionId);
+            pendingRequests.set(newSessionId, requests);
+          }
+
+          const mode = sessionModes.get(oldSessionId);
+          if (mode) {
+            sessionModes.delete(oldSessionId);
+            sessionModes.set(newSessionId, mode);
+          }
+
+          return { pendingRequests, sessionModes };
+        }),
+
+      getPending: (sessionId) => get().pendingRequests.get(sessionId) || [],
+
+      getMode: (sessionId) => (sessionId && get().sessionModes.get(sessionId)) || get().defaultMode,
+
+      // Business action methods (components call these)
+      respond: (sessionId, requestId, behavior, scope = "once") => {
+        eventBus.emit({ type: "permission.respond", sessionId, requestId, behavior, scope });
+      },
+
+      changeMode: (sessionId, mode) => {
+        if (!sessionId) {
+          // No session yet: mode is used when the session is created
+          set({ defaultMode: mode });
+          return;
+        }
+        eventBus.emit({ type: "permission.mode.set", sessionId, mode });
+      },
+    }),
+    { name: "PermissionStore" }
+  )
+);
+
+// Subscribe to EventBus (auto-setup on module load)
+eventBus.on(isPermissionEvent).subscribe(async (event) => {
+  const store = usePermissionStore.getState();
+
+  switch (event.type) {
+    case "permission.requested":
+      console.log("[PermissionStore] Tool waiting for approval:", event.request.toolName);
+      store.addRequest(event.sessionId, event.request);
+      break;
+
+    case "permission.resolved":
+      store.removeRequest(event.sessionId, event.requestId);
+      break;
+
+    case "permission.respond": {
+      // Optimistic removal - the resolved broadcast will confirm it
+      store.removeRequest(event.sessionId, event.requestId);
+      const { respondToPermissionBackend } = await import("~/api/agent");
+      respondToPermissionBackend(event.sessionId, event.requestId, event.behavior, event.scope);
+      break;
+    }
+
+    case "permission.mode.set": {
+      store.setSessionMode(event.sessionId, event.mode);
+      const { setPermissionModeBackend } = await import("~/api/agent");
+      setPermissionModeBackend(event.sessionId, event.mode);
+      break;
+    }
+
+    case "permission.mode":
+      store.setSessionMode(event.sessionId, event.mode);
+      break;
+
+    case "permission.loaded":
+      store.setSessionMode(event.sessionId, event.mode);
+      store.setPending(event.sessionId, event.pending);
+      break;
+  }
+});
+
+// Keep permission state in sync with session lifecycle
+eventBus.stream().subscribe(async (event) => {
+  switch (event.type) {
+    case "session.created": {
+      const store = usePermissionStore.getState();
+      if (event.oldTempId) {
+        store.migrateSession(event.oldTempId, event.sessionId);
+      }
+      // New sessions are created with the client default mode
+      if (!usePermissionStore.getState().sessionModes.has(event.sessionId)) {
+        store.setSessionMode(event.sessionId, store.defaultMode);
+      }
+      break;
+    }
+
+    case "session.selected":
+      try {
+        const { loadSessionPermissions } = await import("~/api/agent");
+        const { mode, pending } = await loadSessionPermissions(event.sessionId);
+        eventBus.emit({ type: "permission.loaded", sessionId: event.sessionId, mode, pending });
+      } catch (error) {
+        console.error("[PermissionStore] Failed to load permissions:", error);
+      }
+      break;
+
+    case "session.aborted":
+      // Backend denies every pending request when a run is aborted
+      usePermissionStore.getState().setPending(event.sessionId, []);
+      break;
+  }
+});
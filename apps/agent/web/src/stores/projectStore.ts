@@ -0,0 +1,147 @@
+/**
+ * Project Store - Workspaces of the server and the one this client works on
+ * Subscribes to EventBus for project-related events
+ * The selected project is kept in localStorage and scopes all session API calls
+ */
+
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+import { eventBus } from "~/core/eventBus";
+import { isProjectEvent } from "~/core/events";
+import { setProjectId } from "~/api/rest";
+import type { Project } from "~/types";
+
+const SELECTED_PROJECT_KEY = "selected-project";
+
+export interface ProjectState {
+  // State
+  projects: Project[];
+  currentProjectId: string | null; // null until projects are loaded: the server default
+  error: string | null;
+
+  // Internal state actions (used by EventBus subscribers)
+  setProjects: (projects: Project[]) => void;
+  setCurrentProjectId: (projectId: string) => void;
+  setError: (error: string | null) => void;
+
+  // Queries
+  getCurrentProject: () => Project | null;
+
+  // Business action methods (for components to call)
+  load: () => void;
+  select: (projectId: string) => void;
+  add: (path: string) => void;
+  remove: (projectId: string) => void;
+}
+
+const storedProjectId = localStorage.getItem(SELECTED_PROJECT_KEY);
+setProjectId(storedProjectId);
+
+export const useProjectStore = create<ProjectState>()(
+  devtools(
+    (set, get) => ({
+      // Initial state
+      projects: [],
+      currentProjectId: storedProjectId,
+      error: null,
+
+      // Actions
+      setProjects: (projects) => set({ projects }),
+
+      setCurrentProjectId: (projectId) => {
+        setProjectId(projectId);
+        localStorage.setItem(SELECTED_PROJECT_KEY, projectId);
+        set({ currentProjectId: projectId });
+      },
+
+      setError: (error) => set({ error }),
+
+      getCurrentProject: () => {
+        const { projects, currentProjectId } = get();
+        return projects.find((project) => project.id === currentProjectId) || null;
+      },
+
+      // Business action methods (components call these)
+      load: () => {
+        eventBus.emit({ type: "project.load" });
+      },
+
+      select: (projectId) => {
+        eventBus.emit({ type: "project.select", projectId });
+      },
+
+      add: (path) => {
+        eventBus.emit({ type: "project.add", path });
+      },
+
+      remove: (projectId) => {
+        eventBus.emit({ type: "project.remove", projectId });
+      },
+    }),
+    { name: "ProjectStore" }
+  )
+);
+
+// Subscribe to EventBus (auto-setup on module load)
+eventBus.on(isProjectEvent).subscribe(async (event) => {
+  const store = useProjectStore.getState();
+
+  switch (event.type) {
+    case "project.load":
+      try {
+        const { loadProjects } = await import("~/api/agent");
+        eventBus.emit({ type: "project.loaded", projects: await loadProjects() });
+      } catch (error) {
+        console.error("[ProjectStore] Failed to load projects:", error);
+        store.setError((error as Error).message);
+      }
+      break;
+
+    case "project.loaded": {
+      store.setProjects(event.projects);
+      // Stored project was removed on the server: fall back to the default one
+      const current = event.projects.find((project) => project.id === store.currentProjectId);
+      const fallback = event.projects.find((project) => project.isDefault);
+      if (!current && fallback) {
+        eventBus.emit({ type: "project.select", projectId: fallback.id });
+      }
+      break;
+    }
+
+    case "project.select":
+      if (event.projectId === store.currentProjectId) {
+        break;
+      }
+      console.log("[ProjectStore] Switching project:", event.projectId);
+      store.setCurrentProjectId(event.projectId);
+      // Sessions of the previous project do not belong to this one
+      eventBus.emit({ type: "session.navigate.new" });
+      eventBus.emit({ type: "session.refresh" });
+      break;
+
+    case "project.add":
+      try {
+        const { addProject } = await import("~/api/agent");
+        const project = await addProject(event.path);
+        store.setError(null);
+        eventBus.emit({ type: "project.load" });
+        eventBus.emit({ type: "project.select", projectId: project.id });
+      } catch (error) {
+        console.error("[ProjectStore] Failed to add project:", error);
+        store.setError((error as Error).message);
+      }
+      break;
+
+    case "project.remove":
+      try {
+        const { removeProject } = await import("~/api/agent");
+        await removeProject(event.projectId);
+        store.setError(null);
+        eventBus.emit({ type: "project.load" });
+      } catch (error) {
+        console.error("[ProjectStore] Failed to remove project:", error);
+        store.setError((error as Error).message);
+      }
+      break;
+  }
+});
@@ -0,0 +1,110 @@
+/**
+ * Queue Store - Messages waiting for a session's current run
+ * Subscribes to EventBus for queue-related events
+ */
+
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+import { eventBus } from "~/core/eventBus";
+import { isQueueEvent } from "~/core/events";
+import { useMessageStore } from "~/stores/messageStore";
+import type { QueuedMessage } from "~/types";
+
+export interface QueueState {
+  // State
+  queues: Map<string, QueuedMessage[]>; // sessionId -> messages waiting, in order
+
+  // Internal state actions (used by EventBus subscribers)
+  setQueue: (sessionId: string, queue: QueuedMessage[]) => void;
+
+  // Business action methods (for components to call)
+  edit: (sessionId: string, messageId: string, content: string) => void;
+  cancel: (sessionId: string, messageId: string) => void;
+  steer: (sessionId: string, messageId: string) => void;
+}
+
+export const useQueueStore = create<QueueState>()(
+  devtools(
+    (set) => ({
+      // Initial state
+      queues: new Map(),
+
+      // Actions
+      setQueue: (sessionId, queue) =>
+        set((state) => {
+          const next = new Map(state.queues);
+          if (queue.length > 0) {
+            next.set(sessionId, queue);
+          } else {
+            next.delete(sessionId);
+          }
+          return { queues: next };
+        }),
+
+      // Business action methods (components call these)
+      edit: (sessionId, messageId, content) => {
+        eventBus.emit({ type: "queue.edit", sessionId, messageId, content });
+      },
+
+      cancel: (sessionId, messageId) => {
+        eventBus.emit({ type: "queue.cancel", sessionId, messageId });
+      },
+
+      steer: (sessionId, messageId) => {
+        eventBus.emit({ type: "queue.steer", sessionId, messageId });
+      },
+    }),
+    { name: "QueueStore" }
+  )
+);
+
+// Subscribe to EventBus (auto-setup on module load)
+eventBus.on(isQueueEvent).subscribe(async (event) => {
+  const store = useQueueStore.getState();
+  const { updateQueuedMessageBackend, cancelQueuedMessageBackend } = await import("~/api/agent");
+
+  switch (event.type) {
+    case "queue.updated":
+      store.setQueue(event.sessionId, event.queue);
+      // Its run starts now, so it joins the conversation
+      if (event.sent) {
+        useMessageStore
+          .getState()
+          .addUserMessage(event.sessionId, event.sent.content, event.sent.attachments);
+        eventBus.emit({
+          type: "message.user",
+          sessionId: event.sessionId,
+          content: event.sent.content,
+          attachments: event.sent.attachments,
+        });
+      }
+      break;
+
+    case "queue.edit":
+      updateQueuedMessageBackend(event.sessionId, event.messageId, event.content);
+      break;
+
+    case "queue.cancel":
+      cancelQueuedMessageBackend(event.sessionId, event.messageId);
+      break;
+
+    case "queue.steer": {
+      const message = store.queues
+        .get(event.sessionId)
+        ?.find((queued) => queued.id === event.messageId);
+      if (!message) {
+        break;
+      }
+      // Out of the queue and into the running turn, the backend queues it again if the run is done
+      cancelQueuedMessageBackend(event.sessionId, event.messageId);
+      eventBus.emit({
+        type: "message.send",
+        sessionId: event.sessionId,
+        content: message.content,
+        attachments: message.attachments,
+        mode: "steer",
+      });
+      break;
+    }
+  }
+});
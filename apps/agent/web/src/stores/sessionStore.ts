@@ -7,7 +7,9 @@ import { create } from "zustand";
 import { devtools } from "zustand/middleware";
 import { eventBus } from "~/core/eventBus";
 import { isSessionEvent } from "~/core/events";
-import type { Session } from "~/types";
+import { usePermissionStore } from "./permissionStore";
+import { useMcpStore } from "./mcpStore";
+import type { ChatMessage, Session, SessionSearchResult } from "~/types";
 
 export interface SessionState {
   // State
@@ -19,6 +21,12 @@ export interface SessionState {
   // Navigation state (for components to subscribe to)
   navigationTarget: string | null;
 
+  // Message search (sidebar results, match to scroll to in MessagesArea)
+  searchQuery: string;
+  searchResults: SessionSearchResult[];
+  isSearching: boolean;
+  highlightedMessageId: string | null;
+
   // Session Protection System
   activeSessions: Set<string>;
   processingSessions: Set<string>;
@@ -45,9 +53,13 @@ export interface SessionState {
   // Business action methods (for components to call)
   createNewSession: () => Promise<void>;
   selectSession: (sessionId: string) => void;
+  forkSession: (sessionId: string, atMessageId: string) => void;
   deleteSessionById: (sessionId: string) => Promise<void>;
   refreshSessions: () => Promise<void>;
   abortSessionById: (sessionId: string) => void;
+  searchSessions: (query: string) => void;
+  openSearchMatch: (sessionId: string, messageId: string) => void;
+  clearHighlight: () => void;
 }
 
 export const useSessionStore = create<SessionState>()(
@@ -59,6 +71,10 @@ export const useSessionStore = create<SessionState>()(
       isLoading: false,
       error: null,
       navigationTarget: null,
+      searchQuery: "",
+      searchResults: [],
+      isSearching: false,
+      highlightedMessageId: null,
       activeSessions: new Set(),
       processingSessions: new Set(),
 
@@ -155,6 +171,10 @@ export const useSessionStore = create<SessionState>()(
         eventBus.emit({ type: "session.selected", sessionId });
       },
 
+      forkSession: (sessionId: string, atMessageId: string) => {
+        eventBus.emit({ type: "session.fork", sessionId, atMessageId });
+      },
+
       deleteSessionById: async (sessionId: string) => {
         eventBus.emit({ type: "session.delete", sessionId });
       },
@@ -166,11 +186,46 @@ export const useSessionStore = create<SessionState>()(
       abortSessionById: (sessionId: string) => {
         eventBus.emit({ type: "session.abort", sessionId });
       },
+
+      searchSessions: (query: string) => {
+        eventBus.emit({ type: "session.search", query });
+      },
+
+      openSearchMatch: (sessionId: string, messageId: string) => {
+        eventBus.emit({ type: "session.search.open", sessionId, messageId });
+      },
+
+      clearHighlight: () => set({ highlightedMessageId: null }),
     }),
     { name: "SessionStore" }
   )
 );
 
+/**
+ * Messages streamed in this tab have client-side ids the backend doesn't know.
+ * Match them to the stored history by turn (one user message per turn).
+ */
+function resolveStoredMessageId(
+  messageId: string,
+  clientMessages: ChatMessage[],
+  storedMessages: ChatMessage[]
+): string {
+  if (storedMessages.some((m) => m.id === messageId)) {
+    return messageId;
+  }
+
+  const index = clientMessages.findIndex((m) => m.id === messageId);
+  const turn = clientMessages.slice(0, index + 1).filter((m) => m.type === "user").length;
+
+  let seen = 0;
+  let resolved = messageId;
+  for (const message of storedMessages) {
+    if (message.type === "user" && ++seen > turn) break;
+    resolved = message.id;
+  }
+  return resolved;
+}
+
 // Subscribe to EventBus (auto-setup on module load)
 eventBus.on(isSessionEvent).subscribe(async (event) => {
   const store = useSessionStore.getState();
@@ -196,10 +251,17 @@ eventBus.on(isSessionEvent).subscribe(async (event) => {
         // DON'T set global loading state - this would show "Loading sessions..." in Sidebar
         // The session will be added to the list when AI completes or via WebSocket broadcast
 
-        const response = await fetch("/api/sessions/create", {
+        const { projectUrl } = await import("~/api/rest");
+        const response = await fetch(projectUrl("/sessions/create"), {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ message: event.message, tempId }),
+          body: JSON.stringify({
+            message: event.message,
+            attachments: event.attachments,
+            tempId,
+            permissionMode: usePermissionStore.getState().defaultMode,
+            mcpServers: useMcpStore.getState().defaultSelection,
+          }),
         });
 
         if (!response.ok) {
@@ -241,6 +303,30 @@ eventBus.on(isSessionEvent).subscribe(async (event) => {
       }
       break;
 
+    case "session.fork":
+      // Business orchestration: fork session and open the fork
+      try {
+        console.log("[SessionStore] Forking session:", event.sessionId, "at", event.atMessageId);
+        const { forkSession, loadSessionMessages } = await import("~/api/agent");
+        const { useMessageStore } = await import("./messageStore");
+        const atMessageId = resolveStoredMessageId(
+          event.atMessageId,
+          useMessageStore.getState().getMessages(event.sessionId),
+          await loadSessionMessages(event.sessionId)
+        );
+        const { session, messages } = await forkSession(event.sessionId, atMessageId);
+        store.addSession(session);
+
+        // Emit created event so messageStore has the fork's messages before navigating
+        eventBus.emit({ type: "session.created", sessionId: session.id, messages });
+
+        useSessionStore.setState({ navigationTarget: session.id });
+      } catch (error) {
+        console.error("[SessionStore] Failed to fork session:", error);
+        store.setError((error as Error).message);
+      }
+      break;
+
     case "session.refresh":
       // Business orchestration: refresh sessions
       try {
@@ -258,6 +344,39 @@ eventBus.on(isSessionEvent).subscribe(async (event) => {
       }
       break;
 
+    case "session.search": {
+      // Business orchestration: search messages on the backend
+      const query = event.query.trim();
+      useSessionStore.setState({ searchQuery: query });
+      if (!query) {
+        useSessionStore.setState({ searchResults: [], isSearching: false });
+        break;
+      }
+
+      try {
+        useSessionStore.setState({ isSearching: true });
+        const { searchSessions } = await import("~/api/agent");
+        const results = await searchSessions(query);
+
+        // Drop responses for queries the user already typed past
+        if (useSessionStore.getState().searchQuery === query) {
+          useSessionStore.setState({ searchResults: results, isSearching: false });
+        }
+      } catch (error) {
+        console.error("[SessionStore] Failed to search sessions:", error);
+        store.setError((error as Error).message);
+        useSessionStore.setState({ isSearching: false });
+      }
+      break;
+    }
+
+    case "session.search.open":
+      // Highlight the match, MessagesArea scrolls to it once the messages are loaded
+      console.log("[SessionStore] Opening search match:", event.sessionId, event.messageId);
+      useSessionStore.setState({ highlightedMessageId: event.messageId });
+      eventBus.emit({ type: "session.selected", sessionId: event.sessionId });
+      break;
+
     case "session.delete":
       // Business orchestration: delete session
       try {
@@ -0,0 +1,100 @@
+/**
+ * Stall Store - Runs the agent stopped because their stream stalled
+ * Subscribes to EventBus for stall-related events
+ */
+
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+import { eventBus } from "~/core/eventBus";
+import { isStallEvent } from "~/core/events";
+import { useMessageStore } from "~/stores/messageStore";
+import type { RunStalled } from "~/types";
+
+export interface StallState {
+  // State
+  stalled: Map<string, RunStalled>; // sessionId -> timeout that stopped the last run
+
+  // Internal state actions (used by EventBus subscribers)
+  setStalled: (sessionId: string, stall: RunStalled) => void;
+  clearStalled: (sessionId: string) => void;
+
+  // Business action methods (for components to call)
+  retry: (sessionId: string) => void;
+  dismiss: (sessionId: string) => void;
+}
+
+export const useStallStore = create<StallState>()(
+  devtools(
+    (set) => ({
+      // Initial state
+      stalled: new Map(),
+
+      // Actions
+      setStalled: (sessionId, stall) =>
+        set((state) => {
+          const next = new Map(state.stalled);
+          next.set(sessionId, stall);
+          return { stalled: next };
+        }),
+
+      clearStalled: (sessionId) =>
+        set((state) => {
+          if (!state.stalled.has(sessionId)) {
+            return state;
+          }
+          const next = new Map(state.stalled);
+          next.delete(sessionId);
+          return { stalled: next };
+        }),
+
+      // Business action methods (components call these)
+      retry: (sessionId) => {
+        eventBus.emit({ type: "stall.retry", sessionId });
+      },
+
+      dismiss: (sessionId) => {
+        eventBus.emit({ type: "stall.dismiss", sessionId });
+      },
+    }),
+    { name: "StallStore" }
+  )
+);
+
+// Subscribe to EventBus (auto-setup on module load)
+eventBus.on(isStallEvent).subscribe((event) => {
+  const store = useStallStore.getState();
+
+  switch (event.type) {
+    case "stall.detected":
+      console.log("[StallStore] Run stopped by the watchdog:", event.stall);
+      store.setStalled(event.sessionId, event.stall);
+      break;
+
+    case "stall.retry": {
+      store.clearStalled(event.sessionId);
+      // The stalled prompt is the last one the user sent
+      const prompt = useMessageStore
+        .getState()
+        .getMessages(event.sessionId)
+        .filter((message) => message.type === "user")
+        .pop();
+      eventBus.emit({
+        type: "message.send",
+        sessionId: event.sessionId,
+        content: prompt?.content || "Continue",
+      });
+      break;
+    }
+
+    case "stall.dismiss":
+      store.clearStalled(event.sessionId);
+      break;
+  }
+});
+
+// Any new message is a new run, the banner only concerns the stalled one
+eventBus.stream().subscribe((event) => {
+  if (event.type === "message.send") {
+    useStallStore.getState().clearStalled(event.sessionId);
+  }
+});
@@ -9,11 +9,18 @@ import { persist } from "zustand/middleware";
 import { eventBus } from "~/core/eventBus";
 import { useSessionStore } from "./sessionStore";
 import type { AppEvent } from "~/core/events";
+import type { AgentErrorCode } from "~/types";
 
 export interface AgentStatus {
   text?: string;
   tokens?: number;
   can_interrupt?: boolean;
+  retry?: {
+    code: AgentErrorCode;
+    attempt: number;
+    maxRetries: number;
+    retryAt: number; // Epoch ms the failed run is sent again
+  };
 }
 
 export interface UIState {
@@ -153,6 +160,22 @@ eventBus.stream().subscribe((event: AppEvent) => {
       sessionStore.markSessionNotProcessing(event.sessionId);
       break;
 
+    // Failed run waiting to be retried
+    case "agent.retrying":
+      if (event.sessionId === currentSessionId) {
+        uiStore.setAgentStatus({
+          text: "Retrying",
+          can_interrupt: true,
+          retry: {
+            code: event.retry.code,
+            attempt: event.retry.attempt,
+            maxRetries: event.retry.maxRetries,
+            retryAt: Date.now() + event.retry.delayMs,
+          },
+        });
+      }
+      break;
+
     // Agent error
     case "agent.error":
       if (event.sessionId === currentSessionId) {
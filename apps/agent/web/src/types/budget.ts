@@ -0,0 +1,6 @@
+/**
+ * Budget Types
+ * Same shape as the agent-sdk budget model, a reached budget interrupts the run
+ */
+
+export type { Budget, BudgetUsage, BudgetExceeded } from "@deepractice-ai/agent-sdk";
@@ -1,46 +1,70 @@
 /**
  * Chat Message Types (for UI rendering)
+ * Derived from the agent-sdk message model, so history (REST) and live messages share one shape
  */
 
-export type ChatMessageType = "user" | "assistant" | "error";
+import type {
+  AnyMessage,
+  UserMessage as SDKUserMessage,
+  AssistantMessage as SDKAssistantMessage,
+  ThinkingMessage as SDKThinkingMessage,
+  ToolUseMessage as SDKToolUseMessage,
+  SystemMessage as SDKSystemMessage,
+  ErrorMessage as SDKErrorMessage,
+} from "@deepractice-ai/agent-sdk";
 
-export interface BaseMessage {
-  id: string; // Unique message ID (required - backend always provides this)
-  type: ChatMessageType;
-  content: string;
+export type { ToolResult } from "@deepractice-ai/agent-sdk";
+
+export type ChatMessageType = AnyMessage["type"];
+
+/**
+ * SDK message as held by the UI
+ * Timestamps arrive as ISO strings over HTTP, messages created client-side use Date
+ */
+export type BaseMessage<T extends AnyMessage = AnyMessage> = Omit<T, "timestamp"> & {
   timestamp: Date | string;
   isOptimistic?: boolean; // Client-side pending message
-}
+};
 
-export interface UserMessage extends BaseMessage {
-  type: "user";
-  images?: string[];
+/**
+ * Image or document sent with a user message
+ * data is base64, except text/plain documents which carry the text itself
+ */
+export interface Attachment {
+  type: "image" | "document";
+  mediaType: string;
+  data: string;
+  name?: string;
 }
 
-export interface ToolResult {
-  content: string;
-  isError: boolean;
-  timestamp: Date;
-  toolUseResult?: any;
-}
+// Attachments picked in the UI are validated by the agent, so mediaType stays a plain string here
+export type UserMessage = Omit<BaseMessage<SDKUserMessage>, "attachments"> & {
+  attachments?: Attachment[];
+};
 
-export interface AssistantMessage extends BaseMessage {
-  type: "assistant";
-  isToolUse?: boolean;
-  toolName?: string;
-  toolInput?: string;
-  toolId?: string; // Tool use ID for matching results
-  toolResult?: ToolResult | null;
+export type AssistantMessage = BaseMessage<SDKAssistantMessage> & {
   isStreaming?: boolean;
-  reasoning?: string;
-}
+};
 
-export interface ErrorMessage extends BaseMessage {
-  type: "error";
-  error?: string;
-}
+export type ThinkingMessage = BaseMessage<SDKThinkingMessage> & {
+  isStreaming?: boolean;
+};
+
+export type ToolUseMessage = Omit<BaseMessage<SDKToolUseMessage>, "subagentMessages"> & {
+  subagentMessages?: ChatMessage[]; // Task calls: transcript of the subagent run, streamed in live
+};
+
+export type SystemMessage = BaseMessage<SDKSystemMessage>;
+
+export type ErrorMessage = BaseMessage<SDKErrorMessage>;
 
-export type ChatMessage = UserMessage | AssistantMessage | ErrorMessage;
+export type ChatMessage =
+  | UserMessage
+  | AssistantMessage
+  | ThinkingMessage
+  | ToolUseMessage
+  | SystemMessage
+  | ErrorMessage;
 
 /**
  * Message Metadata (for pagination and caching)
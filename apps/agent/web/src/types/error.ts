@@ -0,0 +1,6 @@
+/**
+ * Agent Error Types
+ * Same shape as the agent-sdk error model, transient codes are retried by the agent
+ */
+
+export type { AgentErrorCode, RetryScheduled, RunStalled } from "@deepractice-ai/agent-sdk";
@@ -3,7 +3,13 @@
  */
 
 // Session types
-export type { Session, SessionId, SessionState } from "./session";
+export type {
+  Session,
+  SessionId,
+  SessionState,
+  SessionSearchMatch,
+  SessionSearchResult,
+} from "./session";
 
 // WebSocket message types
 export type {
@@ -17,6 +23,13 @@ export type {
   AgentResponseMessage,
   AgentOutputMessage,
   AgentErrorMessage,
+  PermissionRequestMessage,
+  PermissionResolvedMessage,
+  PermissionModeMessage,
+  BudgetExceededMessage,
+  SessionRetryMessage,
+  SessionStalledMessage,
+  SessionQueueMessage,
   WebSocketMessage,
   MessageState,
 } from "./message";
@@ -28,15 +41,42 @@ export type { UIState, ConnectionState } from "./store";
 export type {
   ChatMessageType,
   BaseMessage,
+  Attachment,
   UserMessage,
   ToolResult,
   AssistantMessage,
+  ThinkingMessage,
+  ToolUseMessage,
+  SystemMessage,
   ErrorMessage,
   ChatMessage,
   MessageMetadata,
   ProjectInfo,
 } from "./chat";
 
+// Permission types
+export type {
+  PermissionMode,
+  PermissionScope,
+  PermissionRequest,
+  PermissionDecision,
+} from "./permission";
+
+// Budget types
+export type { Budget, BudgetUsage, BudgetExceeded } from "./budget";
+
+// Queue types
+export type { QueuedMessage, SendMode } from "./queue";
+
+// Project types
+export type { Project } from "./project";
+
+// MCP types
+export type { McpServerInfo, McpServerSelection } from "./mcp";
+
+// Error types
+export type { AgentErrorCode, RetryScheduled, RunStalled } from "./error";
+
 // Common types
 export type {
   ApiResponse,
@@ -0,0 +1,6 @@
+/**
+ * MCP Types
+ * Same shape as the agent-sdk MCP model, sessions turn servers of the agent off by name
+ */
+
+export type { McpServerInfo, McpServerSelection } from "@deepractice-ai/agent-sdk";
@@ -14,10 +14,20 @@ export type WebSocketMessageType =
   | "agent-complete"
   | "session-aborted"
   | "session-status"
-  | "claude-status";
+  | "claude-status"
+  | "permission-request"
+  | "permission-resolved"
+  | "permission-mode"
+  | "mcp-servers"
+  | "budget-exceeded"
+  | "context-warning"
+  | "session-retry"
+  | "session-stalled"
+  | "session-queue";
 
 export interface BaseWebSocketMessage {
   type: WebSocketMessageType;
+  projectId?: string; // Workspace of the session, on broadcasts
   sessionId?: string;
   timestamp?: string | number;
 }
@@ -65,9 +75,68 @@ export interface AgentErrorMessage extends BaseWebSocketMessage {
   type: "claude-error";
   sessionId: string;
   error?: string;
+  code?: import("./error").AgentErrorCode;
+  recoverable?: boolean;
+  state?: string;
   data?: any;
 }
 
+export interface PermissionRequestMessage extends BaseWebSocketMessage {
+  type: "permission-request";
+  sessionId: string;
+  request: import("./permission").PermissionRequest;
+}
+
+export interface PermissionResolvedMessage extends BaseWebSocketMessage {
+  type: "permission-resolved";
+  sessionId: string;
+  requestId: string;
+  decision: import("./permission").PermissionDecision;
+}
+
+export interface PermissionModeMessage extends BaseWebSocketMessage {
+  type: "permission-mode";
+  sessionId: string;
+  mode: import("./permission").PermissionMode;
+}
+
+export interface McpServersMessage extends BaseWebSocketMessage {
+  type: "mcp-servers";
+  sessionId: string;
+  mcpServers: import("./mcp").McpServerSelection;
+}
+
+export interface BudgetExceededMessage extends BaseWebSocketMessage {
+  type: "budget-exceeded";
+  sessionId: string;
+  exceeded: import("./budget").BudgetExceeded;
+}
+
+export interface ContextWarningMessage extends BaseWebSocketMessage {
+  type: "context-warning";
+  sessionId: string;
+  warning: import("@deepractice-ai/agent-sdk").ContextWarning;
+}
+
+export interface SessionRetryMessage extends BaseWebSocketMessage {
+  type: "session-retry";
+  sessionId: string;
+  retry: import("./error").RetryScheduled;
+}
+
+export interface SessionStalledMessage extends BaseWebSocketMessage {
+  type: "session-stalled";
+  sessionId: string;
+  stall: import("./error").RunStalled;
+}
+
+export interface SessionQueueMessage extends BaseWebSocketMessage {
+  type: "session-queue";
+  sessionId: string;
+  queue: import("./queue").QueuedMessage[];
+  sent?: import("./queue").QueuedMessage; // Left the queue, its run starts now
+}
+
 export type WebSocketMessage =
   | SessionCreatedMessage
   | SessionsUpdatedMessage
@@ -77,6 +146,15 @@ export type WebSocketMessage =
   | AgentResponseMessage
   | AgentOutputMessage
   | AgentErrorMessage
+  | PermissionRequestMessage
+  | PermissionResolvedMessage
+  | PermissionModeMessage
+  | McpServersMessage
+  | BudgetExceededMessage
+  | ContextWarningMessage
+  | SessionRetryMessage
+  | SessionStalledMessage
+  | SessionQueueMessage
   | BaseWebSocketMessage;
 
 /**
@@ -101,12 +179,25 @@ export interface MessageState {
   getMessagesBySession: (sessionId: string) => WebSocketMessage[];
 
   // Unified chat message operations
-  addUserMessage: (sessionId: string, content: string, images?: any[]) => void;
+  addUserMessage: (
+    sessionId: string,
+    content: string,
+    attachments?: import("./chat").Attachment[]
+  ) => void;
   addAssistantMessage: (sessionId: string, content: string) => void;
   addAssistantChunk: (sessionId: string, chunk: string) => void; // For streaming
   updateLastAssistantMessage: (sessionId: string, content: string) => void;
-  addToolUse: (sessionId: string, toolName: string, toolInput: string, toolId: string) => void;
-  updateToolResult: (sessionId: string, toolId: string, result: any) => void;
+  addToolUse: (
+    sessionId: string,
+    toolName: string,
+    toolInput: Record<string, unknown>,
+    toolId: string
+  ) => void;
+  updateToolResult: (
+    sessionId: string,
+    toolId: string,
+    result: import("./chat").ToolResult
+  ) => void;
   addErrorMessage: (sessionId: string, error: string) => void;
 
   // Session lifecycle
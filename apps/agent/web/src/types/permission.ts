@@ -0,0 +1,22 @@
+/**
+ * Tool Permission Types
+ * Mirrors the agent-sdk permission model
+ */
+
+export type PermissionMode = "default" | "acceptEdits" | "plan" | "bypassPermissions";
+
+export type PermissionScope = "once" | "session" | "always";
+
+export interface PermissionRequest {
+  id: string;
+  toolName: string;
+  input: Record<string, unknown>;
+  toolUseId?: string;
+  createdAt: string;
+}
+
+export interface PermissionDecision {
+  behavior: "allow" | "deny";
+  scope?: PermissionScope;
+  message?: string;
+}
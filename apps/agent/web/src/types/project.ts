@@ -0,0 +1,11 @@
+/**
+ * Project Types
+ * A workspace directory the server works on, each with its own agent and sessions
+ */
+
+import type { ProjectInfo } from "./chat";
+
+export interface Project extends ProjectInfo {
+  id: string;
+  isDefault: boolean; // PROJECT_PATH of the server, cannot be removed
+}
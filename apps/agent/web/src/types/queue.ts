@@ -0,0 +1,6 @@
+/**
+ * Queue Types
+ * Same shape as the agent-sdk input queue, messages wait for the session's current run
+ */
+
+export type { QueuedMessage, SendMode } from "@deepractice-ai/agent-sdk";
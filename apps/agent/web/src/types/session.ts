@@ -11,11 +11,28 @@ export interface Session {
   lastActivity: string; // Last activity timestamp
   messageCount?: number; // Number of messages in session
   cwd?: string; // Current working directory for the session
+  parentSessionId?: string; // Session this one was forked from
   __provider?: "claude" | "cursor";
 }
 
 export type SessionId = string;
 
+/**
+ * Message matched by a session search
+ */
+export interface SessionSearchMatch {
+  messageId: string;
+  field: "content" | "toolInput" | "toolOutput";
+  snippet: string; // Text around the match
+  timestamp: string;
+}
+
+export interface SessionSearchResult {
+  sessionId: string;
+  summary: string;
+  matches: SessionSearchMatch[];
+}
+
 export interface SessionState {
   // State
   sessions: Session[];
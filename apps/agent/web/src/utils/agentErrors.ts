@@ -0,0 +1,38 @@
+import type { AgentErrorCode } from "~/types";
+
+// What the user can do about each kind of failed run
+const GUIDANCE: Record<AgentErrorCode, string> = {
+  rate_limited: "The API rate limit was reached. Wait a moment and resend.",
+  overloaded: "The API is overloaded or failing. Try again in a few minutes.",
+  auth_failed:
+    "The API key was rejected or has no credits left. Check ANTHROPIC_API_KEY and your account balance.",
+  invalid_model: "The model is not available for this API key. Pick another model.",
+  network: "The API could not be reached. Check the server's network connection and proxy.",
+  process_crashed: "The Claude process stopped unexpectedly. Resend to start it again.",
+  aborted: "The run was stopped before it finished.",
+  timeout: "Claude stopped responding and the run was stopped. Retry to send the message again.",
+  invalid_output:
+    "Claude's answer did not match the requested format. Ask again or simplify the schema.",
+  unknown: "Resend the message, the server log has the details if it fails again.",
+};
+
+const LABELS: Record<AgentErrorCode, string> = {
+  rate_limited: "Rate limited",
+  overloaded: "API overloaded",
+  auth_failed: "Authentication failed",
+  invalid_model: "Invalid model",
+  network: "Network error",
+  process_crashed: "Claude process crashed",
+  aborted: "Aborted",
+  timeout: "Run timed out",
+  invalid_output: "Invalid answer",
+  unknown: "Error",
+};
+
+export function errorGuidance(code: AgentErrorCode = "unknown"): string {
+  return GUIDANCE[code] || GUIDANCE.unknown;
+}
+
+export function errorLabel(code: AgentErrorCode = "unknown"): string {
+  return LABELS[code] || LABELS.unknown;
+}
@@ -55,6 +55,8 @@ export default [
         URLSearchParams: "readonly",
         TextEncoder: "readonly",
         TextDecoder: "readonly",
+        AbortController: "readonly",
+        AbortSignal: "readonly",
         // Browser globals (for web/ directory)
         window: "readonly",
         document: "readonly",
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { AgentError, resolveRetryOptions, retryDelay, toAgentError } from "./agent-error";
+
+describe("toAgentError", () => {
+  it.each([
+    [
+      "API Error: 429 rate_limit_error: Number of requests has exceeded your rate limit",
+      "rate_limited",
+    ],
+    ["Repeated 529 Overloaded errors", "overloaded"],
+    ["API Error: 500 Internal server error", "overloaded"],
+    ["Invalid API key · Please run /login", "auth_failed"],
+    ["Credit balance is too low", "auth_failed"],
+    ["API Error: 404 not_found_error model: claude-nope", "invalid_model"],
+    ["Connection error.", "network"],
+    ["connect ECONNREFUSED 127.0.0.1:443", "network"],
+    ["Claude Code process exited with code 1", "process_crashed"],
+    ["API Error: Request was aborted.", "aborted"],
+    ["Something unexpected", "unknown"],
+  ])("should classify %j as %s", (message, code) => {
+    expect(toAgentError(new Error(message)).code).toBe(code);
+  });
+
+  it("should keep the original error as cause and mark transient codes retryable", () => {
+    const cause = new Error("Claude Code process exited with code 1");
+    const error = toAgentError(cause);
+
+    expect(error).toBeInstanceOf(AgentError);
+    expect(error.cause).toBe(cause);
+    expect(error.retryable).toBe(true);
+    expect(toAgentError(error)).toBe(error);
+    expect(toAgentError("Invalid API key").retryable).toBe(false);
+  });
+});
+
+describe("retryDelay", () => {
+  it("should double the delay per attempt up to the cap", () => {
+    const options = resolveRetryOptions({ initialDelayMs: 1000, maxDelayMs: 5000 });
+
+    expect([1, 2, 3, 4].map((attempt) => retryDelay(attempt, options))).toEqual([
+      1000, 2000, 4000, 5000,
+    ]);
+    expect(() => resolveRetryOptions({ maxRetries: -1 })).toThrow(
+      "Retry maxRetries must be a non-negative integer"
+    );
+  });
+});
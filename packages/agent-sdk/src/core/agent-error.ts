@@ -0,0 +1,93 @@
+import type { AgentErrorCode, RetryOptions } from "~/types";
+
+/**
+ * Agent errors - failed runs classified by cause
+ *
+ * The Claude SDK reports failures as thrown errors (process exits, network)
+ * or as error results whose text carries the API error, both are matched
+ * against the patterns below. Transient codes are retried by the session.
+ */
+
+const RETRYABLE_CODES: AgentErrorCode[] = [
+  "rate_limited",
+  "overloaded",
+  "network",
+  "process_crashed",
+];
+
+// First match wins, so aborts and specific API errors come before status code ranges
+const PATTERNS: [AgentErrorCode, RegExp][] = [
+  ["aborted", /\babort(ed)?\b/i],
+  ["rate_limited", /\b429\b|rate.?limit/i],
+  [
+    "auth_failed",
+    /\b40[13]\b|invalid api key|authentication_error|permission_error|token revoked|credit balance|does not have access/i,
+  ],
+  ["invalid_model", /not_found_error|selected model|invalid model|model .*not (found|exist)/i],
+  ["overloaded", /\b529\b|overloaded|\b50[0234]\b|internal server error|api_error/i],
+  [
+    "network",
+    /econn(refused|reset)|enotfound|etimedout|eai_again|socket hang up|connection error|timed out|fetch failed/i,
+  ],
+  ["process_crashed", /process exited|exited with code|terminated by signal/i],
+];
+
+const DEFAULT_RETRY: Required<RetryOptions> = {
+  maxRetries: 3,
+  initialDelayMs: 2000,
+  maxDelayMs: 30000,
+};
+
+export class AgentError extends Error {
+  readonly code: AgentErrorCode;
+
+  constructor(code: AgentErrorCode, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "AgentError";
+    this.code = code;
+  }
+
+  /**
+   * Transient errors, the same run may succeed when retried
+   */
+  get retryable(): boolean {
+    return RETRYABLE_CODES.includes(this.code);
+  }
+}
+
+/**
+ * Classify an error (or error text), AgentErrors are returned as they are
+ */
+export function toAgentError(error: unknown): AgentError {
+  if (error instanceof AgentError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  const code =
+    error instanceof Error && error.name === "AbortError" ? "aborted" : classify(message);
+  return new AgentError(code, message, { cause: error });
+}
+
+/**
+ * Retry options with the defaults filled in
+ */
+export function resolveRetryOptions(options: RetryOptions = {}): Required<RetryOptions> {
+  const resolved = { ...DEFAULT_RETRY, ...options };
+  for (const [name, value] of Object.entries(resolved)) {
+    if (!Number.isInteger(value) || value < 0) {
+      throw new Error(`Retry ${name} must be a non-negative integer`);
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Delay before a retry (from 1): the initial delay doubled per attempt, capped
+ */
+export function retryDelay(attempt: number, options: Required<RetryOptions>): number {
+  return Math.min(options.initialDelayMs * 2 ** (attempt - 1), options.maxDelayMs);
+}
+
+function classify(message: string): AgentErrorCode {
+  return PATTERNS.find(([, pattern]) => pattern.test(message))?.[0] || "unknown";
+}
@@ -0,0 +1,102 @@
+import type { Budget, BudgetUsage, ModelPricing, TurnUsage } from "~/types";
+import { addApiUsage, sessionCost } from "./session-cost";
+
+const LIMITS: (keyof Budget)[] = ["maxTokens", "maxCostUsd", "maxTurns"];
+
+/**
+ * BudgetMeter - usage counted against a budget
+ *
+ * Every session has its own meter and shares the agent meter, both are fed
+ * the usage of each model response while a run streams.
+ */
+export class BudgetMeter {
+  private budget: Budget;
+  private usage: BudgetUsage = { tokens: 0, costUsd: 0, turns: 0 };
+
+  constructor(budget: Budget = {}) {
+    validateBudget(budget);
+    this.budget = { ...budget };
+  }
+
+  getBudget(): Budget {
+    return { ...this.budget };
+  }
+
+  setBudget(budget: Budget): void {
+    validateBudget(budget);
+    this.budget = { ...budget };
+  }
+
+  getUsage(): BudgetUsage {
+    return { ...this.usage };
+  }
+
+  add(usage: BudgetUsage): void {
+    this.usage = {
+      tokens: this.usage.tokens + usage.tokens,
+      costUsd: this.usage.costUsd + usage.costUsd,
+      turns: this.usage.turns + usage.turns,
+    };
+  }
+
+  /**
+   * First limit the usage has gone past, null while within budget
+   * A run using exactly its budget is within it, the run going past it is stopped
+   */
+  exceededLimit(): keyof Budget | null {
+    return this.findLimit((used, limit) => used > limit);
+  }
+
+  /**
+   * First limit the usage has reached, no new run can start once one is
+   */
+  reachedLimit(): keyof Budget | null {
+    return this.findLimit((used, limit) => used >= limit);
+  }
+
+  private findLimit(test: (used: number, limit: number) => boolean): keyof Budget | null {
+    const used: Record<keyof Budget, number> = {
+      maxTokens: this.usage.tokens,
+      maxCostUsd: this.usage.costUsd,
+      maxTurns: this.usage.turns,
+    };
+    return (
+      LIMITS.find(
+        (limit) => this.budget[limit] !== undefined && test(used[limit], this.budget[limit]!)
+      ) || null
+    );
+  }
+}
+
+/**
+ * Usage of one Claude API response (assistant message), counted as one turn
+ */
+export function responseUsage(
+  response: any,
+  fallbackModel: string,
+  pricing: Record<string, ModelPricing>
+): BudgetUsage {
+  const turn: TurnUsage = { timestamp: new Date(), models: {} };
+  addApiUsage(turn, response.model || fallbackModel, response.usage);
+  const { cost } = sessionCost([turn], pricing);
+  return { tokens: tokenCount(turn), costUsd: cost.total, turns: 1 };
+}
+
+/**
+ * Limits must be positive numbers, a missing limit is unlimited
+ */
+export function validateBudget(budget: Budget): void {
+  for (const limit of LIMITS) {
+    const value = budget[limit];
+    if (value !== undefined && (typeof value !== "number" || !(value > 0) || !isFinite(value))) {
+      throw new Error(`Budget ${limit} must be a positive number`);
+    }
+  }
+}
+
+function tokenCount(turn: TurnUsage): number {
+  return Object.values(turn.models).reduce(
+    (sum, tokens) => sum + tokens.input + tokens.output + tokens.cacheRead + tokens.cacheCreation,
+    0
+  );
+}
@@ -1,8 +1,125 @@
+import { randomUUID } from "crypto";
 import { query } from "@anthropic-ai/claude-agent-sdk";
-import type { SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+import type {
+  CanUseTool,
+  HookCallback,
+  Query,
+  SDKMessage,
+  SDKUserMessage,
+} from "@anthropic-ai/claude-agent-sdk";
 import type { Logger } from "@deepracticex/logger";
-import type { AgentConfig, SessionOptions } from "~/types";
+import type {
+  AgentConfig,
+  SessionOptions,
+  PermissionMode,
+  ContentBlock,
+  McpServerInfo,
+  McpServerSelection,
+  SubagentDefinition,
+  ThinkingOption,
+  ModelPricing,
+  RetryOptions,
+  TimeoutOptions,
+} from "~/types";
 import { DEFAULT_SYSTEM_PROMPT } from "./default-system-prompt";
+import { toSDKContent } from "./message-content";
+import { mergePricing } from "./session-cost";
+import { resolveContextOptions, type ResolvedContextOptions } from "./context-window";
+import { resolveRetryOptions, toAgentError } from "./agent-error";
+import { resolveTimeoutOptions } from "./stall-watchdog";
+import { HookRegistry } from "./hook-registry";
+import { ToolRegistry, TOOL_SERVER_NAME } from "./tool-registry";
+import { loadSubagents, toAgentDefinitions } from "./subagents";
+
+// Smallest thinking budget the Claude API accepts
+const MIN_THINKING_TOKENS = 1024;
+
+/**
+ * Streamed input of a run: the prompt, then the messages steered into it
+ *
+ * The iterable stays open until every message got its result: the SDK closes
+ * stdin as soon as the input ends, which would cut off tool permission responses.
+ */
+class UserInput implements AsyncIterable<SDKUserMessage> {
+  private messages: SDKUserMessage[] = [];
+  private pendingResults = 0;
+  private closed = false;
+  private wake: (() => void) | null = null;
+
+  /**
+   * @returns false once the input has ended
+   */
+  push(message: SDKUserMessage): boolean {
+    if (this.closed) {
+      return false;
+    }
+    this.messages.push(message);
+    this.pendingResults++;
+    this.wake?.();
+    return true;
+  }
+
+  /**
+   * A message got its result, the input ends with the last one
+   */
+  resultReceived(): void {
+    this.pendingResults = Math.max(0, this.pendingResults - 1);
+    if (this.pendingResults === 0) {
+      this.close();
+    }
+  }
+
+  close(): void {
+    this.closed = true;
+    this.wake?.();
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<SDKUserMessage> {
+    for (;;) {
+      const message = this.messages.shift();
+      if (message) {
+        yield message;
+      } else if (this.closed) {
+        return;
+      } else {
+        await new Promise<void>((resolve) => (this.wake = resolve));
+        this.wake = null;
+      }
+    }
+  }
+}
+
+/**
+ * Handle for one streaming run
+ */
+interface QueryRun {
+  query: Query;
+  abortController: AbortController;
+  input: UserInput;
+}
+
+/**
+ * Pre-spawned query waiting for its first user message
+ */
+interface WarmRun extends QueryRun {
+  canUseTool?: CanUseTool; // Bound when the run is claimed by stream()
+  toolHooks?: ToolHooks;
+  toolsVersion: number; // Registered tools when the run was spawned
+}
+
+/**
+ * Claude SDK hook callbacks around every tool call of a run
+ */
+export type ToolHooks = Record<"PreToolUse" | "PostToolUse", HookCallback>;
+
+/**
+ * Per-run options that are not part of the public SessionOptions
+ */
+export interface StreamOptions extends SessionOptions {
+  canUseTool?: CanUseTool; // Called by the SDK when a tool needs user approval
+  toolHooks?: ToolHooks; // Called by the SDK before and after every tool call
+  warmRunId?: string; // Claim a query started by prewarm() instead of spawning a new one
+}
 
 /**
  * ClaudeAdapter - wraps @anthropic-ai/claude-agent-sdk
@@ -11,41 +128,280 @@ import { DEFAULT_SYSTEM_PROMPT } from "./default-system-prompt";
  * - Mock in tests
  * - Swap SDK versions
  * - Add retry/error handling
+ *
+ * Every call to stream() is a separate run with its own query handle and
+ * AbortController, so concurrent sessions sharing one adapter never touch
+ * each other's queries.
  */
 export class ClaudeAdapter {
   private logger: Logger;
-  private currentQuery: any | null = null; // Store current query for interrupt
+  private runs = new Map<string, QueryRun>(); // Active runs keyed by runId
+  private warmRuns = new Map<string, WarmRun>(); // Pre-spawned runs keyed by warmRunId
+  private pricing: Record<string, ModelPricing>;
+  private context: ResolvedContextOptions;
+  private retry: Required<RetryOptions>;
+  private timeouts: Required<TimeoutOptions>;
+  private hooks: HookRegistry;
+  private tools: ToolRegistry;
+  private subagents: SubagentDefinition[];
 
   constructor(
     private readonly config: AgentConfig,
     logger: Logger
   ) {
     this.logger = logger;
+    thinkingTokens(config.thinking); // Fail on a bad default budget at startup
+    this.pricing = mergePricing(config.pricing);
+    this.context = resolveContextOptions(config.context); // Fail on bad thresholds at startup
+    this.retry = resolveRetryOptions(config.retry);
+    this.timeouts = resolveTimeoutOptions(config.timeouts);
+    this.hooks = new HookRegistry(config.hooks, logger);
+    this.tools = new ToolRegistry(config.tools, logger);
+    this.subagents = loadSubagents(config.workspace, config.subagents, logger); // Fail on bad definitions at startup
     this.logger.debug(
-      { workspace: config.workspace, model: config.model },
+      { workspace: config.workspace, model: config.model, thinking: config.thinking },
       "ClaudeAdapter created"
     );
   }
 
   /**
-   * Interrupt the current query if one is running
+   * Prices of the models runs can use, sessions compute their cost with it
    */
-  async interrupt(): Promise<void> {
-    if (this.currentQuery && typeof this.currentQuery.interrupt === "function") {
-      this.logger.info("Interrupting Claude SDK query");
-      await this.currentQuery.interrupt();
-      this.currentQuery = null;
-    } else {
-      this.logger.warn("No active query to interrupt");
+  getPricing(): Record<string, ModelPricing> {
+    return this.pricing;
+  }
+
+  /**
+   * Context window override and thresholds, sessions measure their context with it
+   */
+  getContext(): ResolvedContextOptions {
+    return this.context;
+  }
+
+  /**
+   * How sessions retry runs that failed with a transient error
+   */
+  getRetry(): Required<RetryOptions> {
+    return this.retry;
+  }
+
+  /**
+   * Idle and run timeouts, sessions watch their streams with them
+   */
+  getTimeouts(): Required<TimeoutOptions> {
+    return this.timeouts;
+  }
+
+  /**
+   * Hooks of the agent, sessions run them around their turns and tool calls
+   */
+  getHooks(): HookRegistry {
+    return this.hooks;
+  }
+
+  /**
+   * In-process tools of the agent, served to every run
+   */
+  getTools(): ToolRegistry {
+    return this.tools;
+  }
+
+  /**
+   * Subagents runs can delegate to with the Task tool
+   */
+  getSubagents(): SubagentDefinition[] {
+    return this.subagents;
+  }
+
+  /**
+   * MCP servers sessions can turn on or off, the tools server while tools are registered
+   */
+  getMcpServers(): McpServerInfo[] {
+    const servers: McpServerInfo[] = Object.entries(this.config.mcpServers || {}).map(
+      ([name, server]) => ({ name, type: server.type || "stdio" })
+    );
+    if (this.tools.list().length > 0) {
+      servers.push({ name: TOOL_SERVER_NAME, type: "sdk" });
+    }
+    return servers;
+  }
+
+  /**
+   * Interrupt a specific run
+   *
+   * Only the query started by stream() with the same runId is affected.
+   * Falls back to aborting the run's process if the SDK interrupt fails.
+   *
+   * @returns true if a matching run was found
+   */
+  async interrupt(runId: string): Promise<boolean> {
+    const run = this.runs.get(runId);
+    if (!run) {
+      this.logger.warn({ runId }, "No active query to interrupt");
+      return false;
+    }
+
+    this.logger.info({ runId }, "Interrupting Claude SDK query");
+    try {
+      await run.query.interrupt();
+    } catch (err) {
+      this.logger.warn({ err, runId }, "Query interrupt failed, aborting run");
+      run.abortController.abort();
+    }
+    return true;
+  }
+
+  /**
+   * Send a message into a running turn
+   *
+   * The Claude CLI reads it while the turn runs and answers it before the run ends.
+   *
+   * @returns false if the run is gone or already past its last result
+   */
+  steer(runId: string, prompt: string | ContentBlock[]): boolean {
+    const run = this.runs.get(runId);
+    if (!run || !run.input.push(this.toUserMessage(prompt))) {
+      return false;
+    }
+    this.logger.info({ runId, promptLength: prompt.length }, "Steered message into running query");
+    return true;
+  }
+
+  /**
+   * Stop a run's process right away
+   *
+   * For queries that stopped answering: interrupt() waits on the process.
+   *
+   * @returns true if a matching run was found
+   */
+  abortRun(runId: string): boolean {
+    const run = this.runs.get(runId);
+    if (!run) {
+      return false;
+    }
+    this.logger.warn({ runId }, "Aborting Claude SDK run");
+    run.abortController.abort();
+    return true;
+  }
+
+  /**
+   * Change the permission mode of a running query
+   *
+   * @returns true if a matching run was found
+   */
+  async setPermissionMode(runId: string, mode: PermissionMode): Promise<boolean> {
+    const run = this.runs.get(runId);
+    if (!run) {
+      return false;
+    }
+
+    this.logger.info({ runId, mode }, "Updating permission mode of running query");
+    await run.query.setPermissionMode(mode);
+    return true;
+  }
+
+  /**
+   * Check whether a run is still streaming
+   */
+  isRunning(runId: string): boolean {
+    return this.runs.has(runId);
+  }
+
+  /**
+   * Number of runs currently streaming
+   */
+  activeRunCount(): number {
+    return this.runs.size;
+  }
+
+  /**
+   * Spawn a query ahead of time so the first message skips process startup
+   *
+   * The SDK process boots (settings, MCP servers) and then waits for input
+   * until stream() claims it with options.warmRunId.
+   *
+   * @returns warmRunId to pass to stream()
+   */
+  prewarm(options: SessionOptions = {}, warmRunId: string = randomUUID()): string {
+    const input = new UserInput();
+    const abortController = new AbortController();
+
+    const warm = { abortController, input, toolsVersion: this.tools.version } as WarmRun;
+    // The session that claims the run is not known yet, bind its approval handler and hooks later
+    const canUseTool: CanUseTool = (toolName, input, opts) =>
+      warm.canUseTool
+        ? warm.canUseTool(toolName, input, opts)
+        : Promise.resolve({ behavior: "deny", message: "Session is not ready" });
+    const toolHooks: ToolHooks = {
+      PreToolUse: (...args) => warm.toolHooks?.PreToolUse(...args) ?? Promise.resolve({}),
+      PostToolUse: (...args) => warm.toolHooks?.PostToolUse(...args) ?? Promise.resolve({}),
+    };
+
+    warm.query = query({
+      prompt: input,
+      options: { ...this.mapOptions({ ...options, canUseTool, toolHooks }), abortController },
+    });
+    this.warmRuns.set(warmRunId, warm);
+
+    this.logger.debug({ warmRunId, model: options.model }, "Prewarmed Claude SDK query");
+    return warmRunId;
+  }
+
+  /**
+   * Stop a pre-spawned query that was never claimed
+   *
+   * @returns true if a matching run was found
+   */
+  discardWarmRun(warmRunId: string): boolean {
+    const warm = this.warmRuns.get(warmRunId);
+    if (!warm) {
+      return false;
     }
+
+    this.warmRuns.delete(warmRunId);
+    warm.input.close();
+    warm.abortController.abort();
+    this.logger.debug({ warmRunId }, "Discarded prewarmed query");
+    return true;
+  }
+
+  /**
+   * Check whether a pre-spawned query can still be claimed
+   */
+  isWarm(warmRunId: string): boolean {
+    return this.warmRuns.has(warmRunId);
   }
 
-  async *stream(prompt: string, options: SessionOptions = {}): AsyncGenerator<SDKMessage> {
+  /**
+   * Stream a single run
+   *
+   * @param prompt - Plain text, or content blocks for messages with images/documents
+   * @param options - Set warmRunId to send the prompt through a prewarmed query
+   * @param runId - Handle used to interrupt this run (generated if omitted)
+   */
+  async *stream(
+    prompt: string | ContentBlock[],
+    options: StreamOptions = {},
+    runId: string = randomUUID()
+  ): AsyncGenerator<SDKMessage> {
+    if (this.runs.has(runId)) {
+      throw new Error(`Run ${runId} is already streaming`);
+    }
+
     const sdkOptions = this.mapOptions(options);
+    let warm = options.warmRunId ? this.warmRuns.get(options.warmRunId) : undefined;
+    if (warm && warm.toolsVersion !== this.tools.version) {
+      // Its MCP server lacks the tools registered since
+      this.logger.info({ runId, warmRunId: options.warmRunId }, "Tools changed since prewarm");
+      this.discardWarmRun(options.warmRunId!);
+      warm = undefined;
+    }
 
     // Log all key parameters for troubleshooting
     this.logger.info(
       {
+        runId,
+        warmRunId: warm && options.warmRunId,
         promptLength: prompt.length,
         model: sdkOptions.model,
         cwd: sdkOptions.cwd,
@@ -57,19 +413,43 @@ export class ClaudeAdapter {
       "Starting Claude SDK stream with options"
     );
 
-    try {
-      this.currentQuery = query({
-        prompt,
-        options: sdkOptions,
-      });
+    let run: QueryRun;
+
+    if (warm) {
+      this.warmRuns.delete(options.warmRunId!);
+      warm.canUseTool = options.canUseTool;
+      warm.toolHooks = options.toolHooks;
+      run = warm;
+    } else {
+      if (options.warmRunId) {
+        this.logger.warn({ runId, warmRunId: options.warmRunId }, "Warm run gone, starting cold");
+      }
 
+      // Streamed input, so content blocks and steered messages can be sent
+      const input = new UserInput();
+      const abortController = new AbortController();
+      run = {
+        query: query({ prompt: input, options: { ...sdkOptions, abortController } }),
+        abortController,
+        input,
+      };
+    }
+    run.input.push(this.toUserMessage(prompt));
+    this.runs.set(runId, run);
+
+    try {
       let messageCount = 0;
 
-      for await (const message of this.currentQuery) {
+      for await (const message of run.query) {
         messageCount++;
 
+        if (message.type === "result") {
+          run.input.resultReceived();
+        }
+
         this.logger.info(
           {
+            runId,
             messageCount,
             messageType: message.type,
             messageSubtype: (message as any).subtype, // subtype may not exist on all message types
@@ -80,17 +460,35 @@ export class ClaudeAdapter {
         yield message;
       }
 
-      this.logger.info({ messageCount }, "Claude SDK stream completed");
+      this.logger.info({ runId, messageCount }, "Claude SDK stream completed");
     } catch (err) {
-      this.logger.error({ err, promptLength: prompt.length }, "Claude SDK stream failed");
-      throw err;
+      const error = toAgentError(err);
+      this.logger.error(
+        { err, runId, code: error.code, promptLength: prompt.length },
+        "Claude SDK stream failed"
+      );
+      throw error;
     } finally {
-      // Clear current query after completion
-      this.currentQuery = null;
+      run.input.close();
+      // Release only this run's handle, other runs keep streaming
+      this.runs.delete(runId);
     }
   }
 
-  private mapOptions(options: SessionOptions): any {
+  private toUserMessage(prompt: string | ContentBlock[]): SDKUserMessage {
+    return {
+      type: "user",
+      session_id: "",
+      message: {
+        role: "user",
+        content:
+          typeof prompt === "string" ? [{ type: "text", text: prompt }] : toSDKContent(prompt),
+      },
+      parent_tool_use_id: null,
+    };
+  }
+
+  private mapOptions(options: StreamOptions): any {
     const model = options.model || this.config.model || "claude-sonnet-4";
     // Use systemPrompt priority: session option > agent config > default
     const systemPrompt = options.systemPrompt || this.config.systemPrompt || DEFAULT_SYSTEM_PROMPT;
@@ -100,11 +498,20 @@ export class ClaudeAdapter {
       model: this.normalizeModelName(model),
       resume: options.resume,
       systemPrompt,
-      mcpServers: this.config.mcpServers,
+      mcpServers: this.mcpServers(options.mcpServers),
+      agents: toAgentDefinitions(this.subagents),
       // Load MCP configurations from Claude settings files
       // This enables compatibility with Claude CLI and Claude Desktop configurations
       settingSources: ["user", "project", "local"],
-      permissionMode: "bypassPermissions",
+      // Session option > agent config > bypass (SDK default without an approval handler)
+      permissionMode: options.permissionMode || this.config.permissionMode || "bypassPermissions",
+      canUseTool: options.canUseTool,
+      hooks: options.toolHooks && {
+        PreToolUse: [{ hooks: [options.toolHooks.PreToolUse] }],
+        PostToolUse: [{ hooks: [options.toolHooks.PostToolUse] }],
+      },
+      // Session option > agent config > off
+      maxThinkingTokens: thinkingTokens(options.thinking || this.config.thinking),
       // Explicitly pass env to ensure PATH is inherited by spawned processes
       env: process.env,
       // Use process.execPath to get the actual node binary that's running this code
@@ -119,6 +526,21 @@ export class ClaudeAdapter {
     };
   }
 
+  /**
+   * Configured MCP servers, plus a fresh in-process server when tools are registered
+   * Servers the session turned off are left out
+   */
+  private mcpServers(selection: McpServerSelection = {}): Record<string, unknown> | undefined {
+    const servers: Record<string, unknown> = Object.fromEntries(
+      Object.entries(this.config.mcpServers || {}).filter(([name]) => selection[name] !== false)
+    );
+    const server = selection[TOOL_SERVER_NAME] !== false && this.tools.createServer();
+    if (server) {
+      servers[TOOL_SERVER_NAME] = server;
+    }
+    return Object.keys(servers).length > 0 ? servers : undefined;
+  }
+
   private normalizeModelName(model: string): string {
     // Map full model names to SDK's short names
     const modelMap: Record<string, string> = {
@@ -134,3 +556,18 @@ export class ClaudeAdapter {
     return modelMap[model] || model;
   }
 }
+
+/**
+ * Claude SDK maxThinkingTokens for a thinking option
+ *
+ * @returns undefined when thinking is off
+ */
+export function thinkingTokens(thinking: ThinkingOption | undefined): number | undefined {
+  if (!thinking || thinking === "off") {
+    return undefined;
+  }
+  if (!Number.isInteger(thinking.budgetTokens) || thinking.budgetTokens < MIN_THINKING_TOKENS) {
+    throw new Error(`Thinking budget must be an integer of at least ${MIN_THINKING_TOKENS} tokens`);
+  }
+  return thinking.budgetTokens;
+}
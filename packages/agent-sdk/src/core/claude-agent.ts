@@ -2,15 +2,31 @@ import { Observable } from "rxjs";
 import type {
   Agent,
   AgentConfig,
-  SessionOptions,
   SessionCreateOptions,
   SessionEvent,
   AgentStatus,
   Session,
+  MessageContent,
+  ForkSessionOptions,
+  RewindSessionOptions,
+  RewindResult,
+  SearchSessionsOptions,
+  SessionSearchResult,
+  Budget,
+  BudgetUsage,
+  AgentHooks,
+  AgentTool,
+  McpServerInfo,
+  SubagentDefinition,
+  AskOptions,
+  ChatOptions,
+  AskResult,
 } from "~/types";
 import { SessionManager } from "./session-manager";
+import { askStructured } from "./structured-output";
 import { createSDKLogger } from "./utils/logger";
 import type { Logger } from "@deepracticex/logger";
+import type { z } from "zod";
 
 /**
  * ClaudeAgent - Agent implementation for Claude SDK
@@ -38,6 +54,12 @@ export class ClaudeAgent implements Agent {
       // Load historical sessions
       await this.sessionManager.loadHistoricalSessions();
 
+      // Pick up sessions the Claude CLI creates in the same workspace
+      await this.sessionManager.watchSessions();
+
+      // Prewarm SDK queries for upcoming sessions (no-op when warmupPoolSize is 0)
+      this.sessionManager.startWarmupPool();
+
       this.initialized = true;
       this.logger.info("ClaudeAgent initialized successfully");
     } catch (err) {
@@ -69,7 +91,36 @@ export class ClaudeAgent implements Agent {
     return this.sessionManager.getSessions(limit, offset);
   }
 
-  async chat(message: string, options?: SessionOptions): Promise<Session> {
+  async forkSession(sessionId: string, options: ForkSessionOptions): Promise<Session> {
+    this.ensureInitialized();
+    this.logger.debug({ sessionId, atMessageId: options.atMessageId }, "Forking session");
+    const session = await this.sessionManager.forkSession(sessionId, options);
+    this.logger.info({ sessionId, forkId: session.id }, "Session forked");
+    return session;
+  }
+
+  async rewindSession(sessionId: string, options: RewindSessionOptions): Promise<RewindResult> {
+    this.ensureInitialized();
+    this.logger.debug({ sessionId, ...options }, "Rewinding session");
+    return this.sessionManager.rewindSession(sessionId, options);
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    this.ensureInitialized();
+    this.logger.debug({ sessionId }, "Deleting session");
+    return this.sessionManager.deleteSession(sessionId);
+  }
+
+  async searchSessions(
+    query: string,
+    options?: SearchSessionsOptions
+  ): Promise<SessionSearchResult[]> {
+    this.ensureInitialized();
+    this.logger.debug({ query, ...options }, "Searching sessions");
+    return this.sessionManager.searchSessions(query, options);
+  }
+
+  async chat(message: MessageContent, options?: ChatOptions): Promise<Session> {
     this.logger.debug({ messageLength: message.length }, "Starting quick chat");
     try {
       const session = await this.createSession({ initialMessage: message, ...options });
@@ -80,14 +131,63 @@ export class ClaudeAgent implements Agent {
     }
   }
 
+  /**
+   * Ask for a JSON answer matching the schema in a new session
+   */
+  async ask<T>(
+    prompt: string,
+    schema: z.ZodType<T>,
+    options: AskOptions & ChatOptions = {}
+  ): Promise<AskResult<T>> {
+    const { maxRetries, ...sessionOptions } = options;
+    let session: Session | null = null;
+    return askStructured(prompt, schema, { maxRetries }, null, async (content) => {
+      if (session) {
+        await session.send(content);
+      } else {
+        session = await this.createSession({ ...sessionOptions, initialMessage: content });
+      }
+      return session;
+    });
+  }
+
   sessions$(): Observable<SessionEvent> {
     return this.sessionManager.sessionEvents$();
   }
 
+  getBudget(): Budget {
+    return this.sessionManager.getBudget();
+  }
+
+  setBudget(budget: Budget): void {
+    this.sessionManager.setBudget(budget);
+  }
+
+  getBudgetUsage(): BudgetUsage {
+    return this.sessionManager.getBudgetUsage();
+  }
+
+  use(hooks: AgentHooks): () => void {
+    return this.sessionManager.useHooks(hooks);
+  }
+
+  registerTool<Shape extends z.ZodRawShape>(tool: AgentTool<Shape>): () => void {
+    return this.sessionManager.registerTool(tool);
+  }
+
+  getMcpServers(): McpServerInfo[] {
+    return this.sessionManager.getMcpServers();
+  }
+
+  getSubagents(): SubagentDefinition[] {
+    return this.sessionManager.getSubagents();
+  }
+
   getStatus(): AgentStatus {
     return {
       ready: this.initialized,
-      warmupPoolSize: 0,
+      warmupPoolSize: this.sessionManager.getWarmupStatus().ready,
+      warmupPool: this.sessionManager.getWarmupStatus(),
       activeSessions: this.sessionManager.activeCount(),
       metrics: this.sessionManager.getMetrics(),
     };
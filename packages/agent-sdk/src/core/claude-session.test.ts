@@ -0,0 +1,914 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { Logger } from "@deepracticex/logger";
+import type {
+  BudgetExceeded,
+  ContextWarning,
+  QueueUpdate,
+  RetryScheduled,
+  RunStalled,
+  SessionOptions,
+} from "~/types";
+import { ClaudeAdapter } from "./claude-adapter";
+import { ClaudeSession } from "./claude-session";
+import { BudgetMeter } from "./budget";
+
+// Fake Claude SDK query: each call is an independent run that stays open until
+// it is released (normal completion) or interrupted. Runs read their streamed
+// input like the SDK does, every input message is answered with a reply and a result.
+interface FakeRun {
+  prompt: string; // Text of the first input message
+  input: any[]; // User messages read from the input
+  inputEnded: boolean;
+  options: any;
+  interrupted: boolean;
+  interrupt: ReturnType<typeof vi.fn>;
+  release: () => void;
+  failure?: { message: string; asResult: boolean };
+  fail: (message: string, asResult?: boolean) => void; // Throw, or end with an API error result
+}
+
+const runs: FakeRun[] = [];
+
+function inputText(message: any): string {
+  return message.message.content.find((block: any) => block.type === "text")?.text ?? "blocks";
+}
+
+vi.mock("@anthropic-ai/claude-agent-sdk", () => ({
+  query: vi.fn(({ prompt, options }: { prompt: AsyncIterable<any>; options: any }) => {
+    let release!: () => void;
+    const done = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+
+    const run: FakeRun = {
+      prompt: "",
+      input: [],
+      inputEnded: false,
+      options,
+      interrupted: false,
+      interrupt: vi.fn(async () => {
+        run.interrupted = true;
+        release();
+      }),
+      release,
+      fail: (message, asResult = false) => {
+        run.failure = { message, asResult };
+        release();
+      },
+    };
+    runs.push(run);
+
+    const firstInput = (async () => {
+      const input = prompt[Symbol.asyncIterator]();
+      const first = await input.next();
+      if (first.done) {
+        run.inputEnded = true; // Prewarmed query discarded before its first message
+        return;
+      }
+      run.input.push(first.value);
+      run.prompt = inputText(first.value);
+      void (async () => {
+        for (let next = await input.next(); !next.done; next = await input.next()) {
+          run.input.push(next.value);
+        }
+        run.inputEnded = true;
+      })();
+    })();
+
+    function reply(text: string, sessionId: string) {
+      return {
+        type: "assistant",
+        uuid: `reply-${text}`,
+        session_id: sessionId,
+        message: {
+          id: `msg-${text}`,
+          usage: { input_tokens: 10, output_tokens: 5 },
+          content: [{ type: "text", text: `reply to ${text}` }],
+        },
+      };
+    }
+
+    async function* generate() {
+      await firstInput;
+      const sessionId = `sdk-${run.prompt}`;
+      yield { type: "system", subtype: "init", session_id: sessionId };
+      await done;
+      if (run.failure && !run.failure.asResult) {
+        throw new Error(run.failure.message);
+      }
+      if (run.failure) {
+        yield {
+          type: "result",
+          subtype: "success",
+          is_error: true,
+          result: run.failure.message,
+          session_id: sessionId,
+          usage: { input_tokens: 1, output_tokens: 0 },
+        };
+        return;
+      }
+      if (run.prompt === "/compact") {
+        yield {
+          type: "system",
+          subtype: "compact_boundary",
+          uuid: "boundary",
+          session_id: sessionId,
+          compact_metadata: { trigger: "manual", pre_tokens: 15 },
+        };
+      } else if (!run.interrupted) {
+        yield reply(run.prompt, sessionId);
+      }
+      yield {
+        type: "result",
+        subtype: run.interrupted ? "error_during_execution" : "success",
+        session_id: sessionId,
+        usage: { input_tokens: 1, output_tokens: 1 },
+      };
+      // Messages steered into the run, each answered in turn
+      for (const message of run.input.slice(1)) {
+        yield reply(inputText(message), sessionId);
+        yield {
+          type: "result",
+          subtype: "success",
+          session_id: sessionId,
+          usage: { input_tokens: 1, output_tokens: 1 },
+        };
+      }
+    }
+
+    return Object.assign(generate(), { interrupt: run.interrupt });
+  }),
+}));
+
+const logger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+} as unknown as Logger;
+
+function createSession(adapter: ClaudeAdapter, id: string, options: SessionOptions = {}) {
+  return new ClaudeSession(
+    id,
+    { projectPath: "/tmp/workspace", model: "claude-sonnet-4", startTime: new Date() },
+    adapter,
+    options,
+    false,
+    logger
+  );
+}
+
+async function waitForRuns(count: number): Promise<void> {
+  await vi.waitFor(() => expect(runs).toHaveLength(count));
+}
+
+describe("ClaudeSession", () => {
+  beforeEach(() => {
+    runs.length = 0;
+  });
+
+  describe("concurrent sessions sharing one adapter", () => {
+    it("should abort only the session it was called on", async () => {
+      const adapter = new ClaudeAdapter({ workspace: "/tmp/workspace" }, logger);
+      const sessionA = createSession(adapter, "session-a");
+      const sessionB = createSession(adapter, "session-b");
+
+      const sendA = sessionA.send("a");
+      const sendB = sessionB.send("b");
+      await waitForRuns(2);
+
+      const [runA, runB] = runs;
+      expect(adapter.activeRunCount()).toBe(2);
+
+      // B started last; aborting A must still target A's query
+      await sessionA.abort();
+      await sendA;
+
+      expect(runA.interrupt).toHaveBeenCalledTimes(1);
+      expect(runB.interrupt).not.toHaveBeenCalled();
+      expect(sessionA.state).toBe("idle");
+      expect(sessionB.state).toBe("active");
+      expect(adapter.activeRunCount()).toBe(1);
+
+      runB.release();
+      await sendB;
+
+      expect(sessionB.state).toBe("idle");
+      expect(sessionB.getMessages().map((m) => m.content)).toEqual(["b", "reply to b"]);
+      expect(sessionA.getMessages().map((m) => m.content)).toEqual(["a"]);
+      expect(adapter.activeRunCount()).toBe(0);
+    });
+
+    it("should keep the other session abortable after one finishes", async () => {
+      const adapter = new ClaudeAdapter({ workspace: "/tmp/workspace" }, logger);
+      const sessionA = createSession(adapter, "session-a");
+      const sessionB = createSession(adapter, "session-b");
+
+      const sendA = sessionA.send("a");
+      const sendB = sessionB.send("b");
+      await waitForRuns(2);
+
+      const [runA, runB] = runs;
+      runA.release();
+      await sendA;
+
+      await sessionB.abort();
+      await sendB;
+
+      expect(runA.interrupt).not.toHaveBeenCalled();
+      expect(runB.interrupt).toHaveBeenCalledTimes(1);
+      expect(sessionA.getMessages().map((m) => m.content)).toEqual(["a", "reply to a"]);
+      expect(sessionB.state).toBe("idle");
+    });
+  });
+
+  describe("cost", () => {
+    it("should price every run from its result usage with the agent pricing", async () => {
+      const adapter = new ClaudeAdapter(
+        {
+          workspace: "/tmp/workspace",
+          pricing: { "claude-sonnet-4": { input: 2, output: 10, cacheRead: 0, cacheCreation: 0 } },
+        },
+        logger
+      );
+      const session = createSession(adapter, "session-a");
+
+      for (const [index, prompt] of ["a", "b"].entries()) {
+        const sending = session.send(prompt);
+        await waitForRuns(index + 1);
+        runs[index].release();
+        await sending;
+      }
+
+      const cost = session.getCost();
+      expect(cost.turns).toHaveLength(2);
+      expect(cost.models).toMatchObject([
+        {
+          model: "claude-sonnet-4",
+          tokens: { input: 2, output: 2, cacheRead: 0, cacheCreation: 0 },
+          priced: true,
+        },
+      ]);
+      expect(cost.turns[0].cost.total).toBeCloseTo(0.000012);
+      expect(cost.cost.total).toBeCloseTo(0.000024);
+    });
+  });
+
+  describe("budget", () => {
+    async function sendAndRelease(session: ClaudeSession, prompt: string, run: number) {
+      const sending = session.send(prompt);
+      await waitForRuns(run + 1);
+      runs[run].release();
+      await sending;
+    }
+
+    it("should interrupt the run that goes past the session budget until it is raised", async () => {
+      const adapter = new ClaudeAdapter({ workspace: "/tmp/workspace" }, logger);
+      const session = createSession(adapter, "session-a", { budget: { maxTokens: 10 } });
+      const exceeded: BudgetExceeded[] = [];
+      session.budgetEvents$().subscribe((event) => exceeded.push(event));
+
+      await sendAndRelease(session, "a", 0);
+
+      expect(runs[0].interrupt).toHaveBeenCalledTimes(1);
+      expect(session.state).toBe("idle");
+      expect(exceeded).toEqual([
+        {
+          scope: "session",
+          limit: "maxTokens",
+          budget: { maxTokens: 10 },
+          usage: { tokens: 15, costUsd: expect.any(Number), turns: 1 },
+        },
+      ]);
+
+      await expect(session.send("b")).rejects.toThrow("Session budget reached (maxTokens)");
+      expect(runs).toHaveLength(1);
+
+      session.setBudget({ maxTokens: 100 });
+      await sendAndRelease(session, "b", 1);
+      expect(runs[1].interrupt).not.toHaveBeenCalled();
+      expect(session.getBudgetUsage().turns).toBe(2);
+    });
+
+    it("should let a run end on exactly its last turn and refuse the next one", async () => {
+      const adapter = new ClaudeAdapter({ workspace: "/tmp/workspace" }, logger);
+      const session = createSession(adapter, "session-a", { budget: { maxTurns: 1 } });
+      const exceeded: BudgetExceeded[] = [];
+      session.budgetEvents$().subscribe((event) => exceeded.push(event));
+
+      await sendAndRelease(session, "a", 0);
+
+      expect(runs[0].interrupt).not.toHaveBeenCalled();
+      expect(exceeded).toEqual([]);
+      expect(session.getMessages().map((m) => m.content)).toEqual(["a", "reply to a"]);
+
+      await expect(session.send("b")).rejects.toThrow("Session budget reached (maxTurns)");
+      expect(exceeded).toMatchObject([{ scope: "session", limit: "maxTurns" }]);
+      expect(runs).toHaveLength(1);
+    });
+
+    it("should share the agent budget between sessions", async () => {
+      const adapter = new ClaudeAdapter({ workspace: "/tmp/workspace" }, logger);
+      const agentBudget = new BudgetMeter({ maxTokens: 20 });
+      const sessionA = createSession(adapter, "session-a");
+      const sessionB = createSession(adapter, "session-b");
+      sessionA._useAgentBudget(agentBudget);
+      sessionB._useAgentBudget(agentBudget);
+
+      await sendAndRelease(sessionA, "a", 0);
+      expect(runs[0].interrupt).not.toHaveBeenCalled();
+
+      await sendAndRelease(sessionB, "b", 1);
+      expect(runs[1].interrupt).toHaveBeenCalledTimes(1);
+      await expect(sessionA.send("c")).rejects.toThrow("Agent budget reached (maxTokens)");
+    });
+
+    it("should reject budgets that are not positive numbers", () => {
+      const adapter = new ClaudeAdapter({ workspace: "/tmp/workspace" }, logger);
+      expect(() => createSession(adapter, "session-a", { budget: { maxCostUsd: 0 } })).toThrow(
+        "Budget maxCostUsd must be a positive number"
+      );
+    });
+  });
+
+  describe("context", () => {
+    async function sendAndRelease(session: ClaudeSession, prompt: string, run: number) {
+      const sending = session.send(prompt);
+      await waitForRuns(run + 1);
+      runs[run].release();
+      await sending;
+    }
+
+    it("should measure the context from the last response and warn once near the window", async () => {
+      const adapter = new ClaudeAdapter(
+        { workspace: "/tmp/workspace", context: { window: 18, autoCompactThreshold: 0 } },
+        logger
+      );
+      const session = createSession(adapter, "session-a");
+      const warnings: ContextWarning[] = [];
+      session.contextEvents$().subscribe((warning) => warnings.push(warning));
+
+      await sendAndRelease(session, "a", 0);
+      await sendAndRelease(session, "b", 1);
+
+      // Not the sum of both runs, the second request already holds the first
+      const usage = {
+        used: 15,
+        total: 18,
+        breakdown: { input: 10, output: 5, cacheRead: 0, cacheCreation: 0 },
+      };
+      expect(session.getTokenUsage()).toEqual(usage);
+      expect(warnings).toEqual([{ usage, threshold: 0.8 }]);
+    });
+
+    it("should compact after a run that reaches the auto compaction threshold", async () => {
+      const adapter = new ClaudeAdapter(
+        { workspace: "/tmp/workspace", context: { window: 20, autoCompactThreshold: 0.5 } },
+        logger
+      );
+      const session = createSession(adapter, "session-a");
+
+      const sending = session.send("a");
+      await waitForRuns(1);
+      runs[0].release();
+      await waitForRuns(2);
+      runs[1].release();
+      await sending;
+
+      expect(runs[1].prompt).toBe("/compact");
+      expect(runs[1].options.resume).toBe("sdk-a");
+      expect(session.getMessages()).toHaveLength(3);
+      expect(session.getMessages()[2]).toMatchObject({
+        type: "system",
+        subtype: "compact_boundary",
+        content: "Conversation compacted",
+        compaction: { trigger: "manual", preTokens: 15 },
+      });
+      expect(session.getTokenUsage().used).toBe(0);
+      expect(session.state).toBe("idle");
+    });
+
+    it("should not compact a session without a conversation", async () => {
+      const adapter = new ClaudeAdapter({ workspace: "/tmp/workspace" }, logger);
+      const session = createSession(adapter, "session-a");
+
+      await expect(session.compact()).rejects.toThrow(
+        "Cannot compact: session has no conversation yet"
+      );
+      expect(
+        () =>
+          new ClaudeAdapter(
+            { workspace: "/tmp/workspace", context: { warningThreshold: 2 } },
+            logger
+          )
+      ).toThrow("Context warningThreshold must be between 0 and 1");
+    });
+  });
+
+  describe("errors", () => {
+    it("should retry a transient failure with the same prompt", async () => {
+      const adapter = new ClaudeAdapter(
+        { workspace: "/tmp/workspace", retry: { initialDelayMs: 1 } },
+        logger
+      );
+      const session = createSession(adapter, "session-a");
+      const retries: RetryScheduled[] = [];
+      session.retryEvents$().subscribe((retry) => retries.push(retry));
+
+      const sending = session.send("a");
+      await waitForRuns(1);
+      runs[0].fail("Claude Code process exited with code 1");
+      await waitForRuns(2);
+      runs[1].release();
+      await sending;
+
+      expect(runs[1].prompt).toBe("a");
+      expect(retries).toEqual([
+        {
+          code: "process_crashed",
+          message: "Claude Code process exited with code 1",
+          attempt: 1,
+          maxRetries: 3,
+          delayMs: 1,
+        },
+      ]);
+      expect(session.getMessages().map((m) => m.content)).toEqual(["a", "reply to a"]);
+      expect(session.state).toBe("idle");
+    });
+
+    it("should reject with the error code when the failure is not transient", async () => {
+      const adapter = new ClaudeAdapter({ workspace: "/tmp/workspace" }, logger);
+      const session = createSession(adapter, "session-a");
+
+      const sending = session.send("a");
+      await waitForRuns(1);
+      runs[0].fail("Invalid API key · Please run /login", true);
+
+      await expect(sending).rejects.toMatchObject({
+        name: "AgentError",
+        code: "auth_failed",
+        retryable: false,
+      });
+      expect(runs).toHaveLength(1);
+      expect(session.state).toBe("idle");
+    });
+
+    it("should stop waiting to retry when aborted", async () => {
+      const adapter = new ClaudeAdapter(
+        { workspace: "/tmp/workspace", retry: { initialDelayMs: 60_000, maxDelayMs: 60_000 } },
+        logger
+      );
+      const session = createSession(adapter, "session-a");
+      const retries: RetryScheduled[] = [];
+      session.retryEvents$().subscribe((retry) => retries.push(retry));
+
+      const sending = session.send("a");
+      await waitForRuns(1);
+      runs[0].fail("API Error: 529 Overloaded", true);
+      await vi.waitFor(() => expect(retries).toHaveLength(1));
+
+      await session.abort();
+      await sending;
+
+      expect(retries[0]).toMatchObject({ code: "overloaded", delayMs: 60_000 });
+      expect(runs).toHaveLength(1);
+      expect(session.state).toBe("idle");
+    });
+  });
+
+  describe("stalled runs", () => {
+    it("should stop a run that stopped sending messages with a timeout error", async () => {
+      const adapter = new ClaudeAdapter(
+        { workspace: "/tmp/workspace", timeouts: { idleMs: 20 } },
+        logger
+      );
+      const session = createSession(adapter, "session-a");
+      const stalls: RunStalled[] = [];
+      session.stallEvents$().subscribe((stall) => stalls.push(stall));
+
+      await expect(session.send("a")).rejects.toMatchObject({
+        name: "AgentError",
+        code: "timeout",
+        retryable: false,
+      });
+
+      expect(stalls).toEqual([{ reason: "idle", timeoutMs: 20 }]);
+      expect(runs).toHaveLength(1);
+      expect(runs[0].options.abortController.signal.aborted).toBe(true);
+      expect(session.state).toBe("idle");
+    });
+
+    it("should keep a run that streams within its timeouts", async () => {
+      const adapter = new ClaudeAdapter(
+        { workspace: "/tmp/workspace", timeouts: { idleMs: 60_000, runMs: 60_000 } },
+        logger
+      );
+      const session = createSession(adapter, "session-a");
+      const stalls: RunStalled[] = [];
+      session.stallEvents$().subscribe((stall) => stalls.push(stall));
+
+      const sending = session.send("a");
+      await waitForRuns(1);
+      runs[0].release();
+      await sending;
+
+      expect(stalls).toEqual([]);
+      expect(runs[0].options.abortController.signal.aborted).toBe(false);
+    });
+  });
+
+  describe("input queue", () => {
+    it("should deliver messages sent during a run in order, one run each", async () => {
+      const session = createSession(
+        new ClaudeAdapter({ workspace: "/tmp/workspace" }, logger),
+        "session-a"
+      );
+      const updates: QueueUpdate[] = [];
+      session.queueEvents$().subscribe((update) => updates.push(update));
+
+      const sendA = session.send("a");
+      await waitForRuns(1);
+      const sendB = session.send("b");
+      const sendC = session.send("c");
+      expect(session.getQueue().map((queued) => queued.content)).toEqual(["b", "c"]);
+
+      runs[0].release();
+      await sendA;
+      // The next run starts before the previous send() resolves
+      expect(session.state).toBe("active");
+      await waitForRuns(2);
+      runs[1].release();
+      await sendB;
+      await waitForRuns(3);
+      runs[2].release();
+      await sendC;
+
+      expect(runs.map((run) => run.prompt)).toEqual(["a", "b", "c"]);
+      expect(session.getMessages().map((m) => m.content)).toEqual([
+        "a",
+        "reply to a",
+        "b",
+        "reply to b",
+        "c",
+        "reply to c",
+      ]);
+      expect(updates.map((update) => update.sent?.content)).toEqual([
+        undefined,
+        undefined,
+        "b",
+        "c",
+      ]);
+      expect(session.getQueue()).toEqual([]);
+      expect(session.state).toBe("idle");
+    });
+
+    it("should send edited queued messages and skip cancelled ones", async () => {
+      const session = createSession(
+        new ClaudeAdapter({ workspace: "/tmp/workspace" }, logger),
+        "session-a"
+      );
+
+      const sendA = session.send("a");
+      await waitForRuns(1);
+      const sendB = session.send("b");
+      const sendC = session.send("c");
+      const [queuedB, queuedC] = session.getQueue();
+
+      expect(session.updateQueued(queuedB.id, "b edited")).toBe(true);
+      expect(session.cancelQueued(queuedC.id)).toBe(true);
+      expect(session.cancelQueued(queuedC.id)).toBe(false);
+      await sendC;
+
+      runs[0].release();
+      await sendA;
+      await waitForRuns(2);
+      runs[1].release();
+      await sendB;
+
+      expect(runs.map((run) => run.prompt)).toEqual(["a", "b edited"]);
+      expect(session.state).toBe("idle");
+    });
+
+    it("should steer a message into the running turn", async () => {
+      const session = createSession(
+        new ClaudeAdapter({ workspace: "/tmp/workspace" }, logger),
+        "session-a"
+      );
+
+      const sendA = session.send("a");
+      await waitForRuns(1);
+      await vi.waitFor(() => expect(runs[0].input).toHaveLength(1));
+      await session.send("also this", { mode: "steer" });
+      await vi.waitFor(() => expect(runs[0].input).toHaveLength(2));
+
+      runs[0].release();
+      await sendA;
+
+      expect(runs).toHaveLength(1);
+      expect(session.getQueue()).toEqual([]);
+      expect(session.getMessages().map((m) => m.content)).toEqual([
+        "a",
+        "also this",
+        "reply to a",
+        "reply to also this",
+      ]);
+      await vi.waitFor(() => expect(runs[0].inputEnded).toBe(true));
+    });
+
+    it("should cancel queued messages when the run is aborted", async () => {
+      const session = createSession(
+        new ClaudeAdapter({ workspace: "/tmp/workspace" }, logger),
+        "session-a"
+      );
+
+      const sendA = session.send("a");
+      await waitForRuns(1);
+      const sendB = session.send("b");
+
+      await session.abort();
+      await Promise.all([sendA, sendB]);
+
+      expect(runs).toHaveLength(1);
+      expect(session.getQueue()).toEqual([]);
+      expect(session.state).toBe("idle");
+    });
+  });
+
+  describe("hooks", () => {
+    const hookInput = { session_id: "", transcript_path: "", cwd: "" };
+
+    it("should rewrite the prompt, veto tool calls and keep the turn metadata", async () => {
+      const afterTurn = vi.fn();
+      const onToolResult = vi.fn(() => ({ metadata: { toolsRun: 1 } }));
+      const adapter = new ClaudeAdapter(
+        {
+          workspace: "/tmp/workspace",
+          hooks: {
+            beforeSend: ({ content }) => ({ content: `${content} please`, metadata: { tag: "x" } }),
+            onToolUse: ({ toolName }) => (toolName === "Bash" ? { deny: "No shell" } : undefined),
+            onToolResult,
+            afterTurn,
+          },
+        },
+        logger
+      );
+      const session = createSession(adapter, "session-a");
+
+      const send = session.send("a");
+      await waitForRuns(1);
+      const { PreToolUse, PostToolUse } = runs[0].options.hooks;
+      const signal = new AbortController().signal;
+
+      expect(
+        await PreToolUse[0].hooks[0](
+          { ...hookInput, hook_event_name: "PreToolUse", tool_name: "Bash", tool_input: {} },
+          "tool-1",
+          { signal }
+        )
+      ).toEqual({
+        hookSpecificOutput: {
+          hookEventName: "PreToolUse",
+          permissionDecision: "deny",
+          permissionDecisionReason: "No shell",
+        },
+      });
+      await PostToolUse[0].hooks[0](
+        {
+          ...hookInput,
+          hook_event_name: "PostToolUse",
+          tool_name: "Read",
+          tool_input: { file_path: "a.ts" },
+          tool_response: "contents",
+        },
+        "tool-2",
+        { signal }
+      );
+      runs[0].release();
+      await send;
+
+      expect(runs[0].prompt).toBe("a please");
+      expect(onToolResult).toHaveBeenCalledWith(
+        expect.objectContaining({ toolName: "Read", toolUseId: "tool-2", response: "contents" })
+      );
+      expect(afterTurn).toHaveBeenCalledWith(
+        expect.objectContaining({ content: "a please", metadata: { tag: "x", toolsRun: 1 } })
+      );
+      const [userMessage, reply] = session.getMessages();
+      expect(userMessage).toMatchObject({
+        content: "a please",
+        metadata: { tag: "x", toolsRun: 1 },
+      });
+      expect(afterTurn.mock.calls[0][0].messages).toEqual([userMessage, reply]);
+    });
+
+    it("should call onError with the failure of the turn", async () => {
+      const onError = vi.fn();
+      const adapter = new ClaudeAdapter(
+        { workspace: "/tmp/workspace", retry: { maxRetries: 0 } },
+        logger
+      );
+      adapter.getHooks().use({ onError });
+      const session = createSession(adapter, "session-a");
+
+      const send = session.send("a");
+      await waitForRuns(1);
+      runs[0].fail("Invalid API key");
+
+      await expect(send).rejects.toThrow("Invalid API key");
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ content: "a", code: "auth_failed" })
+      );
+    });
+  });
+
+  describe("multimodal content", () => {
+    it("should stream content blocks as one user message kept open until the result", async () => {
+      const session = createSession(
+        new ClaudeAdapter({ workspace: "/tmp/workspace" }, logger),
+        "session-media"
+      );
+
+      const sending = session.send([
+        { type: "text", text: "What is in this picture?" },
+        { type: "image", mediaType: "image/png", data: "iVBORw0KGgo=", name: "shot.png" },
+      ]);
+      await waitForRuns(1);
+
+      await vi.waitFor(() => expect(runs[0].input).toHaveLength(1));
+      expect(runs[0].input[0].message.content).toEqual([
+        { type: "text", text: "What is in this picture?" },
+        {
+          type: "image",
+          source: { type: "base64", media_type: "image/png", data: "iVBORw0KGgo=" },
+        },
+      ]);
+
+      // Input must not end before the run does, or permission responses get cut off
+      expect(runs[0].inputEnded).toBe(false);
+      runs[0].release();
+      await sending;
+      await vi.waitFor(() => expect(runs[0].inputEnded).toBe(true));
+
+      expect(session.getMessages()[0]).toMatchObject({
+        type: "user",
+        content: "What is in this picture?",
+        attachments: [
+          { type: "image", mediaType: "image/png", data: "iVBORw0KGgo=", name: "shot.png" },
+        ],
+      });
+    });
+
+    it("should reject unsupported attachment types before streaming", async () => {
+      const session = createSession(
+        new ClaudeAdapter({ workspace: "/tmp/workspace" }, logger),
+        "session-media"
+      );
+
+      await expect(
+        session.send([{ type: "image", mediaType: "image/bmp" as any, data: "Qk0=" }])
+      ).rejects.toThrow("Unsupported image type: image/bmp");
+      expect(runs).toHaveLength(0);
+      expect(session.getMessages()).toHaveLength(0);
+    });
+  });
+});
+
+describe("ClaudeAdapter", () => {
+  beforeEach(() => {
+    runs.length = 0;
+  });
+
+  it("should return false when interrupting an unknown run", async () => {
+    const adapter = new ClaudeAdapter({ workspace: "/tmp/workspace" }, logger);
+
+    await expect(adapter.interrupt("missing")).resolves.toBe(false);
+  });
+
+  it("should release the run handle when the stream ends", async () => {
+    const adapter = new ClaudeAdapter({ workspace: "/tmp/workspace" }, logger);
+    const stream = adapter.stream("x", {}, "run-1");
+
+    await stream.next();
+    expect(adapter.isRunning("run-1")).toBe(true);
+
+    runs[0].release();
+    for await (const _message of stream) {
+      // drain
+    }
+
+    expect(adapter.isRunning("run-1")).toBe(false);
+  });
+
+  it("should send the first message through a prewarmed query", async () => {
+    const adapter = new ClaudeAdapter({ workspace: "/tmp/workspace" }, logger);
+    const warmRunId = adapter.prewarm();
+    expect(runs).toHaveLength(1);
+    expect(adapter.isWarm(warmRunId)).toBe(true);
+
+    const stream = adapter.stream("hello", { warmRunId }, "run-1");
+    await stream.next();
+
+    // No new process was spawned, the prompt went to the waiting one
+    expect(runs).toHaveLength(1);
+    expect(adapter.isWarm(warmRunId)).toBe(false);
+    expect(runs[0].input[0]).toMatchObject({
+      type: "user",
+      message: { content: [{ type: "text", text: "hello" }] },
+    });
+
+    runs[0].release();
+    for await (const _message of stream) {
+      // drain
+    }
+    expect(adapter.isRunning("run-1")).toBe(false);
+  });
+
+  it("should abort prewarmed queries that are discarded", () => {
+    const adapter = new ClaudeAdapter({ workspace: "/tmp/workspace" }, logger);
+    const warmRunId = adapter.prewarm();
+
+    expect(adapter.discardWarmRun(warmRunId)).toBe(true);
+    expect(adapter.discardWarmRun(warmRunId)).toBe(false);
+    expect(adapter.isWarm(warmRunId)).toBe(false);
+  });
+
+  it("should pass the thinking budget to the SDK, session option first", async () => {
+    const adapter = new ClaudeAdapter(
+      { workspace: "/tmp/workspace", thinking: { budgetTokens: 2048 } },
+      logger
+    );
+    const streams = [
+      adapter.stream("x", {}, "run-1"),
+      adapter.stream("y", { thinking: "off" }, "run-2"),
+      adapter.stream("z", { thinking: { budgetTokens: 4096 } }, "run-3"),
+    ];
+    await Promise.all(streams.map((stream) => stream.next()));
+
+    expect(runs.map((run) => run.options.maxThinkingTokens)).toEqual([2048, undefined, 4096]);
+
+    runs.forEach((run) => run.release());
+    for (const stream of streams) {
+      for await (const _message of stream) {
+        // drain
+      }
+    }
+  });
+
+  it("should pass the MCP servers the session did not turn off", async () => {
+    const adapter = new ClaudeAdapter(
+      {
+        workspace: "/tmp/workspace",
+        mcpServers: {
+          promptx: { command: "npx", args: ["-y", "@promptx/mcp-server"] },
+          docs: { type: "http", url: "https://mcp.example.com/mcp" },
+        },
+      },
+      logger
+    );
+    expect(adapter.getMcpServers()).toEqual([
+      { name: "promptx", type: "stdio" },
+      { name: "docs", type: "http" },
+    ]);
+    const streams = [
+      adapter.stream("x", {}, "run-1"),
+      adapter.stream("y", { mcpServers: { promptx: false, docs: true } }, "run-2"),
+      adapter.stream("z", { mcpServers: { promptx: false, docs: false } }, "run-3"),
+    ];
+    await Promise.all(streams.map((stream) => stream.next()));
+
+    expect(runs.map((run) => Object.keys(run.options.mcpServers || {}))).toEqual([
+      ["promptx", "docs"],
+      ["docs"],
+      [],
+    ]);
+
+    runs.forEach((run) => run.release());
+    for (const stream of streams) {
+      for await (const _message of stream) {
+        // drain
+      }
+    }
+  });
+
+  it("should reject thinking budgets the API does not accept", () => {
+    expect(
+      () =>
+        new ClaudeAdapter({ workspace: "/tmp/workspace", thinking: { budgetTokens: 100 } }, logger)
+    ).toThrow("Thinking budget must be an integer of at least 1024 tokens");
+  });
+
+  it("should reject a second stream with the same run id", async () => {
+    const adapter = new ClaudeAdapter({ workspace: "/tmp/workspace" }, logger);
+    const first = adapter.stream("x", {}, "run-1");
+    await first.next();
+
+    await expect(adapter.stream("y", {}, "run-1").next()).rejects.toThrow(
+      "Run run-1 is already streaming"
+    );
+
+    runs[0].release();
+    for await (const _message of first) {
+      // drain
+    }
+  });
+});
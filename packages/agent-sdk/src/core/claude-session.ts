@@ -6,47 +6,70 @@ import type {
   SessionState,
   SessionMetadata,
   TokenUsage,
+  TurnUsage,
+  SessionCost,
   AnyMessage,
+  AskOptions,
+  AskResult,
   UserMessage,
   SessionOptions,
+  ThinkingOption,
+  McpServerSelection,
+  MessageContent,
+  PermissionMode,
+  PermissionRequest,
+  PermissionDecision,
+  PermissionRule,
+  PermissionEvent,
+  StoredSession,
+  StoredSessionInfo,
+  Budget,
+  BudgetExceeded,
+  BudgetUsage,
+  ContentBlock,
+  ContextWarning,
+  RetryScheduled,
+  RunStalled,
+  SendOptions,
+  QueuedMessage,
+  QueueUpdate,
+  ToolUseContext,
 } from "~/types";
-import type { ClaudeAdapter } from "./claude-adapter";
-import type { SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+import { thinkingTokens, type ClaudeAdapter, type StreamOptions } from "./claude-adapter";
+import { PermissionManager } from "./permission-manager";
+import { normalizeContent, splitContent } from "./message-content";
+import { applySDKMessage } from "./message-transformer";
+import { summarize } from "./session-summary";
+import { sessionCost, turnUsageFromResult } from "./session-cost";
+import { BudgetMeter, responseUsage } from "./budget";
+import { AgentError, retryDelay, toAgentError } from "./agent-error";
+import { StallWatchdog } from "./stall-watchdog";
+import { askStructured } from "./structured-output";
+import {
+  contextUsage,
+  emptyContextUsage,
+  isContextResponse,
+  modelContextWindow,
+  reachedThreshold,
+} from "./context-window";
+import type { HookInput, HookJSONOutput, SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+import type { z } from "zod";
 
 /**
- * Check if an error is recoverable (session can continue after this error)
- *
- * Strategy Change: Default to ALL errors being recoverable
- * - This allows users to retry after fixing issues (e.g., recharging credits)
- * - Fatal errors will be added to the blacklist based on real-world data
- *
- * Rationale:
- * - Better user experience (sessions don't die permanently)
- * - Data-driven approach (collect fatal errors first, then classify)
- * - Graceful degradation (even if truly fatal, user can still try)
+ * Reads the messages of an indexed session, called on first access
  */
-function isRecoverableError(error: Error): boolean {
-  const message = error.message.toLowerCase();
-
-  // Known absolutely fatal errors (to be collected based on real usage)
-  // Currently empty - will be populated as we identify truly unrecoverable errors
-  const fatalErrorPatterns: string[] = [
-    // Examples that might be added later:
-    // 'invalid_api_key',     // Maybe recoverable if user updates config
-    // 'model_not_found',     // Maybe recoverable if admin deploys model
-    // 'authentication_error', // Maybe recoverable if credentials are refreshed
-  ];
-
-  // Check if this is a known fatal error
-  for (const pattern of fatalErrorPatterns) {
-    if (message.includes(pattern)) {
-      return false;
-    }
-  }
+export type MessageLoader = () => Pick<StoredSession, "messages" | "tokenUsage" | "turns"> | null;
 
-  // Default: treat ALL errors as recoverable
-  // This allows users to continue sessions after fixing issues
-  return true;
+/**
+ * Queued message with the send() call waiting on it
+ */
+interface QueueEntry {
+  message: QueuedMessage;
+  prompt: string | ContentBlock[];
+  blocks: ContentBlock[];
+  metadata: Record<string, unknown>; // Turn metadata, from the beforeSend hooks
+  resolve: () => void;
+  reject: (error: unknown) => void;
 }
 
 /**
@@ -58,23 +81,38 @@ export class ClaudeSession implements Session {
 
   private _state: SessionState = "created";
   private _lastError: Error | null = null; // Track last error for recovery info
-  private messages: AnyMessage[] = [];
+  private _messages: AnyMessage[] = [];
+  private indexed: StoredSessionInfo | null = null; // Header of a session whose messages are not read yet
+  private messageLoader: MessageLoader | null = null;
   private messageSubject = new Subject<AnyMessage>();
   private streamEventSubject = new Subject<SDKMessage>();
-  private tokenUsage: TokenUsage = {
-    used: 0,
-    total: 0,
-    breakdown: {
-      input: 0,
-      output: 0,
-      cacheRead: 0,
-      cacheCreation: 0,
-    },
-  };
+  private tokenUsage: TokenUsage; // Context size, see context-window.ts
+  private turns: TurnUsage[] = []; // Usage per run, for cost
   private metadata: SessionMetadata;
   private adapter: ClaudeAdapter;
   private options: SessionOptions;
   private realSessionId: string | null = null; // Claude SDK session ID
+  private currentRunId: string | null = null; // Adapter run handle for the in-flight request
+  private warmRunId: string | null = null; // Prewarmed query for the first send
+  private permissions: PermissionManager;
+  private budget: BudgetMeter;
+  private agentBudget: BudgetMeter | null = null; // Shared by all sessions of the agent
+  private budgetSubject = new Subject<BudgetExceeded>();
+  private countedResponses = new Set<string>(); // Responses of the current run already metered
+  private budgetStoppedRun: string | null = null; // Run interrupted for its budget, stopped only once
+  private abortedRun: string | null = null; // Last run stopped by abort(), not compacted after
+  private contextSubject = new Subject<ContextWarning>();
+  private retrySubject = new Subject<RetryScheduled>();
+  private stopRetryWait: (() => void) | null = null; // Ends the backoff of a run waiting to retry
+  private stallSubject = new Subject<RunStalled>();
+  private watchdog: StallWatchdog | null = null; // Timeouts of the attempt streaming now
+  private queue: QueueEntry[] = []; // Sent while a run was active, delivered in order
+  private queueSubject = new Subject<QueueUpdate>();
+  private sendOrder: Promise<unknown> = Promise.resolve(); // beforeSend hooks, one send() after the other
+  private turnMetadata: Record<string, unknown> | null = null; // Of the turn streaming now, for tool hooks
+  private contextModel: string; // Model of the last main-thread response
+  private reportedWindows: Record<string, number> = {}; // Context windows the Claude SDK reported
+  private contextWarned = false; // Warned since the context last was below the threshold
   private logger: Logger;
 
   constructor(
@@ -93,12 +131,21 @@ export class ClaudeSession implements Session {
     this.adapter = adapter;
     this.options = options;
     this.logger = logger;
+    this.permissions = new PermissionManager(options.permissionMode || "bypassPermissions", logger);
+    this.budget = new BudgetMeter(options.budget);
+    // Waiting on a tool approval is not a stalled stream
+    this.permissions.events$().subscribe(() => {
+      if (this.permissions.getPending().length > 0) {
+        this.watchdog?.pause();
+      } else {
+        this.watchdog?.resume();
+      }
+    });
+    this.contextModel = options.model || metadata.model;
 
     // Initialize with historical messages if provided
-    this.messages = [...initialMessages];
-    if (initialTokenUsage) {
-      this.tokenUsage = initialTokenUsage;
-    }
+    this._messages = [...initialMessages];
+    this.tokenUsage = initialTokenUsage || emptyContextUsage(modelContextWindow(this.contextModel));
 
     // If this is from warmup pool, id is already Claude SDK session_id
     if (isWarmSession) {
@@ -114,7 +161,56 @@ export class ClaudeSession implements Session {
     return this._state;
   }
 
-  async send(content: string): Promise<void> {
+  /**
+   * Messages of the session, read through the loader on first access when indexed
+   */
+  private get messages(): AnyMessage[] {
+    this.loadMessages();
+    return this._messages;
+  }
+
+  private set messages(messages: AnyMessage[]) {
+    this.indexed = null;
+    this.messageLoader = null;
+    this._messages = messages;
+  }
+
+  private loadMessages(): void {
+    const load = this.messageLoader;
+    if (!load) {
+      return;
+    }
+
+    this.indexed = null;
+    this.messageLoader = null;
+    const data = load();
+    this._messages = data?.messages || [];
+    if (data) {
+      this.tokenUsage = data.tokenUsage;
+      this.turns = data.turns || [];
+    }
+    this.logger.debug(
+      { sessionId: this.id, messageCount: this._messages.length },
+      "Indexed session messages loaded"
+    );
+  }
+
+  /**
+   * Send a message, queued while a run is active (or steered into it)
+   * Resolves once its run finished, it was steered, or it was cancelled from the queue
+   */
+  async send(input: MessageContent, options: SendOptions = {}): Promise<void> {
+    const hooks = this.adapter.getHooks();
+    const metadata: Record<string, unknown> = {};
+    if (hooks.has("beforeSend")) {
+      // In send() order, so a slow hook doesn't let later messages overtake
+      const rewriting = this.sendOrder.then(() =>
+        hooks.beforeSend({ sessionId: this.id, metadata, content: input })
+      );
+      this.sendOrder = rewriting.catch(() => {});
+      input = await rewriting;
+    }
+
     if (this.isCompleted()) {
       this.logger.warn(
         { sessionId: this.id, state: this._state },
@@ -123,24 +219,144 @@ export class ClaudeSession implements Session {
       throw new Error(`Cannot send message: session is ${this._state}`);
     }
 
+    // Validates attachments before anything is stored or streamed
+    const blocks = normalizeContent(input);
+    const prompt = typeof input === "string" ? input : blocks;
+    const { text: content, attachments } = splitContent(blocks);
+
     this.logger.debug(
       {
         sessionId: this.id,
         contentPreview: content.substring(0, 50),
         contentLength: content.length,
+        attachmentCount: attachments.length,
         currentMessagesCount: this.messages.length,
         hasRealSessionId: !!this.realSessionId,
         state: this._state,
+        mode: options.mode,
+        queued: this.queue.length,
       },
       "Send called"
     );
 
+    if (this._state === "active" || this.queue.length > 0) {
+      if (options.mode === "steer" && this.steer(prompt, blocks, metadata)) {
+        return;
+      }
+      return this.enqueue(prompt, blocks, metadata);
+    }
+
+    try {
+      await this.deliver(prompt, blocks, metadata);
+    } finally {
+      // Before send() resolves, so callers see the session still active
+      this.sendNextQueued();
+    }
+  }
+
+  /**
+   * Ask for a JSON answer matching the schema, sent again with the validation error until it does
+   * Waits for no other run: the answer is the last message of its own run
+   */
+  async ask<T>(
+    prompt: string,
+    schema: z.ZodType<T>,
+    options: AskOptions = {}
+  ): Promise<AskResult<T>> {
+    if (this._state === "active" || this.queue.length > 0) {
+      throw new Error("Cannot ask: session is running");
+    }
+    return askStructured(prompt, schema, options, this, async (content) => {
+      await this.send(content);
+      return this;
+    });
+  }
+
+  getQueue(): QueuedMessage[] {
+    return this.queue.map((entry) => ({ ...entry.message }));
+  }
+
+  /**
+   * Replace the content of a message still in the queue
+   */
+  updateQueued(messageId: string, content: MessageContent): boolean {
+    const entry = this.queue.find((queued) => queued.message.id === messageId);
+    if (!entry) {
+      return false;
+    }
+    const blocks = normalizeContent(content);
+    const { text, attachments } = splitContent(blocks);
+    entry.prompt = typeof content === "string" ? content : blocks;
+    entry.blocks = blocks;
+    entry.message = {
+      id: entry.message.id,
+      content: text,
+      ...(attachments.length > 0 && { attachments }),
+      queuedAt: entry.message.queuedAt,
+    };
+    this.logger.debug({ sessionId: this.id, messageId }, "Queued message updated");
+    this.emitQueue();
+    return true;
+  }
+
+  /**
+   * Take a message out of the queue, its send() resolves without a run
+   */
+  cancelQueued(messageId: string): boolean {
+    const index = this.queue.findIndex((queued) => queued.message.id === messageId);
+    if (index === -1) {
+      return false;
+    }
+    const [entry] = this.queue.splice(index, 1);
+    entry.resolve();
+    this.logger.debug({ sessionId: this.id, messageId }, "Queued message cancelled");
+    this.emitQueue();
+    return true;
+  }
+
+  /**
+   * Store the user message and run it, compacting afterwards if the context got full
+   * The turn hooks run around it, its metadata ends up on the user message
+   */
+  private async deliver(
+    prompt: string | ContentBlock[],
+    blocks: ContentBlock[],
+    metadata: Record<string, unknown> = {}
+  ): Promise<void> {
+    const hooks = this.adapter.getHooks();
+    const turn = { sessionId: this.id, metadata, content: prompt };
+    let userMessage: UserMessage | null = null;
+    try {
+      this.assertWithinBudget();
+      userMessage = this.storeUserMessage(blocks);
+      this.turnMetadata = metadata;
+      const runId = await this.run(prompt);
+      this.turnMetadata = null;
+      const messages = this.messages.slice(this.messages.indexOf(userMessage));
+      await hooks.afterTurn({ ...turn, messages });
+      await this.autoCompact(runId);
+    } catch (error) {
+      const agentError = toAgentError(error);
+      await hooks.onError({ ...turn, error: agentError, code: agentError.code });
+      throw error;
+    } finally {
+      this.turnMetadata = null;
+      if (userMessage && Object.keys(metadata).length > 0) {
+        userMessage.metadata = metadata;
+      }
+    }
+  }
+
+  private storeUserMessage(blocks: ContentBlock[]): UserMessage {
+    const { text: content, attachments } = splitContent(blocks);
+
     // ✅ FIX: Manually add user message BEFORE sending to Claude SDK
     // Claude SDK doesn't return user messages in the stream, so we must add it ourselves
-    const userMessage: AnyMessage = {
+    const userMessage: UserMessage = {
       id: randomUUID(),
       type: "user",
       content,
+      ...(attachments.length > 0 && { attachments }),
       timestamp: new Date(),
     };
 
@@ -162,6 +378,7 @@ export class ClaudeSession implements Session {
       message: {
         role: "user",
         content: userMessage.content,
+        ...(userMessage.attachments && { attachments: userMessage.attachments }),
       },
       uuid: userMessage.id,
     } as any);
@@ -170,106 +387,404 @@ export class ClaudeSession implements Session {
       { sessionId: this.id, totalMessages: this.messages.length },
       "User message stored and forwarded to stream"
     );
+    return userMessage;
+  }
+
+  /**
+   * Send a message into the running turn, false when the run can't take it anymore
+   */
+  private steer(
+    prompt: string | ContentBlock[],
+    blocks: ContentBlock[],
+    metadata: Record<string, unknown>
+  ): boolean {
+    const runId = this.currentRunId;
+    if (!runId || !this.adapter.steer(runId, prompt)) {
+      return false;
+    }
+    const userMessage = this.storeUserMessage(blocks);
+    if (Object.keys(metadata).length > 0) {
+      userMessage.metadata = metadata;
+    }
+    this.logger.info({ sessionId: this.id, runId }, "Message steered into running turn");
+    return true;
+  }
+
+  private enqueue(
+    prompt: string | ContentBlock[],
+    blocks: ContentBlock[],
+    metadata: Record<string, unknown>
+  ): Promise<void> {
+    const { text, attachments } = splitContent(blocks);
+    const message: QueuedMessage = {
+      id: randomUUID(),
+      content: text,
+      ...(attachments.length > 0 && { attachments }),
+      queuedAt: new Date(),
+    };
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({ message, prompt, blocks, metadata, resolve, reject });
+      this.logger.info(
+        { sessionId: this.id, messageId: message.id, queued: this.queue.length },
+        "Message queued until the current run completes"
+      );
+      this.emitQueue();
+    });
+  }
+
+  /**
+   * Deliver the next queued message, one run after the other until the queue is empty
+   */
+  private sendNextQueued(): void {
+    if (this.isCompleted() || this._state === "active") {
+      return;
+    }
+    const entry = this.queue.shift();
+    if (!entry) {
+      return;
+    }
+
+    this.emitQueue(entry.message);
+    // The next message starts before this one's send() resolves
+    this.deliver(entry.prompt, entry.blocks, entry.metadata).then(
+      () => {
+        this.sendNextQueued();
+        entry.resolve();
+      },
+      (error) => {
+        this.sendNextQueued();
+        entry.reject(error);
+      }
+    );
+  }
+
+  /**
+   * Cancel every queued message, e.g. when the run they wait on is aborted
+   */
+  private clearQueue(): void {
+    if (this.queue.length === 0) {
+      return;
+    }
+    const cancelled = this.queue.splice(0);
+    cancelled.forEach((entry) => entry.resolve());
+    this.logger.info({ sessionId: this.id, cancelled: cancelled.length }, "Queue cleared");
+    this.emitQueue();
+  }
+
+  private emitQueue(sent?: QueuedMessage): void {
+    this.queueSubject.next({ queue: this.getQueue(), ...(sent && { sent }) });
+  }
+
+  /**
+   * Summarize the older turns of the conversation (the Claude CLI /compact command)
+   * The session goes on from the summary, the transcript marks where it was taken
+   */
+  async compact(instructions?: string): Promise<void> {
+    if (this.isCompleted() || this._state === "active") {
+      throw new Error(`Cannot compact: session is ${this._state}`);
+    }
+    if (!this.realSessionId) {
+      throw new Error("Cannot compact: session has no conversation yet");
+    }
+    this.assertWithinBudget();
+
+    this.logger.info({ sessionId: this.id, context: this.tokenUsage }, "Compacting session");
+    await this.run(instructions ? `/compact ${instructions}` : "/compact");
+  }
 
+  /**
+   * Stream one prompt through the Claude SDK, storing what comes back
+   *
+   * @returns The run ID
+   */
+  private async run(prompt: string | ContentBlock[]): Promise<string> {
     const prevState = this._state;
     this._state = "active";
 
     // Clear previous error when starting new request
     this._lastError = null;
 
+    let runId = "";
     try {
-      // Stream messages from Claude SDK
-      const streamOptions = {
-        ...this.options,
-        // Only pass resume if we have a real session ID from Claude SDK
-        ...(this.realSessionId && { resume: this.realSessionId }),
-      };
-
-      this.logger.debug(
-        { sessionId: this.id, hasResume: !!this.realSessionId },
-        "Starting SDK stream"
-      );
-
-      let messageCount = 0;
-      for await (const sdkMessage of this.adapter.stream(content, streamOptions)) {
-        messageCount++;
-        this.logger.debug(
-          {
-            sessionId: this.id,
-            sdkMessageType: sdkMessage.type,
-            hasSessionId: !!sdkMessage.session_id,
-            messageCount,
-          },
-          "Received SDK message"
-        );
-
-        // Capture session_id from first message
-        if (!this.realSessionId && sdkMessage.session_id) {
-          this.realSessionId = sdkMessage.session_id;
-          this.logger.info(
-            { sessionId: this.id, realSessionId: this.realSessionId },
-            "Captured real session ID from SDK"
-          );
+      // Transient failures are retried with the same prompt, the session stays active meanwhile
+      for (let attempt = 0; ; attempt++) {
+        runId = randomUUID();
+        this.currentRunId = runId;
+        this.countedResponses.clear();
+
+        try {
+          await this.stream(prompt, runId);
+          break;
+        } catch (error) {
+          const agentError =
+            runId === this.abortedRun
+              ? new AgentError("aborted", "Run aborted", { cause: error })
+              : toAgentError(error);
+          if (!this.shouldRetry(agentError, attempt, runId)) {
+            throw agentError;
+          }
+          await this.waitToRetry(agentError, attempt + 1);
+          if (runId === this.abortedRun) {
+            break; // Aborted while waiting, abort() left the session idle
+          }
         }
-
-        this.processSDKMessage(sdkMessage);
       }
 
-      this.logger.info(
-        {
-          sessionId: this.id,
-          messagesReceived: messageCount,
-          totalMessagesNow: this.messages.length,
-          messageTypes: this.messages.map((m) => m.type),
-        },
-        "SDK stream completed"
-      );
-
       // After streaming completes, session becomes idle (waiting for next input)
       this._state = "idle";
       this.logger.info(
-        { sessionId: this.id, messageCount, prevState, newState: "idle" },
+        { sessionId: this.id, prevState, newState: "idle" },
         "Message sent successfully"
       );
+      return runId;
     } catch (error) {
-      const err = error as Error;
+      const err = error as AgentError;
       this._lastError = err;
 
-      // Check if error is recoverable (now defaults to true for all errors)
-      const recoverable = isRecoverableError(err);
+      // Every error leaves the session usable: transient ones were retried already,
+      // the others (credentials, model) are fixed outside the session
+      this._state = "idle";
+      this.logger.warn(
+        {
+          err: error,
+          sessionId: this.id,
+          promptLength: prompt.length,
+          code: err.code,
+          errorMessage: err.message,
+        },
+        "Run failed, session remains usable"
+      );
+      throw error;
+    } finally {
+      if (this.currentRunId === runId) {
+        this.currentRunId = null;
+      }
+    }
+  }
+
+  /**
+   * One attempt of a run
+   * Throws when the SDK fails, when the run ends with an API error the Claude CLI gave up on,
+   * or when the watchdog finds the stream stalled
+   */
+  private async stream(prompt: string | ContentBlock[], runId: string): Promise<void> {
+    const streamOptions: StreamOptions = {
+      ...this.options,
+      // Only pass resume if we have a real session ID from Claude SDK
+      ...(this.realSessionId && { resume: this.realSessionId }),
+      ...(this.warmRunId && { warmRunId: this.warmRunId }),
+      permissionMode: this.permissions.getMode(),
+      canUseTool: this.permissions.canUseTool,
+      toolHooks: {
+        PreToolUse: (input, toolUseId) => this.beforeToolUse(input, toolUseId),
+        PostToolUse: (input, toolUseId) => this.afterToolUse(input, toolUseId),
+      },
+    };
+    // A prewarmed query only serves one message
+    this.warmRunId = null;
 
-      if (recoverable) {
-        // Recoverable error: return to idle state, session can continue
-        this._state = "idle";
-        this.logger.warn(
-          {
-            err: error,
-            sessionId: this.id,
-            contentLength: content.length,
-            recoverable: true,
-            errorMessage: err.message,
-          },
-          "Recoverable error occurred, session remains usable"
+    this.logger.debug(
+      {
+        sessionId: this.id,
+        runId,
+        hasResume: !!this.realSessionId,
+        warm: !!streamOptions.warmRunId,
+      },
+      "Starting SDK stream"
+    );
+
+    const watchdog = new StallWatchdog(this.adapter.getTimeouts());
+    this.watchdog = watchdog;
+    watchdog.start();
+    try {
+      const receiving = this.receive(prompt, streamOptions, runId, watchdog);
+      const outcome = await Promise.race([
+        receiving.then((failure) => ({ failure })),
+        watchdog.stalled.then((stall) => ({ stall })),
+      ]);
+
+      if ("stall" in outcome) {
+        receiving.catch(() => {}); // Fails once the process is aborted
+        this.stopStalledRun(runId, outcome.stall);
+        const seconds = Math.round(outcome.stall.timeoutMs / 1000);
+        throw new AgentError(
+          "timeout",
+          outcome.stall.reason === "idle"
+            ? `No response from Claude for ${seconds}s, the run was stopped`
+            : `Run took longer than ${seconds}s and was stopped`
         );
-      } else {
-        // Fatal error: mark session as error state (terminal)
-        // Note: This path is now rarely taken since most errors are recoverable
-        this._state = "error";
-        this.logger.error(
-          {
-            err: error,
-            sessionId: this.id,
-            contentLength: content.length,
-            recoverable: false,
-            errorMessage: err.message,
-          },
-          "Fatal error occurred, session terminated"
+      }
+      if (outcome.failure) {
+        throw toAgentError(outcome.failure);
+      }
+    } finally {
+      watchdog.stop();
+      if (this.watchdog === watchdog) {
+        this.watchdog = null;
+      }
+    }
+  }
+
+  /**
+   * Store what the SDK stream sends back
+   *
+   * @returns The error of an API error result, null when the run succeeded
+   */
+  private async receive(
+    prompt: string | ContentBlock[],
+    streamOptions: StreamOptions,
+    runId: string,
+    watchdog: StallWatchdog
+  ): Promise<string | null> {
+    let messageCount = 0;
+    let failure: string | null = null;
+    for await (const sdkMessage of this.adapter.stream(prompt, streamOptions, runId)) {
+      watchdog.activity();
+      messageCount++;
+      this.logger.debug(
+        {
+          sessionId: this.id,
+          sdkMessageType: sdkMessage.type,
+          hasSessionId: !!sdkMessage.session_id,
+          messageCount,
+        },
+        "Received SDK message"
+      );
+
+      // Capture session_id from first message
+      if (!this.realSessionId && sdkMessage.session_id) {
+        this.realSessionId = sdkMessage.session_id;
+        this.logger.info(
+          { sessionId: this.id, realSessionId: this.realSessionId },
+          "Captured real session ID from SDK"
         );
-        this.messageSubject.error(error);
       }
 
-      throw error;
+      this.processSDKMessage(sdkMessage);
+      if (sdkMessage.type === "assistant") {
+        await this.meterResponse(sdkMessage, runId);
+      }
+      if (sdkMessage.type === "result" && sdkMessage.subtype === "success" && sdkMessage.is_error) {
+        failure = sdkMessage.result || "Run failed";
+      }
+    }
+
+    this.logger.info(
+      {
+        sessionId: this.id,
+        messagesReceived: messageCount,
+        totalMessagesNow: this.messages.length,
+        messageTypes: this.messages.map((m) => m.type),
+      },
+      "SDK stream completed"
+    );
+    return failure;
+  }
+
+  /**
+   * Run the onToolUse hooks (Claude SDK PreToolUse hook), a deny vetoes the call
+   */
+  private async beforeToolUse(
+    input: HookInput,
+    toolUseId: string | undefined
+  ): Promise<HookJSONOutput> {
+    if (input.hook_event_name !== "PreToolUse") {
+      return {};
+    }
+    const deny = await this.adapter.getHooks().onToolUse(this.toolCall(input, toolUseId));
+    if (deny === undefined) {
+      return {};
+    }
+    this.logger.info(
+      { sessionId: this.id, toolName: input.tool_name, reason: deny },
+      "Tool call denied by hook"
+    );
+    return {
+      hookSpecificOutput: {
+        hookEventName: "PreToolUse",
+        permissionDecision: "deny",
+        permissionDecisionReason: deny,
+      },
+    };
+  }
+
+  /**
+   * Run the onToolResult hooks (Claude SDK PostToolUse hook)
+   */
+  private async afterToolUse(
+    input: HookInput,
+    toolUseId: string | undefined
+  ): Promise<HookJSONOutput> {
+    if (input.hook_event_name === "PostToolUse") {
+      await this.adapter.getHooks().onToolResult({
+        ...this.toolCall(input, toolUseId),
+        response: input.tool_response,
+      });
     }
+    return {};
+  }
+
+  private toolCall(
+    input: Extract<HookInput, { tool_name: string }>,
+    toolUseId: string | undefined
+  ): ToolUseContext {
+    return {
+      sessionId: this.id,
+      // Calls outside a turn (compaction) get metadata of their own
+      metadata: this.turnMetadata || {},
+      toolName: input.tool_name,
+      ...(toolUseId && { toolUseId }),
+      input: (input.tool_input || {}) as Record<string, unknown>,
+    };
+  }
+
+  /**
+   * Kill a stalled run: its process may not answer an interrupt
+   */
+  private stopStalledRun(runId: string, stall: RunStalled): void {
+    this.logger.warn({ sessionId: this.id, runId, ...stall }, "Run stalled, stopping it");
+    this.stallSubject.next(stall);
+    this.permissions.cancelAll();
+    this.adapter.abortRun(runId);
+  }
+
+  /**
+   * Retry transient errors up to maxRetries, not after abort() or a reached budget
+   */
+  private shouldRetry(error: AgentError, attempt: number, runId: string): boolean {
+    return (
+      error.retryable &&
+      attempt < this.adapter.getRetry().maxRetries &&
+      runId !== this.abortedRun &&
+      runId !== this.budgetStoppedRun &&
+      !this.exceededBudget("reached")
+    );
+  }
+
+  /**
+   * Wait out the backoff before a retry, abort() ends the wait early
+   */
+  private waitToRetry(error: AgentError, attempt: number): Promise<void> {
+    const options = this.adapter.getRetry();
+    const retry: RetryScheduled = {
+      code: error.code,
+      message: error.message,
+      attempt,
+      maxRetries: options.maxRetries,
+      delayMs: retryDelay(attempt, options),
+    };
+    this.logger.warn({ sessionId: this.id, ...retry }, "Run failed, retrying");
+    this.retrySubject.next(retry);
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => this.stopRetryWait?.(), retry.delayMs);
+      this.stopRetryWait = () => {
+        clearTimeout(timer);
+        this.stopRetryWait = null;
+        resolve();
+      };
+    });
   }
 
   private processSDKMessage(sdkMessage: SDKMessage): void {
@@ -293,40 +808,18 @@ export class ClaudeSession implements Session {
 
     // Transform and store messages internally for getMessages() API
     // This maintains historical messages for REST API queries
-    const messages = this.transformSDKMessage(sdkMessage);
-
-    if (messages && messages.length > 0) {
-      this.logger.debug(
-        { sessionId: this.id, transformedCount: messages.length },
-        "Transformed messages for internal storage"
-      );
-
-      for (const message of messages) {
-        const msg = message as any;
-        this.logger.debug(
-          {
-            sessionId: this.id,
-            messageType: message.type,
-            messageId: message.id,
-            isToolUse: msg.isToolUse,
-            toolName: msg.toolName,
-            contentPreview: msg.content?.substring(0, 50),
-          },
-          "Storing message internally"
-        );
-
-        // Only store in messages[] array, DO NOT emit to messageSubject
-        // Frontend will receive this via streamEventSubject
-        this.messages.push(message);
-      }
+    // Frontend receives the raw SDK message via streamEventSubject, so nothing is emitted here
+    const messages = applySDKMessage(this.messages, sdkMessage);
+    this.logger.debug(
+      {
+        sessionId: this.id,
+        messageTypes: messages.map((message) => message.type),
+        totalMessages: this.messages.length,
+      },
+      "Messages stored in internal array"
+    );
 
-      this.logger.debug(
-        { sessionId: this.id, totalMessages: this.messages.length },
-        "Messages stored in internal array"
-      );
-    } else {
-      this.logger.debug({ sessionId: this.id }, "No messages after transform");
-    }
+    this.updateContext(sdkMessage);
 
     // Extract token usage from result messages
     if (sdkMessage.type === "result" && "usage" in sdkMessage) {
@@ -334,222 +827,176 @@ export class ClaudeSession implements Session {
     }
   }
 
-  private transformSDKMessage(sdkMessage: SDKMessage): AnyMessage[] {
-    const results: AnyMessage[] = [];
-    const timestamp = new Date();
-
-    // Map SDK message types to our message types
-    if (sdkMessage.type === "user") {
-      const content = sdkMessage.message.content;
+  /**
+   * Count a model response against the session and agent budgets
+   * The run is interrupted (like abort) when the response goes past a limit
+   */
+  private async meterResponse(sdkMessage: any, runId: string): Promise<void> {
+    const response = sdkMessage.message;
+    // Responses with several content blocks arrive as several messages with the same usage
+    if (!response?.usage || this.countedResponses.has(response.id)) {
+      return;
+    }
+    if (response.id) {
+      this.countedResponses.add(response.id);
+    }
 
-      this.logger.debug(
-        {
-          sessionId: this.id,
-          isArray: Array.isArray(content),
-          contentType: typeof content,
-          contentPreview: Array.isArray(content)
-            ? content.map((b) => b.type).join(", ")
-            : String(content).substring(0, 100),
-        },
-        "Processing user message"
-      );
+    const usage = responseUsage(response, this.metadata.model, this.adapter.getPricing());
+    this.budget.add(usage);
+    this.agentBudget?.add(usage);
 
-      // Check if this is a tool result message
-      if (Array.isArray(content)) {
-        const hasToolResult = content.some((block) => block.type === "tool_result");
-        if (hasToolResult) {
-          // Process tool results and update existing tool use messages
-          this.logger.debug(
-            { sessionId: this.id, blockCount: content.length },
-            "Processing tool_result blocks"
-          );
-
-          for (const block of content) {
-            if (block.type === "tool_result") {
-              // Find the corresponding tool use message by toolId
-              const toolUseMsg = this.messages.find(
-                (msg: any) => msg.isToolUse && msg.toolId === block.tool_use_id
-              );
-
-              if (toolUseMsg) {
-                this.logger.debug(
-                  {
-                    sessionId: this.id,
-                    toolId: block.tool_use_id,
-                    isError: block.is_error || false,
-                    contentLength: String(block.content).length,
-                  },
-                  "Updating tool result for existing tool use message"
-                );
-
-                // Update the tool result on the existing message
-                (toolUseMsg as any).toolResult = {
-                  content: block.content,
-                  isError: block.is_error || false,
-                  timestamp: new Date(),
-                  toolUseResult: block,
-                };
-
-                // ✅ FIX: Don't re-emit the message - frontend handles tool_result separately
-                // The WebSocketAdapter already emits message.toolResult event for UI updates
-                // Re-emitting causes duplicate messages in the WebSocket stream
-              } else {
-                this.logger.warn(
-                  { sessionId: this.id, toolId: block.tool_use_id },
-                  "Could not find matching tool use message for tool_result"
-                );
-              }
-            }
-          }
+    const exceeded = this.exceededBudget("exceeded");
+    if (!exceeded || this.budgetStoppedRun === runId) {
+      return;
+    }
 
-          // Don't create a separate user message for tool results
-          return [];
-        }
-      }
+    this.budgetStoppedRun = runId;
+    this.logger.warn(
+      { sessionId: this.id, runId, ...exceeded },
+      "Budget reached, interrupting run"
+    );
+    this.budgetSubject.next(exceeded);
+    this.permissions.cancelAll();
+    try {
+      await this.adapter.interrupt(runId);
+    } catch (error) {
+      this.logger.error({ sessionId: this.id, runId, err: error }, "Failed to interrupt query");
+    }
+  }
 
-      // Regular user message
-      const textContent = this.extractTextContent(content);
-      this.logger.debug(
-        {
-          sessionId: this.id,
-          contentLength: textContent.length,
-          contentPreview: textContent.substring(0, 50),
-        },
-        "Creating user message"
+  /**
+   * A reached budget has to be raised before the session can go on
+   */
+  private assertWithinBudget(): void {
+    const exceeded = this.exceededBudget("reached");
+    if (exceeded) {
+      this.budgetSubject.next(exceeded);
+      throw new Error(
+        `${exceeded.scope === "agent" ? "Agent" : "Session"} budget reached (${exceeded.limit})`
       );
+    }
+  }
 
-      results.push({
-        id: sdkMessage.uuid || `user-${Date.now()}`,
-        type: "user",
-        content: textContent,
-        timestamp,
-      });
-      return results;
+  /**
+   * reached: no new run may start, exceeded: the running one has to stop
+   */
+  private exceededBudget(check: "reached" | "exceeded"): BudgetExceeded | null {
+    for (const [scope, meter] of [
+      ["session", this.budget],
+      ["agent", this.agentBudget],
+    ] as const) {
+      const limit = check === "reached" ? meter?.reachedLimit() : meter?.exceededLimit();
+      if (meter && limit) {
+        return { scope, limit, budget: meter.getBudget(), usage: meter.getUsage() };
+      }
     }
+    return null;
+  }
 
-    if (sdkMessage.type === "assistant") {
-      const content = sdkMessage.message.content;
+  private updateTokenUsageFromSDK(resultMessage: any): void {
+    // The Claude SDK knows the context window of each model the run called
+    for (const [model, usage] of Object.entries<any>(resultMessage.modelUsage || {})) {
+      if (usage.contextWindow > 0) {
+        this.reportedWindows[model] = usage.contextWindow;
+      }
+    }
+    const total = this.windowOf(this.contextModel);
+    if (total !== this.tokenUsage.total) {
+      this.tokenUsage = { ...this.tokenUsage, total };
+      this.warnOnContext();
+    }
 
-      this.logger.debug(
-        {
-          sessionId: this.id,
-          isArray: Array.isArray(content),
-          blockCount: Array.isArray(content) ? content.length : 0,
-          blockTypes: Array.isArray(content) ? content.map((b) => b.type).join(", ") : "string",
-        },
-        "Processing assistant message"
-      );
+    const turn = turnUsageFromResult(resultMessage, this.metadata.model);
+    this.turns.push(turn);
+    this.logger.debug({ sessionId: this.id, models: turn.models }, "Turn usage recorded");
+  }
 
-      if (Array.isArray(content)) {
-        // Process each content block
-        for (const block of content) {
-          if (block.type === "text" && block.text) {
-            // Text content
-            this.logger.debug(
-              {
-                sessionId: this.id,
-                blockType: "text",
-                textLength: block.text.length,
-              },
-              "Creating assistant text message"
-            );
-            results.push({
-              id: sdkMessage.uuid || `assistant-${Date.now()}-${results.length}`,
-              type: "assistant",
-              content: block.text,
-              timestamp,
-            });
-          } else if (block.type === "tool_use") {
-            // Tool use
-            this.logger.debug(
-              {
-                sessionId: this.id,
-                blockType: "tool_use",
-                toolName: block.name,
-                toolId: block.id,
-              },
-              "Creating tool use message"
-            );
-            results.push({
-              id: sdkMessage.uuid || `tool-${Date.now()}-${results.length}`,
-              type: "assistant",
-              content: "",
-              timestamp,
-              isToolUse: true,
-              toolName: block.name,
-              toolInput: block.input ? JSON.stringify(block.input, null, 2) : "",
-              toolId: block.id,
-              toolResult: null,
-            } as any);
-          }
-        }
-      } else {
-        // String content (fallback)
-        const textContent = this.extractTextContent(content);
-        if (textContent) {
-          this.logger.debug(
-            { sessionId: this.id, contentLength: textContent.length },
-            "Creating assistant string message"
-          );
-          results.push({
-            id: sdkMessage.uuid || `assistant-${Date.now()}`,
-            type: "assistant",
-            content: textContent,
-            timestamp,
-          });
-        }
-      }
+  /**
+   * Context size from main-thread responses, compaction empties it
+   */
+  private updateContext(sdkMessage: any): void {
+    if (sdkMessage.type === "system" && sdkMessage.subtype === "compact_boundary") {
+      this.tokenUsage = emptyContextUsage(this.tokenUsage.total);
+      this.contextWarned = false;
+      this.logger.info(
+        { sessionId: this.id, compaction: sdkMessage.compact_metadata },
+        "Session compacted"
+      );
+      return;
+    }
 
-      return results;
+    if (!isContextResponse(sdkMessage)) {
+      return;
     }
+    const response = sdkMessage.message;
+    this.contextModel = response.model || this.contextModel;
+    this.tokenUsage = contextUsage(response.usage, this.windowOf(this.contextModel));
+    this.logger.debug({ sessionId: this.id, tokenUsage: this.tokenUsage }, "Context updated");
+    this.warnOnContext();
+  }
 
-    // System messages or other types don't need to be exposed
-    return [];
+  private windowOf(model: string): number {
+    return this.reportedWindows[model] || modelContextWindow(model);
   }
 
   /**
-   * Extract text content from Claude API content blocks
-   * Claude API returns content as array of blocks: [{ type: "text", text: "..." }]
+   * Context with the configured window override applied
    */
-  private extractTextContent(content: string | Array<any>): string {
-    if (typeof content === "string") {
-      return content;
-    }
+  private currentContext(): TokenUsage {
+    const window = this.adapter.getContext().window;
+    return {
+      ...this.tokenUsage,
+      ...(window && { total: window }),
+      breakdown: { ...this.tokenUsage.breakdown },
+    };
+  }
 
-    if (Array.isArray(content)) {
-      return content
-        .filter((block) => block.type === "text")
-        .map((block) => block.text)
-        .join("\n");
+  /**
+   * Warn once when the context reaches the warning threshold, again after it dropped below
+   */
+  private warnOnContext(): void {
+    const usage = this.currentContext();
+    const threshold = this.adapter.getContext().warningThreshold;
+    if (!reachedThreshold(usage, threshold)) {
+      this.contextWarned = false;
+      return;
+    }
+    if (this.contextWarned) {
+      return;
     }
 
-    return String(content);
+    this.contextWarned = true;
+    this.logger.warn(
+      { sessionId: this.id, used: usage.used, total: usage.total, threshold },
+      "Context window nearly full"
+    );
+    this.contextSubject.next({ usage, threshold });
   }
 
-  private updateTokenUsageFromSDK(resultMessage: any): void {
-    if (resultMessage.usage) {
-      const usage = resultMessage.usage;
-      this.tokenUsage = {
-        used:
-          usage.input_tokens +
-          usage.output_tokens +
-          (usage.cache_read_input_tokens || 0) +
-          (usage.cache_creation_input_tokens || 0),
-        total: 160000, // TODO: Get from config
-        breakdown: {
-          input: usage.input_tokens || 0,
-          output: usage.output_tokens || 0,
-          cacheRead: usage.cache_read_input_tokens || 0,
-          cacheCreation: usage.cache_creation_input_tokens || 0,
-        },
-      };
-      this.logger.debug(
-        {
-          sessionId: this.id,
-          tokenUsage: this.tokenUsage,
-        },
-        "Token usage updated"
-      );
+  /**
+   * Compact after a run once the context reaches the auto compaction threshold
+   * Not after aborted or budget-stopped runs, a failed compaction leaves the session as it was
+   */
+  private async autoCompact(runId: string): Promise<void> {
+    const threshold = this.adapter.getContext().autoCompactThreshold;
+    if (
+      this._state !== "idle" ||
+      runId === this.abortedRun ||
+      runId === this.budgetStoppedRun ||
+      this.exceededBudget("reached") ||
+      !reachedThreshold(this.currentContext(), threshold)
+    ) {
+      return;
+    }
+
+    this.logger.info(
+      { sessionId: this.id, used: this.tokenUsage.used, threshold },
+      "Context reached auto compaction threshold"
+    );
+    try {
+      await this.compact();
+    } catch (error) {
+      this.logger.error({ sessionId: this.id, err: error }, "Auto compaction failed");
     }
   }
 
@@ -562,14 +1009,30 @@ export class ClaudeSession implements Session {
       throw new Error(`Cannot abort: session is ${this._state}`);
     }
 
-    this.logger.info({ sessionId: this.id }, "Aborting active request via adapter interrupt");
+    const runId = this.currentRunId;
+    this.abortedRun = runId;
+    this.logger.info(
+      { sessionId: this.id, runId },
+      "Aborting active request via adapter interrupt"
+    );
 
-    // Interrupt the Claude SDK query
-    try {
-      await this.adapter.interrupt();
-      this.logger.info({ sessionId: this.id }, "Claude SDK query interrupted successfully");
-    } catch (error) {
-      this.logger.error({ sessionId: this.id, err: error }, "Failed to interrupt query");
+    // Pending approvals would otherwise keep the run waiting
+    this.permissions.cancelAll();
+    this.stopRetryWait?.();
+    // Messages queued behind the run are not sent either
+    this.clearQueue();
+
+    // Interrupt only this session's Claude SDK query
+    if (runId) {
+      try {
+        await this.adapter.interrupt(runId);
+        this.logger.info(
+          { sessionId: this.id, runId },
+          "Claude SDK query interrupted successfully"
+        );
+      } catch (error) {
+        this.logger.error({ sessionId: this.id, runId, err: error }, "Failed to interrupt query");
+      }
     }
 
     // Set to idle instead of aborted
@@ -594,7 +1057,14 @@ export class ClaudeSession implements Session {
   async delete(): Promise<void> {
     this.logger.debug({ sessionId: this.id, prevState: this._state }, "Deleting session");
     this._state = "deleted";
+    this.permissions.destroy();
+    this.clearQueue();
     this.messageSubject.complete();
+    this.budgetSubject.complete();
+    this.contextSubject.complete();
+    this.retrySubject.complete();
+    this.stallSubject.complete();
+    this.queueSubject.complete();
   }
 
   messages$(): Observable<AnyMessage> {
@@ -605,13 +1075,138 @@ export class ClaudeSession implements Session {
     return this.streamEventSubject.asObservable();
   }
 
+  permissionEvents$(): Observable<PermissionEvent> {
+    return this.permissions.events$();
+  }
+
+  budgetEvents$(): Observable<BudgetExceeded> {
+    return this.budgetSubject.asObservable();
+  }
+
+  contextEvents$(): Observable<ContextWarning> {
+    return this.contextSubject.asObservable();
+  }
+
+  retryEvents$(): Observable<RetryScheduled> {
+    return this.retrySubject.asObservable();
+  }
+
+  stallEvents$(): Observable<RunStalled> {
+    return this.stallSubject.asObservable();
+  }
+
+  queueEvents$(): Observable<QueueUpdate> {
+    return this.queueSubject.asObservable();
+  }
+
+  getPermissionMode(): PermissionMode {
+    return this.permissions.getMode();
+  }
+
+  /**
+   * Change the permission mode
+   * Applies to the in-flight request as well as every following one
+   */
+  async setPermissionMode(mode: PermissionMode): Promise<void> {
+    this.permissions.setMode(mode);
+
+    if (this.currentRunId) {
+      try {
+        await this.adapter.setPermissionMode(this.currentRunId, mode);
+      } catch (error) {
+        this.logger.warn(
+          { err: error, sessionId: this.id, mode },
+          "Failed to update permission mode of running query"
+        );
+      }
+    }
+  }
+
+  getPendingPermissions(): PermissionRequest[] {
+    return this.permissions.getPending();
+  }
+
+  getPermissionRules(): PermissionRule[] {
+    return this.permissions.getRules();
+  }
+
+  /**
+   * Answer a pending tool permission request
+   *
+   * @returns false if the request is unknown or already answered
+   */
+  respondToPermission(requestId: string, decision: PermissionDecision): boolean {
+    this.logger.debug(
+      { sessionId: this.id, requestId, behavior: decision.behavior, scope: decision.scope },
+      "Responding to permission request"
+    );
+    return this.permissions.respond(requestId, decision);
+  }
+
+  getThinking(): ThinkingOption {
+    return this.options.thinking || "off";
+  }
+
+  /**
+   * Turn extended thinking on or off, or change its budget
+   * A running request keeps its budget, the change applies from the next message
+   */
+  setThinking(thinking: ThinkingOption): void {
+    thinkingTokens(thinking); // Reject bad budgets now rather than on the next send()
+    this.options = { ...this.options, thinking };
+    this.logger.debug({ sessionId: this.id, thinking }, "Thinking option changed");
+  }
+
+  getMcpServers(): McpServerSelection {
+    return { ...this.options.mcpServers };
+  }
+
+  /**
+   * Turn MCP servers on or off by name
+   * A running request keeps its servers, the change applies from the next message
+   */
+  setMcpServers(selection: McpServerSelection): void {
+    this.options = { ...this.options, mcpServers: { ...selection } };
+    this.logger.debug({ sessionId: this.id, mcpServers: selection }, "MCP servers changed");
+  }
+
+  getMessageCount(): number | undefined {
+    return this.indexed ? this.indexed.messageCount : this.messages.length;
+  }
+
   getMessages(limit?: number, offset = 0): AnyMessage[] {
     const end = limit ? offset + limit : undefined;
     return this.messages.slice(offset, end);
   }
 
   getTokenUsage(): TokenUsage {
-    return { ...this.tokenUsage };
+    // Transcript headers carry no usage, it is only known once the messages are read
+    if (this.indexed && !this.indexed.tokenUsage) {
+      this.loadMessages();
+    }
+    return this.currentContext();
+  }
+
+  getBudget(): Budget {
+    return this.budget.getBudget();
+  }
+
+  /**
+   * Replace the session budget, checked from the next model response on
+   */
+  setBudget(budget: Budget): void {
+    this.budget.setBudget(budget);
+    this.options = { ...this.options, budget };
+    this.logger.info({ sessionId: this.id, budget }, "Session budget updated");
+  }
+
+  getBudgetUsage(): BudgetUsage {
+    return this.budget.getUsage();
+  }
+
+  getCost(): SessionCost {
+    this.loadMessages();
+    return sessionCost(this.turns, this.adapter.getPricing());
   }
 
   getMetadata(): SessionMetadata {
@@ -627,45 +1222,10 @@ export class ClaudeSession implements Session {
   }
 
   /**
-   * Generate session summary from messages
-   * Priority:
-   * 1. First real user message (filtered system messages)
-   * 2. Fallback to "New Session"
-   *
-   * Aligned with Claude Code CLI behavior
+   * Summary of the session, from the index until its messages are loaded
    */
   summary(): string {
-    const messages = this.getMessages(10); // Get first 10 messages
-
-    // Find first real user message
-    const firstUserMsg = messages.find((m) => {
-      if (m.type !== "user") return false;
-
-      const content = m.content || "";
-
-      // Filter system messages (aligned with Claude Code CLI)
-      const isSystemMessage =
-        content.startsWith("<command-name>") ||
-        content.startsWith("<command-message>") ||
-        content.startsWith("<command-args>") ||
-        content.startsWith("<local-command-stdout>") ||
-        content.startsWith("<system-reminder>") ||
-        content.startsWith("Caveat:") ||
-        content.startsWith("This session is being continued from a previous") ||
-        content === "Warmup";
-
-      return !isSystemMessage && content.length > 0;
-    });
-
-    if (firstUserMsg && firstUserMsg.type === "user") {
-      // Type guard: UserMessage has content property
-      const userMsg = firstUserMsg as UserMessage;
-      // Return first 100 characters, add ellipsis if truncated
-      const summary = userMsg.content.substring(0, 100);
-      return userMsg.content.length > 100 ? `${summary}...` : summary;
-    }
-
-    return "New Session";
+    return this.indexed ? this.indexed.summary : summarize(this.messages);
   }
 
   isActive(): boolean {
@@ -691,10 +1251,50 @@ export class ClaudeSession implements Session {
     this.messageSubject.next(message);
   }
 
+  _useAgentBudget(meter: BudgetMeter): void {
+    this.agentBudget = meter;
+  }
+
+  _useWarmRun(warmRunId: string): void {
+    this.warmRunId = warmRunId;
+  }
+
   _updateTokenUsage(usage: TokenUsage): void {
     this.tokenUsage = usage;
   }
 
+  _getTurns(): TurnUsage[] {
+    this.loadMessages();
+    return [...this.turns];
+  }
+
+  /**
+   * Replace the session content with an index entry, messages are read on first access
+   */
+  _index(info: StoredSessionInfo, loader: MessageLoader): void {
+    this.indexed = info;
+    this.messageLoader = loader;
+    this._messages = [];
+    this.turns = [];
+    this.metadata = info.metadata;
+    if (info.tokenUsage) {
+      this.tokenUsage = info.tokenUsage;
+    }
+  }
+
+  /**
+   * Messages for a one-off read (search), an indexed session is not loaded by it
+   */
+  _readMessages(): AnyMessage[] {
+    return this.messageLoader ? this.messageLoader()?.messages || [] : this._messages;
+  }
+
+  _rewind(messages: AnyMessage[], usage: TokenUsage, turns: TurnUsage[]): void {
+    this.messages = messages;
+    this.tokenUsage = usage;
+    this.turns = turns;
+  }
+
   _completeStream(): void {
     this.messageSubject.complete();
   }
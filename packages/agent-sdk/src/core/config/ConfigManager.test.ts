@@ -152,6 +152,35 @@ describe("ConfigManager", () => {
       expect(() => manager["validate"](invalidConfig)).toThrow();
     });
 
+    it("should parse MCP servers given as JSON", () => {
+      const manager = new ConfigManager({ mode: "development" });
+
+      const validated = manager["validate"]({
+        anthropicApiKey: "sk-test",
+        mcpServers: '{"docs":{"type":"http","url":"https://mcp.example.com/mcp"}}',
+      });
+
+      expect(validated.mcpServers).toEqual({
+        docs: { type: "http", url: "https://mcp.example.com/mcp" },
+      });
+      expect(manager["validate"]({ anthropicApiKey: "sk-test" }).mcpServers).toHaveProperty(
+        "promptx"
+      );
+      expect(() =>
+        manager["validate"]({ anthropicApiKey: "sk-test", mcpServers: "{docs}" })
+      ).toThrow("Invalid configuration");
+    });
+
+    it("should split WORKSPACES into directories", () => {
+      const manager = new ConfigManager({ mode: "development" });
+
+      expect(
+        manager["validate"]({ anthropicApiKey: "sk-test", workspaces: "/work/a, /work/b," })
+          .workspaces
+      ).toEqual(["/work/a", "/work/b"]);
+      expect(manager["validate"]({ anthropicApiKey: "sk-test" }).workspaces).toEqual([]);
+    });
+
     it("should throw on invalid nodeEnv value", () => {
       const manager = new ConfigManager({ mode: "development" });
 
@@ -176,7 +205,10 @@ describe("ConfigManager", () => {
       // Should have default values
       expect(validated.port).toBe(5201);
       expect(validated.vitePort).toBe(5200);
-      expect(validated.contextWindow).toBe(160000);
+      expect(validated.contextWindow).toBe(0);
+      expect(validated.autoCompactThreshold).toBe(0.9);
+      expect(validated.maxRetries).toBe(3);
+      expect(validated.idleTimeoutMs).toBe(900000);
     });
   });
 
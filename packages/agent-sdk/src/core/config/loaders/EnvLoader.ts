@@ -35,7 +35,20 @@ export class EnvLoader implements Loader {
       anthropicApiKey: process.env.ANTHROPIC_API_KEY,
       anthropicBaseUrl: process.env.ANTHROPIC_BASE_URL,
       projectPath: process.env.PROJECT_PATH,
+      workspaces: process.env.WORKSPACES,
       contextWindow: process.env.CONTEXT_WINDOW,
+      contextWarningThreshold: process.env.CONTEXT_WARNING_THRESHOLD,
+      autoCompactThreshold: process.env.AUTO_COMPACT_THRESHOLD,
+      maxRetries: process.env.MAX_RETRIES,
+      idleTimeoutMs: process.env.IDLE_TIMEOUT_MS,
+      runTimeoutMs: process.env.RUN_TIMEOUT_MS,
+      permissionMode: process.env.PERMISSION_MODE,
+      warmupPoolSize: process.env.WARMUP_POOL_SIZE,
+      thinkingBudget: process.env.THINKING_BUDGET,
+      sessionBudgetUsd: process.env.SESSION_BUDGET_USD,
+      sessionMaxTurns: process.env.SESSION_MAX_TURNS,
+      agentBudgetUsd: process.env.AGENT_BUDGET_USD,
+      mcpServers: process.env.MCP_SERVERS,
       logLevel: process.env.LOG_LEVEL,
       databasePath: process.env.DATABASE_PATH,
     };
@@ -26,7 +26,11 @@ export class FilePersister implements Persister {
       .map(([key, value]) => {
         // Convert camelCase to SCREAMING_SNAKE_CASE
         const envKey = key.replace(/([A-Z])/g, "_$1").toUpperCase();
-        return `${envKey}=${value}`;
+        // Lists (WORKSPACES) are read back comma separated, objects (MCP_SERVERS) as JSON
+        if (Array.isArray(value)) {
+          return `${envKey}=${value.join(",")}`;
+        }
+        return `${envKey}=${typeof value === "object" ? JSON.stringify(value) : value}`;
       })
       .join("\n");
 
@@ -1,5 +1,32 @@
 import { z } from "zod";
 
+const mcpServerSchema = z.union([
+  z.object({
+    type: z.literal("stdio").optional(),
+    command: z.string().min(1),
+    args: z.array(z.string()).optional(),
+    env: z.record(z.string()).optional(),
+  }),
+  z.object({
+    type: z.enum(["http", "sse"]),
+    url: z.string().url(),
+    headers: z.record(z.string()).optional(),
+  }),
+]);
+
+// MCP servers by name, as a JSON string when read from the environment
+const mcpServersSchema = z.preprocess((value, ctx) => {
+  if (typeof value !== "string") {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Must be a JSON object" });
+    return z.NEVER;
+  }
+}, z.record(mcpServerSchema));
+
 /**
  * Base configuration schema
  * Defines all possible configuration options for the Agent project
@@ -19,9 +46,47 @@ export const baseConfigSchema = z.object({
 
   // Project Configuration
   projectPath: z.string().default("."),
+  // More workspace directories served next to projectPath, comma separated in the environment
+  workspaces: z.preprocess(
+    (value) =>
+      typeof value === "string"
+        ? value
+            .split(",")
+            .map((dir) => dir.trim())
+            .filter(Boolean)
+        : value,
+    z.array(z.string()).default([])
+  ),
 
   // Agent Configuration
-  contextWindow: z.coerce.number().int().positive().default(160000),
+  // Context window in tokens (0 = the window of the session model)
+  contextWindow: z.coerce.number().int().min(0).default(0),
+  // Share of the context window that warns, and that compacts the session after a run (0 = off)
+  contextWarningThreshold: z.coerce.number().min(0).max(1).default(0.8),
+  autoCompactThreshold: z.coerce.number().min(0).max(1).default(0.9),
+  // Automatic retries of a run failing with a transient error (0 = off)
+  maxRetries: z.coerce.number().int().min(0).default(3),
+  // Stop runs whose stream sent nothing for this long, or that stream longer (ms, 0 = off)
+  idleTimeoutMs: z.coerce.number().int().min(0).default(900000),
+  runTimeoutMs: z.coerce.number().int().min(0).default(0),
+  permissionMode: z
+    .enum(["default", "acceptEdits", "plan", "bypassPermissions"])
+    .default("default"),
+  warmupPoolSize: z.coerce.number().int().min(0).default(0),
+  // Extended thinking budget per response for new sessions (0 = off)
+  thinkingBudget: z.coerce
+    .number()
+    .int()
+    .refine((tokens) => tokens === 0 || tokens >= 1024, "Must be 0 (off) or at least 1024")
+    .default(0),
+  // Spending limits, a run is interrupted when it goes past one (0 = unlimited)
+  sessionBudgetUsd: z.coerce.number().min(0).default(0),
+  sessionMaxTurns: z.coerce.number().int().min(0).default(0),
+  agentBudgetUsd: z.coerce.number().min(0).default(0),
+  // MCP servers of every session, sessions can turn single servers off ({} = none)
+  mcpServers: mcpServersSchema.default({
+    promptx: { command: "npx", args: ["-y", "@promptx/mcp-server"] },
+  }),
 
   // Optional Features
   logLevel: z.enum(["debug", "info", "warn", "error"]).default("info"),
@@ -0,0 +1,114 @@
+import type { ContextOptions, TokenUsage } from "~/types";
+
+/**
+ * Context window - how much of its model's window a session fills
+ *
+ * The size is the last main-thread response: its input (cache reads and
+ * writes included) is the whole conversation the model saw, its output is
+ * part of the next request. Subagents run in a context of their own and are
+ * not counted.
+ */
+
+/**
+ * Context window in tokens, keyed by model ID prefix (the longest prefix wins)
+ * Live sessions use the window the Claude SDK reports once a run has finished
+ */
+export const DEFAULT_CONTEXT_WINDOWS: Record<string, number> = {
+  "claude-opus-4": 200_000,
+  "claude-sonnet-4": 200_000,
+  "claude-haiku-4": 200_000,
+  "claude-3": 200_000,
+};
+
+// Models outside the table (aliases like "sonnet")
+const FALLBACK_CONTEXT_WINDOW = 200_000;
+// Model IDs the Claude CLI runs with the 1M token context beta
+const EXTENDED_CONTEXT_SUFFIX = "[1m]";
+const EXTENDED_CONTEXT_WINDOW = 1_000_000;
+
+const DEFAULT_WARNING_THRESHOLD = 0.8;
+const DEFAULT_AUTO_COMPACT_THRESHOLD = 0.9;
+
+/**
+ * Context options with the defaults filled in, window stays unset unless overridden
+ */
+export type ResolvedContextOptions = ContextOptions & Required<Omit<ContextOptions, "window">>;
+
+export function resolveContextOptions(options: ContextOptions = {}): ResolvedContextOptions {
+  const resolved = {
+    ...options,
+    warningThreshold: options.warningThreshold ?? DEFAULT_WARNING_THRESHOLD,
+    autoCompactThreshold: options.autoCompactThreshold ?? DEFAULT_AUTO_COMPACT_THRESHOLD,
+  };
+  if (
+    resolved.window !== undefined &&
+    (!Number.isInteger(resolved.window) || resolved.window <= 0)
+  ) {
+    throw new Error("Context window must be a positive number of tokens");
+  }
+  for (const threshold of ["warningThreshold", "autoCompactThreshold"] as const) {
+    const value = resolved[threshold];
+    if (typeof value !== "number" || !(value >= 0 && value <= 1)) {
+      throw new Error(`Context ${threshold} must be between 0 and 1`);
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Context window of a model, from the table above
+ */
+export function modelContextWindow(model: string): number {
+  if (model.endsWith(EXTENDED_CONTEXT_SUFFIX)) {
+    return EXTENDED_CONTEXT_WINDOW;
+  }
+  const prefix = Object.keys(DEFAULT_CONTEXT_WINDOWS)
+    .filter((key) => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? DEFAULT_CONTEXT_WINDOWS[prefix] : FALLBACK_CONTEXT_WINDOW;
+}
+
+/**
+ * Whether an SDK message or transcript entry is a response of the session model
+ * Subagent (sidechain) responses and synthetic ones (API errors written by the CLI) are not
+ */
+export function isContextResponse(entry: any): boolean {
+  return (
+    entry?.type === "assistant" &&
+    !entry.parent_tool_use_id &&
+    !entry.isSidechain &&
+    !!entry.message?.usage &&
+    entry.message.model !== "<synthetic>"
+  );
+}
+
+/**
+ * Context after one Claude API response (snake_case usage, as in transcripts)
+ */
+export function contextUsage(usage: any, total: number): TokenUsage {
+  const breakdown = {
+    input: usage.input_tokens || 0,
+    output: usage.output_tokens || 0,
+    cacheRead: usage.cache_read_input_tokens || 0,
+    cacheCreation: usage.cache_creation_input_tokens || 0,
+  };
+  return {
+    used: breakdown.input + breakdown.output + breakdown.cacheRead + breakdown.cacheCreation,
+    total,
+    breakdown,
+  };
+}
+
+/**
+ * Context with nothing in it, e.g. right after compaction until the next response
+ */
+export function emptyContextUsage(total: number): TokenUsage {
+  return { used: 0, total, breakdown: { input: 0, output: 0, cacheRead: 0, cacheCreation: 0 } };
+}
+
+/**
+ * Whether the context fills at least a share of its window, a threshold of 0 is off
+ */
+export function reachedThreshold(usage: TokenUsage, threshold: number): boolean {
+  return threshold > 0 && usage.total > 0 && usage.used >= usage.total * threshold;
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from "vitest";
+import type { Logger } from "@deepracticex/logger";
+import { HookRegistry } from "./hook-registry";
+
+const logger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+} as unknown as Logger;
+
+function toolUse(toolName: string) {
+  return { sessionId: "session-a", metadata: {}, toolName, input: {} };
+}
+
+describe("HookRegistry", () => {
+  it("should chain beforeSend rewrites in registration order and merge metadata", async () => {
+    const registry = new HookRegistry(
+      [
+        { beforeSend: ({ content }) => ({ content: `${content}!`, metadata: { first: true } }) },
+        { beforeSend: ({ content }) => ({ content: `[${content}]`, metadata: { second: true } }) },
+      ],
+      logger
+    );
+    const metadata = {};
+
+    const content = await registry.beforeSend({ sessionId: "session-a", metadata, content: "hi" });
+
+    expect(content).toBe("[hi!]");
+    expect(metadata).toEqual({ first: true, second: true });
+  });
+
+  it("should stop at the first deny and deny when a tool hook fails", async () => {
+    const later = vi.fn();
+    const registry = new HookRegistry(
+      [
+        { onToolUse: ({ toolName }) => (toolName === "Bash" ? { deny: "No shell" } : undefined) },
+        { onToolUse: later },
+      ],
+      logger
+    );
+
+    expect(await registry.onToolUse(toolUse("Bash"))).toBe("No shell");
+    expect(later).not.toHaveBeenCalled();
+    expect(await registry.onToolUse(toolUse("Read"))).toBeUndefined();
+    expect(later).toHaveBeenCalledTimes(1);
+
+    registry.use({
+      onToolUse: () => {
+        throw new Error("policy service down");
+      },
+    });
+    expect(await registry.onToolUse(toolUse("Read"))).toBe("Tool call denied: policy service down");
+  });
+
+  it("should keep going when an observing hook fails and remove hooks again", async () => {
+    const registry = new HookRegistry({}, logger);
+    const afterTurn = vi.fn(() => ({ metadata: { seen: true } }));
+    registry.use({
+      afterTurn: () => {
+        throw new Error("boom");
+      },
+    });
+    const remove = registry.use({ afterTurn });
+    const context = { sessionId: "session-a", metadata: {}, content: "hi", messages: [] };
+
+    await registry.afterTurn(context);
+    expect(context.metadata).toEqual({ seen: true });
+
+    remove();
+    expect(registry.has("afterTurn")).toBe(true);
+    await registry.afterTurn(context);
+    expect(afterTurn).toHaveBeenCalledTimes(1);
+  });
+});
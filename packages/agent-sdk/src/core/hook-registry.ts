@@ -0,0 +1,128 @@
+import type { Logger } from "@deepracticex/logger";
+import type {
+  AgentHooks,
+  AfterTurnContext,
+  BeforeSendContext,
+  HookContext,
+  HookResult,
+  MessageContent,
+  ToolResultContext,
+  ToolUseContext,
+  ToolUseResult,
+  TurnErrorContext,
+} from "~/types";
+
+/**
+ * HookRegistry - hooks of an agent, shared by all its sessions
+ *
+ * beforeSend and onToolUse decide what happens next: a failing beforeSend
+ * rejects send(), a failing onToolUse denies the call. The other hooks only
+ * observe, their failures are logged and the turn goes on.
+ */
+export class HookRegistry {
+  private entries: AgentHooks[] = [];
+
+  constructor(
+    hooks: AgentHooks | AgentHooks[] = [],
+    private readonly logger: Logger
+  ) {
+    (Array.isArray(hooks) ? hooks : [hooks]).forEach((entry) => this.use(entry));
+  }
+
+  /**
+   * Register hooks after the ones already registered
+   *
+   * @returns Removes them again
+   */
+  use(hooks: AgentHooks): () => void {
+    this.entries.push(hooks);
+    return () => {
+      this.entries = this.entries.filter((entry) => entry !== hooks);
+    };
+  }
+
+  has(kind: keyof AgentHooks): boolean {
+    return this.entries.some((hooks) => hooks[kind]);
+  }
+
+  /**
+   * Run beforeSend hooks, each gets the content the one before returned
+   */
+  async beforeSend(context: BeforeSendContext): Promise<MessageContent> {
+    let content = context.content;
+    for (const hooks of this.entries) {
+      if (!hooks.beforeSend) {
+        continue;
+      }
+      const result = await hooks.beforeSend({ ...context, content });
+      mergeMetadata(context, result);
+      if (result?.content !== undefined) {
+        content = result.content;
+      }
+    }
+    return content;
+  }
+
+  /**
+   * Run onToolUse hooks until one denies the call
+   *
+   * @returns The reason of the deny, undefined when the call may run
+   */
+  async onToolUse(context: ToolUseContext): Promise<string | undefined> {
+    for (const hooks of this.entries) {
+      if (!hooks.onToolUse) {
+        continue;
+      }
+      let result: ToolUseResult | void;
+      try {
+        result = await hooks.onToolUse(context);
+      } catch (err) {
+        this.logger.warn(
+          { err, sessionId: context.sessionId, toolName: context.toolName },
+          "onToolUse hook failed, denying tool call"
+        );
+        return `Tool call denied: ${err instanceof Error ? err.message : String(err)}`;
+      }
+      mergeMetadata(context, result);
+      if (result?.deny !== undefined) {
+        return result.deny;
+      }
+    }
+    return undefined;
+  }
+
+  async onToolResult(context: ToolResultContext): Promise<void> {
+    await this.observe("onToolResult", context);
+  }
+
+  async afterTurn(context: AfterTurnContext): Promise<void> {
+    await this.observe("afterTurn", context);
+  }
+
+  async onError(context: TurnErrorContext): Promise<void> {
+    await this.observe("onError", context);
+  }
+
+  private async observe<K extends "onToolResult" | "afterTurn" | "onError">(
+    kind: K,
+    context: Parameters<NonNullable<AgentHooks[K]>>[0]
+  ): Promise<void> {
+    for (const hooks of this.entries) {
+      const hook = hooks[kind] as ((context: HookContext) => unknown) | undefined;
+      if (!hook) {
+        continue;
+      }
+      try {
+        mergeMetadata(context, (await hook(context)) as HookResult | void);
+      } catch (err) {
+        this.logger.warn({ err, sessionId: context.sessionId }, `${kind} hook failed`);
+      }
+    }
+  }
+}
+
+function mergeMetadata(context: HookContext, result: HookResult | void): void {
+  if (result?.metadata) {
+    Object.assign(context.metadata, result.metadata);
+  }
+}
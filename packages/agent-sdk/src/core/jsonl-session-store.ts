@@ -0,0 +1,343 @@
+import { promises as fs } from "fs";
+import fsSync from "fs";
+import path from "path";
+import readline from "readline";
+import type {
+  AnyMessage,
+  SessionMetadata,
+  TokenUsage,
+  TurnUsage,
+  SessionStore,
+  StoredSession,
+  StoredSessionInfo,
+  ToolUseMessage,
+  UserMessage,
+} from "~/types";
+import { applySDKMessage } from "./message-transformer";
+import { addApiUsage } from "./session-cost";
+import {
+  contextUsage,
+  emptyContextUsage,
+  isContextResponse,
+  modelContextWindow,
+} from "./context-window";
+import { FORK_ENTRY_TYPE } from "./transcript";
+import { SUMMARY_MESSAGE_COUNT, summarize } from "./session-summary";
+import type { Logger } from "@deepracticex/logger";
+
+/**
+ * Transcript file of a session, without parsing it
+ */
+export interface TranscriptFile {
+  id: string;
+  updatedAt: Date; // File mtime
+}
+
+/**
+ * JsonlSessionStore - reads Claude CLI transcripts
+ * (~/.claude/projects/<encoded-workspace>/<sessionId>.jsonl)
+ *
+ * Transcripts are written by the Claude CLI itself, so save() has nothing to do.
+ * list() only reads the start of each transcript (metadata and summary).
+ * Subagent runs are written to agent-*.jsonl next to it, load() nests them under their Task call.
+ */
+export class JsonlSessionStore implements SessionStore {
+  private logger: Logger;
+
+  constructor(
+    private readonly sessionDir: string,
+    private readonly workspace: string, // Fallback projectPath for transcripts without cwd
+    logger: Logger
+  ) {
+    this.logger = logger;
+  }
+
+  transcriptPath(sessionId: string): string {
+    return path.join(this.sessionDir, `${sessionId}.jsonl`);
+  }
+
+  /**
+   * Session transcripts in the directory
+   * Skips SDK warmup/subagent transcripts (agent-*)
+   */
+  async listTranscripts(): Promise<TranscriptFile[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.sessionDir);
+    } catch (error) {
+      // Directory might not exist for new projects
+      if ((error as any).code === "ENOENT") {
+        this.logger.debug({ sessionDir: this.sessionDir }, "Session directory does not exist");
+        return [];
+      }
+      throw error;
+    }
+
+    const transcripts: TranscriptFile[] = [];
+    for (const file of files) {
+      const id = path.basename(file, ".jsonl");
+      if (!file.endsWith(".jsonl") || isWarmupSession(id)) {
+        continue;
+      }
+      const transcript = await this.statTranscript(id);
+      if (transcript) {
+        transcripts.push(transcript);
+      }
+    }
+    return transcripts;
+  }
+
+  /**
+   * @returns null if the session has no transcript
+   */
+  async statTranscript(sessionId: string): Promise<TranscriptFile | null> {
+    try {
+      const stats = await fs.stat(this.transcriptPath(sessionId));
+      return { id: sessionId, updatedAt: stats.mtime };
+    } catch (error) {
+      if ((error as any).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Index header of a transcript: metadata and summary from its first messages
+   *
+   * @returns null for transcripts without messages (prewarmed queries that were never claimed)
+   */
+  async readHeader(transcript: TranscriptFile): Promise<StoredSessionInfo | null> {
+    const filePath = this.transcriptPath(transcript.id);
+    const reader = new TranscriptReader();
+    const fileStream = fsSync.createReadStream(filePath);
+    const rl = readline.createInterface({
+      input: fileStream,
+      crlfDelay: Infinity,
+    });
+
+    try {
+      for await (const line of rl) {
+        reader.add(line);
+        if (reader.hasMetadata() && reader.messages.length >= SUMMARY_MESSAGE_COUNT) {
+          break;
+        }
+      }
+    } catch (error) {
+      this.logger.error({ err: error, filePath }, "Failed to read session header");
+      return null;
+    } finally {
+      rl.close();
+      fileStream.destroy();
+    }
+
+    if (reader.messages.length === 0) {
+      return null;
+    }
+    return {
+      id: transcript.id,
+      metadata: reader.metadata(this.workspace),
+      summary: summarize(reader.messages),
+      updatedAt: transcript.updatedAt,
+    };
+  }
+
+  async list(): Promise<StoredSessionInfo[]> {
+    const infos: StoredSessionInfo[] = [];
+    for (const transcript of await this.listTranscripts()) {
+      const info = await this.readHeader(transcript);
+      if (info) {
+        infos.push(info);
+      }
+    }
+    return infos;
+  }
+
+  load(sessionId: string): StoredSession | null {
+    const filePath = this.transcriptPath(sessionId);
+    try {
+      const updatedAt = fsSync.statSync(filePath).mtime;
+      const reader = new TranscriptReader();
+      for (const line of fsSync.readFileSync(filePath, "utf-8").split("\n")) {
+        reader.add(line);
+      }
+      this.attachSubagentTranscripts(sessionId, reader.messages);
+      return {
+        id: sessionId,
+        metadata: reader.metadata(this.workspace),
+        messages: reader.messages,
+        tokenUsage: reader.tokenUsage,
+        turns: reader.turns,
+        updatedAt,
+      };
+    } catch (error) {
+      if ((error as any).code === "ENOENT") return null;
+      this.logger.error({ err: error, filePath, sessionId }, "Failed to parse session file");
+      return null;
+    }
+  }
+
+  /**
+   * Nest the subagent transcripts of a session under the Task calls that started them
+   * Linked by the agentId of the Task result, or by the prompt of the Task call
+   */
+  private attachSubagentTranscripts(sessionId: string, messages: AnyMessage[]): void {
+    const tasks = messages.filter(
+      (message): message is ToolUseMessage =>
+        message.type === "tool_use" && message.toolName === "Task" && !message.subagentMessages
+    );
+    if (tasks.length === 0) {
+      return;
+    }
+
+    for (const file of fsSync.readdirSync(this.sessionDir)) {
+      const agentId = path.basename(file, ".jsonl");
+      if (!file.endsWith(".jsonl") || !isWarmupSession(agentId)) continue;
+
+      const lines = fsSync.readFileSync(path.join(this.sessionDir, file), "utf-8").split("\n");
+      if (parseEntry(lines[0])?.sessionId !== sessionId) continue;
+
+      const subagentMessages: AnyMessage[] = [];
+      for (const line of lines) {
+        const entry = parseEntry(line);
+        if (entry) {
+          applySDKMessage(subagentMessages, entry);
+        }
+      }
+      const prompt = subagentMessages.find(
+        (message): message is UserMessage => message.type === "user"
+      )?.content;
+      const task =
+        tasks.find((candidate) => resultAgentId(candidate) === agentId.slice("agent-".length)) ||
+        tasks.find(
+          (candidate) =>
+            !candidate.subagentMessages && prompt && candidate.toolInput.prompt === prompt
+        );
+      if (task) {
+        task.subagentMessages = subagentMessages;
+      }
+    }
+  }
+
+  async save(_session: StoredSession): Promise<void> {
+    // Transcripts are written by the Claude CLI
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    const filePath = this.transcriptPath(sessionId);
+    try {
+      await fs.unlink(filePath);
+      this.logger.debug({ sessionId, filePath }, "Deleted session file");
+    } catch (error) {
+      if ((error as any).code !== "ENOENT") {
+        throw error;
+      }
+    }
+  }
+
+  close(): void {
+    // Nothing to release
+  }
+}
+
+function parseEntry(line: string | undefined): any {
+  if (!line?.trim()) return null;
+  try {
+    return JSON.parse(line);
+  } catch (_parseError) {
+    return null;
+  }
+}
+
+function resultAgentId(task: ToolUseMessage): string | undefined {
+  return (task.toolResult?.toolUseResult as { agentId?: string } | undefined)?.agentId;
+}
+
+/**
+ * Collects session data from transcript lines, in file order
+ */
+class TranscriptReader {
+  readonly messages: AnyMessage[] = [];
+  tokenUsage: TokenUsage = emptyContextUsage(modelContextWindow("unknown"));
+  readonly turns: TurnUsage[] = [];
+  private countedResponses = new Set<string>(); // Responses split over several entries repeat their usage
+  private firstEntry: SessionMetadata | null = null;
+  private fork: Pick<SessionMetadata, "parentSessionId" | "forkedFromMessageId"> = {};
+
+  hasMetadata(): boolean {
+    return this.firstEntry !== null;
+  }
+
+  metadata(workspace: string): SessionMetadata {
+    const metadata = this.firstEntry || {
+      projectPath: workspace,
+      model: "unknown",
+      startTime: new Date(),
+    };
+    return { ...metadata, ...this.fork };
+  }
+
+  add(line: string): void {
+    if (!line.trim()) return;
+
+    let entry: any;
+    try {
+      entry = JSON.parse(line);
+    } catch (_parseError) {
+      // Skip malformed lines
+      return;
+    }
+
+    // Written by forkSession(), links the transcript to its parent
+    if (entry.type === FORK_ENTRY_TYPE) {
+      this.fork = {
+        parentSessionId: entry.parentSessionId,
+        forkedFromMessageId: entry.forkedFromMessageId,
+      };
+      return;
+    }
+
+    // Extract metadata from first entry
+    if (!this.firstEntry && entry.cwd) {
+      this.firstEntry = {
+        projectPath: entry.cwd,
+        model: entry.message?.model || "unknown",
+        startTime: new Date(entry.timestamp || Date.now()),
+      };
+    }
+
+    // Same transform as live sessions, tool results are paired onto their tool use
+    const added = applySDKMessage(this.messages, entry);
+
+    // Each prompt starts a turn, the responses answering it are counted on it
+    if (added.some((message) => message.type === "user")) {
+      this.turns.push({ timestamp: added[0].timestamp, models: {} });
+    }
+    const response = entry.message;
+    if (entry.type === "assistant" && response?.usage && !this.countedResponses.has(response.id)) {
+      if (response.id) {
+        this.countedResponses.add(response.id);
+      }
+      if (this.turns.length === 0) {
+        this.turns.push({ timestamp: new Date(entry.timestamp || Date.now()), models: {} });
+      }
+      addApiUsage(this.turns[this.turns.length - 1], response.model || "unknown", response.usage);
+    }
+
+    // Context size: the last response of the session model, emptied by compaction
+    if (entry.type === "system" && entry.subtype === "compact_boundary") {
+      this.tokenUsage = emptyContextUsage(this.tokenUsage.total);
+    } else if (isContextResponse(entry)) {
+      this.tokenUsage = contextUsage(
+        response.usage,
+        modelContextWindow(response.model || "unknown")
+      );
+    }
+  }
+}
+
+/**
+ * Check if a session ID represents a warmup/subagent session
+ * Warmup sessions have IDs like "agent-{shortId}" (e.g., agent-8c147a19)
+ */
+export function isWarmupSession(sessionId: string): boolean {
+  return sessionId.startsWith("agent-") && sessionId.length < 20;
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { normalizeContent, splitContent, toSDKContent, fromSDKContent } from "./message-content";
+import type { ContentBlock } from "~/types";
+
+const blocks: ContentBlock[] = [
+  { type: "text", text: "Summarize these" },
+  { type: "document", mediaType: "application/pdf", data: "JVBERi0=", name: "report.pdf" },
+  { type: "document", mediaType: "text/plain", data: "hello", name: "notes.txt" },
+];
+
+describe("message-content", () => {
+  it("should treat a string as a single text block", () => {
+    expect(normalizeContent("hi")).toEqual([{ type: "text", text: "hi" }]);
+  });
+
+  it("should reject unsupported document types", () => {
+    expect(() =>
+      normalizeContent([{ type: "document", mediaType: "application/zip" as any, data: "" }])
+    ).toThrow("Unsupported document type: application/zip");
+  });
+
+  it("should split text from attachments", () => {
+    const { text, attachments } = splitContent(blocks);
+
+    expect(text).toBe("Summarize these");
+    expect(attachments).toEqual(blocks.slice(1));
+  });
+
+  it("should map documents to base64 and plain text sources", () => {
+    expect(toSDKContent(blocks).slice(1)).toEqual([
+      {
+        type: "document",
+        source: { type: "base64", media_type: "application/pdf", data: "JVBERi0=" },
+        title: "report.pdf",
+      },
+      {
+        type: "document",
+        source: { type: "text", media_type: "text/plain", data: "hello" },
+        title: "notes.txt",
+      },
+    ]);
+  });
+
+  it("should round-trip attachments through Claude API content", () => {
+    const image: ContentBlock = { type: "image", mediaType: "image/jpeg", data: "/9j/" };
+
+    expect(fromSDKContent(toSDKContent([...blocks, image]))).toEqual([...blocks.slice(1), image]);
+    expect(fromSDKContent("plain text")).toEqual([]);
+  });
+});
@@ -0,0 +1,101 @@
+import type {
+  Attachment,
+  ContentBlock,
+  MessageContent,
+  ImageMediaType,
+  DocumentMediaType,
+} from "~/types";
+
+const IMAGE_MEDIA_TYPES: ImageMediaType[] = ["image/jpeg", "image/png", "image/gif", "image/webp"];
+const DOCUMENT_MEDIA_TYPES: DocumentMediaType[] = ["application/pdf", "text/plain"];
+
+/**
+ * Normalize Session.send() input into content blocks
+ * Validates attachment media types so bad input fails before reaching the SDK
+ */
+export function normalizeContent(content: MessageContent): ContentBlock[] {
+  if (typeof content === "string") {
+    return [{ type: "text", text: content }];
+  }
+
+  for (const block of content) {
+    if (block.type === "image" && !IMAGE_MEDIA_TYPES.includes(block.mediaType)) {
+      throw new Error(`Unsupported image type: ${block.mediaType}`);
+    }
+    if (block.type === "document" && !DOCUMENT_MEDIA_TYPES.includes(block.mediaType)) {
+      throw new Error(`Unsupported document type: ${block.mediaType}`);
+    }
+  }
+
+  return content;
+}
+
+/**
+ * Split content blocks into display text and attachments
+ */
+export function splitContent(blocks: ContentBlock[]): { text: string; attachments: Attachment[] } {
+  const text = blocks
+    .filter((block) => block.type === "text")
+    .map((block) => block.text)
+    .join("\n");
+  const attachments = blocks.filter((block): block is Attachment => block.type !== "text");
+
+  return { text, attachments };
+}
+
+/**
+ * Convert content blocks to Claude API content block params
+ */
+export function toSDKContent(blocks: ContentBlock[]): any[] {
+  return blocks.map((block) => {
+    switch (block.type) {
+      case "text":
+        return { type: "text", text: block.text };
+
+      case "image":
+        return {
+          type: "image",
+          source: { type: "base64", media_type: block.mediaType, data: block.data },
+        };
+
+      case "document":
+        return {
+          type: "document",
+          source:
+            block.mediaType === "text/plain"
+              ? { type: "text", media_type: "text/plain", data: block.data }
+              : { type: "base64", media_type: block.mediaType, data: block.data },
+          ...(block.name && { title: block.name }),
+        };
+    }
+  });
+}
+
+/**
+ * Extract attachments from Claude API content (live stream or JSONL history)
+ */
+export function fromSDKContent(content: string | Array<any>): Attachment[] {
+  if (!Array.isArray(content)) {
+    return [];
+  }
+
+  const attachments: Attachment[] = [];
+  for (const block of content) {
+    if (block.type === "image" && block.source?.type === "base64") {
+      attachments.push({
+        type: "image",
+        mediaType: block.source.media_type,
+        data: block.source.data,
+      });
+    } else if (block.type === "document" && block.source) {
+      attachments.push({
+        type: "document",
+        mediaType: block.source.media_type,
+        data: block.source.data,
+        ...(block.title && { name: block.title }),
+      });
+    }
+  }
+
+  return attachments;
+}
@@ -0,0 +1,241 @@
+import { describe, it, expect } from "vitest";
+import type { AnyMessage, ToolUseMessage } from "~/types";
+import { applySDKMessage } from "./message-transformer";
+
+const timestamp = "2025-01-01T00:00:00.000Z";
+
+const assistantEntry = {
+  type: "assistant",
+  uuid: "a1",
+  timestamp,
+  message: {
+    role: "assistant",
+    content: [
+      { type: "thinking", thinking: "The build script is in package.json", signature: "sig" },
+      { type: "text", text: "Let me run the build." },
+      { type: "tool_use", id: "toolu_1", name: "Bash", input: { command: "pnpm build" } },
+    ],
+  },
+};
+
+const toolResultEntry = {
+  type: "user",
+  uuid: "u2",
+  timestamp,
+  message: {
+    role: "user",
+    content: [
+      {
+        type: "tool_result",
+        tool_use_id: "toolu_1",
+        content: [{ type: "text", text: "Build failed" }],
+        is_error: true,
+      },
+    ],
+  },
+  toolUseResult: { stdout: "", stderr: "Build failed" },
+};
+
+describe("applySDKMessage", () => {
+  it("should split assistant content into thinking, text and tool_use messages", () => {
+    const messages: AnyMessage[] = [];
+    const added = applySDKMessage(messages, assistantEntry);
+
+    expect(added).toEqual(messages);
+    expect(messages).toEqual([
+      {
+        id: "a1",
+        type: "thinking",
+        content: "The build script is in package.json",
+        timestamp: new Date(timestamp),
+      },
+      {
+        id: "a1:1",
+        type: "assistant",
+        content: "Let me run the build.",
+        timestamp: new Date(timestamp),
+      },
+      {
+        id: "a1:2",
+        type: "tool_use",
+        toolId: "toolu_1",
+        toolName: "Bash",
+        toolInput: { command: "pnpm build" },
+        toolResult: null,
+        timestamp: new Date(timestamp),
+      },
+    ]);
+  });
+
+  it("should pair tool results onto their tool_use message", () => {
+    const messages: AnyMessage[] = [];
+    applySDKMessage(messages, assistantEntry);
+
+    expect(applySDKMessage(messages, toolResultEntry)).toEqual([]);
+    expect(messages).toHaveLength(3);
+    expect(messages[2]).toMatchObject({
+      type: "tool_use",
+      toolResult: {
+        content: "Build failed",
+        isError: true,
+        timestamp: new Date(timestamp),
+        toolUseResult: { stdout: "", stderr: "Build failed" },
+      },
+    });
+  });
+
+  it("should transform live stream messages without uuid or timestamp", () => {
+    const messages: AnyMessage[] = [];
+    applySDKMessage(messages, {
+      type: "user",
+      session_id: "s1",
+      parent_tool_use_id: null,
+      message: { role: "user", content: "Fix the build" },
+    });
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toMatchObject({ type: "user", content: "Fix the build" });
+    expect(messages[0].id).toMatch(/^user-/);
+    expect(messages[0].timestamp).toBeInstanceOf(Date);
+  });
+
+  it("should keep system notices and skip query bookkeeping", () => {
+    const messages: AnyMessage[] = [];
+    applySDKMessage(messages, { type: "system", subtype: "init", uuid: "s1" });
+    applySDKMessage(messages, {
+      type: "system",
+      subtype: "compact_boundary",
+      uuid: "s2",
+      timestamp,
+      content: "Conversation compacted",
+    });
+
+    expect(messages).toEqual([
+      {
+        id: "s2",
+        type: "system",
+        subtype: "compact_boundary",
+        content: "Conversation compacted",
+        timestamp: new Date(timestamp),
+      },
+    ]);
+  });
+
+  it("should mark compaction boundaries and skip the summary the session goes on from", () => {
+    const messages: AnyMessage[] = [];
+    applySDKMessage(messages, {
+      type: "system",
+      subtype: "compact_boundary",
+      uuid: "s1",
+      timestamp,
+      compact_metadata: { trigger: "auto", pre_tokens: 150000 },
+    });
+    applySDKMessage(messages, {
+      type: "user",
+      uuid: "u1",
+      timestamp,
+      isCompactSummary: true,
+      message: {
+        role: "user",
+        content: "This session is being continued from a previous conversation...",
+      },
+    });
+
+    expect(messages).toEqual([
+      {
+        id: "s1",
+        type: "system",
+        subtype: "compact_boundary",
+        content: "Conversation compacted",
+        compaction: { trigger: "auto", preTokens: 150000 },
+        timestamp: new Date(timestamp),
+      },
+    ]);
+  });
+
+  it("should turn failed results and API errors into error messages", () => {
+    const messages: AnyMessage[] = [];
+    applySDKMessage(messages, {
+      type: "result",
+      subtype: "success",
+      is_error: false,
+      result: "Done",
+    });
+    // Interrupted by abort()
+    applySDKMessage(messages, {
+      type: "result",
+      subtype: "error_during_execution",
+      is_error: true,
+    });
+    applySDKMessage(messages, {
+      type: "result",
+      subtype: "error_max_turns",
+      is_error: true,
+      uuid: "r1",
+    });
+    applySDKMessage(messages, {
+      type: "assistant",
+      uuid: "a2",
+      isApiErrorMessage: true,
+      message: {
+        role: "assistant",
+        content: [{ type: "text", text: "API Error: 529 Overloaded" }],
+      },
+    });
+
+    expect(messages.map((m) => [m.id, m.type, "content" in m && m.content])).toEqual([
+      ["r1", "error", "Run failed: error_max_turns"],
+      ["a2", "error", "API Error: 529 Overloaded"],
+    ]);
+  });
+
+  it("should nest subagent output under the Task call that started it", () => {
+    const messages: AnyMessage[] = [];
+    applySDKMessage(messages, {
+      type: "assistant",
+      uuid: "a1",
+      message: {
+        role: "assistant",
+        content: [
+          {
+            type: "tool_use",
+            id: "toolu_task",
+            name: "Task",
+            input: { subagent_type: "reviewer", prompt: "Review the diff" },
+          },
+        ],
+      },
+    });
+
+    const subagentEntries = [
+      {
+        type: "user",
+        uuid: "s1",
+        parent_tool_use_id: "toolu_task",
+        message: { role: "user", content: [{ type: "text", text: "Review the diff" }] },
+      },
+      { ...assistantEntry, uuid: "s2", parent_tool_use_id: "toolu_task" },
+      { ...toolResultEntry, uuid: "s3", parent_tool_use_id: "toolu_task" },
+    ];
+    for (const entry of subagentEntries) {
+      expect(applySDKMessage(messages, entry)).toEqual([]);
+    }
+    // Task call is gone (rewind), its subagent output is dropped
+    expect(
+      applySDKMessage(messages, { ...assistantEntry, parent_tool_use_id: "toolu_gone" })
+    ).toEqual([]);
+
+    expect(messages).toHaveLength(1);
+    const task = messages[0] as ToolUseMessage;
+    expect(task.subagentMessages?.map((m) => [m.id, m.type])).toEqual([
+      ["s1", "user"],
+      ["s2", "thinking"],
+      ["s2:1", "assistant"],
+      ["s2:2", "tool_use"],
+    ]);
+    expect((task.subagentMessages?.[3] as ToolUseMessage).toolResult).toMatchObject({
+      content: "Build failed",
+      isError: true,
+    });
+  });
+});
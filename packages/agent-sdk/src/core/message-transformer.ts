@@ -0,0 +1,222 @@
+import type { AnyMessage, Compaction, ToolUseMessage } from "~/types";
+import { fromSDKContent } from "./message-content";
+
+/**
+ * Message transformer - turns Claude SDK output into session messages
+ *
+ * Shared by live sessions (SDK stream messages) and JSONL history (transcript
+ * entries use the same shape plus uuid/timestamp), so a session reads the same
+ * whether it ran in this process or was loaded from disk.
+ *
+ * - user prompt        -> UserMessage
+ * - assistant blocks   -> AssistantMessage (text), ThinkingMessage, ToolUseMessage
+ * - tool_result blocks -> paired onto their ToolUseMessage, no message of their own
+ * - system notices     -> SystemMessage (query bookkeeping like init is skipped),
+ *                         compact_boundary with where and why the session was compacted
+ * - failed results     -> ErrorMessage (max turns/budget reached, API errors)
+ * - subagent output     -> nested under the Task call that started it (parent_tool_use_id)
+ */
+
+const SKIPPED_SYSTEM_SUBTYPES = ["init", "hook_response"];
+
+/**
+ * Apply one SDK message or transcript entry to a message list
+ *
+ * @returns The messages appended to the list
+ */
+export function applySDKMessage(messages: AnyMessage[], sdkMessage: any): AnyMessage[] {
+  if (sdkMessage?.parent_tool_use_id) {
+    // Subagent runs have a transcript of their own, dropped if the Task call was cut by rewind
+    const task = findToolUse(messages, sdkMessage.parent_tool_use_id);
+    if (task) {
+      task.subagentMessages ??= [];
+      applySDKMessage(task.subagentMessages, { ...sdkMessage, parent_tool_use_id: null });
+    }
+    return [];
+  }
+
+  const added = transformSDKMessage(sdkMessage);
+  if (sdkMessage?.type === "user") {
+    pairToolResults(messages, sdkMessage);
+  }
+  messages.push(...added);
+  return added;
+}
+
+/**
+ * Messages for one SDK message or transcript entry, without tool results
+ */
+function transformSDKMessage(sdkMessage: any): AnyMessage[] {
+  const timestamp = sdkMessage?.timestamp ? new Date(sdkMessage.timestamp) : new Date();
+  const baseId = sdkMessage?.uuid || `${sdkMessage?.type}-${timestamp.getTime()}`;
+
+  switch (sdkMessage?.type) {
+    case "user": {
+      const content = sdkMessage.message?.content;
+      // The summary a compacted session goes on from is not a prompt, the boundary marks it
+      if (hasToolResults(content) || sdkMessage.isCompactSummary || sdkMessage.isSynthetic) {
+        return [];
+      }
+      const attachments = fromSDKContent(content);
+      return [
+        {
+          id: baseId,
+          type: "user",
+          content: textOf(content),
+          ...(attachments.length > 0 && { attachments }),
+          timestamp,
+        },
+      ];
+    }
+
+    case "assistant": {
+      const content = sdkMessage.message?.content;
+      // API errors are written to transcripts as assistant text
+      if (sdkMessage.isApiErrorMessage) {
+        return [{ id: baseId, type: "error", content: textOf(content), timestamp }];
+      }
+      if (!Array.isArray(content)) {
+        const text = textOf(content);
+        return text ? [{ id: baseId, type: "assistant", content: text, timestamp }] : [];
+      }
+
+      const results: AnyMessage[] = [];
+      // One message per block, the first keeps the SDK uuid so fork/rewind can find it
+      const nextId = () => (results.length === 0 ? baseId : `${baseId}:${results.length}`);
+      for (const block of content) {
+        if (block.type === "text" && block.text) {
+          results.push({ id: nextId(), type: "assistant", content: block.text, timestamp });
+        } else if (block.type === "thinking" && block.thinking) {
+          results.push({ id: nextId(), type: "thinking", content: block.thinking, timestamp });
+        } else if (block.type === "tool_use") {
+          results.push({
+            id: nextId(),
+            type: "tool_use",
+            toolId: block.id,
+            toolName: block.name,
+            toolInput: block.input ?? {},
+            toolResult: null,
+            timestamp,
+          });
+        }
+      }
+      return results;
+    }
+
+    case "system": {
+      if (SKIPPED_SYSTEM_SUBTYPES.includes(sdkMessage.subtype)) {
+        return [];
+      }
+      const compaction = compactionOf(sdkMessage);
+      return [
+        {
+          id: baseId,
+          type: "system",
+          subtype: sdkMessage.subtype || "notice",
+          content:
+            typeof sdkMessage.content === "string"
+              ? sdkMessage.content
+              : sdkMessage.subtype === "compact_boundary"
+                ? "Conversation compacted"
+                : "",
+          ...(compaction && { compaction }),
+          timestamp,
+        },
+      ];
+    }
+
+    case "result":
+      // Interrupted runs end with error_during_execution, aborting is not a failure
+      if (sdkMessage.subtype === "success" || sdkMessage.subtype === "error_during_execution") {
+        return [];
+      }
+      return [
+        {
+          id: baseId,
+          type: "error",
+          content:
+            typeof sdkMessage.result === "string" && sdkMessage.result
+              ? sdkMessage.result
+              : `Run failed: ${sdkMessage.subtype}`,
+          timestamp,
+        },
+      ];
+
+    default:
+      return [];
+  }
+}
+
+/**
+ * Attach the tool_result blocks of a user message to their tool calls
+ * Results whose call is not in the list (cut by rewind) are dropped
+ */
+function pairToolResults(messages: AnyMessage[], sdkMessage: any): void {
+  const content = sdkMessage.message?.content;
+  if (!hasToolResults(content)) {
+    return;
+  }
+
+  const timestamp = sdkMessage.timestamp ? new Date(sdkMessage.timestamp) : new Date();
+  for (const block of content) {
+    if (block.type !== "tool_result") continue;
+
+    const toolUse = findToolUse(messages, block.tool_use_id);
+    if (!toolUse) continue;
+
+    toolUse.toolResult = {
+      content: textOf(block.content),
+      isError: block.is_error || false,
+      timestamp,
+      // Recorded per entry, which holds a single tool result
+      ...(sdkMessage.toolUseResult !== undefined && {
+        toolUseResult: sdkMessage.toolUseResult,
+      }),
+    };
+  }
+}
+
+/**
+ * Compaction details of a compact_boundary, camelCase in transcripts and snake_case in the SDK stream
+ */
+function compactionOf(sdkMessage: any): Compaction | undefined {
+  const metadata = sdkMessage.compactMetadata || sdkMessage.compact_metadata;
+  if (sdkMessage.subtype !== "compact_boundary" || !metadata) {
+    return undefined;
+  }
+  return {
+    trigger: metadata.trigger === "auto" ? "auto" : "manual",
+    preTokens: metadata.preTokens ?? metadata.pre_tokens ?? 0,
+  };
+}
+
+function hasToolResults(content: unknown): content is any[] {
+  return Array.isArray(content) && content.some((block) => block?.type === "tool_result");
+}
+
+function findToolUse(messages: AnyMessage[], toolId: string): ToolUseMessage | undefined {
+  // Results follow their call closely, search from the end
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (message.type === "tool_use" && message.toolId === toolId) {
+      return message;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Text blocks of Claude API content, joined
+ */
+function textOf(content: unknown): string {
+  if (typeof content === "string") {
+    return content;
+  }
+  if (!Array.isArray(content)) {
+    return "";
+  }
+  return content
+    .filter((block) => block?.type === "text" && typeof block.text === "string")
+    .map((block) => block.text)
+    .join("\n");
+}
@@ -0,0 +1,234 @@
+import { describe, it, expect, vi } from "vitest";
+import type { Logger } from "@deepracticex/logger";
+import { PermissionManager } from "./permission-manager";
+import type { PermissionEvent } from "~/types";
+
+const logger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+} as unknown as Logger;
+
+function ask(manager: PermissionManager, toolName: string, signal = new AbortController().signal) {
+  return manager.canUseTool(toolName, { command: "ls" }, { signal, toolUseID: `use-${toolName}` });
+}
+
+const signal = new AbortController().signal;
+
+function collectEvents(manager: PermissionManager): PermissionEvent[] {
+  const events: PermissionEvent[] = [];
+  manager.events$().subscribe((event) => events.push(event));
+  return events;
+}
+
+describe("PermissionManager", () => {
+  it("should emit a request and wait for the user decision", async () => {
+    const manager = new PermissionManager("default", logger);
+    const events = collectEvents(manager);
+
+    const result = ask(manager, "Bash");
+
+    expect(events).toHaveLength(1);
+    expect(events[0].type).toBe("requested");
+    const [request] = manager.getPending();
+    expect(request.toolName).toBe("Bash");
+
+    expect(manager.respond(request.id, { behavior: "allow" })).toBe(true);
+
+    await expect(result).resolves.toEqual({ behavior: "allow", updatedInput: { command: "ls" } });
+    expect(manager.getPending()).toHaveLength(0);
+    expect(events[1]).toEqual({
+      type: "resolved",
+      requestId: request.id,
+      decision: { behavior: "allow", scope: "once" },
+    });
+  });
+
+  it("should not remember one-off decisions", async () => {
+    const manager = new PermissionManager("default", logger);
+
+    const first = ask(manager, "Bash");
+    manager.respond(manager.getPending()[0].id, { behavior: "allow" });
+    await first;
+
+    void ask(manager, "Bash");
+    expect(manager.getPending()).toHaveLength(1);
+    expect(manager.getRules()).toEqual([]);
+  });
+
+  it("should remember session allows for the exact Bash command without suggestions", async () => {
+    const manager = new PermissionManager("default", logger);
+
+    const first = ask(manager, "Bash");
+    manager.respond(manager.getPending()[0].id, { behavior: "allow", scope: "session" });
+    await expect(first).resolves.toMatchObject({
+      behavior: "allow",
+      updatedPermissions: [
+        {
+          type: "addRules",
+          rules: [{ toolName: "Bash", ruleContent: "ls" }],
+          behavior: "allow",
+          destination: "session",
+        },
+      ],
+    });
+
+    await expect(ask(manager, "Bash")).resolves.toMatchObject({ behavior: "allow" });
+    expect(manager.getPending()).toHaveLength(0);
+    expect(manager.getRules()).toEqual([
+      { toolName: "Bash", behavior: "allow", ruleContent: "ls" },
+    ]);
+
+    void manager.canUseTool("Bash", { command: "rm -rf /" }, { signal, toolUseID: "use-2" });
+    expect(manager.getPending()).toHaveLength(1);
+  });
+
+  it("should remember session allows no broader than the suggested Bash prefix", async () => {
+    const manager = new PermissionManager("default", logger);
+    const suggestions = [
+      {
+        type: "addRules" as const,
+        rules: [{ toolName: "Bash", ruleContent: "npm test:*" }],
+        behavior: "allow" as const,
+        destination: "session" as const,
+      },
+    ];
+
+    const first = manager.canUseTool(
+      "Bash",
+      { command: "npm test" },
+      { signal, suggestions, toolUseID: "use-1" }
+    );
+    manager.respond(manager.getPending()[0].id, { behavior: "allow", scope: "always" });
+    await first;
+
+    const run = (command: string) =>
+      manager.canUseTool("Bash", { command }, { signal, toolUseID: command });
+    await expect(run("npm test -- --watch=false")).resolves.toMatchObject({ behavior: "allow" });
+    expect(manager.getPending()).toHaveLength(0);
+
+    void run("npm testing");
+    void run("npm test && rm -rf /");
+    void run("curl example.com");
+    expect(manager.getPending().map((request) => request.input.command)).toEqual([
+      "npm testing",
+      "npm test && rm -rf /",
+      "curl example.com",
+    ]);
+  });
+
+  it("should remember the exact input when the suggestion is not a rule of the tool", async () => {
+    const manager = new PermissionManager("default", logger);
+    const suggestions = [
+      {
+        type: "addDirectories" as const,
+        directories: ["/tmp"],
+        destination: "session" as const,
+      },
+    ];
+
+    const first = manager.canUseTool(
+      "Write",
+      { file_path: "/tmp/a.txt", content: "a" },
+      { signal, suggestions, toolUseID: "use-1" }
+    );
+    manager.respond(manager.getPending()[0].id, { behavior: "allow", scope: "session" });
+    await first;
+
+    expect(manager.getRules()).toEqual([
+      { toolName: "Write", behavior: "allow", input: { file_path: "/tmp/a.txt", content: "a" } },
+    ]);
+    void manager.canUseTool(
+      "Write",
+      { file_path: "/etc/passwd", content: "a" },
+      { signal, toolUseID: "use-2" }
+    );
+    expect(manager.getPending()).toHaveLength(1);
+  });
+
+  it("should remember session denies per tool and never persist them", async () => {
+    const manager = new PermissionManager("default", logger);
+    const events = collectEvents(manager);
+
+    const first = ask(manager, "Bash");
+    manager.respond(manager.getPending()[0].id, {
+      behavior: "deny",
+      scope: "always" as "session", // What an untyped client may still send
+      message: "Not here",
+    });
+    await expect(first).resolves.toEqual({
+      behavior: "deny",
+      message: "Not here",
+      interrupt: false,
+    });
+
+    await expect(
+      manager.canUseTool("Bash", { command: "pwd" }, { signal, toolUseID: "use-2" })
+    ).resolves.toMatchObject({ behavior: "deny" });
+    expect(manager.getRules()).toEqual([{ toolName: "Bash", behavior: "deny" }]);
+    expect(events[1]).toMatchObject({ type: "resolved", decision: { scope: "session" } });
+  });
+
+  it("should persist always-allow decisions to local settings using SDK suggestions", async () => {
+    const manager = new PermissionManager("default", logger);
+    const suggestion = {
+      type: "addRules" as const,
+      rules: [{ toolName: "Bash", ruleContent: "ls:*" }],
+      behavior: "allow" as const,
+      destination: "session" as const,
+    };
+
+    const result = manager.canUseTool(
+      "Bash",
+      { command: "ls" },
+      { signal: new AbortController().signal, suggestions: [suggestion], toolUseID: "use-1" }
+    );
+    manager.respond(manager.getPending()[0].id, { behavior: "allow", scope: "always" });
+
+    await expect(result).resolves.toMatchObject({
+      updatedPermissions: [{ ...suggestion, destination: "localSettings" }],
+    });
+  });
+
+  it("should interrupt the run when denied without guidance", async () => {
+    const manager = new PermissionManager("default", logger);
+
+    const result = ask(manager, "Write");
+    manager.respond(manager.getPending()[0].id, { behavior: "deny" });
+
+    await expect(result).resolves.toEqual({
+      behavior: "deny",
+      message: "User denied permission to use Write",
+      interrupt: true,
+    });
+  });
+
+  it("should deny pending requests when the SDK aborts the call", async () => {
+    const manager = new PermissionManager("default", logger);
+    const controller = new AbortController();
+
+    const result = ask(manager, "Bash", controller.signal);
+    controller.abort();
+
+    await expect(result).resolves.toMatchObject({ behavior: "deny" });
+    expect(manager.getPending()).toHaveLength(0);
+  });
+
+  it("should deny every pending request on cancelAll", async () => {
+    const manager = new PermissionManager("default", logger);
+
+    const first = ask(manager, "Bash");
+    const second = ask(manager, "Write");
+    manager.cancelAll();
+
+    await expect(first).resolves.toMatchObject({ behavior: "deny" });
+    await expect(second).resolves.toMatchObject({ behavior: "deny" });
+  });
+
+  it("should reject responses to unknown requests", () => {
+    const manager = new PermissionManager("default", logger);
+
+    expect(manager.respond("missing", { behavior: "allow" })).toBe(false);
+  });
+});
@@ -0,0 +1,271 @@
+import { Observable, Subject } from "rxjs";
+import { randomUUID } from "crypto";
+import type { Logger } from "@deepracticex/logger";
+import type {
+  CanUseTool,
+  PermissionResult,
+  PermissionUpdate,
+} from "@anthropic-ai/claude-agent-sdk";
+import type {
+  PermissionMode,
+  PermissionRequest,
+  PermissionDecision,
+  PermissionRule,
+  PermissionScope,
+  PermissionEvent,
+} from "~/types";
+
+interface PendingPermission {
+  request: PermissionRequest;
+  suggestions?: PermissionUpdate[];
+  resolve: (result: PermissionResult) => void;
+}
+
+/**
+ * PermissionManager - per-session tool approval state
+ *
+ * Bridges the Claude SDK `canUseTool` callback to user decisions:
+ * - Pending tool calls are emitted as "requested" events and wait for respond()
+ * - Session/always allows are remembered as narrowly as the rule handed to the SDK
+ *   (a Bash command or prefix, the exact input otherwise), denies per tool name
+ * - "always" allows are persisted by the SDK into local settings as rules
+ */
+export class PermissionManager {
+  private mode: PermissionMode;
+  private rules: PermissionRule[] = [];
+  private pending = new Map<string, PendingPermission>();
+  private eventSubject = new Subject<PermissionEvent>();
+  private logger: Logger;
+
+  constructor(mode: PermissionMode, logger: Logger) {
+    this.mode = mode;
+    this.logger = logger;
+  }
+
+  getMode(): PermissionMode {
+    return this.mode;
+  }
+
+  setMode(mode: PermissionMode): void {
+    this.logger.info({ from: this.mode, to: mode }, "Permission mode changed");
+    this.mode = mode;
+  }
+
+  getRules(): PermissionRule[] {
+    return [...this.rules];
+  }
+
+  getPending(): PermissionRequest[] {
+    return Array.from(this.pending.values()).map((p) => p.request);
+  }
+
+  events$(): Observable<PermissionEvent> {
+    return this.eventSubject.asObservable();
+  }
+
+  /**
+   * Callback passed to the Claude SDK as `canUseTool`
+   */
+  canUseTool: CanUseTool = async (toolName, input, { signal, suggestions, toolUseID }) => {
+    const rule = this.rules.find((entry) => matchesRule(entry, toolName, input));
+    if (rule) {
+      this.logger.debug({ toolName, behavior: rule.behavior }, "Applying remembered permission");
+      return rule.behavior === "allow"
+        ? { behavior: "allow", updatedInput: input }
+        : {
+            behavior: "deny",
+            message: `Permission to use ${toolName} was denied for this session`,
+          };
+    }
+
+    const request: PermissionRequest = {
+      id: randomUUID(),
+      toolName,
+      input,
+      toolUseId: toolUseID,
+      createdAt: new Date(),
+    };
+
+    return new Promise<PermissionResult>((resolve) => {
+      this.pending.set(request.id, { request, suggestions, resolve });
+
+      signal.addEventListener("abort", () => {
+        if (this.pending.has(request.id)) {
+          this.respond(request.id, { behavior: "deny", message: "Request was aborted" });
+        }
+      });
+
+      this.logger.info({ requestId: request.id, toolName }, "Waiting for tool permission");
+      this.eventSubject.next({ type: "requested", request });
+    });
+  };
+
+  /**
+   * Answer a pending request
+   *
+   * @returns false if the request is unknown or already answered
+   */
+  respond(requestId: string, decision: PermissionDecision): boolean {
+    const pending = this.pending.get(requestId);
+    if (!pending) {
+      this.logger.warn({ requestId }, "No pending permission request");
+      return false;
+    }
+    this.pending.delete(requestId);
+
+    const { toolName, input } = pending.request;
+    // Deny results cannot carry rule updates: untyped clients asking to always deny get the session
+    const requested: PermissionScope = decision.scope || "once";
+    const resolved: PermissionDecision =
+      decision.behavior === "allow"
+        ? { ...decision, scope: requested }
+        : { ...decision, scope: requested === "always" ? "session" : requested };
+    const scope: PermissionScope = resolved.scope || "once";
+    const updates =
+      decision.behavior === "allow" && scope !== "once"
+        ? this.buildRuleUpdates(toolName, input, pending.suggestions, scope)
+        : [];
+
+    if (scope !== "once") {
+      this.rules.push(
+        ...(decision.behavior === "allow"
+          ? rememberedAllows(toolName, input, updates)
+          : [{ toolName, behavior: "deny" as const }])
+      );
+    }
+
+    this.logger.info(
+      { requestId, toolName, behavior: decision.behavior, scope },
+      "Tool permission resolved"
+    );
+
+    if (decision.behavior === "allow") {
+      pending.resolve({
+        behavior: "allow",
+        updatedInput: input,
+        ...(updates.length > 0 && { updatedPermissions: updates }),
+      });
+    } else {
+      pending.resolve({
+        behavior: "deny",
+        message: decision.message || `User denied permission to use ${toolName}`,
+        // No guidance from the user: stop the run instead of letting the model retry
+        interrupt: !decision.message,
+      });
+    }
+
+    this.eventSubject.next({
+      type: "resolved",
+      requestId,
+      decision: resolved,
+    });
+    return true;
+  }
+
+  /**
+   * Deny every pending request (used when the run is aborted)
+   */
+  cancelAll(message = "Request was aborted"): void {
+    for (const requestId of Array.from(this.pending.keys())) {
+      this.respond(requestId, { behavior: "deny", message });
+    }
+  }
+
+  destroy(): void {
+    this.cancelAll();
+    this.eventSubject.complete();
+  }
+
+  /**
+   * Prefer SDK suggestions (they carry bash command prefixes, directories, etc.),
+   * falling back to the exact Bash command or a plain tool-name rule.
+   */
+  private buildRuleUpdates(
+    toolName: string,
+    input: Record<string, unknown>,
+    suggestions: PermissionUpdate[] | undefined,
+    scope: "session" | "always"
+  ): PermissionUpdate[] {
+    const destination = scope === "always" ? "localSettings" : "session";
+
+    if (suggestions && suggestions.length > 0) {
+      return suggestions.map((update) => ({ ...update, destination }));
+    }
+
+    const command = bashCommand(toolName, input);
+    const rule = command === null ? { toolName } : { toolName, ruleContent: command };
+    return [{ type: "addRules", rules: [rule], behavior: "allow", destination }];
+  }
+}
+
+/**
+ * Allow rules remembered for the session, no broader than the rules given to the SDK
+ * Rule content of other tools than Bash (paths, globs) and other updates
+ * (directories, modes) are not matched here: only the exact input is remembered
+ */
+function rememberedAllows(
+  toolName: string,
+  input: Record<string, unknown>,
+  updates: PermissionUpdate[]
+): PermissionRule[] {
+  const rules: PermissionRule[] = [];
+  let exact = false;
+
+  for (const update of updates) {
+    if (update.type !== "addRules" || update.behavior !== "allow") {
+      exact = true;
+      continue;
+    }
+    for (const { toolName: ruleTool, ruleContent } of update.rules) {
+      if (ruleTool !== toolName) {
+        continue;
+      }
+      if (ruleContent === undefined) {
+        rules.push({ toolName, behavior: "allow" });
+      } else if (bashCommand(toolName, input) !== null) {
+        rules.push({ toolName, behavior: "allow", ruleContent });
+      } else {
+        exact = true;
+      }
+    }
+  }
+
+  if (exact || rules.length === 0) {
+    rules.push({ toolName, behavior: "allow", input });
+  }
+  return rules;
+}
+
+function matchesRule(
+  rule: PermissionRule,
+  toolName: string,
+  input: Record<string, unknown>
+): boolean {
+  if (rule.toolName !== toolName) {
+    return false;
+  }
+  if (rule.input) {
+    return JSON.stringify(rule.input) === JSON.stringify(input);
+  }
+  if (rule.ruleContent !== undefined) {
+    const command = bashCommand(toolName, input);
+    return command !== null && matchesCommand(rule.ruleContent, command);
+  }
+  return true;
+}
+
+/**
+ * Bash rule content: the exact command, or "prefix:*" for the prefix and its arguments
+ * Chained, piped or redirected commands never match a prefix, they ask again
+ */
+function matchesCommand(ruleContent: string, command: string): boolean {
+  if (!ruleContent.endsWith(":*")) {
+    return command === ruleContent;
+  }
+  const prefix = ruleContent.slice(0, -2);
+  return (command === prefix || command.startsWith(`${prefix} `)) && !/[;&|<>`$\n\r]/.test(command);
+}
+
+function bashCommand(toolName: string, input: Record<string, unknown>): string | null {
+  return toolName === "Bash" && typeof input.command === "string" ? input.command.trim() : null;
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import type { TurnUsage } from "~/types";
+import {
+  DEFAULT_PRICING,
+  findPricing,
+  mergePricing,
+  sessionCost,
+  turnUsageFromResult,
+} from "./session-cost";
+
+describe("turnUsageFromResult", () => {
+  it("should take usage per model from modelUsage", () => {
+    const turn = turnUsageFromResult(
+      {
+        type: "result",
+        usage: { input_tokens: 30, output_tokens: 300 },
+        modelUsage: {
+          "claude-sonnet-4-5-20250929": {
+            inputTokens: 10,
+            outputTokens: 200,
+            cacheReadInputTokens: 5000,
+            cacheCreationInputTokens: 1000,
+          },
+          "claude-haiku-4-5-20251001": { inputTokens: 20, outputTokens: 100 },
+        },
+      },
+      "claude-sonnet-4"
+    );
+
+    expect(turn.models).toEqual({
+      "claude-sonnet-4-5-20250929": {
+        input: 10,
+        output: 200,
+        cacheRead: 5000,
+        cacheCreation: 1000,
+      },
+      "claude-haiku-4-5-20251001": { input: 20, output: 100, cacheRead: 0, cacheCreation: 0 },
+    });
+  });
+
+  it("should count usage totals on the session model without modelUsage", () => {
+    const turn = turnUsageFromResult(
+      { type: "result", usage: { input_tokens: 30, output_tokens: 300 } },
+      "claude-sonnet-4"
+    );
+
+    expect(turn.models).toEqual({
+      "claude-sonnet-4": { input: 30, output: 300, cacheRead: 0, cacheCreation: 0 },
+    });
+  });
+});
+
+describe("sessionCost", () => {
+  const turns: TurnUsage[] = [
+    {
+      timestamp: new Date("2025-01-01T00:00:00.000Z"),
+      models: {
+        "claude-sonnet-4-5-20250929": {
+          input: 1_000_000,
+          output: 100_000,
+          cacheRead: 2_000_000,
+          cacheCreation: 0,
+        },
+      },
+    },
+    {
+      timestamp: new Date("2025-01-01T00:01:00.000Z"),
+      models: {
+        "claude-sonnet-4-5-20250929": { input: 0, output: 100_000, cacheRead: 0, cacheCreation: 0 },
+        "my-local-model": { input: 500, output: 500, cacheRead: 0, cacheCreation: 0 },
+      },
+    },
+  ];
+
+  it("should price each token kind per turn and per model", () => {
+    const cost = sessionCost(turns, DEFAULT_PRICING);
+
+    // 1M input * $3 + 100k output * $15 + 2M cache read * $0.30
+    expect(cost.turns[0].cost).toMatchObject({ input: 3, output: 1.5, cacheRead: 0.6 });
+    expect(cost.turns[0].cost.total).toBeCloseTo(5.1);
+    expect(cost.turns[1].cost.total).toBeCloseTo(1.5);
+    expect(cost.cost.total).toBeCloseTo(6.6);
+    expect(cost.models.map((model) => [model.model, model.tokens.output, model.priced])).toEqual([
+      ["claude-sonnet-4-5-20250929", 200_000, true],
+      ["my-local-model", 500, false],
+    ]);
+  });
+
+  it("should use configured prices over the built-in ones", () => {
+    const pricing = mergePricing({
+      "my-local-model": { input: 1000, output: 1000, cacheRead: 0, cacheCreation: 0 },
+    });
+
+    expect(sessionCost(turns, pricing).turns[1].cost.total).toBeCloseTo(2.5);
+  });
+});
+
+describe("findPricing", () => {
+  it("should match the longest model ID prefix", () => {
+    expect(findPricing("claude-opus-4-5-20251101", DEFAULT_PRICING)?.input).toBe(5);
+    expect(findPricing("claude-opus-4-1-20250805", DEFAULT_PRICING)?.input).toBe(15);
+    expect(findPricing("gpt-5", DEFAULT_PRICING)).toBeUndefined();
+  });
+});
@@ -0,0 +1,168 @@
+import type {
+  CostBreakdown,
+  ModelCost,
+  ModelPricing,
+  SessionCost,
+  TokenBreakdown,
+  TurnCost,
+  TurnUsage,
+} from "~/types";
+
+/**
+ * Session cost - token usage per turn and model, priced with a pricing table
+ *
+ * Usage is stored without prices (live sessions take it from the result of
+ * each run, history from the usage of each API response in the transcript),
+ * so changing the pricing table reprices every session.
+ */
+
+/**
+ * Anthropic list prices in USD per million tokens, keyed by model ID prefix
+ * Cache creation is the 5 minute cache write price
+ */
+export const DEFAULT_PRICING: Record<string, ModelPricing> = {
+  "claude-opus-4-5": { input: 5, output: 25, cacheRead: 0.5, cacheCreation: 6.25 },
+  "claude-opus-4": { input: 15, output: 75, cacheRead: 1.5, cacheCreation: 18.75 },
+  "claude-sonnet-4": { input: 3, output: 15, cacheRead: 0.3, cacheCreation: 3.75 },
+  "claude-3-7-sonnet": { input: 3, output: 15, cacheRead: 0.3, cacheCreation: 3.75 },
+  "claude-3-5-sonnet": { input: 3, output: 15, cacheRead: 0.3, cacheCreation: 3.75 },
+  "claude-haiku-4-5": { input: 1, output: 5, cacheRead: 0.1, cacheCreation: 1.25 },
+  "claude-3-5-haiku": { input: 0.8, output: 4, cacheRead: 0.08, cacheCreation: 1 },
+};
+
+/**
+ * Usage of one run, from the SDK result message
+ * modelUsage has every model the run called, usage only the totals (priced as fallbackModel)
+ */
+export function turnUsageFromResult(result: any, fallbackModel: string): TurnUsage {
+  const turn: TurnUsage = { timestamp: new Date(), models: {} };
+
+  if (result.modelUsage && Object.keys(result.modelUsage).length > 0) {
+    for (const [model, usage] of Object.entries<any>(result.modelUsage)) {
+      addTokens(turn, model, {
+        input: usage.inputTokens || 0,
+        output: usage.outputTokens || 0,
+        cacheRead: usage.cacheReadInputTokens || 0,
+        cacheCreation: usage.cacheCreationInputTokens || 0,
+      });
+    }
+  } else if (result.usage) {
+    addApiUsage(turn, fallbackModel, result.usage);
+  }
+  return turn;
+}
+
+/**
+ * Add the usage of one Claude API response (snake_case, as in transcripts)
+ */
+export function addApiUsage(turn: TurnUsage, model: string, usage: any): void {
+  addTokens(turn, model, {
+    input: usage.input_tokens || 0,
+    output: usage.output_tokens || 0,
+    cacheRead: usage.cache_read_input_tokens || 0,
+    cacheCreation: usage.cache_creation_input_tokens || 0,
+  });
+}
+
+/**
+ * Price turns with a pricing table (see mergePricing)
+ */
+export function sessionCost(
+  turns: TurnUsage[],
+  pricing: Record<string, ModelPricing>
+): SessionCost {
+  const totals: Record<string, TokenBreakdown> = {};
+  const turnCosts: TurnCost[] = turns.map((turn) => {
+    const models = Object.entries(turn.models).map(([model, tokens]) => {
+      totals[model] = sumTokens(totals[model] || emptyTokens(), tokens);
+      return modelCost(model, tokens, pricing);
+    });
+    return { timestamp: turn.timestamp, models, cost: sumCosts(models) };
+  });
+
+  const models = Object.entries(totals).map(([model, tokens]) => modelCost(model, tokens, pricing));
+  return { turns: turnCosts, models, cost: sumCosts(models) };
+}
+
+/**
+ * Tokens and cost of some priced turns together, all models
+ */
+export function sumTurnCosts(turns: TurnCost[]): { tokens: TokenBreakdown; cost: CostBreakdown } {
+  const models = turns.flatMap((turn) => turn.models);
+  return {
+    tokens: models.reduce((sum, model) => sumTokens(sum, model.tokens), emptyTokens()),
+    cost: sumCosts(models),
+  };
+}
+
+/**
+ * Built-in prices with the agent's own entries on top
+ */
+export function mergePricing(
+  pricing: Record<string, ModelPricing> = {}
+): Record<string, ModelPricing> {
+  return { ...DEFAULT_PRICING, ...pricing };
+}
+
+/**
+ * Price of a model, the longest matching prefix wins (claude-opus-4-5-20251101 -> claude-opus-4-5)
+ */
+export function findPricing(
+  model: string,
+  pricing: Record<string, ModelPricing>
+): ModelPricing | undefined {
+  const prefix = Object.keys(pricing)
+    .filter((key) => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? pricing[prefix] : undefined;
+}
+
+function modelCost(
+  model: string,
+  tokens: TokenBreakdown,
+  pricing: Record<string, ModelPricing>
+): ModelCost {
+  const price = findPricing(model, pricing);
+  const cost = (count: number, perMillion = 0) => (count / 1_000_000) * perMillion;
+  const breakdown = {
+    input: cost(tokens.input, price?.input),
+    output: cost(tokens.output, price?.output),
+    cacheRead: cost(tokens.cacheRead, price?.cacheRead),
+    cacheCreation: cost(tokens.cacheCreation, price?.cacheCreation),
+  };
+  return {
+    model,
+    tokens: { ...tokens },
+    cost: { ...breakdown, total: sumKinds(breakdown) },
+    priced: price !== undefined,
+  };
+}
+
+function addTokens(turn: TurnUsage, model: string, tokens: TokenBreakdown): void {
+  if (sumKinds(tokens) === 0) {
+    return;
+  }
+  turn.models[model] = sumTokens(turn.models[model] || emptyTokens(), tokens);
+}
+
+function sumCosts(models: ModelCost[]): CostBreakdown {
+  const breakdown = models.reduce((sum, model) => sumTokens(sum, model.cost), emptyTokens());
+  return { ...breakdown, total: sumKinds(breakdown) };
+}
+
+function sumTokens(a: TokenBreakdown, b: TokenBreakdown): TokenBreakdown {
+  return {
+    input: a.input + b.input,
+    output: a.output + b.output,
+    cacheRead: a.cacheRead + b.cacheRead,
+    cacheCreation: a.cacheCreation + b.cacheCreation,
+  };
+}
+
+function sumKinds(tokens: TokenBreakdown): number {
+  return tokens.input + tokens.output + tokens.cacheRead + tokens.cacheCreation;
+}
+
+function emptyTokens(): TokenBreakdown {
+  return { input: 0, output: 0, cacheRead: 0, cacheCreation: 0 };
+}
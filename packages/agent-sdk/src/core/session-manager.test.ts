@@ -0,0 +1,381 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import type { Logger } from "@deepracticex/logger";
+import type { ToolUseMessage } from "~/types";
+import { SessionManager } from "./session-manager";
+
+vi.mock("@anthropic-ai/claude-agent-sdk", () => ({ query: vi.fn() }));
+
+const logger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+} as unknown as Logger;
+
+const workspace = "/work/project";
+const parentId = "11111111-1111-1111-1111-111111111111";
+
+function entry(type: string, uuid: string, content: any) {
+  return {
+    type,
+    uuid,
+    sessionId: parentId,
+    cwd: workspace,
+    timestamp: "2025-01-01T00:00:00.000Z",
+    message: { role: type, content },
+  };
+}
+
+const transcript = [
+  entry("user", "u1", "first question"),
+  entry("assistant", "a1", [{ type: "tool_use", id: "t1", name: "Read", input: {} }]),
+  entry("user", "r1", [{ type: "tool_result", tool_use_id: "t1", content: "ok" }]),
+  entry("assistant", "a2", [{ type: "text", text: "first answer" }]),
+  entry("user", "u2", "second question"),
+  entry("assistant", "a3", [{ type: "text", text: "second answer" }]),
+];
+
+// /compact as the CLI records it, then a third turn
+const compacted = [
+  entry("user", "c1", "<command-name>/compact</command-name>"),
+  {
+    ...entry("system", "b1", ""),
+    subtype: "compact_boundary",
+    compactMetadata: { trigger: "manual" },
+  },
+  { ...entry("user", "s1", "This session is being continued..."), isCompactSummary: true },
+  entry("user", "c2", "<local-command-stdout>Compacted</local-command-stdout>"),
+  entry("user", "u3", "third question"),
+  entry("assistant", "a4", [{ type: "text", text: "third answer" }]),
+];
+
+describe("SessionManager", () => {
+  let home: string;
+  let sessionDir: string;
+
+  beforeEach(async () => {
+    home = await fs.mkdtemp(path.join(os.tmpdir(), "agent-sdk-"));
+    vi.spyOn(os, "homedir").mockReturnValue(home);
+    sessionDir = path.join(home, ".claude", "projects", workspace.replace(/\//g, "-"));
+    await fs.mkdir(sessionDir, { recursive: true });
+    await fs.writeFile(
+      path.join(sessionDir, `${parentId}.jsonl`),
+      transcript.map((e) => JSON.stringify(e)).join("\n") + "\n"
+    );
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(home, { recursive: true, force: true });
+  });
+
+  describe("forkSession", () => {
+    it("should copy the transcript up to the chosen turn", async () => {
+      const manager = new SessionManager({ workspace }, logger);
+      await manager.loadHistoricalSessions();
+      const events: any[] = [];
+      manager.sessionEvents$().subscribe((event) => events.push(event));
+
+      const fork = await manager.forkSession(parentId, { atMessageId: "a2" });
+
+      expect(fork.id).not.toBe(parentId);
+      expect(fork.getMessages().map((m) => m.id)).toEqual(["u1", "a1", "a2"]);
+      expect(fork.getMetadata()).toMatchObject({
+        parentSessionId: parentId,
+        forkedFromMessageId: "a2",
+      });
+      expect(manager.getSession(fork.id)).toBe(fork);
+      expect(events).toContainEqual({ type: "created", sessionId: fork.id });
+
+      const lines = (await fs.readFile(path.join(sessionDir, `${fork.id}.jsonl`), "utf-8"))
+        .trim()
+        .split("\n")
+        .map((l) => JSON.parse(l));
+      expect(lines).toHaveLength(5);
+      expect(lines.slice(1).every((l) => l.sessionId === fork.id)).toBe(true);
+
+      // Parent is left untouched
+      expect(manager.getSession(parentId)!.getMessages()).toHaveLength(5);
+    });
+
+    it("should keep fork links when reloading from disk", async () => {
+      const manager = new SessionManager({ workspace }, logger);
+      await manager.loadHistoricalSessions();
+      const fork = await manager.forkSession(parentId, { atMessageId: "u1" });
+
+      const reloaded = new SessionManager({ workspace }, logger);
+      await reloaded.loadHistoricalSessions();
+
+      expect(reloaded.getSession(fork.id)!.getMetadata().parentSessionId).toBe(parentId);
+    });
+
+    it("should count turns after compaction like the transcript", async () => {
+      await fs.appendFile(
+        path.join(sessionDir, `${parentId}.jsonl`),
+        compacted.map((e) => JSON.stringify(e)).join("\n") + "\n"
+      );
+      const manager = new SessionManager({ workspace }, logger);
+      await manager.loadHistoricalSessions();
+
+      const fork = await manager.forkSession(parentId, { atMessageId: "a4" });
+
+      expect(fork.getMessages().map((m) => m.id)).toEqual(
+        manager
+          .getSession(parentId)!
+          .getMessages()
+          .map((m) => m.id)
+      );
+      const content = await fs.readFile(path.join(sessionDir, `${fork.id}.jsonl`), "utf-8");
+      expect(content.trim().split("\n")).toHaveLength(transcript.length + compacted.length + 1);
+    });
+
+    it("should reject unknown sessions and messages", async () => {
+      const manager = new SessionManager({ workspace }, logger);
+      await manager.loadHistoricalSessions();
+
+      await expect(manager.forkSession("missing", { atMessageId: "u1" })).rejects.toThrow(
+        "Session missing not found"
+      );
+      await expect(manager.forkSession(parentId, { atMessageId: "nope" })).rejects.toThrow(
+        "Message nope not found"
+      );
+    });
+  });
+
+  describe("rewindSession", () => {
+    it("should drop the last turns from the transcript and history", async () => {
+      const manager = new SessionManager({ workspace }, logger);
+      await manager.loadHistoricalSessions();
+      const events: any[] = [];
+      manager.sessionEvents$().subscribe((event) => events.push(event));
+
+      const result = await manager.rewindSession(parentId, { turns: 1 });
+
+      expect(result).toEqual({
+        sessionId: parentId,
+        turns: 1,
+        removedMessageIds: ["u2", "a3"],
+        restoredFiles: [],
+      });
+      expect(
+        manager
+          .getSession(parentId)!
+          .getMessages()
+          .map((m) => m.id)
+      ).toEqual(["u1", "a1", "a2"]);
+      expect(events).toContainEqual({ type: "updated", sessionId: parentId });
+
+      const content = await fs.readFile(path.join(sessionDir, `${parentId}.jsonl`), "utf-8");
+      expect(content.trim().split("\n")).toHaveLength(4);
+    });
+
+    it("should restore files edited in the removed turns", async () => {
+      const project = path.join(home, "project");
+      const edited = path.join(project, "edited.txt");
+      const created = path.join(project, "created.txt");
+      const outside = path.join(home, "outside.txt");
+      await fs.mkdir(project);
+      await fs.writeFile(edited, "after");
+      await fs.writeFile(created, "new");
+      await fs.writeFile(outside, "after");
+      const changes = [
+        { filePath: edited, originalFile: "before" },
+        { type: "create", filePath: created, content: "new" },
+        { filePath: "../outside.txt", originalFile: "before" },
+      ];
+      await fs.writeFile(
+        path.join(sessionDir, `${parentId}.jsonl`),
+        [
+          ...transcript,
+          ...changes.map((change, i) => ({
+            ...entry("user", `r${i + 2}`, [{ type: "tool_result", tool_use_id: `t${i + 2}` }]),
+            toolUseResult: change,
+          })),
+        ]
+          .map((e) => JSON.stringify({ ...e, cwd: project }))
+          .join("\n") + "\n"
+      );
+
+      const manager = new SessionManager({ workspace }, logger);
+      await manager.loadHistoricalSessions();
+      const result = await manager.rewindSession(parentId, { turns: 1, restoreFiles: true });
+
+      expect(result.restoredFiles.sort()).toEqual([created, edited].sort());
+      expect(await fs.readFile(edited, "utf-8")).toBe("before");
+      await expect(fs.access(created)).rejects.toThrow();
+      expect(await fs.readFile(outside, "utf-8")).toBe("after");
+    });
+
+    it("should not count compaction entries as turns", async () => {
+      await fs.appendFile(
+        path.join(sessionDir, `${parentId}.jsonl`),
+        compacted.map((e) => JSON.stringify(e)).join("\n") + "\n"
+      );
+      const manager = new SessionManager({ workspace }, logger);
+      await manager.loadHistoricalSessions();
+
+      const result = await manager.rewindSession(parentId, { turns: 2 });
+
+      expect(result.removedMessageIds[0]).toBe("u2");
+      expect(result.removedMessageIds).toContain("a4");
+      expect(
+        manager
+          .getSession(parentId)!
+          .getMessages()
+          .map((m) => m.id)
+      ).toEqual(["u1", "a1", "a2"]);
+      const content = await fs.readFile(path.join(sessionDir, `${parentId}.jsonl`), "utf-8");
+      expect(content.trim().split("\n")).toHaveLength(4);
+    });
+
+    it("should keep at least one turn", async () => {
+      const manager = new SessionManager({ workspace }, logger);
+      await manager.loadHistoricalSessions();
+
+      await expect(manager.rewindSession(parentId, { turns: 2 })).rejects.toThrow(
+        "Cannot rewind 2 turns"
+      );
+      await expect(manager.rewindSession(parentId, { turns: 0 })).rejects.toThrow(
+        "turns must be a positive integer"
+      );
+    });
+  });
+
+  describe("loadHistoricalSessions", () => {
+    it("should index headers and read messages on first access", async () => {
+      const manager = new SessionManager({ workspace }, logger);
+      await manager.loadHistoricalSessions();
+      const session = manager.getSession(parentId)!;
+
+      expect(session.summary()).toBe("first question");
+      expect(session.getMessageCount()).toBeUndefined();
+
+      expect(session.getMessages().map((m) => m.id)).toEqual(["u1", "a1", "a2", "u2", "a3"]);
+      expect(session.getMessageCount()).toBe(5);
+    });
+
+    it("should nest subagent transcripts under their Task call", async () => {
+      const task = { subagent_type: "reviewer", prompt: "Review the diff" };
+      await fs.appendFile(
+        path.join(sessionDir, `${parentId}.jsonl`),
+        [
+          entry("user", "u3", "review it"),
+          entry("assistant", "a4", [{ type: "tool_use", id: "t2", name: "Task", input: task }]),
+          {
+            ...entry("user", "r2", [{ type: "tool_result", tool_use_id: "t2", content: "LGTM" }]),
+            toolUseResult: { status: "completed", agentId: "8c147a19" },
+          },
+        ]
+          .map((e) => JSON.stringify(e))
+          .join("\n") + "\n"
+      );
+      const sidechain = [
+        { ...entry("user", "s1", "Review the diff"), isSidechain: true, agentId: "8c147a19" },
+        { ...entry("assistant", "s2", [{ type: "text", text: "LGTM" }]), isSidechain: true },
+      ];
+      await fs.writeFile(
+        path.join(sessionDir, "agent-8c147a19.jsonl"),
+        sidechain.map((e) => JSON.stringify(e)).join("\n") + "\n"
+      );
+
+      const manager = new SessionManager({ workspace }, logger);
+      await manager.loadHistoricalSessions();
+      expect(manager.getSessions(10, 0).map((s) => s.id)).toEqual([parentId]);
+
+      const messages = manager.getSession(parentId)!.getMessages();
+      expect(messages.map((m) => m.id)).toEqual(["u1", "a1", "a2", "u2", "a3", "u3", "a4"]);
+      const taskCall = messages[6] as ToolUseMessage;
+      expect(taskCall.subagentMessages?.map((m) => m.id)).toEqual(["s1", "s2"]);
+    });
+  });
+
+  describe("searchSessions", () => {
+    it("should find messages, tool inputs and tool outputs across sessions", async () => {
+      const manager = new SessionManager({ workspace }, logger);
+      await manager.loadHistoricalSessions();
+
+      const results = await manager.searchSessions("ANSWER");
+      expect(results).toHaveLength(1);
+      expect(results[0]).toMatchObject({ sessionId: parentId, summary: "first question" });
+      expect(results[0].matches.map((m) => m.messageId)).toEqual(["a2", "a3"]);
+
+      const [toolMatch] = (await manager.searchSessions("ok"))[0].matches;
+      expect(toolMatch).toMatchObject({ messageId: "a1", field: "toolOutput", snippet: "ok" });
+
+      expect(await manager.searchSessions("answer", { limit: 1 })).toMatchObject([
+        { matches: [{ messageId: "a2" }] },
+      ]);
+      expect(await manager.searchSessions("answer", { sessionIds: ["other"] })).toEqual([]);
+      expect(await manager.searchSessions("  ")).toEqual([]);
+    });
+
+    it("should leave indexed sessions unloaded", async () => {
+      const manager = new SessionManager({ workspace }, logger);
+      await manager.loadHistoricalSessions();
+
+      expect(await manager.searchSessions("question")).toHaveLength(1);
+      expect(manager.getSession(parentId)!.getMessageCount()).toBeUndefined();
+    });
+  });
+
+  describe("watchSessions", () => {
+    it("should add, update and remove sessions written by other processes", async () => {
+      const manager = new SessionManager({ workspace }, logger);
+      await manager.loadHistoricalSessions();
+      await manager.watchSessions();
+      const events: any[] = [];
+      manager.sessionEvents$().subscribe((event) => events.push(event));
+
+      const cliId = "22222222-2222-2222-2222-222222222222";
+      const cliPath = path.join(sessionDir, `${cliId}.jsonl`);
+      await fs.writeFile(cliPath, JSON.stringify(entry("user", "c1", "from the cli")) + "\n");
+      await vi.waitFor(() => expect(manager.getSession(cliId)).not.toBeNull());
+      expect(manager.getSession(cliId)!.summary()).toBe("from the cli");
+      expect(events).toContainEqual({ type: "created", sessionId: cliId });
+
+      await fs.appendFile(cliPath, JSON.stringify(entry("assistant", "c2", "reply")) + "\n");
+      await vi.waitFor(() => expect(events).toContainEqual({ type: "updated", sessionId: cliId }));
+      expect(
+        manager
+          .getSession(cliId)!
+          .getMessages()
+          .map((m) => m.id)
+      ).toEqual(["c1", "c2"]);
+
+      await fs.rm(cliPath);
+      await vi.waitFor(() => expect(manager.getSession(cliId)).toBeNull());
+      expect(events).toContainEqual({ type: "deleted", sessionId: cliId });
+
+      manager.destroy();
+    });
+  });
+
+  describe("with databasePath", () => {
+    it("should index transcripts and load them from the database afterwards", async () => {
+      const databasePath = path.join(home, "sessions.db");
+      const manager = new SessionManager({ workspace, databasePath }, logger);
+      await manager.loadHistoricalSessions();
+      expect(manager.getSession(parentId)!.getMessages()).toHaveLength(5);
+      manager.destroy();
+
+      // Drop the transcript content, a fresh index must not need it
+      const transcriptPath = path.join(sessionDir, `${parentId}.jsonl`);
+      const { mtime } = await fs.stat(transcriptPath);
+      await fs.writeFile(transcriptPath, "");
+      await fs.utimes(transcriptPath, mtime, mtime);
+
+      const reloaded = new SessionManager({ workspace, databasePath }, logger);
+      await reloaded.loadHistoricalSessions();
+      expect(
+        reloaded
+          .getSession(parentId)!
+          .getMessages()
+          .map((m) => m.id)
+      ).toEqual(["u1", "a1", "a2", "u2", "a3"]);
+      reloaded.destroy();
+    });
+  });
+});
@@ -3,21 +3,58 @@ import { promises as fs } from "fs";
 import fsSync from "fs";
 import path from "path";
 import os from "os";
-import readline from "readline";
+import { randomUUID } from "crypto";
 import type {
   AgentConfig,
   SessionEvent,
   Session,
   PerformanceMetrics,
-  AnyMessage,
-  SessionMetadata,
-  TokenUsage,
+  WarmupPoolStatus,
   SessionCreateOptions,
+  SessionOptions,
+  SessionStore,
+  StoredSessionInfo,
+  ForkSessionOptions,
+  RewindSessionOptions,
+  RewindResult,
+  SearchSessionsOptions,
+  SessionSearchResult,
+  Budget,
+  AgentHooks,
+  AgentTool,
+  McpServerInfo,
+  SubagentDefinition,
+  BudgetUsage,
 } from "~/types";
-import { ClaudeSession } from "./claude-session";
-import { ClaudeAdapter } from "./claude-adapter";
+import { ClaudeSession, type MessageLoader } from "./claude-session";
+import { ClaudeAdapter, thinkingTokens } from "./claude-adapter";
+import { WarmupPool } from "./warmup-pool";
+import { JsonlSessionStore, isWarmupSession } from "./jsonl-session-store";
+import { SqliteSessionStore } from "./sqlite-session-store";
+import { summarize } from "./session-summary";
+import { searchMessages } from "./session-search";
+import { BudgetMeter } from "./budget";
+import {
+  FORK_ENTRY_TYPE,
+  countTurns,
+  fileChanges,
+  isPromptMessage,
+  keepMessageTurns,
+  keepTurns,
+  readTranscript,
+  transcriptTurns,
+  writeTranscript,
+} from "./transcript";
+import type { TranscriptLine } from "./transcript";
 import type { Logger } from "@deepracticex/logger";
 
+/**
+ * Quiet time before a changed transcript is re-read by the directory watch
+ */
+const WATCH_DEBOUNCE_MS = 300;
+
+const DEFAULT_SEARCH_LIMIT = 50;
+
 /**
  * SessionManager - manages all sessions lifecycle
  */
@@ -25,7 +62,14 @@ export class SessionManager {
   private sessions = new Map<string, ClaudeSession>();
   private sessionEventsSubject = new Subject<SessionEvent>();
   private adapter: ClaudeAdapter;
+  private warmupPool: WarmupPool;
+  private budget: BudgetMeter; // Agent budget, shared by all sessions
   private sessionDir: string;
+  private transcripts: JsonlSessionStore; // Claude CLI transcripts, needed to resume/fork/rewind
+  private store: SessionStore; // Where sessions are listed and loaded from
+  private transcriptTimes = new Map<string, number>(); // Transcript mtime each session was indexed at
+  private watcher: fsSync.FSWatcher | null = null;
+  private pendingSyncs = new Map<string, NodeJS.Timeout>();
   private metrics = {
     totalCreated: 0,
     totalResponseTime: 0,
@@ -38,8 +82,27 @@ export class SessionManager {
   ) {
     this.logger = logger;
     this.adapter = new ClaudeAdapter(config, logger);
+    this.budget = new BudgetMeter(config.budget);
+    this.warmupPool = new WarmupPool(
+      this.adapter,
+      config.warmupPoolSize || 0,
+      { model: config.model, permissionMode: config.permissionMode, thinking: config.thinking },
+      logger
+    );
     this.sessionDir = this.resolveSessionDirectory(config.workspace);
-    this.logger.debug({ sessionDir: this.sessionDir }, "SessionManager created");
+    this.transcripts = new JsonlSessionStore(this.sessionDir, config.workspace, logger);
+    this.store =
+      config.sessionStore ||
+      (config.databasePath
+        ? new SqliteSessionStore(config.databasePath, logger, config.workspace)
+        : this.transcripts);
+    this.logger.debug(
+      {
+        sessionDir: this.sessionDir,
+        store: this.store === this.transcripts ? "jsonl" : this.store.constructor.name,
+      },
+      "SessionManager created"
+    );
   }
 
   /**
@@ -59,7 +122,7 @@ export class SessionManager {
    * This ensures we always get a real Claude SDK session_id immediately.
    *
    * Flow:
-   * 1. Create ClaudeSession with placeholder ID
+   * 1. Create ClaudeSession with placeholder ID (on a prewarmed query if the pool has one)
    * 2. Immediately send initialMessage
    * 3. SDK returns real session_id
    * 4. Update session map with real ID
@@ -84,6 +147,15 @@ export class SessionManager {
       "Creating session with initial message"
     );
 
+    const sessionOptions = {
+      model: options?.model,
+      permissionMode: options?.permissionMode || this.config.permissionMode,
+      thinking: options?.thinking || this.config.thinking,
+      budget: options?.budget || this.config.sessionBudget,
+      mcpServers: options?.mcpServers,
+    };
+    thinkingTokens(sessionOptions.thinking); // Reject bad budgets before spawning anything
+
     const session = new ClaudeSession(
       placeholderId,
       {
@@ -92,11 +164,18 @@ export class SessionManager {
         startTime: new Date(),
       },
       this.adapter,
-      { model: options?.model }, // SessionOptions for adapter
-      false, // No warmup session
+      sessionOptions, // SessionOptions for adapter
+      false, // SDK session_id is still unknown, even on a prewarmed query
       this.logger
     );
 
+    const warmRunId = this.warmupPool.claim(sessionOptions);
+    if (warmRunId) {
+      session._useWarmRun(warmRunId);
+    }
+    session._useAgentBudget(this.budget);
+    this.logger.debug({ placeholderId, warm: !!warmRunId }, "Session start mode selected");
+
     // Temporarily add to map with placeholder ID
     this.sessions.set(placeholderId, session);
 
@@ -117,10 +196,28 @@ export class SessionManager {
           sessionId: currentSessionId,
           streamEvent,
         });
+        if (streamEvent.type === "result") {
+          void this.saveSession(session);
+        }
       },
     });
 
-    await session.send(options.initialMessage);
+    this.forwardPermissionEvents(session, () => currentSessionId);
+    this.forwardBudgetEvents(session, () => currentSessionId);
+    this.forwardContextEvents(session, () => currentSessionId);
+    this.forwardRetryEvents(session, () => currentSessionId);
+    this.forwardStallEvents(session, () => currentSessionId);
+    this.forwardQueueEvents(session, () => currentSessionId);
+
+    try {
+      await session.send(options.initialMessage);
+    } catch (err) {
+      // send() may fail before claiming the prewarmed query (e.g. invalid content)
+      if (warmRunId) {
+        this.adapter.discardWarmRun(warmRunId);
+      }
+      throw err;
+    }
 
     // After send(), session must have realSessionId
     const realSessionId = (session as any).realSessionId;
@@ -170,9 +267,17 @@ export class SessionManager {
   }
 
   getSessions(limit: number, offset: number): Session[] {
+    return this.sortedSessions().slice(offset, offset + limit);
+  }
+
+  /**
+   * Real sessions, newest first
+   */
+  private sortedSessions(): ClaudeSession[] {
     // Filter out warmup sessions and get all real sessions
+    // (pooled queries never enter the session map until a session claims them)
     const all = Array.from(this.sessions.values()).filter(
-      (session) => !this.isWarmupSession(session.id)
+      (session) => !isWarmupSession(session.id)
     );
 
     // Sort by start time (newest first)
@@ -182,7 +287,7 @@ export class SessionManager {
       return timeB - timeA;
     });
 
-    return all.slice(offset, offset + limit);
+    return all;
   }
 
   async deleteSession(id: string): Promise<void> {
@@ -190,17 +295,12 @@ export class SessionManager {
     if (session) {
       this.logger.debug({ sessionId: id }, "Deleting session");
 
-      // Delete the .jsonl file if it exists
-      const filePath = path.join(this.sessionDir, `${id}.jsonl`);
-      try {
-        await fs.unlink(filePath);
-        this.logger.debug({ sessionId: id, filePath }, "Deleted session file");
-      } catch (error) {
-        if ((error as any).code !== "ENOENT") {
-          this.logger.warn(
-            { err: error, sessionId: id, filePath },
-            "Failed to delete session file"
-          );
+      // Delete the .jsonl file and the stored copy if they exist
+      for (const store of new Set([this.transcripts, this.store])) {
+        try {
+          await store.delete(id);
+        } catch (error) {
+          this.logger.warn({ err: error, sessionId: id }, "Failed to delete stored session");
         }
       }
 
@@ -215,6 +315,205 @@ export class SessionManager {
     }
   }
 
+  /**
+   * Fork a session from one of its messages
+   *
+   * Copies the transcript up to the end of the turn containing atMessageId
+   * into a new session file. The fork resumes from there on its next message,
+   * the parent session is left untouched.
+   */
+  async forkSession(sessionId: string, options: ForkSessionOptions): Promise<Session> {
+    const parent = this.sessions.get(sessionId);
+    if (!parent || parent.state === "deleted") {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    const parentRealId = (parent as any).realSessionId;
+    if (!parentRealId) {
+      throw new Error(`Session ${sessionId} has no transcript yet`);
+    }
+
+    const turns = countTurns(parent.getMessages(), options.atMessageId);
+    if (turns === 0) {
+      throw new Error(`Message ${options.atMessageId} not found in session ${sessionId}`);
+    }
+
+    const forkId = randomUUID();
+    const lines = keepTurns(
+      await readTranscript(this.transcripts.transcriptPath(parentRealId)),
+      turns
+    );
+
+    this.logger.debug(
+      { sessionId, forkId, atMessageId: options.atMessageId, turns, lineCount: lines.length },
+      "Forking session"
+    );
+
+    const forkEntry = {
+      type: FORK_ENTRY_TYPE,
+      sessionId: forkId,
+      parentSessionId: sessionId,
+      forkedFromMessageId: options.atMessageId,
+      timestamp: new Date().toISOString(),
+    };
+    await writeTranscript(this.transcripts.transcriptPath(forkId), [
+      JSON.stringify(forkEntry),
+      // Entries carry the session they were written by, point them at the fork
+      ...lines.map(({ raw, entry }) =>
+        entry?.sessionId ? JSON.stringify({ ...entry, sessionId: forkId }) : raw
+      ),
+    ]);
+
+    const sessionData = this.transcripts.load(forkId);
+    if (!sessionData) {
+      throw new Error(`Failed to read forked session ${forkId}`);
+    }
+    if (this.store !== this.transcripts) {
+      await this.store.save(sessionData);
+    }
+    this.transcriptTimes.set(forkId, sessionData.updatedAt.getTime());
+
+    const { messages, ...info } = sessionData;
+    const session = this.registerSession(
+      { ...info, summary: summarize(messages), messageCount: messages.length },
+      () => sessionData,
+      {
+        permissionMode: parent.getPermissionMode(),
+        thinking: parent.getThinking(),
+        budget: this.config.sessionBudget, // A fork starts with nothing spent
+      }
+    );
+
+    this.logger.info(
+      { sessionId, forkId, messageCount: sessionData.messages.length },
+      "Session forked"
+    );
+
+    this.sessionEventsSubject.next({ type: "created", sessionId: forkId });
+    return session;
+  }
+
+  /**
+   * Remove the last turns of a session
+   *
+   * Truncates the transcript so the next message resumes the SDK session from
+   * the remaining history. With restoreFiles, files the agent edited in the
+   * removed turns are put back as they were before those turns.
+   */
+  async rewindSession(sessionId: string, options: RewindSessionOptions): Promise<RewindResult> {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.state === "deleted") {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    if (!Number.isInteger(options.turns) || options.turns < 1) {
+      throw new Error("turns must be a positive integer");
+    }
+
+    if (session.isActive()) {
+      throw new Error(`Session ${sessionId} is still responding`);
+    }
+
+    const realSessionId = (session as any).realSessionId;
+    if (!realSessionId) {
+      throw new Error(`Session ${sessionId} has no transcript yet`);
+    }
+
+    const filePath = this.transcripts.transcriptPath(realSessionId);
+    const lines = await readTranscript(filePath);
+    const totalTurns = transcriptTurns(lines);
+    if (options.turns >= totalTurns) {
+      throw new Error(
+        `Cannot rewind ${options.turns} turns, session ${sessionId} has ${totalTurns}`
+      );
+    }
+
+    // Read before truncating, an indexed session would otherwise load the rewound transcript
+    const messages = session.getMessages();
+
+    const kept = keepTurns(lines, totalTurns - options.turns);
+    const restoredFiles = options.restoreFiles
+      ? await this.restoreFiles(
+          lines.slice(kept.length),
+          session.getMetadata().projectPath || this.config.workspace
+        )
+      : [];
+
+    await writeTranscript(
+      filePath,
+      kept.map((line) => line.raw)
+    );
+
+    // Trim in-memory history by the same number of turns (live sessions keep their own IDs)
+    const messageTurns = messages.filter(isPromptMessage).length;
+    const keptMessages = keepMessageTurns(messages, Math.max(messageTurns - options.turns, 0));
+    const removedMessageIds = messages.slice(keptMessages.length).map((message) => message.id);
+
+    const sessionData = this.transcripts.load(realSessionId);
+    if (sessionData) {
+      this.transcriptTimes.set(realSessionId, sessionData.updatedAt.getTime());
+    }
+    session._rewind(
+      keptMessages,
+      sessionData?.tokenUsage || session.getTokenUsage(),
+      sessionData?.turns || session._getTurns()
+    );
+    await this.saveSession(session);
+
+    this.logger.info(
+      {
+        sessionId,
+        turns: options.turns,
+        removedMessages: removedMessageIds.length,
+        restoredFiles: restoredFiles.length,
+      },
+      "Session rewound"
+    );
+
+    this.sessionEventsSubject.next({ type: "updated", sessionId });
+    return { sessionId, turns: options.turns, removedMessageIds, restoredFiles };
+  }
+
+  /**
+   * Search message content, tool inputs and tool outputs of all sessions
+   * Indexed sessions are read for the search only, they stay unloaded
+   */
+  async searchSessions(
+    query: string,
+    options: SearchSessionsOptions = {}
+  ): Promise<SessionSearchResult[]> {
+    const term = query.trim();
+    if (!term) {
+      return [];
+    }
+
+    const limit = options.limit ?? DEFAULT_SEARCH_LIMIT;
+    const results: SessionSearchResult[] = [];
+    let matchCount = 0;
+
+    for (const session of this.sortedSessions()) {
+      if (matchCount >= limit) break;
+      if (options.sessionIds && !options.sessionIds.includes(session.id)) continue;
+
+      const matches = searchMessages(
+        session._readMessages(),
+        term,
+        options.caseSensitive,
+        limit - matchCount
+      );
+      if (matches.length > 0) {
+        results.push({ sessionId: session.id, summary: session.summary(), matches });
+        matchCount += matches.length;
+      }
+    }
+
+    this.logger.debug(
+      { query: term, sessionCount: results.length, matchCount },
+      "Sessions searched"
+    );
+    return results;
+  }
+
   sessionEvents$(): Observable<SessionEvent> {
     return this.sessionEventsSubject.asObservable();
   }
@@ -230,6 +529,56 @@ export class SessionManager {
     return count;
   }
 
+  /**
+   * Prewarm the configured number of SDK queries
+   */
+  startWarmupPool(): void {
+    this.warmupPool.fill();
+  }
+
+  getWarmupStatus(): WarmupPoolStatus {
+    return this.warmupPool.getStatus();
+  }
+
+  getBudget(): Budget {
+    return this.budget.getBudget();
+  }
+
+  /**
+   * Replace the agent budget, running sessions check it from their next model response on
+   */
+  setBudget(budget: Budget): void {
+    this.budget.setBudget(budget);
+    this.logger.info({ budget }, "Agent budget updated");
+  }
+
+  getBudgetUsage(): BudgetUsage {
+    return this.budget.getUsage();
+  }
+
+  /**
+   * Register hooks for all sessions, running and new
+   */
+  useHooks(hooks: AgentHooks): () => void {
+    this.logger.info({ hooks: Object.keys(hooks) }, "Hooks registered");
+    return this.adapter.getHooks().use(hooks);
+  }
+
+  /**
+   * Register a tool for the next runs of all sessions
+   */
+  registerTool(tool: AgentTool<any>): () => void {
+    return this.adapter.getTools().register(tool);
+  }
+
+  getMcpServers(): McpServerInfo[] {
+    return this.adapter.getMcpServers();
+  }
+
+  getSubagents(): SubagentDefinition[] {
+    return this.adapter.getSubagents();
+  }
+
   getMetrics(): PerformanceMetrics {
     return {
       avgResponseTime:
@@ -243,258 +592,456 @@ export class SessionManager {
 
   destroy(): void {
     this.logger.info({ sessionCount: this.sessions.size }, "Destroying SessionManager");
+    this.warmupPool.drain();
     for (const session of this.sessions.values()) {
       session.delete().catch((err) => {
         this.logger.warn({ err, sessionId: session.id }, "Failed to delete session during destroy");
       });
     }
+    this.watcher?.close();
+    this.watcher = null;
+    for (const timer of this.pendingSyncs.values()) {
+      clearTimeout(timer);
+    }
+    this.pendingSyncs.clear();
     this.sessions.clear();
+    this.store.close();
     this.sessionEventsSubject.complete();
     this.logger.debug("SessionManager destroyed");
   }
 
   /**
-   * Check if a session ID represents a warmup/subagent session
-   * Warmup sessions have IDs like "agent-{shortId}" (e.g., agent-8c147a19)
+   * Forward tool permission requests/resolutions as session events
+   * getSessionId is read lazily because new sessions switch from placeholder to real ID
+   */
+  private forwardPermissionEvents(session: ClaudeSession, getSessionId: () => string): void {
+    session.permissionEvents$().subscribe({
+      next: (event) => {
+        const sessionId = getSessionId();
+        if (event.type === "requested") {
+          this.sessionEventsSubject.next({
+            type: "permission_request",
+            sessionId,
+            request: event.request,
+          });
+        } else {
+          this.sessionEventsSubject.next({
+            type: "permission_resolved",
+            sessionId,
+            requestId: event.requestId,
+            decision: event.decision,
+          });
+        }
+      },
+    });
+  }
+
+  /**
+   * Forward reached budgets as session events, the run is already interrupted
+   */
+  private forwardBudgetEvents(session: ClaudeSession, getSessionId: () => string): void {
+    session.budgetEvents$().subscribe({
+      next: (exceeded) => {
+        this.sessionEventsSubject.next({
+          type: "budget_exceeded",
+          sessionId: getSessionId(),
+          exceeded,
+        });
+      },
+    });
+  }
+
+  /**
+   * Forward context warnings as session events
    */
-  private isWarmupSession(sessionId: string): boolean {
-    return sessionId.startsWith("agent-") && sessionId.length < 20;
+  private forwardContextEvents(session: ClaudeSession, getSessionId: () => string): void {
+    session.contextEvents$().subscribe({
+      next: (warning) => {
+        this.sessionEventsSubject.next({
+          type: "context_warning",
+          sessionId: getSessionId(),
+          warning,
+        });
+      },
+    });
   }
 
   /**
-   * Load all historical sessions from JSONL files on initialization
-   * Filters out SDK warmup sessions (agent-*) automatically
+   * Forward scheduled retries as session events, the run stays active until it is retried
+   */
+  private forwardRetryEvents(session: ClaudeSession, getSessionId: () => string): void {
+    session.retryEvents$().subscribe({
+      next: (retry) => {
+        this.sessionEventsSubject.next({
+          type: "retry_scheduled",
+          sessionId: getSessionId(),
+          retry,
+        });
+      },
+    });
+  }
+
+  /**
+   * Forward runs stopped by the watchdog as session events
+   */
+  private forwardStallEvents(session: ClaudeSession, getSessionId: () => string): void {
+    session.stallEvents$().subscribe({
+      next: (stall) => {
+        this.sessionEventsSubject.next({
+          type: "run_stalled",
+          sessionId: getSessionId(),
+          stall,
+        });
+      },
+    });
+  }
+
+  /**
+   * Forward queue changes as session events, with the message whose run starts
+   */
+  private forwardQueueEvents(session: ClaudeSession, getSessionId: () => string): void {
+    session.queueEvents$().subscribe({
+      next: (update) => {
+        this.sessionEventsSubject.next({
+          type: "queue_updated",
+          sessionId: getSessionId(),
+          ...update,
+        });
+      },
+    });
+  }
+
+  /**
+   * Index all historical sessions on initialization
+   *
+   * Every session needs a transcript to be resumed, so transcripts decide which
+   * sessions exist. Only index headers (metadata, summary) are read here, messages
+   * are loaded on the first getMessages() of a session. With a separate store
+   * (SQLite), sessions indexed since their transcript last changed come from the
+   * store. SDK warmup sessions (agent-*) and empty pool leftovers are skipped.
    */
   async loadHistoricalSessions(): Promise<void> {
     this.logger.debug({ sessionDir: this.sessionDir }, "Loading historical sessions");
 
     try {
-      const files = await fs.readdir(this.sessionDir);
-      const jsonlFiles = files.filter((f) => f.endsWith(".jsonl"));
+      const transcripts = await this.transcripts.listTranscripts();
+      const indexed = new Map<string, StoredSessionInfo>();
+      if (this.store !== this.transcripts) {
+        for (const info of await this.store.list()) {
+          indexed.set(info.id, info);
+        }
+      }
 
-      this.logger.debug({ fileCount: jsonlFiles.length }, "Found session files");
+      this.logger.debug(
+        { fileCount: transcripts.length, indexedCount: indexed.size },
+        "Found session files"
+      );
 
       let loadedCount = 0;
-      let skippedWarmup = 0;
-      for (const file of jsonlFiles) {
-        const sessionId = path.basename(file, ".jsonl");
+      let fromStoreCount = 0;
+      let skippedEmpty = 0;
+      for (const transcript of transcripts) {
+        const sessionId = transcript.id;
 
         // Skip if already in memory (active session)
         if (this.sessions.has(sessionId)) {
           continue;
         }
 
-        // Skip SDK warmup/subagent sessions
-        if (this.isWarmupSession(sessionId)) {
-          skippedWarmup++;
-          this.logger.debug({ sessionId }, "Skipping warmup session");
+        const stored = indexed.get(sessionId);
+        const fresh = !!stored && stored.updatedAt.getTime() >= transcript.updatedAt.getTime();
+        const info = fresh ? stored : await this.transcripts.readHeader(transcript);
+
+        // Prewarmed queries that were never claimed leave transcripts without messages
+        if (!info) {
+          skippedEmpty++;
+          this.logger.debug({ sessionId }, "Skipping empty session");
           continue;
         }
 
-        // Load historical session
-        const filePath = path.join(this.sessionDir, file);
-        const sessionData = await this.parseJsonlFile(filePath);
-
-        if (sessionData) {
-          // sessionId from filename IS the real Claude SDK session_id
-          // (JSONL files are named with SDK session_id)
-          const session = new ClaudeSession(
-            sessionId,
-            sessionData.metadata,
-            this.adapter,
-            {}, // No options needed for historical sessions
-            false, // Not from warmup pool
-            this.logger,
-            sessionData.messages, // Pass historical messages
-            sessionData.tokenUsage // Pass token usage
-          );
-
-          // For historical sessions, set realSessionId to enable resume
-          (session as any).realSessionId = sessionId;
-
-          // Subscribe to stream events for this historical session
-          session.streamEvents$().subscribe({
-            next: (streamEvent) => {
-              this.logger.info(
-                { sessionId, eventType: streamEvent.type },
-                "🌊 Forwarding stream event (historical session)"
-              );
-              this.sessionEventsSubject.next({
-                type: "streaming",
-                sessionId,
-                streamEvent,
-              });
-            },
-          });
-
-          this.sessions.set(sessionId, session);
-          loadedCount++;
-
-          this.logger.debug(
-            { sessionId, messageCount: sessionData.messages.length },
-            "Historical session loaded with realSessionId set"
-          );
-        }
+        // sessionId from filename IS the real Claude SDK session_id
+        // (JSONL files are named with SDK session_id)
+        this.registerSession(info, this.messageLoader(sessionId, fresh), {
+          permissionMode: this.config.permissionMode,
+          thinking: this.config.thinking,
+          budget: this.config.sessionBudget,
+        });
+        this.transcriptTimes.set(sessionId, transcript.updatedAt.getTime());
+        loadedCount++;
+        if (fresh) fromStoreCount++;
       }
 
       this.logger.info(
-        { loadedCount, skippedWarmup, totalFiles: jsonlFiles.length },
-        "Historical sessions loaded"
+        { loadedCount, fromStoreCount, skippedEmpty, totalFiles: transcripts.length },
+        "Historical sessions indexed"
       );
     } catch (error) {
-      // Directory might not exist for new projects
-      if ((error as any).code !== "ENOENT") {
-        this.logger.error(
-          { err: error, sessionDir: this.sessionDir },
-          "Failed to load historical sessions"
-        );
-        throw error;
-      }
-      this.logger.debug(
-        { sessionDir: this.sessionDir },
-        "Session directory does not exist (new project)"
+      this.logger.error(
+        { err: error, sessionDir: this.sessionDir },
+        "Failed to load historical sessions"
       );
+      throw error;
     }
   }
 
   /**
-   * Parse JSONL file and return session data
+   * Watch the session directory for transcripts written by other processes,
+   * e.g. the Claude CLI running in the same workspace
+   *
+   * New transcripts become sessions, changed ones are re-indexed and removed ones
+   * are dropped. Sessions that ran in this process are left alone, their own
+   * stream keeps them up to date.
    */
-  private async parseJsonlFile(filePath: string): Promise<{
-    messages: AnyMessage[];
-    metadata: SessionMetadata;
-    tokenUsage: TokenUsage;
-  } | null> {
-    const sessionId = path.basename(filePath, ".jsonl");
-    const messages: AnyMessage[] = [];
-    let metadata: SessionMetadata | null = null;
-    let tokenUsage: TokenUsage = {
-      used: 0,
-      total: 160000,
-      breakdown: { input: 0, output: 0, cacheRead: 0, cacheCreation: 0 },
-    };
+  async watchSessions(): Promise<void> {
+    if (this.watcher) {
+      return;
+    }
 
     try {
-      const fileStream = fsSync.createReadStream(filePath);
-      const rl = readline.createInterface({
-        input: fileStream,
-        crlfDelay: Infinity,
-      });
+      // The Claude CLI creates the directory with its first session, watch it from the start
+      await fs.mkdir(this.sessionDir, { recursive: true });
+      this.watcher = fsSync.watch(this.sessionDir, (_eventType, file) => this.scheduleSync(file));
+    } catch (err) {
+      // Not fatal, sessions from other processes just show up after a restart
+      this.logger.warn({ err, sessionDir: this.sessionDir }, "Cannot watch session directory");
+      return;
+    }
+    this.watcher.on("error", (err) => {
+      this.logger.warn({ err, sessionDir: this.sessionDir }, "Session directory watch failed");
+    });
+    this.logger.debug({ sessionDir: this.sessionDir }, "Watching session directory");
+  }
 
-      for await (const line of rl) {
-        if (!line.trim()) continue;
+  /**
+   * Debounce watch events per transcript
+   */
+  private scheduleSync(file: string | null): void {
+    const sessionId = file && file.endsWith(".jsonl") ? path.basename(file, ".jsonl") : null;
+    if (!sessionId || isWarmupSession(sessionId)) {
+      return;
+    }
 
-        try {
-          const entry = JSON.parse(line);
-
-          // Extract metadata from first entry
-          if (!metadata && entry.cwd) {
-            metadata = {
-              projectPath: entry.cwd,
-              model: entry.message?.model || "unknown",
-              startTime: new Date(entry.timestamp || Date.now()),
-            };
-          }
-
-          // Parse message
-          if (entry.type === "user" || entry.type === "assistant") {
-            // Skip tool_result user messages (these are internal to Claude SDK)
-            if (entry.type === "user" && entry.message?.content) {
-              const content = entry.message.content;
-              if (Array.isArray(content)) {
-                const hasToolResult = content.some((block: any) => block.type === "tool_result");
-                if (hasToolResult) {
-                  // Skip this message - it's a tool result, not a real user message
-                  continue;
-                }
-              }
-            }
-
-            const baseMessage: AnyMessage = {
-              id: entry.uuid || `${entry.type}-${Date.now()}`,
-              type: entry.type,
-              content: this.extractContent(entry.message),
-              timestamp: new Date(entry.timestamp || Date.now()),
-            };
-
-            // For assistant messages, check if it's a tool use
-            if (entry.type === "assistant" && entry.message?.content) {
-              const content = entry.message.content;
-              if (Array.isArray(content)) {
-                // Find tool_use block
-                const toolBlock = content.find((block: any) => block.type === "tool_use");
-                if (toolBlock) {
-                  // This is a tool use message
-                  (baseMessage as any).isToolUse = true;
-                  (baseMessage as any).toolName = toolBlock.name;
-                  (baseMessage as any).toolInput = toolBlock.input
-                    ? JSON.stringify(toolBlock.input, null, 2)
-                    : "";
-                  (baseMessage as any).toolId = toolBlock.id;
-                  (baseMessage as any).toolResult = null;
-                  // Clear content for tool use messages
-                  baseMessage.content = "";
-                }
-              }
-            }
-
-            messages.push(baseMessage);
-          }
-
-          // Extract token usage
-          if (entry.message?.usage) {
-            const usage = entry.message.usage;
-            tokenUsage.breakdown.input += usage.input_tokens || 0;
-            tokenUsage.breakdown.output += usage.output_tokens || 0;
-            tokenUsage.breakdown.cacheRead += usage.cache_read_input_tokens || 0;
-            tokenUsage.breakdown.cacheCreation += usage.cache_creation_input_tokens || 0;
-            tokenUsage.used =
-              tokenUsage.breakdown.input +
-              tokenUsage.breakdown.output +
-              tokenUsage.breakdown.cacheRead +
-              tokenUsage.breakdown.cacheCreation;
-          }
-        } catch (_parseError) {
-          // Skip malformed lines
-          continue;
+    // Transcripts are appended line by line, sync once writes settle
+    clearTimeout(this.pendingSyncs.get(sessionId));
+    this.pendingSyncs.set(
+      sessionId,
+      setTimeout(() => {
+        this.pendingSyncs.delete(sessionId);
+        this.syncTranscript(sessionId).catch((err) => {
+          this.logger.warn({ err, sessionId }, "Failed to sync session transcript");
+        });
+      }, WATCH_DEBOUNCE_MS)
+    );
+  }
+
+  /**
+   * Apply a transcript change seen by the directory watch
+   */
+  private async syncTranscript(sessionId: string): Promise<void> {
+    const session = this.findSession(sessionId);
+    if (session && session.state !== "created") {
+      return;
+    }
+
+    const transcript = await this.transcripts.statTranscript(sessionId);
+    if (!transcript) {
+      if (session) {
+        this.logger.info({ sessionId }, "Session transcript removed externally");
+        this.transcriptTimes.delete(sessionId);
+        if (this.store !== this.transcripts) {
+          await this.store.delete(sessionId);
         }
+        await session.delete();
+        this.sessions.delete(sessionId);
+        this.sessionEventsSubject.next({ type: "deleted", sessionId });
       }
+      return;
+    }
 
-      if (!metadata) {
-        metadata = {
-          projectPath: this.config.workspace,
-          model: "unknown",
-          startTime: new Date(),
-        };
-      }
+    if (this.transcriptTimes.get(sessionId) === transcript.updatedAt.getTime()) {
+      return;
+    }
 
-      return { messages, metadata, tokenUsage };
-    } catch (error) {
-      this.logger.error({ err: error, filePath, sessionId }, "Failed to parse session file");
-      return null;
+    const info = await this.transcripts.readHeader(transcript);
+    if (!info) {
+      return; // No messages yet
+    }
+    this.transcriptTimes.set(sessionId, transcript.updatedAt.getTime());
+
+    if (session) {
+      session._index(info, this.messageLoader(sessionId, false));
+      this.logger.info({ sessionId }, "Session transcript changed externally");
+      this.sessionEventsSubject.next({ type: "updated", sessionId });
+    } else {
+      this.registerSession(info, this.messageLoader(sessionId, false), {
+        permissionMode: this.config.permissionMode,
+        thinking: this.config.thinking,
+        budget: this.config.sessionBudget,
+      });
+      this.logger.info({ sessionId }, "Session transcript added externally");
+      this.sessionEventsSubject.next({ type: "created", sessionId });
     }
   }
 
   /**
-   * Extract content from SDK message format
+   * Find a session by its SDK session_id
+   * New sessions are still mapped by placeholder ID until their first response ends
    */
-  private extractContent(message: any): string {
-    if (!message) return "";
+  private findSession(sessionId: string): ClaudeSession | undefined {
+    return (
+      this.sessions.get(sessionId) ||
+      Array.from(this.sessions.values()).find(
+        (session) => (session as any).realSessionId === sessionId
+      )
+    );
+  }
+
+  /**
+   * Message loader for an indexed session
+   * Sessions read from their transcript are written to a separate store once loaded
+   */
+  private messageLoader(sessionId: string, fromStore: boolean): MessageLoader {
+    return () => {
+      if (fromStore) {
+        return this.store.load(sessionId);
+      }
 
-    if (typeof message.content === "string") {
-      return message.content;
+      const sessionData = this.transcripts.load(sessionId);
+      if (sessionData && this.store !== this.transcripts) {
+        this.store.save(sessionData).catch((err) => {
+          this.logger.warn({ err, sessionId }, "Failed to save session to store");
+        });
+      }
+      return sessionData;
+    };
+  }
+
+  /**
+   * Add a session that already has a transcript on disk (historical or forked)
+   * Its ID is the file name, which is also the SDK session_id to resume
+   */
+  private registerSession(
+    info: StoredSessionInfo,
+    loader: MessageLoader,
+    options: SessionOptions
+  ): ClaudeSession {
+    const sessionId = info.id;
+    const session = new ClaudeSession(
+      sessionId,
+      info.metadata,
+      this.adapter,
+      options,
+      false, // Not from warmup pool
+      this.logger
+    );
+    session._index(info, loader);
+    session._useAgentBudget(this.budget);
+
+    // Set realSessionId to enable resume
+    (session as any).realSessionId = sessionId;
+
+    // Subscribe to stream events for this session
+    session.streamEvents$().subscribe({
+      next: (streamEvent) => {
+        this.logger.info(
+          { sessionId, eventType: streamEvent.type },
+          "🌊 Forwarding stream event (historical session)"
+        );
+        this.sessionEventsSubject.next({
+          type: "streaming",
+          sessionId,
+          streamEvent,
+        });
+        if (streamEvent.type === "result") {
+          void this.saveSession(session);
+        }
+      },
+    });
+
+    this.forwardPermissionEvents(session, () => sessionId);
+    this.forwardBudgetEvents(session, () => sessionId);
+    this.forwardContextEvents(session, () => sessionId);
+    this.forwardRetryEvents(session, () => sessionId);
+    this.forwardStallEvents(session, () => sessionId);
+    this.forwardQueueEvents(session, () => sessionId);
+
+    this.sessions.set(sessionId, session);
+    return session;
+  }
+
+  /**
+   * Undo the file edits recorded in transcript lines
+   * Newest first, so each file ends up as it was before the earliest edit
+   * Only files inside the session cwd are touched, transcripts are not trusted input
+   */
+  private async restoreFiles(lines: TranscriptLine[], cwd: string): Promise<string[]> {
+    const restored = new Set<string>();
+    const root = await realPath(cwd);
+
+    for (const change of fileChanges(lines).reverse()) {
+      const filePath = path.resolve(cwd, change.filePath);
+      if (!isInside(root, await realPath(filePath))) {
+        this.logger.warn({ filePath, cwd }, "Skipped restoring a file outside the workspace");
+        continue;
+      }
+      try {
+        if (change.originalContent === null) {
+          await fs.rm(filePath, { force: true });
+        } else {
+          await fs.writeFile(filePath, change.originalContent, "utf-8");
+        }
+        restored.add(filePath);
+      } catch (error) {
+        this.logger.warn({ err: error, filePath }, "Failed to restore file");
+      }
     }
 
-    if (Array.isArray(message.content)) {
-      return message.content
-        .map((block: any) => {
-          if (block.type === "text") return block.text;
-          if (block.type === "tool_use") return `[Tool: ${block.name}]`;
-          return "";
-        })
-        .join("\n");
+    return Array.from(restored);
+  }
+
+  /**
+   * Write the current state of a session to the store
+   * Store failures are logged, they never break the session itself
+   */
+  private async saveSession(session: ClaudeSession): Promise<void> {
+    const sessionId = (session as any).realSessionId;
+    if (!sessionId || this.store === this.transcripts) {
+      return;
     }
 
-    return "";
+    try {
+      await this.store.save({
+        id: sessionId,
+        metadata: session.getMetadata(),
+        messages: session.getMessages(),
+        tokenUsage: session.getTokenUsage(),
+        turns: session._getTurns(),
+        updatedAt: new Date(),
+      });
+    } catch (error) {
+      this.logger.warn({ err: error, sessionId }, "Failed to save session to store");
+    }
+  }
+}
+
+/**
+ * Path with symlinks resolved, for a file that does not exist through its nearest existing parent
+ */
+async function realPath(target: string): Promise<string> {
+  try {
+    return await fs.realpath(target);
+  } catch {
+    const parent = path.dirname(target);
+    return parent === target ? target : path.join(await realPath(parent), path.basename(target));
   }
 }
+
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return (
+    relative !== "" &&
+    relative !== ".." &&
+    !relative.startsWith(`..${path.sep}`) &&
+    !path.isAbsolute(relative)
+  );
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import type { AnyMessage } from "~/types";
+import { searchMessages, snippet } from "./session-search";
+
+const timestamp = new Date("2025-01-01T00:00:00.000Z");
+
+const messages = [
+  { id: "u1", type: "user", content: "Why does the Build fail?", timestamp },
+  {
+    id: "a1",
+    type: "tool_use",
+    timestamp,
+    toolId: "toolu_1",
+    toolName: "Bash",
+    toolInput: { command: "pnpm build" },
+    toolResult: { content: "error TS2304: Cannot find name", isError: true, timestamp },
+  },
+  { id: "a2", type: "assistant", content: "The build fails on a missing import.", timestamp },
+] as AnyMessage[];
+
+describe("searchMessages", () => {
+  it("should match content, tool inputs and tool outputs", () => {
+    expect(searchMessages(messages, "build").map((m) => [m.messageId, m.field])).toEqual([
+      ["u1", "content"],
+      ["a1", "toolInput"],
+      ["a2", "content"],
+    ]);
+    expect(searchMessages(messages, "cannot find")).toEqual([
+      {
+        messageId: "a1",
+        field: "toolOutput",
+        snippet: "error TS2304: Cannot find name",
+        timestamp,
+      },
+    ]);
+  });
+
+  it("should stop at the limit", () => {
+    expect(searchMessages(messages, "build", false, 2).map((m) => m.messageId)).toEqual([
+      "u1",
+      "a1",
+    ]);
+  });
+
+  it("should respect caseSensitive", () => {
+    expect(searchMessages(messages, "Build", true).map((m) => m.messageId)).toEqual(["u1"]);
+  });
+});
+
+describe("snippet", () => {
+  it("should cut long text around the match", () => {
+    const text = `${"a ".repeat(100)}needle\n\n${" b".repeat(100)}`;
+    const result = snippet(text, text.indexOf("needle"), 6);
+
+    expect(result.startsWith("...")).toBe(true);
+    expect(result.endsWith("...")).toBe(true);
+    expect(result).toContain("needle b");
+    expect(result.length).toBeLessThan(140);
+  });
+});
@@ -0,0 +1,64 @@
+import type { AnyMessage, SearchMatchField, SessionSearchMatch } from "~/types";
+
+/**
+ * Characters of context kept on each side of a match
+ */
+const SNIPPET_CONTEXT = 60;
+
+/**
+ * Find a query in message content, tool inputs and tool outputs
+ * At most one match per field of a message, in message order, stops at limit matches
+ */
+export function searchMessages(
+  messages: AnyMessage[],
+  query: string,
+  caseSensitive = false,
+  limit = Infinity
+): SessionSearchMatch[] {
+  const needle = caseSensitive ? query : query.toLowerCase();
+  const matches: SessionSearchMatch[] = [];
+
+  for (const message of messages) {
+    for (const [field, text] of searchableFields(message)) {
+      if (matches.length >= limit) {
+        return matches;
+      }
+      const index = (caseSensitive ? text : text.toLowerCase()).indexOf(needle);
+      if (index !== -1) {
+        matches.push({
+          messageId: message.id,
+          field,
+          snippet: snippet(text, index, query.length),
+          timestamp: message.timestamp,
+        });
+      }
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Text around a match, whitespace collapsed, cut ends marked with "..."
+ */
+export function snippet(text: string, index: number, length: number): string {
+  const start = Math.max(index - SNIPPET_CONTEXT, 0);
+  const end = Math.min(index + length + SNIPPET_CONTEXT, text.length);
+  const excerpt = text.slice(start, end).replace(/\s+/g, " ").trim();
+  return `${start > 0 ? "..." : ""}${excerpt}${end < text.length ? "..." : ""}`;
+}
+
+/**
+ * Searchable text of a message
+ */
+function searchableFields(message: AnyMessage): [SearchMatchField, string][] {
+  const fields: [SearchMatchField, string][] =
+    message.type === "tool_use"
+      ? [
+          ["toolInput", JSON.stringify(message.toolInput)],
+          ["toolOutput", message.toolResult?.content || ""],
+        ]
+      : [["content", message.content]];
+
+  return fields.filter(([, text]) => text.length > 0);
+}
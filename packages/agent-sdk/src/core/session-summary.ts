@@ -0,0 +1,45 @@
+import type { AnyMessage } from "~/types";
+
+/**
+ * Number of leading messages searched for the summary
+ * (also how far an index has to read into a transcript)
+ */
+export const SUMMARY_MESSAGE_COUNT = 10;
+
+/**
+ * Generate session summary from messages
+ * Priority:
+ * 1. First real user message (filtered system messages)
+ * 2. Fallback to "New Session"
+ *
+ * Aligned with Claude Code CLI behavior
+ */
+export function summarize(messages: AnyMessage[]): string {
+  // Find first real user message
+  const firstUserMsg = messages.slice(0, SUMMARY_MESSAGE_COUNT).find((m) => {
+    if (m.type !== "user") return false;
+
+    const content = m.content || "";
+
+    // Filter system messages (aligned with Claude Code CLI)
+    const isSystemMessage =
+      content.startsWith("<command-name>") ||
+      content.startsWith("<command-message>") ||
+      content.startsWith("<command-args>") ||
+      content.startsWith("<local-command-stdout>") ||
+      content.startsWith("<system-reminder>") ||
+      content.startsWith("Caveat:") ||
+      content.startsWith("This session is being continued from a previous") ||
+      content === "Warmup";
+
+    return !isSystemMessage && content.length > 0;
+  });
+
+  if (firstUserMsg && firstUserMsg.type === "user") {
+    // Return first 100 characters, add ellipsis if truncated
+    const summary = firstUserMsg.content.substring(0, 100);
+    return firstUserMsg.content.length > 100 ? `${summary}...` : summary;
+  }
+
+  return "New Session";
+}
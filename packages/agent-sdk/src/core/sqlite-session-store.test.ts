@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fsSync from "fs";
+import os from "os";
+import path from "path";
+import Database from "better-sqlite3";
+import type { Logger } from "@deepracticex/logger";
+import type { StoredSession } from "~/types";
+import { SqliteSessionStore } from "./sqlite-session-store";
+
+const logger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+} as unknown as Logger;
+
+function storedSession(id: string, overrides: Partial<StoredSession> = {}): StoredSession {
+  return {
+    id,
+    metadata: {
+      projectPath: "/work/project",
+      model: "claude-sonnet-4",
+      startTime: new Date("2025-01-01T00:00:00.000Z"),
+      parentSessionId: "parent-1",
+    },
+    messages: [
+      {
+        id: "u1",
+        type: "user",
+        content: "hello",
+        timestamp: new Date("2025-01-01T00:00:01.000Z"),
+        attachments: [{ type: "image", mediaType: "image/png", data: "AAAA" }],
+      },
+      {
+        id: "a1",
+        type: "assistant",
+        content: "hi",
+        timestamp: new Date("2025-01-01T00:00:02.000Z"),
+      },
+      {
+        id: "a1:1",
+        type: "tool_use",
+        toolId: "toolu_1",
+        toolName: "Read",
+        toolInput: { file_path: "/work/project/README.md" },
+        toolResult: {
+          content: "# Project",
+          isError: false,
+          timestamp: new Date("2025-01-01T00:00:03.000Z"),
+        },
+        timestamp: new Date("2025-01-01T00:00:02.000Z"),
+      },
+    ],
+    tokenUsage: {
+      used: 30,
+      total: 160000,
+      breakdown: { input: 10, output: 20, cacheRead: 0, cacheCreation: 0 },
+    },
+    turns: [
+      {
+        timestamp: new Date("2025-01-01T00:00:01.000Z"),
+        models: { "claude-sonnet-4": { input: 10, output: 20, cacheRead: 0, cacheCreation: 0 } },
+      },
+    ],
+    updatedAt: new Date("2025-01-01T00:00:03.000Z"),
+    ...overrides,
+  };
+}
+
+/**
+ * Run with a database file (not :memory:) that is removed afterwards
+ */
+async function withDatabaseFile(run: (databasePath: string) => Promise<void>): Promise<void> {
+  const databasePath = path.join(os.tmpdir(), `sessions-${Date.now()}.db`);
+  try {
+    await run(databasePath);
+  } finally {
+    fsSync.rmSync(databasePath, { force: true });
+    fsSync.rmSync(`${databasePath}-wal`, { force: true });
+    fsSync.rmSync(`${databasePath}-shm`, { force: true });
+  }
+}
+
+describe("SqliteSessionStore", () => {
+  let store: SqliteSessionStore;
+
+  beforeEach(() => {
+    store = new SqliteSessionStore(":memory:", logger);
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  it("should round-trip sessions with messages and metadata", async () => {
+    const session = storedSession("s1");
+    await store.save(session);
+
+    expect(store.load("s1")).toEqual(session);
+    expect(store.load("missing")).toBeNull();
+  });
+
+  it("should list sessions without messages, newest first", async () => {
+    await store.save(storedSession("old"));
+    await store.save(
+      storedSession("new", {
+        metadata: {
+          projectPath: "/work/project",
+          model: "claude-sonnet-4",
+          startTime: new Date("2025-02-01T00:00:00.000Z"),
+        },
+      })
+    );
+
+    const infos = await store.list();
+    expect(infos.map((info) => info.id)).toEqual(["new", "old"]);
+    expect(infos[1]).toMatchObject({
+      summary: "hello",
+      messageCount: 3,
+      tokenUsage: { used: 30 },
+    });
+    expect(infos[1]).not.toHaveProperty("messages");
+  });
+
+  it("should list only the sessions of its workspace when given one", async () => {
+    const scoped = new SqliteSessionStore(":memory:", logger, "/work/project");
+    const other = storedSession("other");
+    await scoped.save(storedSession("mine"));
+    await scoped.save({ ...other, metadata: { ...other.metadata, projectPath: "/work/other" } });
+
+    expect((await scoped.list()).map((info) => info.id)).toEqual(["mine"]);
+    expect(scoped.load("other")).not.toBeNull();
+    scoped.close();
+  });
+
+  it("should replace messages on save and remove them on delete", async () => {
+    const session = storedSession("s1");
+    await store.save(session);
+    await store.save({ ...session, messages: session.messages.slice(0, 1) });
+
+    expect(store.load("s1")!.messages.map((m) => m.id)).toEqual(["u1"]);
+
+    await store.delete("s1");
+    expect(store.load("s1")).toBeNull();
+    expect(await store.list()).toEqual([]);
+  });
+
+  it("should keep sessions when reopened", async () => {
+    await withDatabaseFile(async (databasePath) => {
+      const first = new SqliteSessionStore(databasePath, logger);
+      await first.save(storedSession("s1"));
+      first.close();
+
+      const reopened = new SqliteSessionStore(databasePath, logger);
+      expect((await reopened.list()).map((info) => info.id)).toEqual(["s1"]);
+      reopened.close();
+    });
+  });
+
+  it("should refuse databases of a newer schema version", async () => {
+    await withDatabaseFile(async (databasePath) => {
+      new SqliteSessionStore(databasePath, logger).close();
+
+      // Written by a later release
+      const db = new Database(databasePath);
+      db.pragma("user_version = 99");
+      db.close();
+
+      expect(() => new SqliteSessionStore(databasePath, logger)).toThrow(
+        "Session database has schema version 99"
+      );
+    });
+  });
+});
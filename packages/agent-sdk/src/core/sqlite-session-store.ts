@@ -0,0 +1,255 @@
+import fsSync from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import type {
+  AnyMessage,
+  SessionMetadata,
+  SessionStore,
+  StoredSession,
+  StoredSessionInfo,
+  TurnUsage,
+} from "~/types";
+import type { Logger } from "@deepracticex/logger";
+import { summarize } from "./session-summary";
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS sessions (
+  id TEXT PRIMARY KEY,
+  project_path TEXT NOT NULL,
+  start_time INTEGER NOT NULL,
+  summary TEXT NOT NULL,
+  metadata TEXT NOT NULL,
+  token_usage TEXT NOT NULL,
+  turns TEXT NOT NULL,
+  message_count INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS messages (
+  session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  seq INTEGER NOT NULL,
+  id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  content TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  data TEXT NOT NULL,
+  PRIMARY KEY (session_id, seq)
+);
+
+CREATE INDEX IF NOT EXISTS sessions_start_time ON sessions(start_time);
+`;
+
+/**
+ * Schema changes, MIGRATIONS[n] brings a database from version n to n + 1
+ * Append a step (ALTER TABLE ...) for every change, shipped steps are never edited
+ */
+const MIGRATIONS = [SCHEMA];
+
+const SCHEMA_VERSION = MIGRATIONS.length;
+
+interface SessionRow {
+  id: string;
+  summary: string;
+  metadata: string;
+  token_usage: string;
+  turns: string;
+  message_count: number;
+  updated_at: number;
+}
+
+interface MessageRow {
+  timestamp: number;
+  data: string;
+}
+
+/**
+ * SqliteSessionStore - sessions, messages, token usage and agent metadata
+ * (fork links etc.) in one SQLite file
+ *
+ * Listing reads the sessions table only, messages are loaded per session.
+ * Agents of several workspaces can share one file, each lists its own sessions.
+ */
+export class SqliteSessionStore implements SessionStore {
+  private db: Database.Database;
+  private logger: Logger;
+
+  constructor(
+    databasePath: string,
+    logger: Logger,
+    private readonly projectPath?: string // List sessions of this workspace only
+  ) {
+    this.logger = logger;
+    if (databasePath !== ":memory:") {
+      fsSync.mkdirSync(path.dirname(path.resolve(databasePath)), { recursive: true });
+    }
+
+    this.db = new Database(databasePath);
+    this.db.pragma("journal_mode = WAL");
+    this.db.pragma("foreign_keys = ON");
+    this.migrate();
+    this.logger.debug({ databasePath }, "SqliteSessionStore opened");
+  }
+
+  async list(): Promise<StoredSessionInfo[]> {
+    const where = this.projectPath !== undefined ? "WHERE project_path = ?" : "";
+    const rows = this.db
+      .prepare(
+        `SELECT id, summary, metadata, token_usage, message_count, updated_at FROM sessions ${where} ORDER BY start_time DESC`
+      )
+      .all(...(this.projectPath !== undefined ? [this.projectPath] : [])) as Omit<
+      SessionRow,
+      "turns"
+    >[];
+
+    return rows.map((row) => ({
+      id: row.id,
+      metadata: parseMetadata(row.metadata),
+      summary: row.summary,
+      messageCount: row.message_count,
+      tokenUsage: JSON.parse(row.token_usage),
+      updatedAt: new Date(row.updated_at),
+    }));
+  }
+
+  load(sessionId: string): StoredSession | null {
+    const row = this.db
+      .prepare("SELECT id, metadata, token_usage, turns, updated_at FROM sessions WHERE id = ?")
+      .get(sessionId) as Omit<SessionRow, "summary" | "message_count"> | undefined;
+    if (!row) {
+      return null;
+    }
+
+    const messages = (
+      this.db
+        .prepare("SELECT timestamp, data FROM messages WHERE session_id = ? ORDER BY seq")
+        .all(sessionId) as MessageRow[]
+    ).map(toMessage);
+
+    return {
+      id: row.id,
+      metadata: parseMetadata(row.metadata),
+      messages,
+      tokenUsage: JSON.parse(row.token_usage),
+      turns: parseTurns(row.turns),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  async save(session: StoredSession): Promise<void> {
+    const upsertSession = this.db.prepare(
+      `INSERT INTO sessions (id, project_path, start_time, summary, metadata, token_usage, turns, message_count, updated_at)
+       VALUES (@id, @projectPath, @startTime, @summary, @metadata, @tokenUsage, @turns, @messageCount, @updatedAt)
+       ON CONFLICT(id) DO UPDATE SET
+         project_path = excluded.project_path,
+         start_time = excluded.start_time,
+         summary = excluded.summary,
+         metadata = excluded.metadata,
+         token_usage = excluded.token_usage,
+         turns = excluded.turns,
+         message_count = excluded.message_count,
+         updated_at = excluded.updated_at`
+    );
+    const clearMessages = this.db.prepare("DELETE FROM messages WHERE session_id = ?");
+    const insertMessage = this.db.prepare(
+      `INSERT INTO messages (session_id, seq, id, type, content, timestamp, data)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    );
+
+    // Messages are rewritten as a whole (rewind can drop them)
+    this.db.transaction(() => {
+      upsertSession.run({
+        id: session.id,
+        projectPath: session.metadata.projectPath,
+        startTime: session.metadata.startTime.getTime(),
+        summary: summarize(session.messages),
+        metadata: JSON.stringify(session.metadata),
+        tokenUsage: JSON.stringify(session.tokenUsage),
+        turns: JSON.stringify(session.turns || []),
+        messageCount: session.messages.length,
+        updatedAt: session.updatedAt.getTime(),
+      });
+      clearMessages.run(session.id);
+      session.messages.forEach((message, seq) => {
+        insertMessage.run(
+          session.id,
+          seq,
+          message.id,
+          message.type,
+          "content" in message ? message.content : "",
+          new Date(message.timestamp).getTime(),
+          JSON.stringify(message)
+        );
+      });
+    })();
+
+    this.logger.debug(
+      { sessionId: session.id, messageCount: session.messages.length },
+      "Session saved to SQLite"
+    );
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.db.prepare("DELETE FROM sessions WHERE id = ?").run(sessionId);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Bring the database to SCHEMA_VERSION in one transaction
+   * A newer database is left alone, this version would misread it
+   */
+  private migrate(): void {
+    const version = this.db.pragma("user_version", { simple: true }) as number;
+    if (version > SCHEMA_VERSION) {
+      this.db.close();
+      throw new Error(
+        `Session database has schema version ${version}, this Agent SDK supports up to ${SCHEMA_VERSION}`
+      );
+    }
+    if (version === SCHEMA_VERSION) {
+      return;
+    }
+
+    this.db.transaction(() => {
+      MIGRATIONS.slice(version).forEach((migration) => this.db.exec(migration));
+      this.db.pragma(`user_version = ${SCHEMA_VERSION}`);
+    })();
+    this.logger.info({ from: version, to: SCHEMA_VERSION }, "Session store schema migrated");
+  }
+}
+
+function toMessage(row: MessageRow): AnyMessage {
+  return reviveDates({ ...JSON.parse(row.data), timestamp: row.timestamp });
+}
+
+/**
+ * Dates of a stored message, including the subagent transcript of a Task call
+ */
+function reviveDates(message: any): AnyMessage {
+  message.timestamp = new Date(message.timestamp);
+  if (message.type === "tool_use") {
+    if (message.toolResult) {
+      message.toolResult.timestamp = new Date(message.toolResult.timestamp);
+    }
+    message.subagentMessages?.forEach(reviveDates);
+  }
+  return message;
+}
+
+function parseTurns(json: string): TurnUsage[] {
+  return JSON.parse(json).map((turn: TurnUsage) => ({
+    ...turn,
+    timestamp: new Date(turn.timestamp),
+  }));
+}
+
+function parseMetadata(json: string): SessionMetadata {
+  const metadata = JSON.parse(json);
+  return {
+    ...metadata,
+    startTime: new Date(metadata.startTime),
+    ...(metadata.endTime && { endTime: new Date(metadata.endTime) }),
+  };
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { RunStalled } from "~/types";
+import { StallWatchdog, resolveTimeoutOptions } from "./stall-watchdog";
+
+describe("StallWatchdog", () => {
+  let stalls: RunStalled[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    stalls = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function watch(idleMs: number, runMs: number): StallWatchdog {
+    const watchdog = new StallWatchdog({ idleMs, runMs });
+    watchdog.stalled.then((stall) => stalls.push(stall));
+    watchdog.start();
+    return watchdog;
+  }
+
+  it("should fire once no message arrived for idleMs", async () => {
+    const watchdog = watch(1000, 0);
+
+    await vi.advanceTimersByTimeAsync(900);
+    watchdog.activity();
+    await vi.advanceTimersByTimeAsync(900);
+    expect(stalls).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(stalls).toEqual([{ reason: "idle", timeoutMs: 1000 }]);
+  });
+
+  it("should not count the idle time while paused", async () => {
+    const watchdog = watch(1000, 0);
+
+    watchdog.pause();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(stalls).toEqual([]);
+
+    watchdog.resume();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(stalls).toEqual([{ reason: "idle", timeoutMs: 1000 }]);
+  });
+
+  it("should fire after runMs however active the stream is", async () => {
+    const watchdog = watch(1000, 2500);
+
+    for (let i = 0; i < 5; i++) {
+      await vi.advanceTimersByTimeAsync(500);
+      watchdog.activity();
+    }
+    expect(stalls).toEqual([{ reason: "run", timeoutMs: 2500 }]);
+  });
+
+  it("should not fire once stopped or with both timeouts off", async () => {
+    watch(1000, 2000).stop();
+    watch(0, 0);
+
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(stalls).toEqual([]);
+    expect(() => resolveTimeoutOptions({ idleMs: 1.5 })).toThrow(
+      "Timeout idleMs must be a non-negative integer"
+    );
+  });
+});
@@ -0,0 +1,95 @@
+import type { RunStalled, TimeoutOptions } from "~/types";
+
+const DEFAULT_TIMEOUTS: Required<TimeoutOptions> = {
+  idleMs: 900_000,
+  runMs: 0,
+};
+
+/**
+ * StallWatchdog - timeouts of one streaming run
+ *
+ * The idle timer restarts with every SDK message and pauses while the run
+ * waits on the user (tool approvals), the run timer counts from start().
+ * `stalled` resolves with the first timeout that fires, never when stopped before.
+ */
+export class StallWatchdog {
+  readonly stalled: Promise<RunStalled>;
+  private fire!: (stall: RunStalled) => void;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private runTimer: ReturnType<typeof setTimeout> | null = null;
+  private paused = false;
+  private stopped = false;
+
+  constructor(private readonly options: Required<TimeoutOptions>) {
+    this.stalled = new Promise((resolve) => (this.fire = resolve));
+  }
+
+  start(): void {
+    const { runMs } = this.options;
+    if (runMs > 0) {
+      this.runTimer = setTimeout(() => this.expire({ reason: "run", timeoutMs: runMs }), runMs);
+    }
+    this.activity();
+  }
+
+  /**
+   * The SDK sent a message
+   */
+  activity(): void {
+    this.clearIdle();
+    const { idleMs } = this.options;
+    if (this.stopped || this.paused || idleMs === 0) {
+      return;
+    }
+    this.idleTimer = setTimeout(() => this.expire({ reason: "idle", timeoutMs: idleMs }), idleMs);
+  }
+
+  /**
+   * The run waits on the user, not on the SDK
+   */
+  pause(): void {
+    this.paused = true;
+    this.clearIdle();
+  }
+
+  resume(): void {
+    if (this.paused) {
+      this.paused = false;
+      this.activity();
+    }
+  }
+
+  stop(): void {
+    this.stopped = true;
+    this.clearIdle();
+    if (this.runTimer) {
+      clearTimeout(this.runTimer);
+      this.runTimer = null;
+    }
+  }
+
+  private expire(stall: RunStalled): void {
+    this.stop();
+    this.fire(stall);
+  }
+
+  private clearIdle(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+}
+
+/**
+ * Timeout options with the defaults filled in
+ */
+export function resolveTimeoutOptions(options: TimeoutOptions = {}): Required<TimeoutOptions> {
+  const resolved = { ...DEFAULT_TIMEOUTS, ...options };
+  for (const [name, value] of Object.entries(resolved)) {
+    if (!Number.isInteger(value) || value < 0) {
+      throw new Error(`Timeout ${name} must be a non-negative integer`);
+    }
+  }
+  return resolved;
+}
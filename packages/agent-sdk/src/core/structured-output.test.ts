@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import type { AnyMessage, Session, TurnCost } from "~/types";
+import { AgentError } from "./agent-error";
+import { askStructured, parseAnswer, toJsonSchema } from "./structured-output";
+
+const review = z.object({
+  verdict: z.enum(["approve", "reject"]),
+  score: z.number().int().describe("1 to 5"),
+  notes: z.array(z.string()).optional(),
+});
+
+const tokens = { input: 100, output: 20, cacheRead: 0, cacheCreation: 0 };
+const cost = { input: 0.3, output: 0.3, cacheRead: 0, cacheCreation: 0, total: 0.6 };
+
+/**
+ * Session answering each prompt with the next reply, one priced turn per run
+ */
+function fakeSession(replies: string[]) {
+  const messages: AnyMessage[] = [];
+  const turns: TurnCost[] = [];
+  const prompts: string[] = [];
+  const session = {
+    id: "session-1",
+    getMessages: () => [...messages],
+    getCost: () => ({ turns: [...turns], models: [], cost }),
+  } as unknown as Session;
+
+  const send = async (content: string) => {
+    prompts.push(content);
+    const timestamp = new Date();
+    messages.push({ id: `u${prompts.length}`, type: "user", content, timestamp });
+    messages.push({
+      id: `a${prompts.length}`,
+      type: "assistant",
+      content: replies[prompts.length - 1],
+      timestamp,
+    });
+    turns.push({
+      timestamp,
+      models: [{ model: "claude-sonnet-4", tokens, cost, priced: true }],
+      cost,
+    });
+    return session;
+  };
+  return { session, send, prompts };
+}
+
+describe("structured output", () => {
+  it("should describe zod schemas as JSON Schema", () => {
+    expect(toJsonSchema(review)).toEqual({
+      type: "object",
+      properties: {
+        verdict: { type: "string", enum: ["approve", "reject"] },
+        score: { type: "integer", description: "1 to 5" },
+        notes: { type: "array", items: { type: "string" } },
+      },
+      required: ["verdict", "score"],
+      additionalProperties: false,
+    });
+    expect(toJsonSchema(z.string().nullable())).toEqual({
+      anyOf: [{ type: "string" }, { type: "null" }],
+    });
+  });
+
+  it("should parse JSON in code fences or text and report schema mismatches", () => {
+    expect(parseAnswer('```json\n{"verdict": "approve", "score": 4}\n```', review)).toEqual({
+      success: true,
+      data: { verdict: "approve", score: 4 },
+    });
+    expect(
+      parseAnswer('Here it is: {"verdict": "reject", "score": 1}. Done', review)
+    ).toMatchObject({ success: true });
+    expect(parseAnswer("I approve", review)).toEqual({
+      success: false,
+      error: "the answer is not valid JSON",
+    });
+    expect(parseAnswer('{"verdict": "maybe", "score": 2.5}', review)).toMatchObject({
+      success: false,
+      error: expect.stringMatching(/^verdict: .*; score: Expected integer/),
+    });
+  });
+
+  it("should send the validation error again until the answer matches", async () => {
+    const { session, send, prompts } = fakeSession([
+      '{"verdict": "approve"}',
+      '{"verdict": "approve", "score": 5}',
+    ]);
+
+    const result = await askStructured("Review the diff", review, {}, session, send);
+
+    expect(result).toEqual({
+      data: { verdict: "approve", score: 5 },
+      sessionId: "session-1",
+      attempts: 2,
+      usage: { input: 200, output: 40, cacheRead: 0, cacheCreation: 0 },
+      cost: { input: 0.6, output: 0.6, cacheRead: 0, cacheCreation: 0, total: 1.2 },
+    });
+    expect(prompts[0]).toContain("Review the diff");
+    expect(prompts[0]).toContain('"enum": [\n');
+    expect(prompts[1]).toContain("score: Required");
+  });
+
+  it("should fail with invalid_output once the retries are used up", async () => {
+    const { session, send, prompts } = fakeSession(["no", "still no"]);
+
+    const asking = askStructured("Review the diff", review, { maxRetries: 1 }, session, send);
+
+    await expect(asking).rejects.toBeInstanceOf(AgentError);
+    await expect(asking).rejects.toMatchObject({ code: "invalid_output" });
+    expect(prompts).toHaveLength(2);
+  });
+});
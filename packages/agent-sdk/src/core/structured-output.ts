@@ -0,0 +1,178 @@
+import { ZodFirstPartyTypeKind } from "zod";
+import type { z } from "zod";
+import type { AnyMessage, AskOptions, AskResult, Session } from "~/types";
+import { AgentError } from "./agent-error";
+import { sumTurnCosts } from "./session-cost";
+
+// Prompts sent again when the answer does not match the schema
+const DEFAULT_MAX_RETRIES = 2;
+
+/**
+ * Ask for a JSON answer until it matches the schema
+ *
+ * @param session - Session the prompt goes to, null when send() creates it with the first prompt
+ * @param send - Sends one prompt, resolves with the session once the run answered it
+ * @throws AgentError "invalid_output" when no answer matched within maxRetries
+ */
+export async function askStructured<T>(
+  prompt: string,
+  schema: z.ZodType<T>,
+  options: AskOptions,
+  session: Session | null,
+  send: (content: string) => Promise<Session>
+): Promise<AskResult<T>> {
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  if (!Number.isInteger(maxRetries) || maxRetries < 0) {
+    throw new Error("Ask maxRetries must be a non-negative integer");
+  }
+
+  const firstTurn = session ? session.getCost().turns.length : 0;
+  let content = instruction(prompt, schema);
+  for (let attempt = 1; ; attempt++) {
+    const firstMessage = session ? session.getMessages().length : 0;
+    session = await send(content);
+
+    const parsed = parseAnswer(lastAnswer(session.getMessages().slice(firstMessage)), schema);
+    if (parsed.success) {
+      const { tokens, cost } = sumTurnCosts(session.getCost().turns.slice(firstTurn));
+      return { data: parsed.data, sessionId: session.id, attempts: attempt, usage: tokens, cost };
+    }
+    if (attempt > maxRetries) {
+      throw new AgentError(
+        "invalid_output",
+        `No answer matched the schema after ${attempt} attempts: ${parsed.error}`
+      );
+    }
+    content = [
+      `Your answer did not match the schema: ${parsed.error}`,
+      "Answer again with only the corrected JSON value.",
+    ].join("\n");
+  }
+}
+
+/**
+ * Parse and validate the JSON of an answer
+ * The value may be wrapped in a code fence or surrounded by text
+ */
+export function parseAnswer<T>(
+  answer: string,
+  schema: z.ZodType<T>
+): { success: true; data: T } | { success: false; error: string } {
+  let value: unknown;
+  try {
+    value = JSON.parse(jsonOf(answer));
+  } catch (_parseError) {
+    return { success: false, error: "the answer is not valid JSON" };
+  }
+
+  const result = schema.safeParse(value);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  const issues = result.error.issues.map(
+    (issue) => `${issue.path.length > 0 ? issue.path.join(".") : "value"}: ${issue.message}`
+  );
+  return { success: false, error: issues.join("; ") };
+}
+
+/**
+ * JSON Schema of a zod schema, as far as the model needs it to shape its answer
+ * Refinements and transforms are checked when the answer is validated, not described
+ */
+export function toJsonSchema(schema: z.ZodTypeAny): Record<string, unknown> {
+  const json = describeType(schema);
+  return schema.description ? { ...json, description: schema.description } : json;
+}
+
+function describeType(schema: z.ZodTypeAny): Record<string, unknown> {
+  const def = schema._def;
+  switch (def.typeName as ZodFirstPartyTypeKind) {
+    case ZodFirstPartyTypeKind.ZodObject: {
+      const shape: Record<string, z.ZodTypeAny> = def.shape();
+      const required = Object.keys(shape).filter((key) => !shape[key].isOptional());
+      return {
+        type: "object",
+        properties: Object.fromEntries(
+          Object.entries(shape).map(([key, value]) => [key, toJsonSchema(value)])
+        ),
+        ...(required.length > 0 && { required }),
+        additionalProperties: false,
+      };
+    }
+    case ZodFirstPartyTypeKind.ZodString:
+      return { type: "string" };
+    case ZodFirstPartyTypeKind.ZodNumber:
+      return {
+        type: def.checks.some((check: { kind: string }) => check.kind === "int")
+          ? "integer"
+          : "number",
+      };
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: "boolean" };
+    case ZodFirstPartyTypeKind.ZodNull:
+      return { type: "null" };
+    case ZodFirstPartyTypeKind.ZodDate:
+      return { type: "string", format: "date-time" };
+    case ZodFirstPartyTypeKind.ZodArray:
+      return { type: "array", items: toJsonSchema(def.type) };
+    case ZodFirstPartyTypeKind.ZodTuple:
+      return { type: "array", prefixItems: def.items.map(toJsonSchema) };
+    case ZodFirstPartyTypeKind.ZodRecord:
+      return { type: "object", additionalProperties: toJsonSchema(def.valueType) };
+    case ZodFirstPartyTypeKind.ZodEnum:
+      return { type: "string", enum: def.values };
+    case ZodFirstPartyTypeKind.ZodNativeEnum:
+      return { enum: Object.values(def.values) };
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return { const: def.value };
+    case ZodFirstPartyTypeKind.ZodUnion:
+    case ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+      return { anyOf: [...def.options].map(toJsonSchema) };
+    case ZodFirstPartyTypeKind.ZodNullable:
+      return { anyOf: [toJsonSchema(def.innerType), { type: "null" }] };
+    case ZodFirstPartyTypeKind.ZodOptional:
+    case ZodFirstPartyTypeKind.ZodDefault:
+      return toJsonSchema(def.innerType);
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return toJsonSchema(def.schema);
+    default:
+      // any, unknown and types JSON has no form for
+      return {};
+  }
+}
+
+function instruction(prompt: string, schema: z.ZodTypeAny): string {
+  return [
+    prompt,
+    "",
+    "Answer with only a JSON value matching this JSON Schema, without any other text:",
+    "```json",
+    JSON.stringify(toJsonSchema(schema), null, 2),
+    "```",
+  ].join("\n");
+}
+
+/**
+ * Text the run answered with: its last assistant message
+ */
+function lastAnswer(messages: AnyMessage[]): string {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (message.type === "assistant") {
+      return message.content;
+    }
+  }
+  return "";
+}
+
+function jsonOf(answer: string): string {
+  const fenced = /```(?:json)?\s*\n([\s\S]*?)```/.exec(answer);
+  const text = (fenced ? fenced[1] : answer).trim();
+  const start = text.search(/[[{]/);
+  if (start === -1) {
+    return text;
+  }
+  // Text around the value, from the first opening to the last closing bracket
+  const end = Math.max(text.lastIndexOf("}"), text.lastIndexOf("]"));
+  return text.slice(start, end + 1);
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import type { Logger } from "@deepracticex/logger";
+import { SUBAGENT_DIR, loadSubagents, parseSubagentFile, toAgentDefinitions } from "./subagents";
+
+const logger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+} as unknown as Logger;
+
+const reviewerFile = `---
+name: reviewer
+description: "Reviews diffs for bugs"
+tools: Read, Grep, Glob
+model: haiku
+---
+
+You review code changes.
+`;
+
+describe("subagents", () => {
+  let workspace: string;
+
+  afterEach(async () => {
+    if (workspace) {
+      await fs.rm(workspace, { recursive: true, force: true });
+    }
+  });
+
+  it("should parse frontmatter fields and take the body as prompt", () => {
+    expect(parseSubagentFile(reviewerFile, "file-name")).toEqual({
+      name: "reviewer",
+      description: "Reviews diffs for bugs",
+      prompt: "You review code changes.",
+      tools: ["Read", "Grep", "Glob"],
+      model: "haiku",
+      source: "file",
+    });
+    expect(
+      parseSubagentFile("---\ndescription: Writes tests\n---\nWrite tests.", "tester")
+    ).toEqual({
+      name: "tester",
+      description: "Writes tests",
+      prompt: "Write tests.",
+      source: "file",
+    });
+    expect(
+      parseSubagentFile(
+        "---\ndescription: >-\n  Writes tests\n  for new code\ntools:\n  - Read\n  - Edit\n---\nWrite tests.",
+        "tester"
+      )
+    ).toMatchObject({ description: "Writes tests for new code", tools: ["Read", "Edit"] });
+    expect(() => parseSubagentFile("Just a prompt", "plain")).toThrow("Missing frontmatter");
+    expect(() => parseSubagentFile("---\nname: tester\n---\nWrite tests.", "tester")).toThrow(
+      'Subagent "tester" needs a description'
+    );
+  });
+
+  it("should reject fields it cannot read instead of widening tools", () => {
+    const file = (fields: string) => `---\ndescription: Writes tests\n${fields}\n---\nWrite tests.`;
+
+    expect(() => parseSubagentFile(file("tools:"), "tester")).toThrow(
+      'Subagent "tester" tools must list tool names'
+    );
+    expect(() => parseSubagentFile(file("tools:\n  read: true"), "tester")).toThrow(
+      'Subagent "tester" tools must list tool names'
+    );
+    expect(() => parseSubagentFile(file("model: gpt-4"), "tester")).toThrow(
+      'Subagent "tester" model must be one of sonnet, opus, haiku, inherit'
+    );
+    expect(() => parseSubagentFile(file("name: [a, b]"), "tester")).toThrow(
+      'Frontmatter field "name" must be a string'
+    );
+    expect(() => parseSubagentFile(file("tools: [Read"), "tester")).toThrow();
+  });
+
+  it("should load files of the workspace, configured subagents replace them by name", async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), "agent-sdk-"));
+    const dir = path.join(workspace, SUBAGENT_DIR);
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(path.join(dir, "reviewer.md"), reviewerFile);
+    await fs.writeFile(path.join(dir, "broken.md"), "no frontmatter");
+
+    const subagents = loadSubagents(
+      workspace,
+      [{ name: "reviewer", description: "Strict reviewer", prompt: "Be strict." }],
+      logger
+    );
+
+    expect(subagents).toEqual([
+      { name: "reviewer", description: "Strict reviewer", prompt: "Be strict.", source: "config" },
+    ]);
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.objectContaining({ filePath: path.join(dir, "broken.md") }),
+      "Skipping invalid subagent file"
+    );
+    expect(toAgentDefinitions(subagents)).toEqual({
+      reviewer: { description: "Strict reviewer", prompt: "Be strict." },
+    });
+    expect(toAgentDefinitions([])).toBeUndefined();
+    expect(() =>
+      loadSubagents("/missing", [{ name: "code review", description: "d", prompt: "p" }], logger)
+    ).toThrow("must be 1-64 letters, digits, underscores or hyphens");
+  });
+});
@@ -0,0 +1,170 @@
+import fs from "fs";
+import path from "path";
+import matter from "gray-matter";
+import type { AgentDefinition } from "@anthropic-ai/claude-agent-sdk";
+import type { Logger } from "@deepracticex/logger";
+import type { SubagentDefinition } from "~/types";
+
+/**
+ * Subagent files of a workspace, one Markdown file per subagent
+ * (frontmatter with name, description, tools and model, the body is the prompt)
+ */
+export const SUBAGENT_DIR = path.join(".claude", "agents");
+
+// Names the Task tool accepts as subagent_type
+const SUBAGENT_NAME = /^[a-zA-Z0-9_-]{1,64}$/;
+const MODELS: NonNullable<SubagentDefinition["model"]>[] = ["sonnet", "opus", "haiku", "inherit"];
+
+/**
+ * Subagents of an agent: the files in <workspace>/.claude/agents, then the
+ * configured ones, which replace files of the same name
+ */
+export function loadSubagents(
+  workspace: string,
+  configured: SubagentDefinition[] = [],
+  logger: Logger
+): SubagentDefinition[] {
+  const subagents = new Map<string, SubagentDefinition>();
+
+  for (const subagent of readSubagentFiles(path.join(workspace, SUBAGENT_DIR), logger)) {
+    subagents.set(subagent.name, subagent);
+  }
+  for (const subagent of configured) {
+    validate(subagent);
+    subagents.set(subagent.name, { ...subagent, source: "config" });
+  }
+
+  if (subagents.size > 0) {
+    logger.info({ subagents: [...subagents.keys()] }, "Subagents loaded");
+  }
+  return [...subagents.values()];
+}
+
+/**
+ * Claude SDK agents option, undefined without subagents
+ */
+export function toAgentDefinitions(
+  subagents: SubagentDefinition[]
+): Record<string, AgentDefinition> | undefined {
+  if (subagents.length === 0) {
+    return undefined;
+  }
+  return Object.fromEntries(
+    subagents.map(({ name, description, prompt, tools, model }) => [
+      name,
+      { description, prompt, ...(tools && { tools }), ...(model && { model }) },
+    ])
+  );
+}
+
+/**
+ * Subagent of a .claude/agents file
+ *
+ * @param fallbackName - File name without extension, used without a name in the frontmatter
+ * @throws Error if the frontmatter is missing or invalid, a field that cannot be read
+ *   is an error rather than a default (tools would fall back to all tools)
+ */
+export function parseSubagentFile(content: string, fallbackName: string): SubagentDefinition {
+  if (!matter.test(content)) {
+    throw new Error("Missing frontmatter");
+  }
+  const { data, content: body } = matter(content);
+
+  const name = stringField(data, "name") || fallbackName;
+  const model = stringField(data, "model");
+  if (model !== undefined && !isModel(model)) {
+    throw new Error(`Subagent "${name}" model must be one of ${MODELS.join(", ")}`);
+  }
+  const tools = toolsField(data, name);
+
+  const subagent: SubagentDefinition = {
+    name,
+    description: stringField(data, "description") || "",
+    prompt: body.trim(),
+    ...(tools && { tools }),
+    ...(model && { model }),
+    source: "file",
+  };
+  validate(subagent);
+  return subagent;
+}
+
+function readSubagentFiles(dir: string, logger: Logger): SubagentDefinition[] {
+  let files: string[];
+  try {
+    files = fs.readdirSync(dir).filter((file) => file.endsWith(".md"));
+  } catch (error) {
+    if ((error as any).code !== "ENOENT") {
+      logger.warn({ err: error, dir }, "Failed to read subagent directory");
+    }
+    return [];
+  }
+
+  const subagents: SubagentDefinition[] = [];
+  for (const file of files.sort()) {
+    const filePath = path.join(dir, file);
+    try {
+      subagents.push(
+        parseSubagentFile(fs.readFileSync(filePath, "utf-8"), path.basename(file, ".md"))
+      );
+    } catch (error) {
+      // One broken file should not keep the agent from starting
+      logger.warn({ err: error, filePath }, "Skipping invalid subagent file");
+    }
+  }
+  return subagents;
+}
+
+function validate(subagent: SubagentDefinition): void {
+  if (!SUBAGENT_NAME.test(subagent.name)) {
+    throw new Error(
+      `Subagent name "${subagent.name}" must be 1-64 letters, digits, underscores or hyphens`
+    );
+  }
+  if (!subagent.description.trim()) {
+    throw new Error(`Subagent "${subagent.name}" needs a description`);
+  }
+  if (!subagent.prompt.trim()) {
+    throw new Error(`Subagent "${subagent.name}" needs a prompt`);
+  }
+  if (subagent.model && !isModel(subagent.model)) {
+    throw new Error(`Subagent "${subagent.name}" model must be one of ${MODELS.join(", ")}`);
+  }
+}
+
+function isModel(value: string): value is NonNullable<SubagentDefinition["model"]> {
+  return (MODELS as string[]).includes(value);
+}
+
+function stringField(data: Record<string, unknown>, key: string): string | undefined {
+  const value = data[key];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== "string") {
+    throw new Error(`Frontmatter field "${key}" must be a string`);
+  }
+  return value.trim();
+}
+
+/**
+ * Tools as a comma separated string or a YAML list, never an empty list
+ */
+function toolsField(data: Record<string, unknown>, name: string): string[] | undefined {
+  const value = data.tools;
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const tools =
+    typeof value === "string"
+      ? value.split(",")
+      : Array.isArray(value) && value.every((tool) => typeof tool === "string")
+        ? value
+        : null;
+  const names = tools?.map((tool) => tool.trim()).filter(Boolean);
+  if (!names || names.length === 0) {
+    throw new Error(`Subagent "${name}" tools must list tool names, leave it out for all tools`);
+  }
+  return names;
+}
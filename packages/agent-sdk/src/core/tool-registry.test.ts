@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from "vitest";
+import { z } from "zod";
+import type { Logger } from "@deepracticex/logger";
+import { ToolRegistry, TOOL_SERVER_NAME } from "./tool-registry";
+
+const logger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+} as unknown as Logger;
+
+const weather = {
+  name: "get_weather",
+  description: "Current weather of a city",
+  inputSchema: z.object({ city: z.string() }),
+  handler: ({ city }: { city: string }) => ({ city, celsius: 21 }),
+};
+
+describe("ToolRegistry", () => {
+  it("should register tools once, remove them and bump the version each time", () => {
+    const registry = new ToolRegistry([], logger);
+    expect(registry.createServer()).toBeUndefined();
+
+    const remove = registry.register(weather);
+    expect(registry.version).toBe(1);
+    expect(() => registry.register(weather)).toThrow('Tool "get_weather" is already registered');
+    expect(() => registry.register({ ...weather, name: "get weather" })).toThrow(
+      "must be 1-64 letters, digits, underscores or hyphens"
+    );
+    expect(registry.createServer()).toMatchObject({ type: "sdk", name: TOOL_SERVER_NAME });
+
+    remove();
+    remove();
+    expect(registry.list()).toEqual([]);
+    expect(registry.version).toBe(2);
+  });
+
+  it("should turn handler output and errors into MCP results", async () => {
+    const registry = new ToolRegistry([], logger);
+    const call = (handler: () => unknown) => registry.call({ ...weather, handler }, {});
+
+    expect(await call(() => "sunny")).toEqual({ content: [{ type: "text", text: "sunny" }] });
+    expect(await registry.call(weather, { city: "Oslo" })).toEqual({
+      content: [{ type: "text", text: '{"city":"Oslo","celsius":21}' }],
+    });
+    const image = { content: [{ type: "image", data: "aGk=", mimeType: "image/png" }] };
+    expect(await call(async () => image)).toBe(image);
+    expect(
+      await call(() => {
+        throw new Error("Weather service down");
+      })
+    ).toEqual({ content: [{ type: "text", text: "Weather service down" }], isError: true });
+  });
+});
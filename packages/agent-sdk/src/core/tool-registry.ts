@@ -0,0 +1,115 @@
+import { createSdkMcpServer, tool } from "@anthropic-ai/claude-agent-sdk";
+import type { McpSdkServerConfigWithInstance } from "@anthropic-ai/claude-agent-sdk";
+import type { Logger } from "@deepracticex/logger";
+import type { AgentTool, ToolCallResult } from "~/types";
+
+/**
+ * MCP server name of the registered tools, tool calls stream as mcp__agent__<name>
+ */
+export const TOOL_SERVER_NAME = "agent";
+
+// Names the Claude CLI accepts for MCP tools
+const TOOL_NAME = /^[a-zA-Z0-9_-]{1,64}$/;
+
+/**
+ * ToolRegistry - TypeScript tools of an agent, shared by all its sessions
+ *
+ * Every query gets an MCP server instance of its own (an instance serves a
+ * single connection), so tools registered or removed apply from the next run.
+ */
+export class ToolRegistry {
+  private tools = new Map<string, AgentTool<any>>();
+  private _version = 0;
+
+  constructor(
+    tools: AgentTool<any>[] = [],
+    private readonly logger: Logger
+  ) {
+    tools.forEach((agentTool) => this.register(agentTool));
+  }
+
+  /**
+   * Changes with every registration and removal, prewarmed queries started before are stale
+   */
+  get version(): number {
+    return this._version;
+  }
+
+  /**
+   * @returns Removes the tool again
+   */
+  register(agentTool: AgentTool<any>): () => void {
+    if (!TOOL_NAME.test(agentTool.name)) {
+      throw new Error(
+        `Tool name "${agentTool.name}" must be 1-64 letters, digits, underscores or hyphens`
+      );
+    }
+    if (this.tools.has(agentTool.name)) {
+      throw new Error(`Tool "${agentTool.name}" is already registered`);
+    }
+
+    this.tools.set(agentTool.name, agentTool);
+    this._version++;
+    this.logger.info({ toolName: agentTool.name }, "Tool registered");
+
+    return () => {
+      if (this.tools.get(agentTool.name) === agentTool) {
+        this.tools.delete(agentTool.name);
+        this._version++;
+        this.logger.info({ toolName: agentTool.name }, "Tool removed");
+      }
+    };
+  }
+
+  list(): AgentTool<any>[] {
+    return [...this.tools.values()];
+  }
+
+  /**
+   * In-process MCP server for one query, undefined while no tool is registered
+   */
+  createServer(): McpSdkServerConfigWithInstance | undefined {
+    if (this.tools.size === 0) {
+      return undefined;
+    }
+    return createSdkMcpServer({
+      name: TOOL_SERVER_NAME,
+      tools: this.list().map((agentTool) =>
+        tool(agentTool.name, agentTool.description, agentTool.inputSchema.shape, (input) =>
+          this.call(agentTool, input)
+        )
+      ),
+    });
+  }
+
+  /**
+   * Run a tool handler, its errors are results the model can react to
+   */
+  async call(agentTool: AgentTool<any>, input: Record<string, unknown>): Promise<ToolCallResult> {
+    try {
+      return toCallResult(await agentTool.handler(input));
+    } catch (err) {
+      this.logger.warn({ err, toolName: agentTool.name }, "Tool handler failed");
+      return {
+        content: [{ type: "text", text: err instanceof Error ? err.message : String(err) }],
+        isError: true,
+      };
+    }
+  }
+}
+
+function toCallResult(output: unknown): ToolCallResult {
+  if (isCallResult(output)) {
+    return output;
+  }
+  const text = typeof output === "string" ? output : JSON.stringify(output ?? null);
+  return { content: [{ type: "text", text }] };
+}
+
+function isCallResult(output: unknown): output is ToolCallResult {
+  return (
+    typeof output === "object" &&
+    output !== null &&
+    Array.isArray((output as ToolCallResult).content)
+  );
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import type { AnyMessage } from "~/types";
+import {
+  countTurns,
+  isPromptEntry,
+  isPromptMessage,
+  keepMessageTurns,
+  keepTurns,
+  transcriptTurns,
+} from "./transcript";
+import type { TranscriptLine } from "./transcript";
+
+function line(entry: any): TranscriptLine {
+  return { raw: JSON.stringify(entry), entry };
+}
+
+const prompt = (text: string) => line({ type: "user", message: { role: "user", content: text } });
+const answer = (text: string) =>
+  line({ type: "assistant", message: { content: [{ type: "text", text }] } });
+const toolResult = () =>
+  line({ type: "user", message: { content: [{ type: "tool_result", tool_use_id: "t1" }] } });
+
+function message(id: string, type: "user" | "assistant"): AnyMessage {
+  return { id, type, content: id, timestamp: new Date() } as AnyMessage;
+}
+
+describe("transcript", () => {
+  it("should only treat user prompts as turn starts", () => {
+    expect(isPromptEntry(prompt("hi").entry)).toBe(true);
+    expect(isPromptEntry(toolResult().entry)).toBe(false);
+    expect(isPromptEntry(answer("hello").entry)).toBe(false);
+    expect(isPromptEntry({ type: "summary" })).toBe(false);
+  });
+
+  it("should not treat compaction and slash commands as turn starts", () => {
+    expect(isPromptEntry({ ...prompt("summary").entry, isCompactSummary: true })).toBe(false);
+    expect(isPromptEntry({ ...prompt("notice").entry, isMeta: true })).toBe(false);
+    expect(isPromptEntry(prompt("/compact keep the plan").entry)).toBe(false);
+    expect(isPromptEntry(prompt("<command-name>/compact</command-name>").entry)).toBe(false);
+    expect(
+      isPromptEntry(prompt("<local-command-stdout>Compacted</local-command-stdout>").entry)
+    ).toBe(false);
+    expect(isPromptEntry(prompt("/work/project/src is empty?").entry)).toBe(true);
+
+    const messages = [message("u1", "user"), { ...message("c1", "user"), content: "/compact" }];
+    expect(isPromptMessage(messages[0])).toBe(true);
+    expect(isPromptMessage(messages[1])).toBe(false);
+  });
+
+  it("should cut transcripts at turn boundaries", () => {
+    const lines = [
+      line({ type: "summary", summary: "Chat" }),
+      prompt("one"),
+      answer("tool call"),
+      toolResult(),
+      answer("done"),
+      prompt("two"),
+      answer("two done"),
+    ];
+
+    expect(transcriptTurns(lines)).toBe(2);
+    expect(keepTurns(lines, 1)).toEqual(lines.slice(0, 5));
+    expect(keepTurns(lines, 2)).toEqual(lines);
+    expect(keepTurns(lines, 0)).toEqual(lines.slice(0, 1));
+  });
+
+  it("should find the turn of a message", () => {
+    const messages = [
+      message("u1", "user"),
+      message("a1", "assistant"),
+      message("u2", "user"),
+      message("a2", "assistant"),
+    ];
+
+    expect(countTurns(messages, "u1")).toBe(1);
+    expect(countTurns(messages, "a1")).toBe(1);
+    expect(countTurns(messages, "a2")).toBe(2);
+    expect(countTurns(messages, "missing")).toBe(0);
+    expect(keepMessageTurns(messages, 1).map((m) => m.id)).toEqual(["u1", "a1"]);
+  });
+});
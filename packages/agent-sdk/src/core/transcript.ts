@@ -0,0 +1,146 @@
+import { promises as fs } from "fs";
+import type { AnyMessage } from "~/types";
+
+/**
+ * Helpers for Claude SDK session transcripts
+ * (~/.claude/projects/<encoded-workspace>/<sessionId>.jsonl, one JSON entry per line)
+ *
+ * Transcripts are cut by turn: a turn starts at a user prompt and includes
+ * everything the agent did in response, so a cut never splits a tool call
+ * from its result.
+ */
+
+export interface TranscriptLine {
+  raw: string;
+  entry: any | null; // null for lines that are not valid JSON (kept as-is)
+}
+
+/**
+ * File edit recorded in a transcript
+ * originalContent is null for files the agent created
+ */
+export interface FileChange {
+  filePath: string;
+  originalContent: string | null;
+}
+
+/**
+ * Entry written at the top of a forked transcript, ignored by the Claude CLI
+ */
+export const FORK_ENTRY_TYPE = "fork";
+
+export async function readTranscript(filePath: string): Promise<TranscriptLine[]> {
+  const content = await fs.readFile(filePath, "utf-8");
+  return content
+    .split("\n")
+    .filter((raw) => raw.trim())
+    .map((raw) => {
+      try {
+        return { raw, entry: JSON.parse(raw) };
+      } catch {
+        return { raw, entry: null };
+      }
+    });
+}
+
+export async function writeTranscript(filePath: string, lines: string[]): Promise<void> {
+  await fs.writeFile(filePath, lines.length > 0 ? `${lines.join("\n")}\n` : "", "utf-8");
+}
+
+// Slash commands (e.g. /compact) and their output, as sent or as the CLI records them
+const COMMAND_TEXT =
+  /^(\/[\w:-]+(\s|$)|<command-(name|message|args)>|<local-command-(stdout|stderr)>)/;
+
+/**
+ * Check if a transcript entry is a user prompt (start of a turn)
+ * Tool results are also stored as user entries but belong to the running turn,
+ * compaction summaries, CLI notices and slash commands start no turn either
+ * (compact() stores no user message), isPromptMessage() has to agree with this
+ */
+export function isPromptEntry(entry: any): boolean {
+  if (entry?.type !== "user" || entry.isCompactSummary || entry.isSynthetic || entry.isMeta) {
+    return false;
+  }
+  const content = entry.message?.content;
+  if (typeof content === "string") {
+    return !COMMAND_TEXT.test(content.trim());
+  }
+  if (!Array.isArray(content) || content.some((block: any) => block.type === "tool_result")) {
+    return false;
+  }
+  const text = content.find((block: any) => block.type === "text")?.text;
+  return typeof text !== "string" || !COMMAND_TEXT.test(text.trim());
+}
+
+/**
+ * Check if a message is a user prompt (start of a turn), the same turns as isPromptEntry()
+ */
+export function isPromptMessage(message: AnyMessage): boolean {
+  return message.type === "user" && !COMMAND_TEXT.test(message.content.trim());
+}
+
+/**
+ * Number of turns up to and including the one containing messageId
+ *
+ * @returns 0 if the message is not in the list
+ */
+export function countTurns(messages: AnyMessage[], messageId: string): number {
+  let turns = 0;
+  for (const message of messages) {
+    if (isPromptMessage(message)) {
+      turns++;
+    }
+    if (message.id === messageId) {
+      return Math.max(turns, 1);
+    }
+  }
+  return 0;
+}
+
+/**
+ * Count the turns in a transcript
+ */
+export function transcriptTurns(lines: TranscriptLine[]): number {
+  return lines.filter((line) => isPromptEntry(line.entry)).length;
+}
+
+/**
+ * Keep the first `turns` turns of a transcript
+ */
+export function keepTurns(lines: TranscriptLine[], turns: number): TranscriptLine[] {
+  let seen = 0;
+  const end = lines.findIndex((line) => isPromptEntry(line.entry) && ++seen > turns);
+  return end === -1 ? lines : lines.slice(0, end);
+}
+
+/**
+ * Keep the messages belonging to the first `turns` turns
+ */
+export function keepMessageTurns(messages: AnyMessage[], turns: number): AnyMessage[] {
+  let seen = 0;
+  const end = messages.findIndex((message) => isPromptMessage(message) && ++seen > turns);
+  return end === -1 ? messages : messages.slice(0, end);
+}
+
+/**
+ * File edits made by the agent, in transcript order
+ * Read from the Edit, MultiEdit and Write tool results the CLI stores on tool_result entries
+ */
+export function fileChanges(lines: TranscriptLine[]): FileChange[] {
+  const changes: FileChange[] = [];
+  for (const { entry } of lines) {
+    const result = entry?.type === "user" ? entry.toolUseResult : undefined;
+    if (typeof result?.filePath !== "string") {
+      continue;
+    }
+
+    if (result.type === "create") {
+      changes.push({ filePath: result.filePath, originalContent: null });
+    } else if (typeof result.originalFile === "string") {
+      changes.push({ filePath: result.filePath, originalContent: result.originalFile });
+    } else if (typeof result.originalFileContents === "string") {
+      changes.push({ filePath: result.filePath, originalContent: result.originalFileContents });
+    }
+  }
+  return changes;
+}
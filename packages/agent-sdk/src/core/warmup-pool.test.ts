@@ -0,0 +1,123 @@
+import { describe, it, expect, vi } from "vitest";
+import type { Logger } from "@deepracticex/logger";
+import { WarmupPool } from "./warmup-pool";
+import type { ClaudeAdapter } from "./claude-adapter";
+
+const logger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+} as unknown as Logger;
+
+// Fake adapter tracking prewarmed runs by id
+function createAdapter() {
+  const warm = new Set<string>();
+  let next = 0;
+  return {
+    warm,
+    prewarm: vi.fn(() => {
+      const id = `warm-${++next}`;
+      warm.add(id);
+      return id;
+    }),
+    discardWarmRun: vi.fn((id: string) => warm.delete(id)),
+    isWarm: vi.fn((id: string) => warm.has(id)),
+  };
+}
+
+function createPool(adapter: ReturnType<typeof createAdapter>, size = 2) {
+  return new WarmupPool(
+    adapter as unknown as ClaudeAdapter,
+    size,
+    { model: "claude-sonnet-4", permissionMode: "default" },
+    logger
+  );
+}
+
+async function nextTick(): Promise<void> {
+  await new Promise((resolve) => setImmediate(resolve));
+}
+
+describe("WarmupPool", () => {
+  it("should prewarm up to the configured size", () => {
+    const adapter = createAdapter();
+    const pool = createPool(adapter, 3);
+
+    pool.fill();
+    pool.fill();
+
+    expect(adapter.prewarm).toHaveBeenCalledTimes(3);
+    expect(adapter.prewarm).toHaveBeenCalledWith({
+      model: "claude-sonnet-4",
+      permissionMode: "default",
+    });
+    expect(pool.getStatus()).toEqual({ size: 3, ready: 3, hits: 0, misses: 0 });
+  });
+
+  it("should hand out warm runs and refill in the background", async () => {
+    const adapter = createAdapter();
+    const pool = createPool(adapter);
+    pool.fill();
+
+    expect(pool.claim({ permissionMode: "default" })).toBe("warm-1");
+    expect(pool.claim()).toBe("warm-2");
+    expect(pool.getStatus()).toMatchObject({ ready: 0, hits: 2 });
+
+    await nextTick();
+    expect(pool.getStatus().ready).toBe(2);
+  });
+
+  it("should cold start when the pool is exhausted", () => {
+    const adapter = createAdapter();
+    const pool = createPool(adapter, 1);
+    pool.fill();
+
+    expect(pool.claim()).toBe("warm-1");
+    expect(pool.claim()).toBeNull();
+    expect(pool.getStatus()).toMatchObject({ hits: 1, misses: 1 });
+  });
+
+  it("should not hand out runs started with different options", () => {
+    const adapter = createAdapter();
+    const pool = createPool(adapter);
+    pool.fill();
+
+    expect(pool.claim({ model: "claude-opus-4" })).toBeNull();
+    expect(pool.claim({ permissionMode: "bypassPermissions" })).toBeNull();
+    expect(pool.claim({ mcpServers: { promptx: false } })).toBeNull();
+    expect(pool.getStatus()).toMatchObject({ ready: 2, misses: 3 });
+  });
+
+  it("should skip runs the adapter no longer holds", () => {
+    const adapter = createAdapter();
+    const pool = createPool(adapter);
+    pool.fill();
+    adapter.warm.delete("warm-1");
+
+    expect(pool.claim()).toBe("warm-2");
+  });
+
+  it("should discard every run on drain and stop refilling", async () => {
+    const adapter = createAdapter();
+    const pool = createPool(adapter);
+    pool.fill();
+
+    pool.drain();
+    pool.claim();
+    await nextTick();
+
+    expect(adapter.discardWarmRun).toHaveBeenCalledTimes(2);
+    expect(adapter.prewarm).toHaveBeenCalledTimes(2);
+    expect(pool.getStatus().ready).toBe(0);
+  });
+
+  it("should stay empty when disabled", () => {
+    const adapter = createAdapter();
+    const pool = createPool(adapter, 0);
+    pool.fill();
+
+    expect(pool.claim()).toBeNull();
+    expect(adapter.prewarm).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,136 @@
+import type { Logger } from "@deepracticex/logger";
+import type { SessionOptions, WarmupPoolStatus } from "~/types";
+import { thinkingTokens, type ClaudeAdapter } from "./claude-adapter";
+
+/**
+ * WarmupPool - keeps pre-spawned SDK queries ready for new sessions
+ *
+ * Starting the Claude SDK process (settings, MCP servers) dominates
+ * first-token latency. The pool prewarms queries with the agent defaults
+ * and hands one to each new session whose options match; everything else
+ * cold starts. Claimed entries are replaced in the background.
+ */
+export class WarmupPool {
+  private ready: string[] = []; // warmRunIds, oldest first
+  private hits = 0;
+  private misses = 0;
+  private refillScheduled = false;
+  private stopped = false;
+  private logger: Logger;
+
+  constructor(
+    private readonly adapter: ClaudeAdapter,
+    private readonly size: number,
+    private readonly options: SessionOptions, // Options every pooled query is started with
+    logger: Logger
+  ) {
+    this.logger = logger;
+  }
+
+  /**
+   * Spawn queries until the pool is full
+   */
+  fill(): void {
+    this.refillScheduled = false;
+    if (this.stopped) {
+      return;
+    }
+
+    // Drop entries the adapter no longer knows about
+    this.ready = this.ready.filter((warmRunId) => this.adapter.isWarm(warmRunId));
+
+    const missing = this.size - this.ready.length;
+    for (let i = 0; i < missing; i++) {
+      try {
+        this.ready.push(this.adapter.prewarm(this.options));
+      } catch (err) {
+        this.logger.warn({ err }, "Failed to prewarm query");
+        break;
+      }
+    }
+
+    if (missing > 0) {
+      this.logger.debug({ ready: this.ready.length, size: this.size }, "Warmup pool filled");
+    }
+  }
+
+  /**
+   * Take a prewarmed query for a new session
+   *
+   * @returns warmRunId, or null if the pool is empty or the options need a cold start
+   */
+  claim(options: SessionOptions = {}): string | null {
+    if (this.size === 0) {
+      return null;
+    }
+
+    let warmRunId: string | undefined;
+    if (this.matches(options)) {
+      while ((warmRunId = this.ready.shift()) && !this.adapter.isWarm(warmRunId)) {
+        // Skip entries discarded behind our back
+      }
+    }
+
+    if (warmRunId) {
+      this.hits++;
+    } else {
+      this.misses++;
+    }
+
+    this.logger.debug(
+      { warm: !!warmRunId, ready: this.ready.length, hits: this.hits, misses: this.misses },
+      "Warmup pool claim"
+    );
+
+    this.scheduleRefill();
+    return warmRunId || null;
+  }
+
+  getStatus(): WarmupPoolStatus {
+    return {
+      size: this.size,
+      ready: this.ready.length,
+      hits: this.hits,
+      misses: this.misses,
+    };
+  }
+
+  /**
+   * Discard every pooled query and stop refilling
+   */
+  drain(): void {
+    this.stopped = true;
+    for (const warmRunId of this.ready) {
+      this.adapter.discardWarmRun(warmRunId);
+    }
+    this.logger.debug({ discarded: this.ready.length }, "Warmup pool drained");
+    this.ready = [];
+  }
+
+  /**
+   * Pooled queries are started with fixed options, only matching sessions can use them
+   */
+  private matches(options: SessionOptions): boolean {
+    return (
+      (options.model || this.options.model) === this.options.model &&
+      (options.permissionMode || this.options.permissionMode) === this.options.permissionMode &&
+      (options.systemPrompt || this.options.systemPrompt) === this.options.systemPrompt &&
+      thinkingTokens(options.thinking || this.options.thinking) ===
+        thinkingTokens(this.options.thinking) &&
+      // Pooled queries run every MCP server
+      Object.values(options.mcpServers || {}).every(Boolean) &&
+      !options.resume
+    );
+  }
+
+  /**
+   * Refill outside the caller's path so claiming stays fast
+   */
+  private scheduleRefill(): void {
+    if (this.refillScheduled || this.stopped) {
+      return;
+    }
+    this.refillScheduled = true;
+    setImmediate(() => this.fill());
+  }
+}
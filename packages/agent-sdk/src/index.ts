@@ -6,6 +6,15 @@ export { getConfig, getConfigValue } from "./core/config/api/getConfig";
 export { updateConfig, updateConfigFromUI } from "./core/config/api/updateConfig";
 export { validateConfig, validateConfigValue } from "./core/config/api/validateConfig";
 
+// Pricing used for session cost, AgentConfig.pricing is merged over it
+export { DEFAULT_PRICING } from "./core/session-cost";
+
+// Error thrown by failed runs, code tells why
+export { AgentError } from "./core/agent-error";
+
+// Context windows per model ID prefix, until the Claude SDK reports the window of a model
+export { DEFAULT_CONTEXT_WINDOWS } from "./core/context-window";
+
 // Types
 export type {
   Agent,
@@ -13,17 +22,91 @@ export type {
   AgentConfig,
   LoggerConfig,
   SessionOptions,
+  ThinkingOption,
+  McpServerConfig,
+  McpStdioServerConfig,
+  McpHttpServerConfig,
+  McpSseServerConfig,
+  McpServerSelection,
+  McpServerInfo,
+  SubagentDefinition,
+  ModelPricing,
+  Budget,
+  BudgetUsage,
+  BudgetExceeded,
+  ContextOptions,
+  ContextWarning,
+  SendMode,
+  SendOptions,
+  AskOptions,
+  AskResult,
+  ChatOptions,
+  QueuedMessage,
+  QueueUpdate,
+  AgentErrorCode,
+  RetryOptions,
+  RetryScheduled,
+  TimeoutOptions,
+  RunStalled,
+  AgentHooks,
+  Hook,
+  HookContext,
+  HookResult,
+  BeforeSendContext,
+  BeforeSendResult,
+  AfterTurnContext,
+  ToolUseContext,
+  ToolUseResult,
+  ToolResultContext,
+  TurnErrorContext,
+  AgentTool,
+  ToolCallResult,
+  ToolCallContent,
   AgentStatus,
+  WarmupPoolStatus,
   SessionState,
   SessionEvent,
   SessionMetadata,
+  ForkSessionOptions,
+  RewindSessionOptions,
+  RewindResult,
+  SearchSessionsOptions,
+  SearchMatchField,
+  SessionSearchMatch,
+  SessionSearchResult,
+  SessionStore,
+  StoredSession,
+  StoredSessionInfo,
   TokenUsage,
+  TokenBreakdown,
+  TurnUsage,
+  SessionCost,
+  TurnCost,
+  ModelCost,
+  CostBreakdown,
   AnyMessage,
+  MessageType,
   UserMessage,
+  MessageContent,
+  ContentBlock,
+  TextContent,
+  ImageContent,
+  DocumentContent,
+  Attachment,
   AssistantMessage,
-  ToolMessage,
+  ThinkingMessage,
+  ToolUseMessage,
+  ToolResult,
   SystemMessage,
+  Compaction,
+  ErrorMessage,
   PerformanceMetrics,
+  PermissionMode,
+  PermissionScope,
+  PermissionRequest,
+  PermissionDecision,
+  PermissionRule,
+  PermissionEvent,
 } from "./types";
 
 // Config types (from agent-config)
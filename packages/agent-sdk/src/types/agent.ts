@@ -1,7 +1,25 @@
 import type { Observable } from "rxjs";
-import type { SessionOptions } from "./config";
+import type {
+  Budget,
+  BudgetUsage,
+  McpServerInfo,
+  SessionOptions,
+  SubagentDefinition,
+} from "./config";
 import type { SessionEvent, AgentStatus } from "./events";
-import type { Session } from "./session";
+import type {
+  Session,
+  ForkSessionOptions,
+  RewindSessionOptions,
+  RewindResult,
+  SearchSessionsOptions,
+  SessionSearchResult,
+} from "./session";
+import type { MessageContent } from "./message";
+import type { AskOptions, AskResult, ChatOptions } from "./session";
+import type { AgentHooks } from "./hooks";
+import type { AgentTool } from "./tool";
+import type { z } from "zod";
 
 /**
  * Agent interface - main entry point for the SDK
@@ -15,13 +33,39 @@ export interface Agent {
   createSession(options?: SessionOptions): Promise<Session>;
   getSession(id: string): Session | null;
   getSessions(limit?: number, offset?: number): Session[];
+  forkSession(sessionId: string, options: ForkSessionOptions): Promise<Session>;
+  rewindSession(sessionId: string, options: RewindSessionOptions): Promise<RewindResult>;
+  deleteSession(sessionId: string): Promise<void>; // Removes its transcript and stored copy too
+  searchSessions(query: string, options?: SearchSessionsOptions): Promise<SessionSearchResult[]>;
 
   // Quick API
-  chat(message: string, options?: SessionOptions): Promise<Session>;
+  chat(message: MessageContent, options?: ChatOptions): Promise<Session>;
+  ask<T>(
+    prompt: string,
+    schema: z.ZodType<T>,
+    options?: AskOptions & ChatOptions
+  ): Promise<AskResult<T>>; // JSON answer validated by the schema, in a new session
 
   // Observables
   sessions$(): Observable<SessionEvent>;
 
+  // Budget shared by all sessions
+  getBudget(): Budget;
+  setBudget(budget: Budget): void; // Raise a reached limit to continue
+  getBudgetUsage(): BudgetUsage;
+
+  // Hooks
+  use(hooks: AgentHooks): () => void; // Returns a function removing them again
+
+  // In-process tools, available from the next run
+  registerTool<Shape extends z.ZodRawShape>(tool: AgentTool<Shape>): () => void; // Returns a function removing it again
+
+  // MCP servers sessions can turn on or off
+  getMcpServers(): McpServerInfo[];
+
+  // Subagents from AgentConfig.subagents and .claude/agents/*.md
+  getSubagents(): SubagentDefinition[];
+
   // Status
   getStatus(): AgentStatus;
 }
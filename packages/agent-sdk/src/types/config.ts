@@ -1,8 +1,28 @@
+import type { PermissionMode } from "./permission";
+import type { SessionStore } from "./store";
+import type { RetryOptions, TimeoutOptions } from "./error";
+import type { AgentHooks } from "./hooks";
+import type { AgentTool } from "./tool";
+
 export interface AgentConfig {
   workspace: string;
   model?: string;
   systemPrompt?: string;
-  mcpServers?: Record<string, McpServerConfig>;
+  permissionMode?: PermissionMode; // Default for new sessions (default: "bypassPermissions")
+  thinking?: ThinkingOption; // Default for new sessions (default: "off")
+  pricing?: Record<string, ModelPricing>; // Per model ID prefix, merged over the built-in table
+  budget?: Budget; // All sessions together, counted since the agent started (default: unlimited)
+  sessionBudget?: Budget; // Default for new sessions (default: unlimited)
+  context?: ContextOptions; // Context window size, warning and auto compaction
+  retry?: RetryOptions; // Retry of runs failing with transient errors (default: 3 retries)
+  timeouts?: TimeoutOptions; // Stop runs whose SDK stream stalled (default: 15 minutes idle)
+  hooks?: AgentHooks | AgentHooks[]; // Observe and transform turns and tool calls, more with Agent.use()
+  warmupPoolSize?: number; // Prewarmed SDK queries kept ready for new sessions (default: 0)
+  mcpServers?: Record<string, McpServerConfig>; // By name, all enabled unless a session turns them off
+  tools?: AgentTool<any>[]; // In-process tools, more with Agent.registerTool()
+  subagents?: SubagentDefinition[]; // Delegated to with the Task tool, over .claude/agents/*.md of the same name
+  databasePath?: string; // Index sessions in this SQLite file (default: read JSONL transcripts only)
+  sessionStore?: SessionStore; // Custom store, takes precedence over databasePath
   logger?: LoggerConfig;
 }
 
@@ -15,14 +35,119 @@ export interface LoggerConfig {
   colors?: boolean;
 }
 
-export interface McpServerConfig {
+export type McpServerConfig = McpStdioServerConfig | McpHttpServerConfig | McpSseServerConfig;
+
+/**
+ * MCP server run as a child process, talking over stdin and stdout
+ */
+export interface McpStdioServerConfig {
+  type?: "stdio";
   command: string;
   args?: string[];
   env?: Record<string, string>;
 }
 
+/**
+ * Remote MCP server over streamable HTTP
+ */
+export interface McpHttpServerConfig {
+  type: "http";
+  url: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Remote MCP server over server-sent events
+ */
+export interface McpSseServerConfig {
+  type: "sse";
+  url: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * MCP servers a session turns on or off by name, servers not listed stay enabled
+ */
+export type McpServerSelection = Record<string, boolean>;
+
+/**
+ * An MCP server sessions can use, "sdk" is the server of the agent tools
+ */
+export interface McpServerInfo {
+  name: string;
+  type: "stdio" | "http" | "sse" | "sdk";
+}
+
+/**
+ * A subagent the model can delegate work to with the Task tool
+ * Runs with its own prompt and context, its output is nested under the Task call
+ */
+export interface SubagentDefinition {
+  name: string; // Letters, digits and hyphens, the subagent_type of the Task call
+  description: string; // Tells the model when to delegate to it
+  prompt: string; // System prompt of the subagent
+  tools?: string[]; // Allowed tools (default: all tools of the session)
+  model?: "sonnet" | "opus" | "haiku" | "inherit"; // Default: the session model
+  source?: "config" | "file"; // Set by the agent: AgentConfig.subagents or .claude/agents/<name>.md
+}
+
+/**
+ * Extended thinking: off, or on with a token budget per response
+ * The Claude API needs a budget of at least 1024 tokens
+ */
+export type ThinkingOption = "off" | { budgetTokens: number };
+
+/**
+ * Context window handling, thresholds are shares of the window (0 turns one off)
+ */
+export interface ContextOptions {
+  window?: number; // Tokens, overrides the window of the session model
+  warningThreshold?: number; // Emit a context warning (default: 0.8)
+  autoCompactThreshold?: number; // Compact the session after its run (default: 0.9)
+}
+
+/**
+ * Model price in USD per million tokens
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheCreation: number;
+}
+
+/**
+ * Spending limits, a run is interrupted as soon as it goes past one
+ * Usage is counted from the runs of this agent, not from session history
+ */
+export interface Budget {
+  maxTokens?: number; // All tokens, cache reads and writes included
+  maxCostUsd?: number; // Priced with the agent pricing table
+  maxTurns?: number; // Model responses, every step of a tool loop counts
+}
+
+export interface BudgetUsage {
+  tokens: number;
+  costUsd: number;
+  turns: number;
+}
+
+/**
+ * A budget that was reached, "agent" budgets are shared by all sessions
+ */
+export interface BudgetExceeded {
+  scope: "session" | "agent";
+  limit: keyof Budget;
+  budget: Budget;
+  usage: BudgetUsage;
+}
+
 export interface SessionOptions {
   resume?: string;
   model?: string;
   systemPrompt?: string;
+  permissionMode?: PermissionMode;
+  thinking?: ThinkingOption;
+  budget?: Budget;
+  mcpServers?: McpServerSelection;
 }
@@ -0,0 +1,63 @@
+/**
+ * What made a run fail, clients show guidance per code
+ *
+ * - rate_limited: API rate limit (429)
+ * - overloaded: API overloaded (529) or server errors
+ * - auth_failed: invalid or revoked API key, no credits left
+ * - invalid_model: the model does not exist or the account can't use it
+ * - network: connection failed or timed out
+ * - process_crashed: the Claude CLI process exited
+ * - aborted: the run was stopped
+ * - timeout: the run stalled and was stopped by the watchdog
+ * - invalid_output: ask() got no answer matching its schema
+ * - unknown: anything else
+ */
+export type AgentErrorCode =
+  | "rate_limited"
+  | "overloaded"
+  | "auth_failed"
+  | "invalid_model"
+  | "network"
+  | "process_crashed"
+  | "aborted"
+  | "timeout"
+  | "invalid_output"
+  | "unknown";
+
+/**
+ * Automatic retry of runs that failed with a transient error
+ * (rate_limited, overloaded, network, process_crashed), the delay doubles per attempt
+ */
+export interface RetryOptions {
+  maxRetries?: number; // 0 disables retrying (default: 3)
+  initialDelayMs?: number; // Delay before the first retry (default: 2000)
+  maxDelayMs?: number; // Cap of the delay (default: 30000)
+}
+
+/**
+ * A failed run is retried after delayMs
+ */
+export interface RetryScheduled {
+  code: AgentErrorCode;
+  message: string; // Error of the failed attempt
+  attempt: number; // Retry number, from 1
+  maxRetries: number;
+  delayMs: number;
+}
+
+/**
+ * Watchdog of streaming runs, a run that hits a timeout is stopped with a timeout error
+ * The idle timer pauses while tool approvals are pending, 0 turns a timeout off
+ */
+export interface TimeoutOptions {
+  idleMs?: number; // Longest wait for the next SDK message (default: 900000)
+  runMs?: number; // Longest a run may stream (default: 0)
+}
+
+/**
+ * A run stopped by the watchdog
+ */
+export interface RunStalled {
+  reason: "idle" | "run"; // No SDK message for idleMs, or streaming for longer than runMs
+  timeoutMs: number;
+}
@@ -1,12 +1,25 @@
+import type { PermissionRequest, PermissionDecision } from "./permission";
+import type { BudgetExceeded } from "./config";
+import type { ContextWarning, QueuedMessage } from "./session";
+import type { RetryScheduled, RunStalled } from "./error";
+
 export interface PerformanceMetrics {
   avgResponseTime: number;
   totalSessions: number;
   cacheHitRate: number;
 }
 
+export interface WarmupPoolStatus {
+  size: number; // Configured pool size
+  ready: number; // Prewarmed queries waiting for a session
+  hits: number; // Sessions started on a prewarmed query
+  misses: number; // Sessions that had to cold start
+}
+
 export interface AgentStatus {
   ready: boolean;
-  warmupPoolSize: number;
+  warmupPoolSize: number; // Prewarmed queries currently ready
+  warmupPool: WarmupPoolStatus;
   activeSessions: number;
   metrics: PerformanceMetrics;
 }
@@ -15,4 +28,16 @@ export type SessionEvent =
   | { type: "created"; sessionId: string }
   | { type: "updated"; sessionId: string }
   | { type: "deleted"; sessionId: string }
-  | { type: "streaming"; sessionId: string; streamEvent: any };
+  | { type: "streaming"; sessionId: string; streamEvent: any }
+  | { type: "permission_request"; sessionId: string; request: PermissionRequest }
+  | {
+      type: "permission_resolved";
+      sessionId: string;
+      requestId: string;
+      decision: PermissionDecision;
+    }
+  | { type: "budget_exceeded"; sessionId: string; exceeded: BudgetExceeded }
+  | { type: "context_warning"; sessionId: string; warning: ContextWarning }
+  | { type: "retry_scheduled"; sessionId: string; retry: RetryScheduled }
+  | { type: "run_stalled"; sessionId: string; stall: RunStalled }
+  | { type: "queue_updated"; sessionId: string; queue: QueuedMessage[]; sent?: QueuedMessage };
@@ -0,0 +1,82 @@
+import type { AnyMessage, MessageContent } from "./message";
+import type { AgentErrorCode } from "./error";
+
+/**
+ * What every hook gets
+ * A turn is one prompt and the run answering it, its hooks share one metadata record
+ */
+export interface HookContext {
+  sessionId: string;
+  metadata: Record<string, unknown>; // Kept on the turn's user message once the turn ended
+}
+
+/**
+ * A message about to be sent, before it is stored, queued or streamed
+ */
+export interface BeforeSendContext extends HookContext {
+  content: MessageContent; // As rewritten by the hooks before
+}
+
+/**
+ * A tool call the model made, before the tool runs
+ */
+export interface ToolUseContext extends HookContext {
+  toolName: string;
+  toolUseId?: string;
+  input: Record<string, unknown>;
+}
+
+/**
+ * A tool call that ran
+ */
+export interface ToolResultContext extends ToolUseContext {
+  response: unknown; // What the tool returned
+}
+
+/**
+ * A turn whose run completed
+ */
+export interface AfterTurnContext extends HookContext {
+  content: MessageContent; // The prompt as sent
+  messages: AnyMessage[]; // What the turn added, its user message first
+}
+
+/**
+ * A turn that failed, after its retries
+ */
+export interface TurnErrorContext extends HookContext {
+  content: MessageContent;
+  error: Error;
+  code: AgentErrorCode;
+}
+
+export interface HookResult {
+  metadata?: Record<string, unknown>; // Merged into the turn metadata
+}
+
+export interface BeforeSendResult extends HookResult {
+  content?: MessageContent; // Send this instead
+}
+
+export interface ToolUseResult extends HookResult {
+  deny?: string; // Veto the call, the reason is passed back to the model
+}
+
+/**
+ * A hook may be async, returning nothing leaves everything as it is
+ */
+export type Hook<C extends HookContext, R extends HookResult = HookResult> = (
+  context: C
+) => R | void | Promise<R | void>;
+
+/**
+ * Hooks into the turns and tool calls of every session
+ * Hooks of one kind run in the order they were registered
+ */
+export interface AgentHooks {
+  beforeSend?: Hook<BeforeSendContext, BeforeSendResult>; // Rewrite the prompt, throw to reject send()
+  afterTurn?: Hook<AfterTurnContext>;
+  onToolUse?: Hook<ToolUseContext, ToolUseResult>; // The first deny wins, later hooks don't run
+  onToolResult?: Hook<ToolResultContext>;
+  onError?: Hook<TurnErrorContext>;
+}
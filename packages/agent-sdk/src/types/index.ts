@@ -3,3 +3,8 @@ export * from "./message";
 export * from "./session";
 export * from "./agent";
 export * from "./events";
+export * from "./permission";
+export * from "./store";
+export * from "./error";
+export * from "./hooks";
+export * from "./tool";
@@ -1,11 +1,36 @@
-export type MessageType = "user" | "assistant" | "tool" | "system";
+export type MessageType = "user" | "assistant" | "thinking" | "tool_use" | "system" | "error";
 
-export interface ToolUse {
-  id: string;
-  name: string;
-  input: unknown;
+export type ImageMediaType = "image/jpeg" | "image/png" | "image/gif" | "image/webp";
+export type DocumentMediaType = "application/pdf" | "text/plain";
+
+export interface TextContent {
+  type: "text";
+  text: string;
+}
+
+export interface ImageContent {
+  type: "image";
+  mediaType: ImageMediaType;
+  data: string; // Base64 encoded, without data: URL prefix
+  name?: string;
+}
+
+export interface DocumentContent {
+  type: "document";
+  mediaType: DocumentMediaType;
+  data: string; // Base64 for PDF, plain text for text/plain
+  name?: string;
 }
 
+export type ContentBlock = TextContent | ImageContent | DocumentContent;
+export type Attachment = ImageContent | DocumentContent;
+
+/**
+ * Content accepted by Session.send()
+ * A plain string is shorthand for a single text block
+ */
+export type MessageContent = string | ContentBlock[];
+
 export interface BaseMessage {
   id: string;
   timestamp: Date;
@@ -14,28 +39,80 @@ export interface BaseMessage {
 
 export interface UserMessage extends BaseMessage {
   type: "user";
-  content: string;
+  content: string; // Text part of the message
+  attachments?: Attachment[]; // Images and documents sent with the message
+  metadata?: Record<string, unknown>; // Attached by hooks during the turn, not kept in transcripts
 }
 
+/**
+ * Text written by the agent
+ */
 export interface AssistantMessage extends BaseMessage {
   type: "assistant";
   content: string;
-  thinking?: string;
-  toolUses?: ToolUse[];
 }
 
-export interface ToolMessage extends BaseMessage {
-  type: "tool";
+/**
+ * Extended thinking the agent did before answering
+ */
+export interface ThinkingMessage extends BaseMessage {
+  type: "thinking";
+  content: string;
+}
+
+/**
+ * Result of a tool call, paired onto its ToolUseMessage
+ */
+export interface ToolResult {
+  content: string; // Text blocks of the result, joined
+  isError: boolean;
+  timestamp: Date;
+  toolUseResult?: unknown; // Structured result the Claude CLI records in transcripts (not in live streams)
+}
+
+/**
+ * Tool call made by the agent
+ * toolResult is null until the result arrives (or if the run stopped first)
+ */
+export interface ToolUseMessage extends BaseMessage {
+  type: "tool_use";
+  toolId: string;
   toolName: string;
-  input: unknown;
-  output: unknown;
-  duration: number;
+  toolInput: Record<string, unknown>;
+  toolResult: ToolResult | null;
+  subagentMessages?: AnyMessage[]; // Task calls: transcript of the subagent run it started
 }
 
+/**
+ * Notice from the Claude SDK, e.g. subtype "compact_boundary"
+ */
 export interface SystemMessage extends BaseMessage {
   type: "system";
   subtype: string;
-  data: unknown;
+  content: string;
+  compaction?: Compaction; // Set on compact_boundary
+}
+
+/**
+ * Where older turns were summarized, the conversation goes on from the summary
+ */
+export interface Compaction {
+  trigger: "manual" | "auto";
+  preTokens: number; // Context size before compaction
+}
+
+/**
+ * Failed run or API error reported by the Claude SDK
+ */
+export interface ErrorMessage extends BaseMessage {
+  type: "error";
+  content: string;
 }
 
-export type AnyMessage = UserMessage | AssistantMessage | ToolMessage | SystemMessage;
+export type AnyMessage =
+  | UserMessage
+  | AssistantMessage
+  | ThinkingMessage
+  | ToolUseMessage
+  | SystemMessage
+  | ErrorMessage;
@@ -0,0 +1,61 @@
+/**
+ * Permission mode for tool execution
+ *
+ * - default: ask before any tool that is not pre-approved
+ * - acceptEdits: auto-approve file edits, ask for everything else
+ * - plan: read-only planning, no tool execution
+ * - bypassPermissions: run every tool without asking
+ */
+export type PermissionMode = "default" | "acceptEdits" | "plan" | "bypassPermissions";
+
+/**
+ * How long a permission decision is remembered
+ *
+ * - once: only this tool call
+ * - session: matching calls in the current session (allow: the rule the SDK
+ *   suggested, e.g. a Bash command prefix, deny: every call of the tool)
+ * - always: session + persisted as a rule in .claude/settings.local.json, allow only
+ */
+export type PermissionScope = "once" | "session" | "always";
+
+/**
+ * A tool call waiting for user approval
+ */
+export interface PermissionRequest {
+  id: string;
+  toolName: string;
+  input: Record<string, unknown>;
+  toolUseId?: string;
+  createdAt: Date;
+}
+
+/**
+ * User answer to a PermissionRequest
+ * The Claude SDK persists allow rules only, so a deny lasts the session at most
+ */
+export type PermissionDecision =
+  | {
+      behavior: "allow";
+      scope?: PermissionScope; // Defaults to "once"
+      message?: string;
+    }
+  | {
+      behavior: "deny";
+      scope?: Exclude<PermissionScope, "always">; // Defaults to "once"
+      message?: string; // Deny reason / guidance passed back to the model
+    };
+
+/**
+ * Decision remembered in the current session
+ * Without ruleContent and input it covers every call of the tool
+ */
+export interface PermissionRule {
+  toolName: string;
+  behavior: "allow" | "deny";
+  ruleContent?: string; // Bash command, "prefix:*" for every command starting with the prefix
+  input?: Record<string, unknown>; // Only calls with exactly this input
+}
+
+export type PermissionEvent =
+  | { type: "requested"; request: PermissionRequest }
+  | { type: "resolved"; requestId: string; decision: PermissionDecision };
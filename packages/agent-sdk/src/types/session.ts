@@ -1,6 +1,22 @@
 import type { Observable } from "rxjs";
-import type { AnyMessage } from "./message";
+import type { z } from "zod";
+import type { AnyMessage, Attachment, MessageContent } from "./message";
 import type { SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+import type {
+  Budget,
+  BudgetExceeded,
+  BudgetUsage,
+  McpServerSelection,
+  ThinkingOption,
+} from "./config";
+import type { RetryScheduled, RunStalled } from "./error";
+import type {
+  PermissionMode,
+  PermissionRequest,
+  PermissionDecision,
+  PermissionRule,
+  PermissionEvent,
+} from "./permission";
 
 export type SessionState =
   | "created"
@@ -11,15 +27,96 @@ export type SessionState =
   | "aborted"
   | "deleted";
 
+/**
+ * Context of a session: how much of the model's context window the conversation fills
+ * Taken from the last model response, what the session spent in total is in getCost()
+ */
 export interface TokenUsage {
-  used: number;
+  used: number; // Last request and its response, cache reads and writes included
+  total: number; // Context window of the model
+  breakdown: TokenBreakdown; // used, per token kind
+}
+
+/**
+ * The context of a session reached the warning threshold of its window
+ */
+export interface ContextWarning {
+  usage: TokenUsage;
+  threshold: number; // Share of the window
+}
+
+/**
+ * How send() delivers a message while the session is running
+ * - queue: after the current run and the messages queued before it
+ * - steer: into the running turn (streamed input), queued when the run can't take it anymore
+ */
+export type SendMode = "queue" | "steer";
+
+export interface SendOptions {
+  mode?: SendMode; // default: "queue"
+}
+
+/**
+ * Message waiting for the session to finish its current run
+ */
+export interface QueuedMessage {
+  id: string;
+  content: string; // Text part of the message
+  attachments?: Attachment[];
+  queuedAt: Date;
+}
+
+/**
+ * Queue of a session after it changed
+ */
+export interface QueueUpdate {
+  queue: QueuedMessage[];
+  sent?: QueuedMessage; // Left the queue, its run starts now
+}
+
+export interface TokenBreakdown {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheCreation: number;
+}
+
+/**
+ * Tokens one turn (a prompt and the run answering it) used, per model
+ * Subagents and tools can run on other models than the session itself
+ */
+export interface TurnUsage {
+  timestamp: Date;
+  models: Record<string, TokenBreakdown>;
+}
+
+/**
+ * Cost in USD, per token kind
+ */
+export interface CostBreakdown extends TokenBreakdown {
   total: number;
-  breakdown: {
-    input: number;
-    output: number;
-    cacheRead: number;
-    cacheCreation: number;
-  };
+}
+
+export interface ModelCost {
+  model: string;
+  tokens: TokenBreakdown;
+  cost: CostBreakdown;
+  priced: boolean; // false when the pricing table has no entry for the model, its cost is 0
+}
+
+export interface TurnCost {
+  timestamp: Date;
+  models: ModelCost[];
+  cost: CostBreakdown;
+}
+
+/**
+ * Cost of a session, computed from its turn usage and the agent pricing table
+ */
+export interface SessionCost {
+  turns: TurnCost[];
+  models: ModelCost[]; // All turns, per model
+  cost: CostBreakdown;
 }
 
 export interface SessionMetadata {
@@ -27,6 +124,8 @@ export interface SessionMetadata {
   model: string;
   startTime: Date;
   endTime?: Date;
+  parentSessionId?: string; // Set on forked sessions
+  forkedFromMessageId?: string; // Message in the parent the fork was taken at
 }
 
 /**
@@ -35,8 +134,86 @@ export interface SessionMetadata {
  */
 export interface SessionCreateOptions {
   model?: string;
-  initialMessage: string; // Required: lazy session creation
+  initialMessage: MessageContent; // Required: lazy session creation
   tempId?: string; // Optional: frontend temp ID for streaming events before real ID is available
+  permissionMode?: PermissionMode;
+  thinking?: ThinkingOption; // Extended thinking for this session (default: AgentConfig.thinking)
+  budget?: Budget; // Spending limits for this session (default: AgentConfig.sessionBudget)
+  mcpServers?: McpServerSelection; // Turn MCP servers off by name (default: all enabled)
+}
+
+/**
+ * Options of the session started by agent.chat() and agent.ask(), the message is their argument
+ */
+export type ChatOptions = Omit<SessionCreateOptions, "initialMessage" | "tempId">;
+
+/**
+ * Options for ask(), the typed answer API
+ */
+export interface AskOptions {
+  maxRetries?: number; // Prompts sent again with the validation error when the answer does not match (default: 2)
+}
+
+/**
+ * Answer of ask(), parsed by the schema
+ * Usage covers every attempt, tool calls and subagents included
+ */
+export interface AskResult<T> {
+  data: T;
+  sessionId: string;
+  attempts: number; // Prompts sent, 1 when the first answer matched
+  usage: TokenBreakdown;
+  cost: CostBreakdown; // Priced with the agent pricing table
+}
+
+/**
+ * Options for forking a session
+ * The fork keeps the whole turn containing atMessageId
+ */
+export interface ForkSessionOptions {
+  atMessageId: string;
+}
+
+/**
+ * Options for rewinding a session
+ */
+export interface RewindSessionOptions {
+  turns: number; // Turns to remove from the end of the conversation
+  restoreFiles?: boolean; // Undo file edits the agent made in the removed turns
+}
+
+/**
+ * Options for searching sessions
+ */
+export interface SearchSessionsOptions {
+  limit?: number; // Max matches over all sessions (default 50)
+  sessionIds?: string[]; // Only search these sessions
+  caseSensitive?: boolean;
+}
+
+export type SearchMatchField = "content" | "toolInput" | "toolOutput";
+
+export interface SessionSearchMatch {
+  messageId: string;
+  field: SearchMatchField;
+  snippet: string; // Text around the match
+  timestamp: Date;
+}
+
+/**
+ * Matches of one session, sessions are ordered newest first
+ */
+export interface SessionSearchResult {
+  sessionId: string;
+  summary: string;
+  matches: SessionSearchMatch[];
+}
+
+export interface RewindResult {
+  sessionId: string;
+  turns: number;
+  removedMessageIds: string[];
+  restoredFiles: string[]; // Absolute paths written back (or removed if created in those turns)
 }
 
 /**
@@ -48,7 +225,8 @@ export interface Session {
   readonly state: SessionState;
 
   // Actions
-  send(content: string): Promise<void>;
+  send(content: MessageContent, options?: SendOptions): Promise<void>; // Text or text + image/document blocks, queued while a run is active
+  ask<T>(prompt: string, schema: z.ZodType<T>, options?: AskOptions): Promise<AskResult<T>>; // JSON answer validated by the schema, the session must be idle
   abort(): Promise<void>;
   complete(): Promise<void>;
   delete(): Promise<void>;
@@ -56,10 +234,46 @@ export interface Session {
   // Observables
   messages$(): Observable<AnyMessage>;
   streamEvents$(): Observable<SDKMessage>;
+  permissionEvents$(): Observable<PermissionEvent>;
+  budgetEvents$(): Observable<BudgetExceeded>;
+  contextEvents$(): Observable<ContextWarning>;
+  retryEvents$(): Observable<RetryScheduled>;
+  stallEvents$(): Observable<RunStalled>;
+  queueEvents$(): Observable<QueueUpdate>;
+
+  // Queue
+  getQueue(): QueuedMessage[];
+  updateQueued(messageId: string, content: MessageContent): boolean;
+  cancelQueued(messageId: string): boolean;
+
+  // Permissions
+  getPermissionMode(): PermissionMode;
+  setPermissionMode(mode: PermissionMode): Promise<void>;
+  getPendingPermissions(): PermissionRequest[];
+  getPermissionRules(): PermissionRule[];
+  respondToPermission(requestId: string, decision: PermissionDecision): boolean;
+
+  // Extended thinking
+  getThinking(): ThinkingOption;
+  setThinking(thinking: ThinkingOption): void; // Applies from the next message
+
+  // MCP servers
+  getMcpServers(): McpServerSelection;
+  setMcpServers(selection: McpServerSelection): void; // Replaces the selection, applies from the next message
+
+  // Budget
+  getBudget(): Budget;
+  setBudget(budget: Budget): void; // Raise a reached limit to continue
+  getBudgetUsage(): BudgetUsage; // Runs of this agent only
+
+  // Context
+  compact(instructions?: string): Promise<void>; // Summarize older turns, the session goes on from the summary
 
   // Queries
-  getMessages(limit?: number, offset?: number): AnyMessage[];
+  getMessages(limit?: number, offset?: number): AnyMessage[]; // Reads an indexed session on first call
+  getMessageCount(): number | undefined; // undefined while an indexed session is not read and its count unknown
   getTokenUsage(): TokenUsage;
+  getCost(): SessionCost; // Reads an indexed session, like getMessages()
   getMetadata(): SessionMetadata;
   getLastError(): Error | null;
   summary(): string;
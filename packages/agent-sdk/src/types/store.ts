@@ -0,0 +1,41 @@
+import type { AnyMessage } from "./message";
+import type { SessionMetadata, TokenUsage, TurnUsage } from "./session";
+
+/**
+ * Session as persisted by a SessionStore
+ */
+export interface StoredSession {
+  id: string;
+  metadata: SessionMetadata;
+  messages: AnyMessage[];
+  tokenUsage: TokenUsage;
+  turns?: TurnUsage[]; // Token usage per turn, for cost (unknown when not stored)
+  updatedAt: Date;
+}
+
+/**
+ * Session listing entry (index header), without messages
+ * messageCount and tokenUsage are unknown for stores that only read the start of a session
+ */
+export interface StoredSessionInfo {
+  id: string;
+  metadata: SessionMetadata;
+  summary: string;
+  messageCount?: number;
+  tokenUsage?: TokenUsage;
+  updatedAt: Date;
+}
+
+/**
+ * SessionStore - persistence for historical sessions
+ *
+ * Claude CLI transcripts stay the source of truth for resuming, a store
+ * keeps what the agent needs to list and query sessions.
+ */
+export interface SessionStore {
+  list(): Promise<StoredSessionInfo[]>;
+  load(sessionId: string): StoredSession | null; // Synchronous, runs on first Session.getMessages()
+  save(session: StoredSession): Promise<void>; // Insert or replace
+  delete(sessionId: string): Promise<void>;
+  close(): void;
+}
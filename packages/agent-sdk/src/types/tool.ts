@@ -0,0 +1,26 @@
+import type { z } from "zod";
+
+/**
+ * Result of a tool call in MCP form
+ */
+export interface ToolCallResult {
+  content: ToolCallContent[];
+  isError?: boolean;
+}
+
+export type ToolCallContent =
+  | { type: "text"; text: string }
+  | { type: "image"; data: string; mimeType: string }; // Base64 data
+
+/**
+ * A TypeScript function the model can call, served by the agent's in-process MCP server
+ *
+ * The handler gets the input parsed by inputSchema. A string is returned as text,
+ * a ToolCallResult as it is, anything else as JSON. Thrown errors become error results.
+ */
+export interface AgentTool<Shape extends z.ZodRawShape = z.ZodRawShape> {
+  name: string; // Letters, digits, _ and -, the model sees mcp__agent__<name>
+  description: string; // Tells the model what the tool does and when to use it
+  inputSchema: z.ZodObject<Shape>;
+  handler: (input: z.infer<z.ZodObject<Shape>>) => unknown | Promise<unknown>;
+}